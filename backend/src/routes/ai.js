@@ -1,6 +1,7 @@
 import { Router } from 'express'
 import { VertexAI } from '@google-cloud/vertexai'
-import { calculateCredits, checkCredits, deductCredits, getUserCredits, CREDIT_PACKAGES } from '../services/credits.js'
+import { GoogleAuth } from 'google-auth-library'
+import { calculateCredits, calculateEmbeddingCredits, checkCredits, deductCredits, getUserCredits, CREDIT_PACKAGES } from '../services/credits.js'
 
 const router = Router()
 
@@ -9,6 +10,7 @@ const projectId = process.env.GOOGLE_CLOUD_PROJECT || process.env.GCLOUD_PROJECT
 const location = 'us-central1'
 
 let jsonModel = null
+let textModel = null
 
 function getJsonModel() {
   if (!jsonModel && projectId) {
@@ -25,6 +27,72 @@ function getJsonModel() {
   return jsonModel
 }
 
+// Plain text for streamed responses - JSON can't be shown until it's complete
+function getTextModel() {
+  if (!textModel && projectId) {
+    const vertexAI = new VertexAI({ project: projectId, location })
+    textModel = vertexAI.getGenerativeModel({
+      model: 'gemini-2.5-flash-lite',
+      generationConfig: {
+        maxOutputTokens: 2048,
+        temperature: 0.7
+      }
+    })
+  }
+  return textModel
+}
+
+// Embeddings go through the REST predict endpoint - the Vertex AI SDK only covers generation
+const EMBEDDING_MODEL = 'text-embedding-004'
+const MAX_EMBEDDING_TEXTS = 50
+const MAX_EMBEDDING_TEXT_LENGTH = 2000
+
+let googleAuth = null
+
+async function embedTexts(texts, taskType) {
+  if (!projectId) {
+    throw new Error('Vertex AI not configured. Set GOOGLE_CLOUD_PROJECT.')
+  }
+  if (!googleAuth) {
+    googleAuth = new GoogleAuth({ scopes: 'https://www.googleapis.com/auth/cloud-platform' })
+  }
+
+  const client = await googleAuth.getClient()
+  const url = `https://${location}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${location}/publishers/google/models/${EMBEDDING_MODEL}:predict`
+  const { data } = await client.request({
+    url,
+    method: 'POST',
+    data: { instances: texts.map(content => ({ content, task_type: taskType })) }
+  })
+  return data.predictions.map(prediction => prediction.embeddings.values)
+}
+
+// Clients that accept an event stream get the answer as it's generated
+function wantsStream(req) {
+  return (req.headers.accept || '').includes('text/event-stream')
+}
+
+function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+// Earlier turns of a chat, as prompt text. History items are { role, content }.
+function formatConversation(summary, history) {
+  const turns = Array.isArray(history)
+    ? history.filter(turn => (turn?.role === 'user' || turn?.role === 'assistant') && typeof turn.content === 'string')
+    : []
+  const parts = []
+  if (typeof summary === 'string' && summary.trim()) {
+    parts.push(`Summary of the earlier conversation:
+${summary.trim()}`)
+  }
+  if (turns.length > 0) {
+    parts.push(`Conversation so far:
+${turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n\n')}`)
+  }
+  return parts.join('\n\n')
+}
+
 // Middleware to check credits before AI request
 async function requireCredits(req, res, next) {
   const userId = req.headers['x-user-id']
@@ -99,6 +167,69 @@ ${JSON.stringify(schema, null, 2)}`
   }
 }
 
+// Helper to stream Gemini's answer as Server-Sent Events and handle credits.
+// Sends "token" events ({ text }) then "done" ({ _credits }) or "error" ({ error }).
+// When the client disconnects (Stop), generation ends and only the text
+// produced so far is billed.
+async function streamGeminiWithCredits(req, res, prompt, action) {
+  const model = getTextModel()
+  if (!model) {
+    throw new Error('Vertex AI not configured. Set GOOGLE_CLOUD_PROJECT.')
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+
+  let stopped = false
+  res.on('close', () => {
+    if (!res.writableFinished) stopped = true
+  })
+
+  let outputText = ''
+  try {
+    const { stream } = await model.generateContentStream(prompt)
+    for await (const chunk of stream) {
+      if (stopped) break
+      const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('') || ''
+      if (!text) continue
+      outputText += text
+      sendEvent(res, 'token', { text })
+    }
+  } catch (error) {
+    console.error(`${action} stream error:`, error)
+    if (!stopped) {
+      // Nothing is billed for a failed answer
+      sendEvent(res, 'error', { error: error.message })
+      res.end()
+      return
+    }
+  }
+
+  // A stopped answer costs what was generated, without the per-request minimum
+  const creditsToDeduct = stopped ? calculateCredits(outputText, 0) : calculateCredits(outputText)
+  let deductResult = { creditsUsed: 0, newBalance: req.currentBalance }
+  if (creditsToDeduct > 0) {
+    deductResult = await deductCredits(req.userId, creditsToDeduct, action, outputText)
+    if (!deductResult.success) {
+      console.error('Credit deduction failed:', deductResult.error)
+    }
+  }
+
+  if (!stopped) {
+    sendEvent(res, 'done', {
+      _credits: {
+        used: deductResult.creditsUsed || creditsToDeduct,
+        remaining: deductResult.newBalance
+      }
+    })
+    res.end()
+  }
+}
+
 // GET /ai/credits - Get user's credit balance
 router.get('/credits', async (req, res) => {
   try {
@@ -161,6 +292,9 @@ router.get('/packages', (req, res) => {
   })
 })
 
+// The prompts below are mirrored in src/lib/openAICompatible.ts for users' own
+// AI servers - keep the two in step.
+
 // POST /ai/summarize - Summarize note content
 router.post('/summarize', requireCredits, async (req, res) => {
   try {
@@ -174,6 +308,10 @@ router.post('/summarize', requireCredits, async (req, res) => {
 Content:
 ${content}`
 
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, prompt, 'summarize')
+    }
+
     const data = await callGeminiWithCredits(req, res, prompt, { result: "summary content here (markdown format)" }, 'summarize')
     res.json(data)
   } catch (error) {
@@ -195,6 +333,10 @@ router.post('/continue', requireCredits, async (req, res) => {
 Content:
 ${content}`
 
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, prompt, 'continue')
+    }
+
     const data = await callGeminiWithCredits(req, res, prompt, { result: "continuation content (markdown format)" }, 'continue')
     res.json(data)
   } catch (error) {
@@ -216,6 +358,10 @@ router.post('/improve', requireCredits, async (req, res) => {
 Content:
 ${content}`
 
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, prompt, 'improve')
+    }
+
     const data = await callGeminiWithCredits(req, res, prompt, { result: "improved text (markdown format)" }, 'improve')
     res.json(data)
   } catch (error) {
@@ -237,6 +383,10 @@ router.post('/translate', requireCredits, async (req, res) => {
 Content:
 ${content}`
 
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, prompt, 'translate')
+    }
+
     const data = await callGeminiWithCredits(req, res, prompt, { result: "translation (keep markdown format)" }, 'translate')
     res.json(data)
   } catch (error) {
@@ -258,6 +408,12 @@ router.post('/extract-tasks', requireCredits, async (req, res) => {
 Content:
 ${content}`
 
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, `${prompt}
+
+Return only a markdown task list, one "- [ ] task" per line.`, 'extract-tasks')
+    }
+
     const data = await callGeminiWithCredits(req, res, prompt, { tasks: ["task 1", "task 2"] }, 'extract-tasks')
     // Convert array to markdown task list
     const result = data.tasks.map(t => `- [ ] ${t}`).join('\n')
@@ -271,18 +427,23 @@ ${content}`
 // POST /ai/ask - Ask AI about note content
 router.post('/ask', requireCredits, async (req, res) => {
   try {
-    const { content, question } = req.body
+    const { content, question, history, summary } = req.body
     if (!content || !question) {
       return res.status(400).json({ error: 'Missing content or question' })
     }
 
-    const prompt = `Based on the following note content, answer the question concisely and clearly. IMPORTANT: Respond in the SAME language as the question. Use markdown format if needed (lists, code blocks, bold).
+    const conversation = formatConversation(summary, history)
+    const prompt = `Based on the following note content${conversation ? ' and the conversation so far' : ''}, answer the question concisely and clearly. IMPORTANT: Respond in the SAME language as the question. Use markdown format if needed (lists, code blocks, bold).
 
 Note content:
 ${content}
-
+${conversation ? `\n${conversation}\n` : ''}
 Question: ${question}`
 
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, prompt, 'ask')
+    }
+
     const data = await callGeminiWithCredits(req, res, prompt, { result: "answer (markdown format if needed)" }, 'ask')
     res.json(data)
   } catch (error) {
@@ -291,4 +452,115 @@ Question: ${question}`
   }
 })
 
+// POST /ai/custom - Run a custom AI action, its prompt already filled in with the note's text
+router.post('/custom', requireCredits, async (req, res) => {
+  try {
+    const { prompt } = req.body
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      return res.status(400).json({ error: 'Missing prompt' })
+    }
+
+    const fullPrompt = `${prompt.trim()}
+
+IMPORTANT: Respond with the result only, without any introduction. Use markdown format if appropriate.`
+
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, fullPrompt, 'custom')
+    }
+
+    const data = await callGeminiWithCredits(req, res, fullPrompt, { result: "result (markdown format if appropriate)" }, 'custom')
+    res.json(data)
+  } catch (error) {
+    console.error('Custom action error:', error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// POST /ai/summarize-chat - Fold older chat turns into a running summary
+router.post('/summarize-chat', requireCredits, async (req, res) => {
+  try {
+    const { messages, summary } = req.body
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return res.status(400).json({ error: 'Missing messages' })
+    }
+
+    const prompt = `Summarize the following conversation between a user and an AI assistant about a note, so it can be continued later. Keep the questions asked, the answers' key facts and any decisions. Merge in the earlier summary if there is one. IMPORTANT: Respond in the SAME language as the conversation. Be brief.
+
+${formatConversation(summary, messages)}`
+
+    const data = await callGeminiWithCredits(req, res, prompt, { result: "summary of the conversation" }, 'summarize-chat')
+    res.json(data)
+  } catch (error) {
+    console.error('Summarize chat error:', error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// POST /ai/embed - Embed note passages or a question for local retrieval
+router.post('/embed', requireCredits, async (req, res) => {
+  try {
+    const { texts, taskType } = req.body
+    if (!Array.isArray(texts) || texts.length === 0 || texts.some(text => typeof text !== 'string')) {
+      return res.status(400).json({ error: 'Missing texts' })
+    }
+    if (texts.length > MAX_EMBEDDING_TEXTS) {
+      return res.status(400).json({ error: `At most ${MAX_EMBEDDING_TEXTS} texts per request` })
+    }
+
+    const inputs = texts.map(text => text.slice(0, MAX_EMBEDDING_TEXT_LENGTH))
+    const embeddings = await embedTexts(inputs, taskType === 'RETRIEVAL_QUERY' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT')
+
+    const creditsToDeduct = calculateEmbeddingCredits(inputs)
+    const deductResult = await deductCredits(req.userId, creditsToDeduct, 'embed')
+    if (!deductResult.success) {
+      console.error('Credit deduction failed:', deductResult.error)
+    }
+
+    res.json({
+      embeddings,
+      _credits: {
+        used: deductResult.creditsUsed || creditsToDeduct,
+        remaining: deductResult.newBalance
+      }
+    })
+  } catch (error) {
+    console.error('Embed error:', error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+// POST /ai/ask-notes - Answer a question from excerpts of the user's notes.
+// Excerpts are { title, text }, retrieved on the device; the answer cites them as [n].
+router.post('/ask-notes', requireCredits, async (req, res) => {
+  try {
+    const { question, excerpts } = req.body
+    if (!question || !Array.isArray(excerpts)) {
+      return res.status(400).json({ error: 'Missing question or excerpts' })
+    }
+
+    const sources = excerpts
+      .filter(excerpt => typeof excerpt?.text === 'string')
+      .map((excerpt, index) => `[${index + 1}] ${excerpt.title || 'Untitled'}
+${excerpt.text}`)
+      .join('\n\n')
+
+    const prompt = `Answer the question using only the following excerpts from the user's notes. After each statement, cite the excerpts it comes from by number, like [1] or [2][3]. If the excerpts don't contain the answer, say so briefly. IMPORTANT: Respond in the SAME language as the question. Write plain text in short paragraphs or "- " lists, without other markdown.
+
+Excerpts:
+${sources || '(none)'}
+
+Question: ${question}`
+
+    if (wantsStream(req)) {
+      return await streamGeminiWithCredits(req, res, prompt, 'ask-notes')
+    }
+
+    const data = await callGeminiWithCredits(req, res, prompt, { result: "answer citing excerpts as [n]" }, 'ask-notes')
+    res.json(data)
+  } catch (error) {
+    console.error('Ask notes error:', error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
 export default router
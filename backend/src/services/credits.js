@@ -24,16 +24,30 @@ const MIN_CREDITS_PER_REQUEST = 5
 /**
  * Calculate credits needed for AI response
  * @param {string} outputText - The AI response text
+ * @param {number} minimum - Minimum charge (0 for responses the user stopped early)
  * @returns {number} Credits to deduct
  */
-export function calculateCredits(outputText) {
+export function calculateCredits(outputText, minimum = MIN_CREDITS_PER_REQUEST) {
   if (!outputText) return 0
   
   const charCount = outputText.length
   const calculatedCredits = Math.ceil(charCount / 100) * CREDITS_PER_100_CHARS
   
   // Minimum charge to cover API overhead
-  return Math.max(calculatedCredits, MIN_CREDITS_PER_REQUEST)
+  return Math.max(calculatedCredits, minimum)
+}
+
+// Embeddings are billed on input - they're far cheaper than generated text
+const EMBEDDING_CHARS_PER_CREDIT = 10000
+
+/**
+ * Calculate credits needed to embed texts
+ * @param {string[]} texts - The embedded texts
+ * @returns {number} Credits to deduct
+ */
+export function calculateEmbeddingCredits(texts) {
+  const charCount = texts.reduce((total, text) => total + text.length, 0)
+  return Math.max(1, Math.ceil(charCount / EMBEDDING_CHARS_PER_CREDIT))
 }
 
 /**
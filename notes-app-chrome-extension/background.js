@@ -1,5 +1,5 @@
 // Background service worker for Chrome Extension
-// Handles OAuth authentication, token management, and context menu
+// Handles OAuth authentication, token management, context menu and note reminders
 
 // Context menu translations for different languages
 const contextMenuTitles = {
@@ -129,8 +129,8 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   }
 })
 
-// Helper function to open app in a tab (used by context menu)
-async function openAppInTab() {
+// Helper function to open app in a tab and tell it about pending work (context menu, reminders)
+async function openAppInTab(message = { type: 'WEB_CONTENT_ADDED' }) {
   const url = chrome.runtime.getURL('index.html')
   const tabs = await chrome.tabs.query({ url })
   
@@ -139,7 +139,7 @@ async function openAppInTab() {
     await chrome.tabs.update(tabs[0].id, { active: true })
     await chrome.windows.update(tabs[0].windowId, { focused: true })
     // Send message to the app to handle the pending content
-    chrome.tabs.sendMessage(tabs[0].id, { type: 'WEB_CONTENT_ADDED' })
+    chrome.tabs.sendMessage(tabs[0].id, message)
   } else {
     // Open new tab - the app will check for pending content on load
     await chrome.tabs.create({ url })
@@ -193,6 +193,13 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return true
   }
   
+  if (request.type === 'SYNC_REMINDERS') {
+    scheduleReminders(request.reminders || [])
+      .then(() => sendResponse({ success: true }))
+      .catch(error => sendResponse({ error: error.message }))
+    return true
+  }
+  
   // Handle reset offscreen document request (after permission granted)
   if (request.type === 'reset-offscreen') {
     closeOffscreenDocument()
@@ -358,3 +365,105 @@ async function handleTokenRefresh() {
     return { success: false, error: error.message }
   }
 }
+
+// ============ Note reminders ============
+// The app sends every note reminder on change; each gets a chrome.alarms entry
+// so it notifies while the extension is closed. Occurrences shown here are
+// remembered locally, since the background can't edit notes.
+
+const REMINDER_ALARM_PREFIX = 'reminder:'
+
+function addMonths(at, months) {
+  const date = new Date(at)
+  const day = date.getDate()
+  date.setDate(1)
+  date.setMonth(date.getMonth() + months)
+  // Clamp to the last day of the month (Jan 31 -> Feb 28)
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+  date.setDate(Math.min(day, lastDay))
+  return date.getTime()
+}
+
+function addDays(at, days) {
+  const date = new Date(at)
+  date.setDate(date.getDate() + days)
+  return date.getTime()
+}
+
+// First occurrence not yet notified, or null if there is none
+// (same calendar rules as the web app's getNextOccurrence)
+function getPendingReminderTime(reminder, notifiedAt) {
+  if (reminder.repeat === 'none' || !reminder.repeat) {
+    return reminder.at > notifiedAt ? reminder.at : null
+  }
+
+  let at = reminder.at
+  for (let step = 1; at <= notifiedAt; step++) {
+    // Count months from the reminder's date so clamping doesn't compound (Jan 31 -> Feb 28 -> Mar 31)
+    if (reminder.repeat === 'monthly' || reminder.repeat === 'yearly') {
+      at = addMonths(reminder.at, step * (reminder.repeat === 'yearly' ? 12 : 1))
+    } else {
+      at = addDays(at, reminder.repeat === 'weekly' ? 7 : 1)
+    }
+  }
+  return at
+}
+
+async function scheduleReminders(reminders) {
+  const { notifiedReminders = {} } = await chrome.storage.local.get('notifiedReminders')
+
+  // Forget notes whose reminders were removed
+  const noteIds = new Set(reminders.map(reminder => reminder.noteId))
+  for (const noteId of Object.keys(notifiedReminders)) {
+    if (!noteIds.has(noteId)) delete notifiedReminders[noteId]
+  }
+  await chrome.storage.local.set({ reminders, notifiedReminders })
+
+  const alarms = await chrome.alarms.getAll()
+  await Promise.all(alarms
+    .filter(alarm => alarm.name.startsWith(REMINDER_ALARM_PREFIX))
+    .map(alarm => chrome.alarms.clear(alarm.name)))
+
+  for (const reminder of reminders) {
+    const notifiedAt = Math.max(reminder.notifiedAt || 0, notifiedReminders[reminder.noteId] || 0)
+    const when = getPendingReminderTime(reminder, notifiedAt)
+    if (when !== null) {
+      await chrome.alarms.create(REMINDER_ALARM_PREFIX + reminder.noteId, { when })
+    }
+  }
+}
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (!alarm.name.startsWith(REMINDER_ALARM_PREFIX)) return
+
+  const noteId = alarm.name.slice(REMINDER_ALARM_PREFIX.length)
+  const { reminders = [], notifiedReminders = {} } = await chrome.storage.local.get(['reminders', 'notifiedReminders'])
+  const reminder = reminders.find(r => r.noteId === noteId)
+  if (!reminder) return
+
+  chrome.notifications.create(alarm.name, {
+    type: 'basic',
+    iconUrl: 'icons/icon-128.png',
+    title: reminder.title || 'G-Note',
+    message: new Date(alarm.scheduledTime).toLocaleString(),
+    priority: 2
+  })
+
+  notifiedReminders[noteId] = Date.now()
+  await chrome.storage.local.set({ notifiedReminders })
+
+  // Recurring reminders: schedule the next occurrence
+  const next = getPendingReminderTime(reminder, Date.now())
+  if (next !== null) {
+    await chrome.alarms.create(alarm.name, { when: next })
+  }
+})
+
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  if (!notificationId.startsWith(REMINDER_ALARM_PREFIX)) return
+  chrome.notifications.clear(notificationId)
+
+  // The app opens the note on load, or when told to if it's already open
+  await chrome.storage.local.set({ pendingReminderNoteId: notificationId.slice(REMINDER_ALARM_PREFIX.length) })
+  await openAppInTab({ type: 'OPEN_REMINDER_NOTE' })
+})
@@ -17,6 +17,7 @@ import { PublicNoteView } from '@/components/notes/PublicNoteView'
 import { WebContentDialog } from '@/components/notes/WebContentDialog'
 import { TooltipProvider } from '@/components/ui/Tooltip'
 import { useBlockContextMenu } from '@/components/ui/ContextMenuBlocker'
+import { useReminderAlarms } from '@/hooks/useReminderAlarms'
 import { AppErrorBoundary, ListErrorBoundary, ModalErrorBoundary } from '@/components/ui/ErrorBoundary'
 import { initOfflineSync } from '@/lib/offlineSync'
 import { isTokenExpired } from '@/lib/tokenRefresh'
@@ -44,6 +45,9 @@ function AppContent() {
   
   // Block default context menu globally
   useBlockContextMenu()
+
+  // Schedule note reminders in the background script
+  useReminderAlarms(!!user)
   
   const viewFileId = getViewFileId()
   
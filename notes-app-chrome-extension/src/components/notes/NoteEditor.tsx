@@ -92,6 +92,7 @@ import { useNetworkRequiredOverlay } from '@/components/ui/OfflineIndicator'
 import { useScrollableDrag } from '@/hooks/useScrollableDrag'
 import * as AI from '@/lib/ai'
 import { InsufficientCreditsError } from '@/lib/ai'
+import { getChatThreads, getLatestChatThread, saveChatThread } from '@/lib/chatThreads'
 import type { Note, NoteStyle, AIChatMessage } from '@/types'
 
 // Remove duplicate Message type - use AIChatMessage from types
@@ -220,7 +221,8 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
   const [isAskAILoading, setIsAskAILoading] = useState(false) // For ask AI only
   const [isStreaming, setIsStreaming] = useState(false)
   const [showAIChatView, setShowAIChatView] = useState(false) // Fullscreen chat view
-  const [chatMessages, setChatMessages] = useState<AIChatMessage[]>(note.aiChatHistory || []) // Chat history from note
+  const [chatThread, setChatThread] = useState(() => getLatestChatThread(note.aiChatHistory)) // Latest chat thread from note
+  const chatMessages = chatThread.messages
   const [showSummary, setShowSummary] = useState(false)
   const [summaryContent, setSummaryContent] = useState('')
   const [selectedText, setSelectedText] = useState('') // Text currently highlighted
@@ -245,23 +247,27 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
   // Sync chat history when note changes
   useEffect(() => {
     // Load chat history from note
-    setChatMessages(note.aiChatHistory || [])
+    setChatThread(getLatestChatThread(note.aiChatHistory))
   }, [note.id])
 
+  const setChatMessages = (update: (messages: AIChatMessage[]) => AIChatMessage[]) => {
+    setChatThread(prev => ({ ...prev, messages: update(prev.messages), updatedAt: Date.now() }))
+  }
+
   // Save chat history to note when messages change
   useEffect(() => {
-    if (chatMessages.length > 0 && note.id) {
+    if (chatThread.messages.length > 0 && note.id) {
       // Only save if different from current note's history
-      const currentHistory = note.aiChatHistory || []
-      if (JSON.stringify(chatMessages) !== JSON.stringify(currentHistory)) {
+      const currentThread = getChatThreads(note.aiChatHistory).find(thread => thread.id === chatThread.id)
+      if (JSON.stringify(chatThread.messages) !== JSON.stringify(currentThread?.messages)) {
         // Debounce to avoid too many updates
         const timer = setTimeout(() => {
-          updateNote(note.id, { aiChatHistory: chatMessages })
+          updateNote(note.id, { aiChatHistory: saveChatThread(note.aiChatHistory, chatThread) })
         }, 500)
         return () => clearTimeout(timer)
       }
     }
-  }, [chatMessages, note.id, note.aiChatHistory, updateNote])
+  }, [chatThread, note.id, note.aiChatHistory, updateNote])
   
   // WebRTC provider and Y.Doc for collaboration
   const [provider, setProvider] = useState<WebrtcProvider | null>(null)
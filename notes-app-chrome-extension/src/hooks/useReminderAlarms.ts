@@ -0,0 +1,101 @@
+import { useEffect } from 'react'
+import { useNotesStore } from '@/stores/notesStore'
+import { isChromeExtension } from '@/lib/chromeAuth'
+import type { Note } from '@/types'
+
+export interface ScheduledReminder {
+  noteId: string
+  title: string
+  at: number
+  repeat: NonNullable<Note['reminder']>['repeat']
+  notifiedAt?: number
+}
+
+// Set by background.js when a reminder notification is clicked
+const PENDING_NOTE_KEY = 'pendingReminderNoteId'
+
+function hasNote(notes: Note[], noteId: string): boolean {
+  return notes.some(note => note.id === noteId && !note.isDeleted)
+}
+
+// Returns false if the note isn't there - e.g. not loaded yet
+function openNote(noteId: string): boolean {
+  const { notes, setSelectedNote, setModalOpen } = useNotesStore.getState()
+  if (!hasNote(notes, noteId)) return false
+  setSelectedNote(noteId)
+  setModalOpen(true)
+  return true
+}
+
+function getScheduledReminders(notes: Note[]): ScheduledReminder[] {
+  return notes
+    .filter(note => note.reminder && !note.isDeleted)
+    .map(note => ({
+      noteId: note.id,
+      title: note.title,
+      at: note.reminder!.at,
+      repeat: note.reminder!.repeat,
+      notifiedAt: note.reminder!.notifiedAt
+    }))
+}
+
+/**
+ * Hand note reminders to the background script, which schedules
+ * chrome.alarms so they notify even while the extension is closed,
+ * and open the note when one of its notifications is clicked
+ */
+export function useReminderAlarms(enabled: boolean) {
+  const notes = useNotesStore(state => state.notes)
+  // Most note changes - typing in one - leave the reminders as they were,
+  // so the alarms are only rescheduled when this changes
+  const remindersKey = JSON.stringify(getScheduledReminders(notes))
+
+  useEffect(() => {
+    if (!enabled || !isChromeExtension()) return
+
+    const reminders: ScheduledReminder[] = JSON.parse(remindersKey)
+    chrome.runtime.sendMessage(
+      { type: 'SYNC_REMINDERS', reminders },
+      () => {
+        if (chrome.runtime.lastError) {
+          console.error('[Reminders] Failed to schedule:', chrome.runtime.lastError.message)
+        }
+      }
+    )
+  }, [enabled, remindersKey])
+
+  // Open the note of a clicked reminder notification, on load or when the background says so
+  useEffect(() => {
+    if (!enabled || !isChromeExtension()) return
+
+    let stopWaiting = () => {}
+    const openPendingNote = async () => {
+      const { [PENDING_NOTE_KEY]: noteId } = await chrome.storage.local.get(PENDING_NOTE_KEY)
+      if (typeof noteId !== 'string') return
+      await chrome.storage.local.remove(PENDING_NOTE_KEY)
+
+      stopWaiting()
+      if (openNote(noteId)) return
+      // Notes load after sign-in, so wait for this one
+      stopWaiting = useNotesStore.subscribe((state) => {
+        if (!hasNote(state.notes, noteId)) return
+        // Unsubscribe first - opening the note updates the store, which calls back in here
+        stopWaiting()
+        openNote(noteId)
+      })
+    }
+
+    const handleMessage = (request: { type: string }) => {
+      if (request.type === 'OPEN_REMINDER_NOTE') {
+        openPendingNote().catch(console.error)
+      }
+    }
+
+    openPendingNote().catch(console.error)
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => {
+      stopWaiting()
+      chrome.runtime.onMessage.removeListener(handleMessage)
+    }
+  }, [enabled])
+}
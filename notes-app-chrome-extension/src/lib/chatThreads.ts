@@ -0,0 +1,46 @@
+/**
+ * AI chat threads
+ * The web app keeps each note's chat history as named threads. The extension
+ * shows one conversation, so it continues the most recently used thread.
+ */
+import type { AIChatMessage, AIChatThread } from '@/types'
+import { generateId } from '@/lib/utils'
+
+// Same id as the web app uses for history saved before threads existed
+const LEGACY_THREAD_ID = 'legacy'
+
+function isThread(entry: AIChatThread | AIChatMessage): entry is AIChatThread {
+  return Array.isArray((entry as AIChatThread).messages)
+}
+
+export function getChatThreads(history: AIChatThread[] | AIChatMessage[] | undefined): AIChatThread[] {
+  const entries: (AIChatThread | AIChatMessage)[] = history || []
+  const threads = entries.filter(isThread)
+  const legacyMessages = entries.filter((entry): entry is AIChatMessage => !isThread(entry))
+
+  if (legacyMessages.length > 0) {
+    const timestamps = legacyMessages.map(m => m.timestamp)
+    threads.push({
+      id: LEGACY_THREAD_ID,
+      name: '',
+      messages: legacyMessages,
+      createdAt: Math.min(...timestamps),
+      updatedAt: Math.max(...timestamps)
+    })
+  }
+  return threads
+}
+
+export function getLatestChatThread(history: AIChatThread[] | AIChatMessage[] | undefined): AIChatThread {
+  const threads = getChatThreads(history)
+  if (threads.length === 0) {
+    const now = Date.now()
+    return { id: generateId(), name: '', messages: [], createdAt: now, updatedAt: now }
+  }
+  return threads.reduce((latest, thread) => thread.updatedAt > latest.updatedAt ? thread : latest)
+}
+
+// The note's threads with this one saved into them
+export function saveChatThread(history: AIChatThread[] | AIChatMessage[] | undefined, thread: AIChatThread): AIChatThread[] {
+  return [thread, ...getChatThreads(history).filter(t => t.id !== thread.id)]
+}
@@ -12,6 +12,17 @@ export interface AIChatMessage {
   timestamp: number
 }
 
+// Named conversation - the web app keeps a note's chat history as threads
+export interface AIChatThread {
+  id: string
+  name: string
+  messages: AIChatMessage[]
+  summary?: string
+  summarizedCount?: number
+  createdAt: number
+  updatedAt: number
+}
+
 export interface Note {
   id: string
   title: string
@@ -30,7 +41,17 @@ export interface Note {
   isDeleted?: boolean
   deletedAt?: number
   publicFileId?: string  // ID of the public shared file on Drive
-  aiChatHistory?: AIChatMessage[]  // AI chat history for this note
+  aiChatHistory?: AIChatThread[] | AIChatMessage[]  // AI chat threads for this note (older notes hold one plain list of messages)
+  reminder?: NoteReminder
+}
+
+export type ReminderRepeat = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+// Set in the web app; the extension schedules chrome.alarms for it
+export interface NoteReminder {
+  at: number                   // Next occurrence
+  repeat: ReminderRepeat
+  notifiedAt?: number          // When the last occurrence was notified
 }
 
 export interface User {
@@ -0,0 +1,20 @@
+// Imported into the generated service worker (see vite.config.ts)
+// Opens the note when a reminder notification is clicked
+
+self.addEventListener('notificationclick', (event) => {
+  const noteId = event.notification.data && event.notification.data.noteId
+  if (!noteId) return
+  event.notification.close()
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    const client = windows[0]
+    if (!client) {
+      // A new window isn't listening for messages yet - it reads the note from the URL
+      await self.clients.openWindow(`/?note=${encodeURIComponent(noteId)}`)
+      return
+    }
+    if ('focus' in client) await client.focus()
+    client.postMessage({ type: 'OPEN_REMINDER_NOTE', noteId })
+  })())
+})
@@ -8,6 +8,9 @@ import { useNotesStore, smartSyncManager, flushPendingNoteUpdates } from '@/stor
 import { useThemeStore } from '@/stores/themeStore'
 import { useNetworkStore } from '@/stores/networkStore'
 import { useMigrationStore } from '@/stores/migrationStore'
+import { useNotebooksStore } from '@/stores/notebooksStore'
+import { useTemplatesStore } from '@/stores/templatesStore'
+import { useAIActionsStore } from '@/stores/aiActionsStore'
 // import { migrationEngine } from '@/lib/migration/removeCollectionMigration' // Disabled - migration complete
 import { LoginScreen } from '@/components/auth/LoginScreen'
 import { DrivePermissionError } from '@/components/auth/DrivePermissionError'
@@ -15,12 +18,16 @@ import { Header } from '@/components/layout/Header'
 import { InstallPrompt } from '@/components/layout/InstallPrompt'
 import { MigrationProgress } from '@/components/layout/MigrationProgress'
 import { VirtualizedNotesList } from '@/components/notes/VirtualizedNotesList'
+import { TagFilterBar } from '@/components/notes/TagFilterBar'
+import { NotebookDndProvider } from '@/components/notebooks/NotebookDndProvider'
+import { NotebooksSidebar, NotebooksDrawer } from '@/components/notebooks/NotebooksSidebar'
 import { NoteModal } from '@/components/notes/NoteModal'
 import { PublicNoteView } from '@/components/notes/PublicNoteView'
 import { FreeNoteView } from '@/components/notes/FreeNoteView'
 import { PrivacyPolicy, TermsOfService } from '@/components/legal'
 import { TooltipProvider } from '@/components/ui/Tooltip'
 import { useBlockContextMenu } from '@/components/ui/ContextMenuBlocker'
+import { useReminderNotifications } from '@/hooks/useReminderNotifications'
 import { AppErrorBoundary, ListErrorBoundary, ModalErrorBoundary } from '@/components/ui/ErrorBoundary'
 import { SEOHead } from '@/components/SEOHead'
 import { initOfflineSync } from '@/lib/offlineSync'
@@ -52,6 +59,7 @@ function AppContent() {
   const { initTheme } = useThemeStore()
   const initNetwork = useNetworkStore(state => state.initialize)
   const isOnline = useNetworkStore(state => state.isOnline)
+  const isNotebooksSidebarOpen = useNotebooksStore(state => state.isSidebarOpen)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [showPermissionError, setShowPermissionError] = useState(false)
   
@@ -61,6 +69,9 @@ function AppContent() {
   
   // Block default context menu globally
   useBlockContextMenu()
+
+  // Notify for due note reminders
+  useReminderNotifications(!!user)
   
   const viewFileId = getViewFileId()
   
@@ -173,6 +184,9 @@ function AppContent() {
     
     // Initialize offline storage (IndexedDB)
     initOfflineStorage()
+    useNotebooksStore.getState().loadNotebooks()
+    useTemplatesStore.getState().loadTemplates()
+    useAIActionsStore.getState().loadAIActions()
     
     // Start periodic sync when logged in
     if (user?.accessToken) {
@@ -384,7 +398,10 @@ function AppContent() {
       if (isTokenExpired(user.tokenExpiry)) return
       if (!isOnline) return
       
-      const hasPending = useNotesStore.getState().notes.some(n => n.syncStatus === 'pending')
+      const hasPending = useNotesStore.getState().notes.some(n => n.syncStatus === 'pending') ||
+        useNotebooksStore.getState().notebooks.some(nb => nb.syncStatus === 'pending') ||
+        useTemplatesStore.getState().templates.some(template => template.syncStatus === 'pending') ||
+        useAIActionsStore.getState().aiActions.some(action => action.syncStatus === 'pending')
       if (hasPending) doSync()
     }, 30000)
 
@@ -402,7 +419,10 @@ function AppContent() {
     // Check for pending changes every 500ms instead of on every notes change
     const checkPending = () => {
       const state = useNotesStore.getState()
-      const hasPending = state.notes.some(n => n.syncStatus === 'pending')
+      const hasPending = state.notes.some(n => n.syncStatus === 'pending') ||
+        useNotebooksStore.getState().notebooks.some(nb => nb.syncStatus === 'pending') ||
+        useTemplatesStore.getState().templates.some(template => template.syncStatus === 'pending') ||
+        useAIActionsStore.getState().aiActions.some(action => action.syncStatus === 'pending')
       if (hasPending && !state.isSyncing) {
         debouncedSync()
       }
@@ -428,11 +448,20 @@ function AppContent() {
         <div className="pt-3 px-4 safe-top safe-x">
           <Header />
         </div>
-        <main className="max-w-6xl w-full mx-auto px-4 py-6 safe-x safe-bottom">
-          <ListErrorBoundary>
-            <VirtualizedNotesList />
-          </ListErrorBoundary>
-        </main>
+        <NotebookDndProvider>
+          <main className="max-w-6xl w-full mx-auto px-4 py-6 safe-x safe-bottom flex gap-6">
+            {isNotebooksSidebarOpen && (
+              <NotebooksSidebar className="hidden md:flex w-56 shrink-0 sticky top-4 self-start max-h-[calc(100vh-6rem)]" />
+            )}
+            <div className="flex-1 min-w-0">
+              <TagFilterBar />
+              <ListErrorBoundary>
+                <VirtualizedNotesList />
+              </ListErrorBoundary>
+            </div>
+          </main>
+          <NotebooksDrawer />
+        </NotebookDndProvider>
         <ModalErrorBoundary>
           <NoteModal />
         </ModalErrorBoundary>
@@ -0,0 +1,236 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, Plus, Pencil, Trash2, Wand2 } from 'lucide-react'
+import { Input } from '@/components/ui/Input'
+import { useAIActionsStore, type AIActionInput } from '@/stores/aiActionsStore'
+import { AI_ACTION_ICONS, DEFAULT_AI_ACTION_ICON, getAIActionIcon } from '@/components/notes/aiActionIcons'
+import { AI_PROMPT_OUTPUTS, PROMPT_PLACEHOLDERS } from '@/lib/aiPromptActions'
+import { cn } from '@/lib/utils'
+import type { AIPromptAction, AIPromptOutput } from '@/types'
+
+interface AIActionsPanelProps {
+  open: boolean
+  onClose: () => void
+  onBack: () => void
+}
+
+const EMPTY_ACTION: AIActionInput = {
+  name: '',
+  icon: DEFAULT_AI_ACTION_ICON,
+  prompt: '',
+  output: 'replace'
+}
+
+/**
+ * Custom AI actions - prompts of the user's own, shown in the AI menu and
+ * the editor's context menu next to the built-in actions
+ */
+export function AIActionsPanel({ open, onClose, onBack }: AIActionsPanelProps) {
+  const { t } = useTranslation()
+  const { aiActions, createAIAction, updateAIAction, deleteAIAction } = useAIActionsStore()
+  // null = the list; 'new' or an action's ID = the form
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<AIActionInput>(EMPTY_ACTION)
+
+  const sortedActions = [...aiActions].sort((a, b) => a.name.localeCompare(b.name))
+  const canSave = draft.name.trim().length > 0 && draft.prompt.trim().length > 0
+  // The placeholders, shown as they are rather than filled in by i18next
+  const placeholderValues = { selection: '{{selection}}', note: '{{note}}' }
+
+  const openForm = (action?: AIPromptAction) => {
+    setEditingId(action?.id ?? 'new')
+    setDraft(action
+      ? { name: action.name, icon: action.icon, prompt: action.prompt, output: action.output }
+      : EMPTY_ACTION)
+  }
+
+  const closeForm = () => {
+    setEditingId(null)
+    setDraft(EMPTY_ACTION)
+  }
+
+  const handleClose = () => {
+    closeForm()
+    onClose()
+  }
+
+  const handleSave = () => {
+    if (!canSave) return
+    if (editingId === 'new') {
+      createAIAction(draft)
+    } else if (editingId) {
+      updateAIAction(editingId, draft)
+    }
+    closeForm()
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 safe-x">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={handleClose}
+      />
+
+      <div className="relative w-full max-w-xs sm:max-w-sm max-h-[90vh] overflow-y-auto bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 modal-safe-area">
+        {/* Header */}
+        <div className="flex items-center gap-2 px-3 sm:px-4 py-2 sm:py-3">
+          <button
+            onClick={editingId ? closeForm : onBack}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h3 className="flex-1 text-sm sm:text-base font-semibold text-neutral-900 dark:text-white truncate">
+            {editingId === 'new' ? t('aiActions.newAction') : editingId ? t('aiActions.editAction') : t('aiActions.title')}
+          </h3>
+          {!editingId && (
+            <button
+              onClick={() => openForm()}
+              title={t('aiActions.newAction')}
+              className="p-1.5 rounded-full text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        {editingId ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSave()
+            }}
+            className="px-3 sm:px-4 pb-4 space-y-3"
+          >
+            <Field label={t('aiActions.name')}>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+                placeholder={t('aiActions.namePlaceholder')}
+                autoFocus
+              />
+            </Field>
+
+            <Field label={t('aiActions.icon')}>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(AI_ACTION_ICONS).map(([key, Icon]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setDraft(current => ({ ...current, icon: key }))}
+                    aria-label={key}
+                    className={cn(
+                      'p-2 rounded-lg text-neutral-600 dark:text-neutral-400 transition-colors',
+                      draft.icon === key
+                        ? 'bg-neutral-900 text-white dark:bg-white dark:text-neutral-900'
+                        : 'hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                    )}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+            </Field>
+
+            <Field label={t('aiActions.prompt')}>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft(current => ({ ...current, prompt: e.target.value }))}
+                placeholder={t('aiActions.promptPlaceholder', placeholderValues)}
+                rows={5}
+                className="w-full resize-y rounded-[12px] border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm text-neutral-900 dark:text-white placeholder:text-neutral-400 focus:outline-none"
+              />
+              <div className="flex flex-wrap gap-1 mt-1">
+                {PROMPT_PLACEHOLDERS.map(placeholder => (
+                  <button
+                    key={placeholder}
+                    type="button"
+                    onClick={() => setDraft(current => ({ ...current, prompt: `${current.prompt}{{${placeholder}}}` }))}
+                    className="px-1.5 py-0.5 rounded font-mono text-[11px] bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors"
+                  >
+                    {`{{${placeholder}}}`}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] mt-1 text-neutral-500">{t('aiActions.placeholdersHint', placeholderValues)}</p>
+            </Field>
+
+            <Field label={t('aiActions.output')}>
+              <select
+                value={draft.output}
+                onChange={(e) => setDraft(current => ({ ...current, output: e.target.value as AIPromptOutput }))}
+                className="w-full px-3 py-2 text-sm rounded-[12px] border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+              >
+                {AI_PROMPT_OUTPUTS.map(output => (
+                  <option key={output} value={output}>{t(`aiActions.outputs.${output}`)}</option>
+                ))}
+              </select>
+            </Field>
+
+            <div className="flex justify-end pt-1">
+              <button
+                type="submit"
+                disabled={!canSave}
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-neutral-900 text-white dark:bg-white dark:text-neutral-900 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                {t('aiActions.save')}
+              </button>
+            </div>
+          </form>
+        ) : sortedActions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 px-6 text-center">
+            <Wand2 className="w-12 h-12 text-neutral-300 dark:text-neutral-600 mb-3" />
+            <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">{t('aiActions.empty')}</p>
+            <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">{t('aiActions.emptyHint')}</p>
+          </div>
+        ) : (
+          <ul className="p-2 sm:p-3 space-y-1">
+            {sortedActions.map(action => {
+              const Icon = getAIActionIcon(action.icon)
+              return (
+                <li key={action.id} className="group flex items-center gap-1">
+                  <button
+                    onClick={() => openForm(action)}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left px-3 py-2 rounded-xl hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                  >
+                    <Icon className="w-4 h-4 flex-shrink-0 text-neutral-500" />
+                    <span className="min-w-0">
+                      <span className="block text-sm font-medium text-neutral-900 dark:text-white truncate">
+                        {action.name}
+                      </span>
+                      <span className="block text-[11px] text-neutral-500 truncate">
+                        {t(`aiActions.outputs.${action.output}`)}
+                      </span>
+                    </span>
+                    <Pencil className="w-3.5 h-3.5 ml-auto flex-shrink-0 text-neutral-400 sm:opacity-0 sm:group-hover:opacity-100" />
+                  </button>
+                  <button
+                    onClick={() => deleteAIAction(action.id)}
+                    title={t('aiActions.delete')}
+                    className={cn(
+                      'p-2 rounded-full text-neutral-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors',
+                      'sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100'
+                    )}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <span className="block mb-1 text-xs font-medium text-neutral-700 dark:text-neutral-300">{label}</span>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft } from 'lucide-react'
+import { Input } from '@/components/ui/Input'
+import { useAIProviderStore, type AIProviderType } from '@/stores/aiProviderStore'
+import { cn } from '@/lib/utils'
+
+interface AIProviderPanelProps {
+  open: boolean
+  onClose: () => void
+  onBack: () => void
+}
+
+const PROVIDER_OPTIONS: { value: AIProviderType; labelKey: string; descriptionKey: string }[] = [
+  { value: 'gnote', labelKey: 'aiProvider.gnote', descriptionKey: 'aiProvider.gnoteDescription' },
+  { value: 'openai-compatible', labelKey: 'aiProvider.openAICompatible', descriptionKey: 'aiProvider.openAICompatibleDescription' }
+]
+
+/**
+ * AI provider settings - the G-Note AI, or an OpenAI-compatible server of
+ * the user's own. Changes apply right away and stay on this device.
+ */
+export function AIProviderPanel({ open, onClose, onBack }: AIProviderPanelProps) {
+  const { t } = useTranslation()
+  const { provider, baseUrl, model, apiKey, embeddingModel, setAIProviderSettings } = useAIProviderStore()
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 safe-x">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full max-w-xs sm:max-w-sm max-h-[90vh] overflow-y-auto bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 modal-safe-area">
+        {/* Header */}
+        <div className="flex items-center gap-2 px-3 sm:px-4 py-2 sm:py-3">
+          <button
+            onClick={onBack}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h3 className="text-sm sm:text-base font-semibold text-neutral-900 dark:text-white">
+            {t('aiProvider.title')}
+          </h3>
+        </div>
+
+        {/* Provider options */}
+        <div className="p-2 sm:p-3 space-y-1">
+          {PROVIDER_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setAIProviderSettings({ provider: option.value })}
+              className={cn(
+                "w-full flex items-center justify-between gap-2 px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl text-left transition-colors",
+                provider === option.value
+                  ? "bg-neutral-100 dark:bg-neutral-800"
+                  : "hover:bg-neutral-50 dark:hover:bg-neutral-800/50"
+              )}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                  {t(option.labelKey)}
+                </p>
+                <p className="text-[11px] mt-0.5 text-neutral-500">
+                  {t(option.descriptionKey)}
+                </p>
+              </div>
+              {provider === option.value && (
+                <div className="w-2 h-2 flex-shrink-0 rounded-full bg-neutral-900 dark:bg-white" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* Server settings */}
+        {provider === 'openai-compatible' && (
+          <div className="px-3 sm:px-4 pb-4 space-y-3">
+            <Field label={t('aiProvider.baseUrl')}>
+              <Input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setAIProviderSettings({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                autoComplete="off"
+                spellCheck={false}
+              />
+            </Field>
+            <Field label={t('aiProvider.model')}>
+              <Input
+                value={model}
+                onChange={(e) => setAIProviderSettings({ model: e.target.value })}
+                placeholder="llama3.2"
+                autoComplete="off"
+                spellCheck={false}
+              />
+            </Field>
+            <Field label={t('aiProvider.apiKey')} hint={t('aiProvider.optional')}>
+              <Input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setAIProviderSettings({ apiKey: e.target.value })}
+                autoComplete="off"
+              />
+            </Field>
+            <Field label={t('aiProvider.embeddingModel')} hint={t('aiProvider.optional')}>
+              <Input
+                value={embeddingModel}
+                onChange={(e) => setAIProviderSettings({ embeddingModel: e.target.value })}
+                placeholder="nomic-embed-text"
+                autoComplete="off"
+                spellCheck={false}
+              />
+              <p className="text-[11px] mt-1 text-neutral-500">{t('aiProvider.embeddingModelHint')}</p>
+            </Field>
+            <p className="text-[11px] text-neutral-500">{t('aiProvider.storedLocally')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="flex items-baseline justify-between mb-1 text-xs font-medium text-neutral-700 dark:text-neutral-300">
+        {label}
+        {hint && <span className="font-normal text-neutral-400">{hint}</span>}
+      </span>
+      {children}
+    </label>
+  )
+}
@@ -1,24 +1,42 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useDebounce } from 'use-debounce'
 import { useTranslation } from 'react-i18next'
-import { Search, Plus, Moon, Sun, LogOut, RefreshCw, Settings, X, Coins, ChevronRight, ArrowLeft, Maximize2, Trash2 } from 'lucide-react'
+import { Search, Plus, Moon, Sun, LogOut, RefreshCw, Settings, X, Coins, ChevronRight, ArrowLeft, Maximize2, Trash2, AlertTriangle, FolderTree, ListTodo, Waypoints, LayoutTemplate, CalendarCheck, CalendarDays, Keyboard, Globe, Download, Sparkles, Bot, Wand2 } from 'lucide-react'
 import { Input } from '@/components/ui/Input'
 import { useAuthStore } from '@/stores/authStore'
 import { useNotesStore } from '@/stores/notesStore'
+import { useNotebooksStore } from '@/stores/notebooksStore'
 import { useNetworkStore } from '@/stores/networkStore'
 import { useThemeStore } from '@/stores/themeStore'
 import { useCreditsStore } from '@/stores/creditsStore'
 import { useUIStore, type ModalSize } from '@/stores/uiStore'
+import { useAIProviderStore } from '@/stores/aiProviderStore'
 import { LanguageSelector, LanguageButton } from '@/components/ui/LanguageSelector'
 import { OfflineIndicator } from '@/components/ui/OfflineIndicator'
 import { TrashView } from '@/components/notes/TrashView'
+import { TasksView } from '@/components/notes/TasksView'
+import { GraphView } from '@/components/notes/GraphView'
+import { TemplatesPanel } from '@/components/notes/TemplatesPanel'
+import { JournalPanel } from '@/components/notes/JournalPanel'
 import { DriveSearchResults } from '@/components/search/DriveSearchResults'
 import { LoadingOverlay } from '@/components/ui/LoadingOverlay'
 import { LogoutConfirmDialog } from '@/components/auth/LogoutConfirmDialog'
 import { SharedNotesPanel, SharedNotesBadge } from '@/components/notes/SharedNotesPanel'
+import { ConflictsPanel, ConflictsBadge } from '@/components/notes/ConflictsPanel'
+import { CommandPalette, type PaletteCommand } from '@/components/search/CommandPalette'
+import { GlobalSearch } from '@/components/search/GlobalSearch'
+import { ShortcutsPanel } from '@/components/layout/ShortcutsPanel'
+import { AIProviderPanel } from '@/components/layout/AIProviderPanel'
+import { AIActionsPanel } from '@/components/layout/AIActionsPanel'
 import { useModalStatusBar } from '@/hooks/useModalStatusBar'
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts'
 import { cn } from '@/lib/utils'
 import { getValidAccessToken } from '@/lib/tokenManager'
+import { exportNote, downloadBlob, getSafeFilename, type ExportFormat } from '@/lib/driveExport'
+import { inlineImageRefs } from '@/lib/noteImages'
+import { refreshNoteLinkTitles } from '@/lib/noteLinks'
+
+const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'docx', 'html', 'md']
 
 // Modal size options
 const MODAL_SIZE_OPTIONS: { value: ModalSize; labelKey: string }[] = [
@@ -64,10 +82,13 @@ export function Header() {
   // Use selectors to prevent unnecessary re-renders
   const setSearchQuery = useNotesStore(state => state.setSearchQuery)
   const addNote = useNotesStore(state => state.addNote)
+  const openDailyNote = useNotesStore(state => state.openDailyNote)
+  const isModalOpen = useNotesStore(state => state.isModalOpen)
   const syncWithDrive = useNotesStore(state => state.syncWithDrive)
   const loadSharedNotes = useNotesStore(state => state.loadSharedNotes)
   const isSyncing = useNotesStore(state => state.isSyncing)
   const notes = useNotesStore(state => state.notes)
+  const conflictCount = useNotesStore(state => state.conflicts.length)
   
   const { theme, toggleTheme } = useThemeStore()
   const { credits, fetchCredits, openCheckout } = useCreditsStore()
@@ -77,15 +98,27 @@ export function Header() {
   const [languageOpen, setLanguageOpen] = useState(false)
   const [modalSizeOpen, setModalSizeOpen] = useState(false)
   const [trashOpen, setTrashOpen] = useState(false)
+  const [tasksOpen, setTasksOpen] = useState(false)
+  const [graphOpen, setGraphOpen] = useState(false)
   const [sharedNotesOpen, setSharedNotesOpen] = useState(false)
+  const [conflictsOpen, setConflictsOpen] = useState(false)
+  const [templatesOpen, setTemplatesOpen] = useState(false)
+  const [journalOpen, setJournalOpen] = useState(false)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const [askNotesOpen, setAskNotesOpen] = useState(false)
+  const [aiProviderOpen, setAIProviderOpen] = useState(false)
+  const [aiActionsOpen, setAIActionsOpen] = useState(false)
+  const aiProvider = useAIProviderStore(state => state.provider)
+  const searchInputRef = useRef<HTMLInputElement>(null)
   const [driveSearchEnabled, setDriveSearchEnabled] = useState(false)
   const [showDriveResults, setShowDriveResults] = useState(false)
   const [isLoggingOut, setIsLoggingOut] = useState(false)
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false)
   
   // Update status bar color when any small modal is open
-  // Note: trashOpen is excluded because TrashView is fullscreen
-  const anyModalOpen = settingsOpen || packagesOpen || languageOpen || modalSizeOpen || sharedNotesOpen
+  // Note: trashOpen, tasksOpen and graphOpen are excluded because their views are fullscreen
+  const anyModalOpen = settingsOpen || packagesOpen || languageOpen || modalSizeOpen || sharedNotesOpen || conflictsOpen || templatesOpen || journalOpen || paletteOpen || shortcutsOpen || askNotesOpen || aiProviderOpen || aiActionsOpen
   useModalStatusBar(anyModalOpen)
   
   // Local search input state + debounce
@@ -138,8 +171,17 @@ export function Header() {
     addNote()
   }
 
+  const handleToggleNotebooks = () => {
+    const { isSidebarOpen, setSidebarOpen, setDrawerOpen } = useNotebooksStore.getState()
+    if (window.matchMedia('(min-width: 768px)').matches) {
+      setSidebarOpen(!isSidebarOpen)
+    } else {
+      setDrawerOpen(true)
+    }
+  }
+
   const handleSync = async () => {
-    if (!isSyncing) {
+    if (!isSyncing && isOnline) {
       // Get valid token (auto-refresh if expired)
       const accessToken = await getValidAccessToken()
       if (accessToken) {
@@ -179,6 +221,58 @@ export function Header() {
 
   const isDark = theme === 'dark' || (theme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches)
 
+  // Export the open note - same pipeline as the note's actions menu
+  const handleExportNote = async (format: ExportFormat) => {
+    const { notes, selectedNoteId } = useNotesStore.getState()
+    const note = notes.find(n => n.id === selectedNoteId)
+    const accessToken = await getValidAccessToken()
+    if (!note || !accessToken) return
+    try {
+      const content = await inlineImageRefs(refreshNoteLinkTitles(note.content, notes))
+      const blob = await exportNote(accessToken, note.title, content, format)
+      downloadBlob(blob, getSafeFilename(note.title, format))
+    } catch (error) {
+      console.error('Export failed:', error)
+    }
+  }
+
+  const shortcutHandlers = {
+    commandPalette: () => setPaletteOpen(open => !open),
+    newNote: handleAddNote,
+    search: () => searchInputRef.current?.focus(),
+    openToday: () => openDailyNote(new Date()),
+    syncNow: handleSync,
+    toggleTheme: () => toggleTheme(),
+    openTasks: () => setTasksOpen(true),
+    openGraph: () => setGraphOpen(true),
+    openTrash: () => setTrashOpen(true)
+  }
+  useKeyboardShortcuts(shortcutHandlers)
+
+  const paletteCommands: PaletteCommand[] = [
+    { id: 'newNote', label: t('shortcuts.actions.newNote'), icon: Plus, shortcut: 'newNote', keywords: ['new', 'create', 'add'], run: handleAddNote },
+    { id: 'openToday', label: t('shortcuts.actions.openToday'), icon: CalendarCheck, shortcut: 'openToday', keywords: ['today', 'daily', 'journal'], run: shortcutHandlers.openToday },
+    { id: 'newFromTemplate', label: t('templates.newFromTemplate'), icon: LayoutTemplate, keywords: ['template'], run: () => setTemplatesOpen(true) },
+    { id: 'search', label: t('shortcuts.actions.search'), icon: Search, shortcut: 'search', keywords: ['search', 'find', 'filter'], run: shortcutHandlers.search },
+    { id: 'askNotes', label: t('askNotes.title'), icon: Sparkles, keywords: ['ask', 'ai', 'question'], run: () => setAskNotesOpen(true) },
+    ...(isOnline ? [{ id: 'syncNow', label: t('shortcuts.actions.syncNow'), icon: RefreshCw, shortcut: 'syncNow' as const, keywords: ['sync', 'drive'], run: handleSync }] : []),
+    { id: 'toggleTheme', label: isDark ? t('settings.lightMode') : t('settings.darkMode'), icon: isDark ? Sun : Moon, shortcut: 'toggleTheme', keywords: ['theme', 'dark', 'light'], run: shortcutHandlers.toggleTheme },
+    { id: 'changeLanguage', label: t('commandPalette.changeLanguage'), icon: Globe, keywords: ['language', 'locale'], run: () => setLanguageOpen(true) },
+    { id: 'openTasks', label: t('tasks.title'), icon: ListTodo, shortcut: 'openTasks', keywords: ['tasks', 'todo'], run: shortcutHandlers.openTasks },
+    { id: 'openGraph', label: t('graph.title'), icon: Waypoints, shortcut: 'openGraph', keywords: ['graph', 'links'], run: shortcutHandlers.openGraph },
+    { id: 'openJournal', label: t('journal.title'), icon: CalendarDays, keywords: ['journal', 'calendar', 'daily'], run: () => setJournalOpen(true) },
+    { id: 'openTrash', label: t('trash.title'), icon: Trash2, shortcut: 'openTrash', keywords: ['trash', 'deleted'], run: shortcutHandlers.openTrash },
+    { id: 'shortcuts', label: t('shortcuts.title'), icon: Keyboard, keywords: ['shortcuts', 'keyboard', 'keys'], run: () => setShortcutsOpen(true) },
+    // Only while a note is open
+    ...(isModalOpen ? EXPORT_FORMATS.map((format): PaletteCommand => ({
+      id: `export-${format}`,
+      label: t('commandPalette.exportAs', { format: format.toUpperCase() }),
+      icon: Download,
+      keywords: ['export', 'download', format],
+      run: () => handleExportNote(format)
+    })) : [])
+  ]
+
   // Close modal on escape
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -188,10 +282,20 @@ export function Header() {
         setLanguageOpen(false)
         setModalSizeOpen(false)
         setTrashOpen(false)
+        setTasksOpen(false)
+        setGraphOpen(false)
         setSharedNotesOpen(false)
+        setConflictsOpen(false)
+        setTemplatesOpen(false)
+        setJournalOpen(false)
+        setPaletteOpen(false)
+        setShortcutsOpen(false)
+        setAskNotesOpen(false)
+        setAIProviderOpen(false)
+        setAIActionsOpen(false)
       }
     }
-    if (settingsOpen || packagesOpen || languageOpen || modalSizeOpen || trashOpen || sharedNotesOpen) {
+    if (settingsOpen || packagesOpen || languageOpen || modalSizeOpen || trashOpen || tasksOpen || graphOpen || sharedNotesOpen || conflictsOpen || templatesOpen || journalOpen || paletteOpen || shortcutsOpen || askNotesOpen || aiProviderOpen || aiActionsOpen) {
       document.addEventListener('keydown', handleKeyDown)
       document.body.style.overflow = 'hidden'
     }
@@ -199,7 +303,7 @@ export function Header() {
       document.removeEventListener('keydown', handleKeyDown)
       document.body.style.overflow = ''
     }
-  }, [settingsOpen, packagesOpen, languageOpen, modalSizeOpen, trashOpen, sharedNotesOpen])
+  }, [settingsOpen, packagesOpen, languageOpen, modalSizeOpen, trashOpen, tasksOpen, graphOpen, sharedNotesOpen, conflictsOpen, templatesOpen, journalOpen, paletteOpen, shortcutsOpen, askNotesOpen, aiProviderOpen, aiActionsOpen])
 
   return (
     <>
@@ -227,6 +331,7 @@ export function Header() {
               <div className="relative flex-1 max-w-md">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
                 <Input
+                  ref={searchInputRef}
                   value={localSearch}
                   onChange={(e) => setLocalSearch(e.target.value)}
                   placeholder={driveSearchEnabled ? t('driveSearch.toggle') : t('header.search')}
@@ -276,6 +381,18 @@ export function Header() {
               {/* Shared Notes Badge */}
               <SharedNotesBadge onClick={() => setSharedNotesOpen(true)} />
               
+              {/* Sync Conflicts Badge */}
+              <ConflictsBadge onClick={() => setConflictsOpen(true)} />
+
+              {/* Notebooks - sidebar on desktop, drawer on mobile */}
+              <button
+                onClick={handleToggleNotebooks}
+                className="p-2 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors touch-manipulation"
+                title={t('notebooks.title')}
+              >
+                <FolderTree className="w-5 h-5" />
+              </button>
+              
               <button 
                 onClick={handleAddNote} 
                 className="p-2 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors touch-manipulation"
@@ -283,6 +400,22 @@ export function Header() {
                 <Plus className="w-5 h-5" />
               </button>
 
+              <button
+                onClick={() => setTemplatesOpen(true)}
+                className="p-2 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors touch-manipulation"
+                title={t('templates.newFromTemplate')}
+              >
+                <LayoutTemplate className="w-5 h-5" />
+              </button>
+
+              <button
+                onClick={() => openDailyNote(new Date())}
+                className="p-2 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors touch-manipulation"
+                title={t('journal.today')}
+              >
+                <CalendarCheck className="w-5 h-5" />
+              </button>
+
               <button
                 onClick={() => setSettingsOpen(true)}
                 className="p-2 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors touch-manipulation"
@@ -357,6 +490,30 @@ export function Header() {
                 badge={credits.toLocaleString()}
               />
               
+              {/* AI provider */}
+              <MenuItem
+                icon={<Bot className="w-4 h-4" />}
+                label={t('aiProvider.title')}
+                description={aiProvider === 'gnote' ? t('aiProvider.gnote') : t('aiProvider.openAICompatible')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setAIProviderOpen(true)
+                }}
+                showArrow
+              />
+              
+              {/* Custom AI actions */}
+              <MenuItem
+                icon={<Wand2 className="w-4 h-4" />}
+                label={t('aiActions.title')}
+                description={t('aiActions.description')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setAIActionsOpen(true)
+                }}
+                showArrow
+              />
+              
               <MenuItem
                 icon={<RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />}
                 label={t('settings.sync')}
@@ -377,6 +534,50 @@ export function Header() {
                 setLanguageOpen(true)
               }} />
               
+              {/* Tasks */}
+              <MenuItem
+                icon={<ListTodo className="w-4 h-4" />}
+                label={t('tasks.title')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setTasksOpen(true)
+                }}
+                showArrow
+              />
+              
+              {/* Graph */}
+              <MenuItem
+                icon={<Waypoints className="w-4 h-4" />}
+                label={t('graph.title')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setGraphOpen(true)
+                }}
+                showArrow
+              />
+              
+              {/* Journal */}
+              <MenuItem
+                icon={<CalendarDays className="w-4 h-4" />}
+                label={t('journal.title')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setJournalOpen(true)
+                }}
+                showArrow
+              />
+              
+              {/* Keyboard shortcuts */}
+              <MenuItem
+                icon={<Keyboard className="w-4 h-4" />}
+                label={t('shortcuts.title')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setShortcutsOpen(true)
+                }}
+                showArrow
+              />
+              
               {/* Trash */}
               <MenuItem
                 icon={<Trash2 className="w-4 h-4" />}
@@ -389,6 +590,18 @@ export function Header() {
                 badge={trashCount > 0 ? trashCount.toString() : undefined}
               />
               
+              {/* Sync conflicts */}
+              <MenuItem
+                icon={<AlertTriangle className="w-4 h-4" />}
+                label={t('conflicts.title')}
+                onClick={() => {
+                  setSettingsOpen(false)
+                  setConflictsOpen(true)
+                }}
+                showArrow
+                badge={conflictCount > 0 ? conflictCount.toString() : undefined}
+              />
+              
               {/* Modal size - only show on desktop */}
               <div className="hidden md:block">
                 <MenuItem
@@ -591,11 +804,49 @@ export function Header() {
         </div>
       )}
 
+      {/* AI Provider Settings */}
+      <AIProviderPanel
+        open={aiProviderOpen}
+        onClose={() => setAIProviderOpen(false)}
+        onBack={() => {
+          setAIProviderOpen(false)
+          setSettingsOpen(true)
+        }}
+      />
+
+      {/* Custom AI Actions */}
+      <AIActionsPanel
+        open={aiActionsOpen}
+        onClose={() => setAIActionsOpen(false)}
+        onBack={() => {
+          setAIActionsOpen(false)
+          setSettingsOpen(true)
+        }}
+      />
+
       {/* Trash View */}
       <TrashView open={trashOpen} onClose={() => setTrashOpen(false)} />
 
+      {/* Tasks View */}
+      <TasksView open={tasksOpen} onClose={() => setTasksOpen(false)} />
+      <GraphView open={graphOpen} onClose={() => setGraphOpen(false)} />
+
       {/* Shared Notes Panel */}
       <SharedNotesPanel open={sharedNotesOpen} onClose={() => setSharedNotesOpen(false)} />
+
+      {/* Sync Conflicts Panel */}
+      <ConflictsPanel open={conflictsOpen} onClose={() => setConflictsOpen(false)} />
+      <TemplatesPanel open={templatesOpen} onClose={() => setTemplatesOpen(false)} />
+      <JournalPanel open={journalOpen} onClose={() => setJournalOpen(false)} />
+      <ShortcutsPanel open={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
+
+      {/* Command Palette */}
+      <CommandPalette open={paletteOpen} onClose={() => setPaletteOpen(false)} commands={paletteCommands} />
+
+      {/* Ask your notes */}
+      {askNotesOpen && (
+        <GlobalSearch open onClose={() => setAskNotesOpen(false)} initialTab="ask" />
+      )}
     </>
   )
 }
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, Keyboard, RotateCcw } from 'lucide-react'
+import { useShortcutsStore, useShortcutBindings } from '@/stores/shortcutsStore'
+import {
+  SHORTCUT_ACTIONS,
+  eventToCombo,
+  formatCombo,
+  isValidShortcut,
+  type ShortcutAction
+} from '@/lib/shortcuts'
+import { cn } from '@/lib/utils'
+
+interface ShortcutsPanelProps {
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Keyboard shortcut settings - click a binding, then press the new keys
+ */
+export function ShortcutsPanel({ open, onClose }: ShortcutsPanelProps) {
+  const { t } = useTranslation()
+  const overrides = useShortcutsStore(state => state.overrides)
+  const setShortcut = useShortcutsStore(state => state.setShortcut)
+  const resetShortcut = useShortcutsStore(state => state.resetShortcut)
+  const resetAllShortcuts = useShortcutsStore(state => state.resetAllShortcuts)
+  const bindings = useShortcutBindings()
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleClose = () => {
+    setRecording(null)
+    setMessage(null)
+    onClose()
+  }
+
+  // While recording, keys go to the recorder only - not to app shortcuts,
+  // the editor or the Escape handlers (capture phase runs before all of them)
+  useEffect(() => {
+    if (!recording) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+
+      const hasModifier = e.ctrlKey || e.metaKey || e.altKey || e.shiftKey
+      if (e.key === 'Escape' && !hasModifier) {
+        setRecording(null)
+        return
+      }
+      if ((e.key === 'Backspace' || e.key === 'Delete') && !hasModifier) {
+        setShortcut(recording, null)
+        setRecording(null)
+        setMessage(null)
+        return
+      }
+
+      const combo = eventToCombo(e)
+      if (!combo) return
+      if (!isValidShortcut(combo)) {
+        setMessage(t('shortcuts.needsModifier'))
+        return
+      }
+
+      const displaced = setShortcut(recording, combo)
+      setMessage(displaced ? t('shortcuts.reassigned', { action: t(`shortcuts.actions.${displaced}`) }) : null)
+      setRecording(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [recording, setShortcut, t])
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 safe-x">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md max-h-[85vh] overflow-hidden bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center gap-2 min-w-0">
+            <Keyboard className="w-5 h-5 text-neutral-500" />
+            <h2 className="text-base font-semibold text-neutral-900 dark:text-white truncate">
+              {t('shortcuts.title')}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Bindings */}
+        <ul className="p-2 space-y-0.5 overflow-y-auto">
+          {SHORTCUT_ACTIONS.map(action => {
+            const combo = bindings[action]
+            const isRecording = recording === action
+            return (
+              <li key={action} className="flex items-center gap-2 px-2 py-1.5">
+                <span className="flex-1 min-w-0 text-sm text-neutral-700 dark:text-neutral-300 truncate">
+                  {t(`shortcuts.actions.${action}`)}
+                </span>
+                {action in overrides && (
+                  <button
+                    onClick={() => {
+                      resetShortcut(action)
+                      setMessage(null)
+                    }}
+                    title={t('shortcuts.reset')}
+                    className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setRecording(isRecording ? null : action)
+                    setMessage(null)
+                  }}
+                  className={cn(
+                    'min-w-[96px] px-2.5 py-1 rounded-lg border text-xs font-medium transition-colors',
+                    isRecording
+                      ? 'border-neutral-900 dark:border-white text-neutral-900 dark:text-white animate-pulse'
+                      : 'border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                  )}
+                >
+                  {isRecording ? t('shortcuts.pressKeys') : combo ? formatCombo(combo) : t('shortcuts.notSet')}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-neutral-200 dark:border-neutral-700 text-xs text-neutral-500 dark:text-neutral-400 space-y-2">
+          <p className={cn(message && 'text-amber-600 dark:text-amber-400')}>
+            {message ?? t('shortcuts.hint')}
+          </p>
+          <button
+            onClick={() => {
+              resetAllShortcuts()
+              setMessage(null)
+            }}
+            disabled={Object.keys(overrides).length === 0}
+            className="font-medium text-neutral-700 dark:text-neutral-300 hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            {t('shortcuts.resetAll')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
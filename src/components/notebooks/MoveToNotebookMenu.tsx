@@ -0,0 +1,66 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Check, Folder, FolderInput, FolderX } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { useNotebooksStore, getNotebookChildren } from '@/stores/notebooksStore'
+import {
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+} from '@/components/ui/ContextMenu'
+import type { Note, Notebook } from '@/types'
+
+/**
+ * "Move to notebook" submenu for a note's context menu
+ */
+export function MoveToNotebookMenu({ note }: { note: Note }) {
+  const { t } = useTranslation()
+  const notebooks = useNotebooksStore(state => state.notebooks)
+  const moveNotesToNotebook = useNotesStore(state => state.moveNotesToNotebook)
+
+  // Depth-first list so nesting can be shown with indentation
+  const flattened = useMemo(() => {
+    const children = getNotebookChildren(notebooks)
+    const result: { notebook: Notebook; depth: number }[] = []
+    const visit = (parentId: string | null, depth: number) => {
+      for (const notebook of children.get(parentId) || []) {
+        result.push({ notebook, depth })
+        visit(notebook.id, depth + 1)
+      }
+    }
+    visit(null, 0)
+    return result
+  }, [notebooks])
+
+  if (notebooks.length === 0) return null
+
+  return (
+    <ContextMenuSub>
+      <ContextMenuSubTrigger>
+        <FolderInput className="w-4 h-4 mr-2" />
+        {t('notebooks.moveTo')}
+      </ContextMenuSubTrigger>
+      <ContextMenuSubContent className="max-h-[60vh] overflow-y-auto">
+        <ContextMenuItem onClick={() => moveNotesToNotebook([note.id], null)}>
+          <FolderX className="w-4 h-4 mr-2" />
+          <span className="flex-1">{t('notebooks.noNotebook')}</span>
+          {!note.notebookId && <Check className="w-4 h-4 ml-2" />}
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        {flattened.map(({ notebook, depth }) => (
+          <ContextMenuItem
+            key={notebook.id}
+            onClick={() => moveNotesToNotebook([note.id], notebook.id)}
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          >
+            <Folder className="w-4 h-4 mr-2 shrink-0" />
+            <span className="flex-1 truncate max-w-[200px]">{notebook.name}</span>
+            {note.notebookId === notebook.id && <Check className="w-4 h-4 ml-2" />}
+          </ContextMenuItem>
+        ))}
+      </ContextMenuSubContent>
+    </ContextMenuSub>
+  )
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  DndContext,
+  DragOverlay,
+  MouseSensor,
+  TouchSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  type DragStartEvent,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Folder, FileText } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { useNotebooksStore } from '@/stores/notebooksStore'
+import type { NotebookDragData, NotebookDropData } from './notebookDnd'
+
+/**
+ * Drag-and-drop context for filing notes into notebooks
+ * and nesting notebooks inside each other
+ */
+export function NotebookDndProvider({ children }: { children: React.ReactNode }) {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const moveNotesToNotebook = useNotesStore(state => state.moveNotesToNotebook)
+  const notebooks = useNotebooksStore(state => state.notebooks)
+  const moveNotebook = useNotebooksStore(state => state.moveNotebook)
+  const [active, setActive] = useState<NotebookDragData | null>(null)
+
+  // Small distance/delay so clicks and scrolling still work
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 250, tolerance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActive((event.active.data.current as NotebookDragData | undefined) ?? null)
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActive(null)
+    const dragData = event.active.data.current as NotebookDragData | undefined
+    const dropData = event.over?.data.current as NotebookDropData | undefined
+    if (!dragData || !dropData) return
+
+    if (dragData.type === 'note') {
+      moveNotesToNotebook([dragData.noteId], dropData.notebookId)
+    } else if (dragData.notebookId !== dropData.notebookId) {
+      moveNotebook(dragData.notebookId, dropData.notebookId)
+    }
+  }
+
+  const activeLabel = active?.type === 'note'
+    ? (notes.find(n => n.id === active.noteId)?.title || t('notes.newNote'))
+    : active?.type === 'notebook'
+      ? notebooks.find(nb => nb.id === active.notebookId)?.name
+      : undefined
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActive(null)}
+    >
+      {children}
+      <DragOverlay dropAnimation={null}>
+        {active && (
+          <div className="inline-flex items-center gap-2 max-w-[240px] px-3 py-2 rounded-xl bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 shadow-lg text-sm font-medium text-neutral-900 dark:text-white cursor-grabbing">
+            {active.type === 'note' ? <FileText className="w-4 h-4 shrink-0" /> : <Folder className="w-4 h-4 shrink-0" />}
+            <span className="truncate">{activeLabel}</span>
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  )
+}
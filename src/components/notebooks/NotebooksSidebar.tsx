@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { X, Plus, Pencil, Trash2, ChevronRight, Folder, FolderOpen, Notebook as NotebookIcon } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { useNotebooksStore, getNotebookChildren } from '@/stores/notebooksStore'
+import { ConfirmDialog, InputDialog } from '@/components/ui/Dialog'
+import { notebookDropId, type NotebookDragData, type NotebookDropData } from './notebookDnd'
+import type { Notebook } from '@/types'
+import { cn } from '@/lib/utils'
+
+interface NotebooksSidebarProps {
+  className?: string
+  // Called after a notebook is picked (closes the mobile drawer)
+  onNavigate?: () => void
+}
+
+export function NotebooksSidebar({ className, onNavigate }: NotebooksSidebarProps) {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const notebooks = useNotebooksStore(state => state.notebooks)
+  const selectedNotebookId = useNotebooksStore(state => state.selectedNotebookId)
+  const setSelectedNotebook = useNotebooksStore(state => state.setSelectedNotebook)
+  const createNotebook = useNotebooksStore(state => state.createNotebook)
+  const renameNotebook = useNotebooksStore(state => state.renameNotebook)
+  const deleteNotebook = useNotebooksStore(state => state.deleteNotebook)
+
+  // undefined = dialog closed, null = new top-level notebook
+  const [createParentId, setCreateParentId] = useState<string | null | undefined>(undefined)
+  const [renaming, setRenaming] = useState<Notebook | null>(null)
+  const [deleting, setDeleting] = useState<Notebook | null>(null)
+
+  const children = useMemo(() => getNotebookChildren(notebooks), [notebooks])
+
+  // Direct note count per notebook
+  const noteCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const note of notes) {
+      if (note.isDeleted || !note.notebookId) continue
+      counts.set(note.notebookId, (counts.get(note.notebookId) || 0) + 1)
+    }
+    return counts
+  }, [notes])
+
+  const handleSelect = (id: string | null) => {
+    setSelectedNotebook(id)
+    onNavigate?.()
+  }
+
+  const topLevel = children.get(null) || []
+
+  return (
+    <nav className={cn("flex flex-col min-h-0", className)}>
+      <div className="flex items-center justify-between px-2 pb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+          {t('notebooks.title')}
+        </h2>
+        <button
+          onClick={() => setCreateParentId(null)}
+          className="p-1 rounded-md text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          title={t('notebooks.newNotebook')}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-0.5">
+        <AllNotesItem
+          isSelected={selectedNotebookId === null}
+          count={notes.filter(n => !n.isDeleted).length}
+          onSelect={() => handleSelect(null)}
+        />
+
+        {topLevel.map(notebook => (
+          <NotebookTreeItem
+            key={notebook.id}
+            notebook={notebook}
+            depth={0}
+            childrenByParent={children}
+            noteCounts={noteCounts}
+            onSelect={handleSelect}
+            onAddChild={setCreateParentId}
+            onRename={setRenaming}
+            onDelete={setDeleting}
+          />
+        ))}
+
+        {topLevel.length === 0 && (
+          <p className="px-2 py-3 text-xs text-neutral-400 dark:text-neutral-500">
+            {t('notebooks.empty')}
+          </p>
+        )}
+      </div>
+
+      <InputDialog
+        open={createParentId !== undefined}
+        onClose={() => setCreateParentId(undefined)}
+        onConfirm={(name) => createNotebook(name, createParentId ?? null)}
+        title={createParentId ? t('notebooks.newSubNotebook') : t('notebooks.newNotebook')}
+        placeholder={t('notebooks.namePlaceholder')}
+      />
+
+      <InputDialog
+        open={!!renaming}
+        onClose={() => setRenaming(null)}
+        onConfirm={(name) => renaming && renameNotebook(renaming.id, name)}
+        title={t('notebooks.rename')}
+        placeholder={t('notebooks.namePlaceholder')}
+        defaultValue={renaming?.name}
+      />
+
+      <ConfirmDialog
+        open={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={() => deleting && deleteNotebook(deleting.id)}
+        title={t('notebooks.delete')}
+        description={t('notebooks.deleteConfirm', { name: deleting?.name })}
+        confirmText={t('notebooks.delete')}
+      />
+    </nav>
+  )
+}
+
+function AllNotesItem({ isSelected, count, onSelect }: { isSelected: boolean; count: number; onSelect: () => void }) {
+  const { t } = useTranslation()
+  const { setNodeRef, isOver } = useDroppable({
+    id: notebookDropId(null),
+    data: { notebookId: null } satisfies NotebookDropData
+  })
+
+  return (
+    <button
+      ref={setNodeRef}
+      onClick={onSelect}
+      className={cn(
+        "w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-colors",
+        isSelected
+          ? "bg-neutral-200/70 dark:bg-neutral-800 text-neutral-900 dark:text-white font-medium"
+          : "text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800/60",
+        isOver && "ring-1 ring-neutral-900 dark:ring-white"
+      )}
+    >
+      <NotebookIcon className="w-4 h-4 shrink-0" />
+      <span className="flex-1 text-left truncate">{t('notebooks.allNotes')}</span>
+      <span className="text-xs text-neutral-400">{count}</span>
+    </button>
+  )
+}
+
+interface NotebookTreeItemProps {
+  notebook: Notebook
+  depth: number
+  childrenByParent: Map<string | null, Notebook[]>
+  noteCounts: Map<string, number>
+  onSelect: (id: string) => void
+  onAddChild: (parentId: string) => void
+  onRename: (notebook: Notebook) => void
+  onDelete: (notebook: Notebook) => void
+}
+
+function NotebookTreeItem({
+  notebook,
+  depth,
+  childrenByParent,
+  noteCounts,
+  onSelect,
+  onAddChild,
+  onRename,
+  onDelete
+}: NotebookTreeItemProps) {
+  const { t } = useTranslation()
+  const isSelected = useNotebooksStore(state => state.selectedNotebookId === notebook.id)
+  const isExpanded = useNotebooksStore(state => state.expandedIds.includes(notebook.id))
+  const toggleExpanded = useNotebooksStore(state => state.toggleExpanded)
+
+  const childNotebooks = childrenByParent.get(notebook.id) || []
+  const hasChildren = childNotebooks.length > 0
+
+  const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({
+    id: notebookDropId(notebook.id),
+    data: { type: 'notebook', notebookId: notebook.id } satisfies NotebookDragData
+  })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({
+    id: notebookDropId(notebook.id),
+    data: { notebookId: notebook.id } satisfies NotebookDropData
+  })
+
+  return (
+    <div className={cn(isDragging && "opacity-40")}>
+      <div
+        ref={(node) => {
+          setDragRef(node)
+          setDropRef(node)
+        }}
+        {...listeners}
+        {...attributes}
+        onClick={() => onSelect(notebook.id)}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        className={cn(
+          "group flex items-center gap-1 pr-1 py-1 rounded-lg text-sm cursor-pointer transition-colors touch-manipulation",
+          isSelected
+            ? "bg-neutral-200/70 dark:bg-neutral-800 text-neutral-900 dark:text-white font-medium"
+            : "text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800/60",
+          isOver && !isDragging && "ring-1 ring-neutral-900 dark:ring-white"
+        )}
+      >
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            toggleExpanded(notebook.id)
+          }}
+          className={cn(
+            "p-0.5 rounded text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300",
+            !hasChildren && "invisible"
+          )}
+        >
+          <ChevronRight className={cn("w-3.5 h-3.5 transition-transform", isExpanded && "rotate-90")} />
+        </button>
+        {isSelected ? <FolderOpen className="w-4 h-4 shrink-0" /> : <Folder className="w-4 h-4 shrink-0" />}
+        <span className="flex-1 min-w-0 truncate">{notebook.name}</span>
+
+        {/* Actions - shown on hover, always visible on touch screens */}
+        <div className="flex items-center opacity-0 group-hover:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity">
+          <ItemAction title={t('notebooks.newSubNotebook')} onClick={() => onAddChild(notebook.id)}>
+            <Plus className="w-3.5 h-3.5" />
+          </ItemAction>
+          <ItemAction title={t('notebooks.rename')} onClick={() => onRename(notebook)}>
+            <Pencil className="w-3.5 h-3.5" />
+          </ItemAction>
+          <ItemAction title={t('notebooks.delete')} onClick={() => onDelete(notebook)}>
+            <Trash2 className="w-3.5 h-3.5" />
+          </ItemAction>
+        </div>
+        <span className="w-5 text-right text-xs text-neutral-400 group-hover:hidden [@media(hover:none)]:hidden">
+          {noteCounts.get(notebook.id) || ''}
+        </span>
+      </div>
+
+      {hasChildren && isExpanded && childNotebooks.map(child => (
+        <NotebookTreeItem
+          key={child.id}
+          notebook={child}
+          depth={depth + 1}
+          childrenByParent={childrenByParent}
+          noteCounts={noteCounts}
+          onSelect={onSelect}
+          onAddChild={onAddChild}
+          onRename={onRename}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  )
+}
+
+function ItemAction({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick()
+      }}
+      // Keep clicks on actions from starting a drag
+      onPointerDown={(e) => e.stopPropagation()}
+      className="p-1 rounded text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200 hover:bg-neutral-200 dark:hover:bg-neutral-700"
+      title={title}
+    >
+      {children}
+    </button>
+  )
+}
+
+// Slide-in notebooks drawer for small screens
+export function NotebooksDrawer() {
+  const { t } = useTranslation()
+  const isDrawerOpen = useNotebooksStore(state => state.isDrawerOpen)
+  const setDrawerOpen = useNotebooksStore(state => state.setDrawerOpen)
+
+  if (!isDrawerOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 md:hidden">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={() => setDrawerOpen(false)}
+      />
+      <div className="absolute inset-y-0 left-0 w-72 max-w-[85vw] flex flex-col bg-white dark:bg-neutral-900 border-r border-neutral-200 dark:border-neutral-700 shadow-2xl animate-in fade-in duration-200 safe-top safe-bottom">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-700">
+          <span className="text-base font-semibold text-neutral-900 dark:text-white">
+            {t('notebooks.title')}
+          </span>
+          <button
+            onClick={() => setDrawerOpen(false)}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <NotebooksSidebar className="flex-1 p-2" onNavigate={() => setDrawerOpen(false)} />
+      </div>
+    </div>
+  )
+}
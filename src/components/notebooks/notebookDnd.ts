@@ -0,0 +1,16 @@
+// What is being dragged
+export type NotebookDragData =
+  | { type: 'note'; noteId: string }
+  | { type: 'notebook'; notebookId: string }
+
+// Where it is dropped (null = top level / no notebook)
+export interface NotebookDropData {
+  notebookId: string | null
+}
+
+/**
+ * Droppable ID for a notebook in the sidebar tree
+ */
+export function notebookDropId(notebookId: string | null): string {
+  return `notebook:${notebookId ?? 'root'}`
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react'
 import { createPortal } from 'react-dom'
+import * as Popover from '@radix-ui/react-popover'
 import { useTranslation } from 'react-i18next'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
@@ -13,7 +14,12 @@ import {
   MessageCircle,
   FileText,
   ChevronLeft,
-  X
+  X,
+  Square,
+  SquarePen,
+  ChevronDown,
+  Pencil,
+  Check
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
@@ -22,7 +28,7 @@ import { useEdgeSwipeBack, EdgeSwipeIndicator } from '@/hooks/useEdgeSwipeBack'
 import { useHistoryBack } from '@/hooks/useHistoryBack'
 import * as AI from '@/lib/ai'
 import { InsufficientCreditsError } from '@/lib/ai'
-import type { AIChatMessage } from '@/types'
+import type { AIChatMessage, AIChatThread } from '@/types'
 
 // Type declarations for Web Speech API
 interface SpeechRecognitionEvent extends Event {
@@ -73,8 +79,16 @@ interface AIChatViewProps {
   contextText?: string
   onClearContext?: () => void
   initialMessages?: AIChatMessage[]
-  onSendMessage?: (question: string, onStream?: (messageId: string, content: string) => void) => Promise<void>
-  isLoading?: boolean
+  // Chat threads of the note - the thread menu shows when these are given
+  threads?: AIChatThread[]
+  activeThreadId?: string | null
+  onSelectThread?: (threadId: string) => void
+  onNewThread?: () => void
+  onRenameThread?: (threadId: string, name: string) => void
+  onSendMessage?: (question: string) => Promise<void>
+  isLoading?: boolean  // Waiting for the first token
+  isStreaming?: boolean  // The answer is arriving
+  onStop?: () => void
   onInsufficientCredits?: () => void
 }
 
@@ -108,18 +122,19 @@ const readOnlyExtensions = [
   })
 ]
 
-export function AIChatView({ open, onClose, noteContent, contextText, onClearContext, initialMessages = [], onSendMessage, isLoading: externalLoading, onInsufficientCredits }: AIChatViewProps) {
+export function AIChatView({ open, onClose, noteContent, contextText, onClearContext, initialMessages = [], threads, activeThreadId, onSelectThread, onNewThread, onRenameThread, onSendMessage, isLoading: externalLoading, isStreaming: externalStreaming, onStop, onInsufficientCredits }: AIChatViewProps) {
   const { t, i18n } = useTranslation()
   const { user } = useAuthStore()
-  const [messages, setMessages] = useState<AIChatMessage[]>(initialMessages)
+  const [localMessages, setMessages] = useState<AIChatMessage[]>(initialMessages)
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [isListening, setIsListening] = useState(false)
-  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
-  const [streamingContent, setStreamingContent] = useState('')
+  const [isStreaming, setIsStreaming] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const recognitionRef = useRef<SpeechRecognitionInstance | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const summaryRef = useRef<Pick<AIChatThread, 'summary' | 'summarizedCount'>>({})
 
   // Edge swipe back gesture
   const { 
@@ -152,25 +167,20 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
     }
   }, [initialMessages])
 
+  // The parent owns the messages when it sends them
+  const messages = onSendMessage ? initialMessages : localMessages
+
   // Use external loading state if provided
   const loading = externalLoading !== undefined ? externalLoading : isLoading
+  const streaming = externalStreaming !== undefined ? externalStreaming : isStreaming
+  const busy = loading || streaming
 
-  // Auto-scroll to bottom when new messages arrive or streaming
+  // Auto-scroll to bottom when new messages arrive or the answer grows
   useEffect(() => {
     if (messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' })
+      messagesEndRef.current.scrollIntoView({ behavior: streaming ? 'auto' : 'smooth' })
     }
-  }, [messages, loading, streamingContent])
-
-  // Additional auto-scroll during streaming for smoother experience
-  useEffect(() => {
-    if (streamingContent && messagesEndRef.current) {
-      const scrollContainer = messagesEndRef.current.parentElement
-      if (scrollContainer) {
-        scrollContainer.scrollTop = scrollContainer.scrollHeight
-      }
-    }
-  }, [streamingContent])
+  }, [messages, loading, streaming])
 
   // Focus input when opened - DISABLED to prevent keyboard auto-open on mobile
   useEffect(() => {
@@ -192,30 +202,14 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
     }
   }, [input])
 
-  // Streaming text effect
-  const streamText = async (text: string, messageId: string) => {
-    setStreamingMessageId(messageId)
-    setStreamingContent('')
-    
-    const words = text.split(' ')
-    let currentText = ''
-    
-    for (let i = 0; i < words.length; i++) {
-      currentText += (i === 0 ? '' : ' ') + words[i]
-      setStreamingContent(currentText)
-      
-      // Random delay for natural feel (20-40ms per word)
-      await new Promise(resolve => setTimeout(resolve, 20 + Math.random() * 20))
-    }
-    
-    // Streaming complete
-    setStreamingMessageId(null)
-    setStreamingContent('')
+  const handleStop = () => {
+    if (onStop) onStop()
+    else abortRef.current?.abort()
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!input.trim() || loading) return
+    if (!input.trim() || busy) return
 
     const userMessage: AIChatMessage = {
       id: Date.now().toString(),
@@ -228,42 +222,35 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
 
     // If external handler provided, use it (it will handle adding messages)
     if (onSendMessage) {
-      await onSendMessage(userMessage.content, async (messageId, content) => {
-        // Stream callback from parent
-        await streamText(content, messageId)
-      })
+      await onSendMessage(userMessage.content)
       return
     }
 
     // Otherwise handle internally - add user message and get AI response
     setMessages(prev => [...prev, userMessage])
     setIsLoading(true)
+    const controller = new AbortController()
+    abortRef.current = controller
+    const aiMessage: AIChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now()
+    }
 
     try {
-      // Call AI with note content as context
-      const response = await AI.askAI(noteContent, userMessage.content)
-      
-      const aiMessage: AIChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response,
-        timestamp: Date.now()
-      }
-
-      // Add message to list first (with empty content for streaming)
-      setMessages(prev => [...prev, { ...aiMessage, content: '' }])
-      setIsLoading(false)
-      
-      // Stream the text
-      await streamText(response, aiMessage.id)
-      
-      // Update with final content
-      setMessages(prev => prev.map(m => 
-        m.id === aiMessage.id ? aiMessage : m
-      ))
+      // Call AI with note content and the conversation so far, growing the answer as tokens arrive
+      const { summary, summarizedCount } = await AI.askInThread(noteContent, { messages, ...summaryRef.current }, userMessage.content, {
+        signal: controller.signal,
+        onToken: (_, text) => {
+          setIsLoading(false)
+          setIsStreaming(true)
+          setMessages(prev => AI.upsertChatMessage(prev, { ...aiMessage, content: text }))
+        }
+      })
+      summaryRef.current = { summary, summarizedCount }
     } catch (error) {
       console.error('AI error:', error)
-      setIsLoading(false)
       
       if (error instanceof InsufficientCreditsError) {
         onInsufficientCredits?.()
@@ -277,6 +264,10 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
         }
         setMessages(prev => [...prev, errorMessage])
       }
+    } finally {
+      abortRef.current = null
+      setIsLoading(false)
+      setIsStreaming(false)
     }
   }
 
@@ -348,6 +339,33 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
         <ChevronLeft className="w-5 h-5" />
       </button>
 
+      {/* Chat threads */}
+      {threads && onSelectThread && onNewThread && (
+        <div className="absolute z-10 top-3 right-3 flex items-center gap-1">
+          {threads.length > 0 && (
+            <ThreadMenu
+              threads={threads}
+              activeThreadId={activeThreadId ?? null}
+              onSelect={onSelectThread}
+              onRename={onRenameThread}
+            />
+          )}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={onNewThread}
+                disabled={busy || !activeThreadId}
+                aria-label={t('ai.newConversation')}
+                className="p-2 rounded-full bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-700 disabled:opacity-40 transition-colors"
+              >
+                <SquarePen className="w-5 h-5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>{t('ai.newConversation')}</TooltipContent>
+          </Tooltip>
+        </div>
+      )}
+
       {/* Messages Area - with proper padding to prevent text cutoff */}
       <div 
         className="flex-1 overflow-y-auto px-4 pt-14 pb-4 safe-top"
@@ -364,12 +382,11 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
           </div>
         ) : (
           <div className="max-w-3xl mx-auto space-y-4">
-            {messages.map((message) => (
+            {messages.map((message, index) => (
               <MessageBubble 
                 key={message.id} 
                 message={message}
-                isStreaming={streamingMessageId === message.id}
-                streamingContent={streamingMessageId === message.id ? streamingContent : undefined}
+                isStreaming={streaming && index === messages.length - 1}
               />
             ))}
             {loading && (
@@ -462,28 +479,40 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
                 )}
               </div>
 
-              {/* Right side - Submit button */}
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <button
-                    type="submit"
-                    disabled={!input.trim() || loading}
-                    className={cn(
-                      'p-2 rounded-xl transition-colors',
-                      !input.trim() || loading
-                        ? 'bg-neutral-200 dark:bg-neutral-800 text-neutral-400 dark:text-neutral-600 cursor-not-allowed'
-                        : 'border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
-                    )}
-                  >
-                    {loading ? (
-                      <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-                    ) : (
+              {/* Right side - Submit button, or Stop while answering */}
+              {busy ? (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      aria-label={t('ai.stop')}
+                      className="p-2 rounded-xl border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                      <Square className="w-4 h-4 fill-current" />
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent>{t('ai.stop')}</TooltipContent>
+                </Tooltip>
+              ) : (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="submit"
+                      disabled={!input.trim()}
+                      className={cn(
+                        'p-2 rounded-xl transition-colors',
+                        !input.trim()
+                          ? 'bg-neutral-200 dark:bg-neutral-800 text-neutral-400 dark:text-neutral-600 cursor-not-allowed'
+                          : 'border border-neutral-200 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+                      )}
+                    >
                       <Send className="w-4 h-4" />
-                    )}
-                  </button>
-                </TooltipTrigger>
-                <TooltipContent>{loading ? t('ai.processing') : t('ai.send')}</TooltipContent>
-              </Tooltip>
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent>{t('ai.send')}</TooltipContent>
+                </Tooltip>
+              )}
             </div>
           </div>
         </form>
@@ -493,32 +522,153 @@ export function AIChatView({ open, onClose, noteContent, contextText, onClearCon
   )
 }
 
+// Picker for the note's chat threads, with inline renaming
+function ThreadMenu({ threads, activeThreadId, onSelect, onRename }: {
+  threads: AIChatThread[]
+  activeThreadId: string | null
+  onSelect: (threadId: string) => void
+  onRename?: (threadId: string, name: string) => void
+}) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId)
+  const threadName = (thread: AIChatThread) => thread.name || t('ai.untitledConversation')
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) setEditingId(null)
+    setOpen(newOpen)
+  }
+
+  const startRename = (thread: AIChatThread) => {
+    setEditingId(thread.id)
+    setDraftName(thread.name)
+  }
+
+  const saveRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename?.(editingId, draftName.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <Popover.Root open={open} onOpenChange={handleOpenChange}>
+      <Popover.Trigger asChild>
+        <button className="flex items-center gap-1 max-w-[200px] pl-3 pr-2 py-2 rounded-full bg-neutral-100 dark:bg-neutral-800 text-sm text-neutral-700 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors">
+          <span className="truncate">{activeThread ? threadName(activeThread) : t('ai.newConversation')}</span>
+          <ChevronDown className="w-4 h-4 shrink-0" />
+        </button>
+      </Popover.Trigger>
+
+      <Popover.Portal>
+        <Popover.Content
+          side="bottom"
+          align="end"
+          sideOffset={8}
+          collisionPadding={16}
+          className="z-[60] w-[260px] max-w-[calc(100vw-32px)] max-h-[60vh] overflow-y-auto p-1 rounded-xl border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 shadow-lg animate-in fade-in-0 zoom-in-95"
+        >
+          <p className="px-3 pt-2 pb-1 text-xs font-medium text-neutral-500 dark:text-neutral-400">{t('ai.conversations')}</p>
+          {threads.map(thread => (
+            editingId === thread.id ? (
+              <form
+                key={thread.id}
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  saveRename()
+                }}
+                className="flex items-center gap-1 px-2 py-1"
+              >
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') {
+                      e.stopPropagation()
+                      setEditingId(null)
+                    }
+                  }}
+                  placeholder={t('ai.conversationName')}
+                  autoFocus
+                  className="flex-1 min-w-0 px-2 py-1 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                />
+                <button
+                  type="submit"
+                  aria-label={t('ai.renameConversation')}
+                  className="p-1.5 rounded-lg text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-700"
+                >
+                  <Check className="w-3.5 h-3.5" />
+                </button>
+              </form>
+            ) : (
+              <div
+                key={thread.id}
+                className={cn(
+                  'group flex items-center rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-700',
+                  thread.id === activeThreadId && 'bg-neutral-100 dark:bg-neutral-700'
+                )}
+              >
+                <button
+                  onClick={() => {
+                    onSelect(thread.id)
+                    setOpen(false)
+                  }}
+                  className="flex-1 min-w-0 text-left px-3 py-2"
+                >
+                  <span className={cn('block truncate text-sm text-neutral-700 dark:text-neutral-200', !thread.name && 'italic')}>
+                    {threadName(thread)}
+                  </span>
+                  <span className="block text-xs text-neutral-400">
+                    {t('ai.messageCount', { count: thread.messages.length })}
+                  </span>
+                </button>
+                {onRename && (
+                  <button
+                    onClick={() => startRename(thread)}
+                    aria-label={t('ai.renameConversation')}
+                    className="p-1.5 mr-1 rounded-lg text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            )
+          ))}
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  )
+}
+
 // Message bubble component
-function MessageBubble({ message, isStreaming, streamingContent }: { 
+function MessageBubble({ message, isStreaming }: { 
   message: AIChatMessage
   isStreaming?: boolean
-  streamingContent?: string
 }) {
   const isUser = message.role === 'user'
 
   // For AI messages, use Tiptap editor for rich formatting - full width, no bubble
   const editor = useEditor({
     extensions: readOnlyExtensions,
-    content: isStreaming ? streamingContent || '' : message.content,
+    content: message.content,
     editable: false,
     editorProps: {
       attributes: {
         class: 'focus:outline-none'
       }
     }
-  }, [message.content, isStreaming, streamingContent])
+  })
 
-  // Update editor content when streaming
+  // Update editor content as the answer streams in
   useEffect(() => {
-    if (editor && isStreaming && streamingContent) {
-      editor.commands.setContent(streamingContent)
+    if (editor && !editor.isDestroyed) {
+      editor.commands.setContent(message.content)
     }
-  }, [editor, isStreaming, streamingContent])
+  }, [editor, message.content])
 
   if (isUser) {
     return (
@@ -20,12 +20,16 @@ import {
   Copy,
   Scissors,
   Coins,
-  Mic
+  Mic,
+  Square
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
 import { CircleFlag } from '@/components/ui/CircleFlag'
 import * as AI from '@/lib/ai'
+import { useAIActionsStore } from '@/stores/aiActionsStore'
+import { getAIActionIcon } from './aiActionIcons'
+import type { AIPromptAction } from '@/types'
 
 // Type declarations for Web Speech API
 interface SpeechRecognitionEvent extends Event {
@@ -71,11 +75,15 @@ declare global {
 
 interface AIMenuProps {
   onAction: (action: AI.AIAction, extra?: string) => void
+  onCustomAction?: (action: AIPromptAction) => void
   disabled?: boolean
+  isGenerating?: boolean  // Shows a Stop button in place of the menu
+  onStop?: () => void
 }
 
-export function AIMenu({ onAction, disabled }: AIMenuProps) {
+export function AIMenu({ onAction, onCustomAction, disabled, isGenerating, onStop }: AIMenuProps) {
   const { t } = useTranslation()
+  const aiActions = useAIActionsStore(state => state.aiActions)
   const [open, setOpen] = useState(false)
   const [showLanguages, setShowLanguages] = useState(false)
 
@@ -101,6 +109,32 @@ export function AIMenu({ onAction, disabled }: AIMenuProps) {
     onAction('translate', langName)
   }
 
+  const handleCustomAction = (action: AIPromptAction) => {
+    setOpen(false)
+    onCustomAction?.(action)
+  }
+
+  const customActions = onCustomAction
+    ? [...aiActions].sort((a, b) => a.name.localeCompare(b.name))
+    : []
+
+  if (isGenerating && onStop) {
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button
+            onClick={onStop}
+            aria-label={t('ai.stop')}
+            className="p-1.5 rounded-full text-neutral-800 dark:text-white bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 dark:hover:bg-neutral-600 transition-colors touch-manipulation"
+          >
+            <Square className="w-[18px] h-[18px] fill-current" />
+          </button>
+        </TooltipTrigger>
+        <TooltipContent side="top">{t('ai.stop')}</TooltipContent>
+      </Tooltip>
+    )
+  }
+
   return (
     <Popover.Root open={open} onOpenChange={handleOpenChange}>
       <Popover.Trigger asChild>
@@ -132,7 +166,7 @@ export function AIMenu({ onAction, disabled }: AIMenuProps) {
         >
           {/* Main menu - hide when showing languages */}
           {!showLanguages && (
-            <div className="min-w-[180px] p-1">
+            <div className="min-w-[180px] max-w-[260px] p-1">
               <MenuItem icon={FileText} label={t('ai.summarize')} onClick={() => handleAction('summarize')} />
               <MenuItem icon={PenLine} label={t('ai.continue')} onClick={() => handleAction('continue')} />
               <MenuItem icon={Wand2} label={t('ai.improve')} onClick={() => handleAction('improve')} />
@@ -145,6 +179,23 @@ export function AIMenu({ onAction, disabled }: AIMenuProps) {
               />
               <MenuItem icon={ListTodo} label={t('ai.extractTasks')} onClick={() => handleAction('extract-tasks')} />
               <MenuItem icon={MessageCircleQuestion} label={t('ai.ask')} onClick={() => handleAction('ask')} />
+
+              {/* Custom actions */}
+              {customActions.length > 0 && (
+                <>
+                  <div className="h-px my-1 mx-2 bg-neutral-200 dark:bg-neutral-700" />
+                  <div className="max-h-[200px] overflow-y-auto">
+                    {customActions.map(action => (
+                      <MenuItem
+                        key={action.id}
+                        icon={getAIActionIcon(action.icon)}
+                        label={action.name}
+                        onClick={() => handleCustomAction(action)}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
             </div>
           )}
 
@@ -203,9 +254,9 @@ function MenuItem({
         active && "bg-neutral-100 dark:bg-neutral-700"
       )}
     >
-      <span className="flex items-center gap-2">
-        <Icon className="w-4 h-4" />
-        {label}
+      <span className="flex items-center gap-2 min-w-0">
+        <Icon className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">{label}</span>
       </span>
       {hasSubmenu && <span className="text-neutral-400 text-xs">▸</span>}
     </button>
@@ -0,0 +1,57 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link2, ChevronDown, ChevronRight } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { getBacklinks } from '@/lib/noteLinks'
+import { getPlainText } from '@/lib/utils'
+
+interface BacklinksPanelProps {
+  noteId: string
+  onOpenNote: (noteId: string) => void
+}
+
+/**
+ * "Linked from" list under the editor - notes with [[links]] to this one
+ */
+export function BacklinksPanel({ noteId, onOpenNote }: BacklinksPanelProps) {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const [isExpanded, setIsExpanded] = useState(true)
+
+  const backlinks = useMemo(() => getBacklinks(notes, noteId), [notes, noteId])
+
+  if (backlinks.length === 0) return null
+
+  return (
+    <div className="mt-6 pt-3 border-t border-neutral-200 dark:border-neutral-800">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1.5 text-xs font-medium text-neutral-500 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+      >
+        {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <Link2 className="w-3.5 h-3.5" />
+        {t('noteLinks.linkedFrom', { count: backlinks.length })}
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-2 space-y-1">
+          {backlinks.map(note => (
+            <li key={note.id}>
+              <button
+                onClick={() => onOpenNote(note.id)}
+                className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              >
+                <span className="block text-sm font-medium text-neutral-800 dark:text-neutral-200 truncate">
+                  {note.title || t('notes.newNote')}
+                </span>
+                <span className="block text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                  {getPlainText(note.content).slice(0, 120)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight'
+import { ReactNodeViewRenderer, NodeViewWrapper, NodeViewContent, type NodeViewProps } from '@tiptap/react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Code2, Eye, Workflow } from 'lucide-react'
+import { isDiagramLanguage, renderDiagram } from '@/lib/diagrams'
+import { useIsDark } from '@/hooks/useIsDark'
+import { cn } from '@/lib/utils'
+
+const RENDER_DELAY = 300
+
+// Live Mermaid preview, re-rendered shortly after the source stops changing
+function DiagramPreview({ source, onClick }: { source: string; onClick?: () => void }) {
+  const { t } = useTranslation()
+  const isDark = useIsDark()
+  const [result, setResult] = useState<{ svg?: string; error?: string }>({})
+
+  useEffect(() => {
+    if (!source.trim()) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      renderDiagram(source, { dark: isDark })
+        .then(svg => !cancelled && setResult({ svg }))
+        .catch((error: unknown) => !cancelled && setResult({ error: error instanceof Error ? error.message : String(error) }))
+    }, RENDER_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [source, isDark])
+
+  if (!source.trim()) {
+    return <p className="diagram-message">{t('diagram.empty')}</p>
+  }
+  if (result.error) {
+    return (
+      <div className="diagram-message diagram-error" onClick={onClick}>
+        <p>{t('diagram.error')}</p>
+        <pre>{result.error}</pre>
+      </div>
+    )
+  }
+  if (!result.svg) {
+    return <p className="diagram-message animate-pulse">{t('diagram.rendering')}</p>
+  }
+  return <div className="diagram-preview" onClick={onClick} dangerouslySetInnerHTML={{ __html: result.svg }} />
+}
+
+// Code block; Mermaid blocks switch between the source and the diagram
+function CodeBlockView({ node, editor }: NodeViewProps) {
+  const { t } = useTranslation()
+  const language = node.attrs.language as string | null
+  const isDiagram = isDiagramLanguage(language)
+  const source = node.textContent
+  // New diagrams start on the source so they can be written
+  const [showSource, setShowSource] = useState(() => !source.trim() && editor.isEditable)
+  const showDiagram = isDiagram && !showSource
+
+  return (
+    <NodeViewWrapper className={cn('code-block', isDiagram && 'diagram-block')}>
+      {isDiagram && (
+        <div className="diagram-toolbar" contentEditable={false}>
+          <span className="flex items-center gap-1.5">
+            <Workflow className="w-3.5 h-3.5" />
+            {t('diagram.title')}
+          </span>
+          <button
+            onClick={() => setShowSource(!showSource)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-md hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors"
+          >
+            {showSource ? <Eye className="w-3.5 h-3.5" /> : <Code2 className="w-3.5 h-3.5" />}
+            {showSource ? t('diagram.showPreview') : t('diagram.showSource')}
+          </button>
+        </div>
+      )}
+      <pre className={cn('hljs', showDiagram && 'hidden')}>
+        <NodeViewContent<'code'> as="code" className={language ? `language-${language}` : undefined} />
+      </pre>
+      {showDiagram && (
+        <div contentEditable={false}>
+          <DiagramPreview
+            source={source}
+            onClick={editor.isEditable ? () => setShowSource(true) : undefined}
+          />
+        </div>
+      )}
+    </NodeViewWrapper>
+  )
+}
+
+/**
+ * Syntax-highlighted code blocks, with ```mermaid blocks drawn as diagrams
+ */
+export const CodeBlock = CodeBlockLowlight.extend({
+  addNodeView() {
+    return ReactNodeViewRenderer(CodeBlockView)
+  }
+})
@@ -0,0 +1,287 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, AlertTriangle, ArrowLeft, Clock, Laptop, Cloud, Copy, Check, Loader2 } from 'lucide-react'
+import { useNotesStore, type ConflictChoice } from '@/stores/notesStore'
+import { splitHtmlBlocks } from '@/lib/sync/threeWayMerge'
+import type { ConflictRecord } from '@/lib/db/schema'
+import type { Note } from '@/types'
+import { cn, formatDate, getPlainText } from '@/lib/utils'
+
+interface ConflictsPanelProps {
+  open: boolean
+  onClose: () => void
+}
+
+export function ConflictsPanel({ open, onClose }: ConflictsPanelProps) {
+  const { t } = useTranslation()
+  const conflicts = useNotesStore(state => state.conflicts)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const selected = conflicts.find(c => c.id === selectedId)
+
+  const handleClose = () => {
+    setSelectedId(null)
+    onClose()
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 safe-x">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className={cn(
+        "relative w-full max-h-[85vh] overflow-hidden bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 flex flex-col",
+        selected ? "max-w-3xl" : "max-w-md"
+      )}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center gap-2 min-w-0">
+            {selected ? (
+              <button
+                onClick={() => setSelectedId(null)}
+                className="p-1.5 -ml-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            ) : (
+              <AlertTriangle className="w-5 h-5 text-neutral-500" />
+            )}
+            <h2 className="text-base font-semibold text-neutral-900 dark:text-white truncate">
+              {selected ? (selected.localNote.title || t('notes.untitled')) : t('conflicts.title')}
+            </h2>
+            {!selected && conflicts.length > 0 && (
+              <span className="px-2 py-0.5 text-xs font-medium bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-300 rounded-full">
+                {conflicts.length}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        {selected ? (
+          <ConflictDetail record={selected} onResolved={() => setSelectedId(null)} />
+        ) : (
+          <div className="overflow-y-auto">
+            {conflicts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+                <Check className="w-12 h-12 text-neutral-300 dark:text-neutral-600 mb-3" />
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  {t('conflicts.empty')}
+                </p>
+              </div>
+            ) : (
+              <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                {conflicts.map((record) => (
+                  <button
+                    key={record.id}
+                    onClick={() => setSelectedId(record.id)}
+                    className="w-full p-4 text-left hover:bg-neutral-50 dark:hover:bg-neutral-800/50 transition-colors"
+                  >
+                    <h3 className="font-medium text-neutral-900 dark:text-white line-clamp-1">
+                      {record.localNote.title || record.remoteNote.title || t('notes.untitled')}
+                    </h3>
+                    <div className="flex items-center gap-3 mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                      <div className="flex items-center gap-1">
+                        <Clock className="w-3.5 h-3.5" />
+                        <span>{formatDate(record.createdAt)}</span>
+                      </div>
+                      <span>{t(`conflicts.resolution.${record.info.resolution}`)}</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ConflictDetail({ record, onResolved }: { record: ConflictRecord; onResolved: () => void }) {
+  const { t } = useTranslation()
+  const resolveConflict = useNotesStore(state => state.resolveConflict)
+  const [pending, setPending] = useState<ConflictChoice | null>(null)
+
+  // Plain-text blocks for both sides, flagging blocks missing from the other side
+  const [localBlocks, remoteBlocks] = useMemo(() => {
+    const local = splitHtmlBlocks(record.localNote.content).map(getPlainText)
+    const remote = splitHtmlBlocks(record.remoteNote.content).map(getPlainText)
+    const localSet = new Set(local)
+    const remoteSet = new Set(remote)
+    return [
+      local.map(text => ({ text, changed: !remoteSet.has(text) })),
+      remote.map(text => ({ text, changed: !localSet.has(text) }))
+    ]
+  }, [record])
+
+  // Side that sync did not keep
+  const loser = record.info.resolution === 'local' ? 'remote' : record.info.resolution === 'remote' ? 'local' : null
+
+  const handle = async (choice: ConflictChoice) => {
+    setPending(choice)
+    try {
+      await resolveConflict(record.id, choice)
+      onResolved()
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto p-4">
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-3">
+          {t('conflicts.description')}
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <ConflictColumn
+            icon={<Laptop className="w-4 h-4" />}
+            label={t('conflicts.thisDevice')}
+            note={record.localNote}
+            blocks={localBlocks}
+            isLoser={loser === 'local'}
+            isPending={pending === 'copy-local'}
+            disabled={!!pending}
+            onSaveCopy={() => handle('copy-local')}
+          />
+          <ConflictColumn
+            icon={<Cloud className="w-4 h-4" />}
+            label={t('conflicts.otherDevice')}
+            note={record.remoteNote}
+            blocks={remoteBlocks}
+            isLoser={loser === 'remote'}
+            isPending={pending === 'copy-remote'}
+            disabled={!!pending}
+            onSaveCopy={() => handle('copy-remote')}
+          />
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2 px-4 py-3 border-t border-neutral-200 dark:border-neutral-700">
+        <button
+          onClick={() => handle('keep-local')}
+          disabled={!!pending}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-neutral-900 dark:bg-white hover:bg-neutral-800 dark:hover:bg-neutral-100 text-white dark:text-neutral-900 text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {pending === 'keep-local' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Laptop className="w-4 h-4" />}
+          {t('conflicts.keepLocal')}
+        </button>
+        <button
+          onClick={() => handle('keep-remote')}
+          disabled={!!pending}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-neutral-900 dark:bg-white hover:bg-neutral-800 dark:hover:bg-neutral-100 text-white dark:text-neutral-900 text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {pending === 'keep-remote' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Cloud className="w-4 h-4" />}
+          {t('conflicts.keepRemote')}
+        </button>
+        <button
+          onClick={() => handle('dismiss')}
+          disabled={!!pending}
+          className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-neutral-100 dark:bg-neutral-800 hover:bg-neutral-200 dark:hover:bg-neutral-700 text-neutral-600 dark:text-neutral-300 text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {t('conflicts.dismiss')}
+        </button>
+      </div>
+    </>
+  )
+}
+
+function ConflictColumn({
+  icon,
+  label,
+  note,
+  blocks,
+  isLoser,
+  isPending,
+  disabled,
+  onSaveCopy
+}: {
+  icon: React.ReactNode
+  label: string
+  note: Note
+  blocks: { text: string; changed: boolean }[]
+  isLoser: boolean
+  isPending: boolean
+  disabled: boolean
+  onSaveCopy: () => void
+}) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex flex-col min-w-0 rounded-xl border border-neutral-200 dark:border-neutral-700 overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 bg-neutral-50 dark:bg-neutral-800/50 border-b border-neutral-200 dark:border-neutral-700">
+        <span className="text-neutral-500">{icon}</span>
+        <span className="text-sm font-medium text-neutral-800 dark:text-neutral-200 flex-1 truncate">{label}</span>
+        {isLoser && (
+          <span className="px-1.5 py-0.5 text-[10px] font-semibold bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 rounded-full">
+            {t('conflicts.overwritten')}
+          </span>
+        )}
+      </div>
+      <div className="px-3 py-2 text-xs text-neutral-500 dark:text-neutral-400">
+        {formatDate(note.updatedAt)} · v{note.version || 1}
+      </div>
+      <div className="flex-1 px-3 pb-3 space-y-1.5 text-sm max-h-[40vh] overflow-y-auto">
+        <p className="font-semibold text-neutral-900 dark:text-white break-words">
+          {note.title || t('notes.untitled')}
+        </p>
+        {blocks.map((block, i) => (
+          <p
+            key={i}
+            className={cn(
+              "whitespace-pre-wrap break-words rounded px-1 -mx-1",
+              block.changed
+                ? "bg-neutral-200/70 dark:bg-neutral-700/70 text-neutral-900 dark:text-white"
+                : "text-neutral-600 dark:text-neutral-400"
+            )}
+          >
+            {block.text || ' '}
+          </p>
+        ))}
+      </div>
+      <button
+        onClick={onSaveCopy}
+        disabled={disabled}
+        className="flex items-center justify-center gap-1.5 px-3 py-2 border-t border-neutral-200 dark:border-neutral-700 text-xs font-medium text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+      >
+        {isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Copy className="w-3.5 h-3.5" />}
+        {t('conflicts.saveAsNote')}
+      </button>
+    </div>
+  )
+}
+
+// Badge component to show in header
+export function ConflictsBadge({ onClick }: { onClick: () => void }) {
+  const { t } = useTranslation()
+  const conflicts = useNotesStore(state => state.conflicts)
+
+  if (conflicts.length === 0) return null
+
+  return (
+    <button
+      onClick={onClick}
+      className="relative p-2 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors touch-manipulation"
+      title={t('conflicts.title')}
+    >
+      <AlertTriangle className="w-5 h-5" />
+      <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] flex items-center justify-center px-1 text-[10px] font-bold bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 rounded-full">
+        {conflicts.length > 99 ? '99+' : conflicts.length}
+      </span>
+    </button>
+  )
+}
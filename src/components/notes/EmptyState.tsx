@@ -4,7 +4,7 @@ import { useThemeStore } from '@/stores/themeStore'
 import { useEffect, useState } from 'react'
 
 interface EmptyStateProps {
-  type: 'no-notes' | 'no-results'
+  type: 'no-notes' | 'no-results' | 'empty-notebook' | 'no-reminders' | 'no-daily-notes'
   searchQuery?: string
 }
 
@@ -32,6 +32,21 @@ export function EmptyState({ type, searchQuery }: EmptyStateProps) {
         title: t('emptyState.welcome'),
         description: t('emptyState.getStarted')
       }
+    : type === 'empty-notebook'
+    ? {
+        title: t('notebooks.emptyNotebook'),
+        description: t('notebooks.emptyNotebookHint')
+      }
+    : type === 'no-reminders'
+    ? {
+        title: t('reminders.empty'),
+        description: t('reminders.emptyHint')
+      }
+    : type === 'no-daily-notes'
+    ? {
+        title: t('journal.empty'),
+        description: t('journal.emptyHint')
+      }
     : {
         title: t('emptyState.noResults'),
         description: searchQuery 
@@ -25,6 +25,7 @@ import Subscript from '@tiptap/extension-subscript'
 import Superscript from '@tiptap/extension-superscript'
 import TextAlign from '@tiptap/extension-text-align'
 import Link from '@tiptap/extension-link'
+import { Table, TableRow, TableHeader, TableCell } from '@tiptap/extension-table'
 import {
   Undo2, Redo2, Bold, Italic, List, ListOrdered, CheckSquare,
   Strikethrough, Heading1, Heading2, Heading3, RotateCcw, Save,
@@ -33,9 +34,11 @@ import {
   Link as LinkIcon, Unlink, AlignLeft, AlignCenter, AlignRight,
   AlignJustify, RemoveFormatting, Sparkles, History, Users,
   ImagePlus, Pencil, Lock, ArrowRight, Info, X,
-  Scissors, Copy, ClipboardPaste, TextSelect
+  Scissors, Copy, ClipboardPaste, TextSelect, ListTree
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { DRAWING_IMAGE_ALT } from '@/lib/search'
+import { storeImage } from '@/lib/noteImages'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
 import { InputDialog, ConfirmDialog } from '@/components/ui/Dialog'
 import {
@@ -45,11 +48,14 @@ import {
   ContextMenuTrigger,
 } from '@/components/ui/ContextMenu'
 import { ResizableImage } from './ResizableImageExtension'
+import { HeadingFold } from './HeadingFoldExtension'
+import { OutlinePanel } from './OutlinePanel'
 import { DrawingModal } from './DrawingModal'
 import { SpeechButton } from './SpeechButton'
 import { NoteStylePicker, getNoteBackgroundStyle, NoteBackground } from './NoteStylePicker'
 import { NoteActionsMenu } from './NoteActionsMenu'
 import { useResponsiveToolbar } from '@/hooks/useResponsiveToolbar'
+import { useOutlineStore } from '@/stores/outlineStore'
 import { FreeNoteSEOHead } from '../FreeNoteSEOHead'
 import type { NoteStyle } from '@/types'
 
@@ -163,6 +169,8 @@ export function FreeNoteView() {
   const [isSaving, setIsSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
   const [selectedText, setSelectedText] = useState('')
+  const isOutlineOpen = useOutlineStore(state => state.isPanelOpen)
+  const setOutlineOpen = useOutlineStore(state => state.setPanelOpen)
   
   const toolbarRef = useRef<HTMLDivElement>(null)
   const editorContainerRef = useRef<HTMLDivElement>(null)
@@ -203,6 +211,15 @@ export function FreeNoteView() {
     Subscript,
     Superscript,
     TextAlign.configure({ types: ['heading', 'paragraph'] }),
+    Table.configure({ resizable: true }),
+    TableRow,
+    TableHeader,
+    TableCell,
+    HeadingFold.configure({
+      folded: useOutlineStore.getState().folded[FREE_NOTE_STORAGE_KEY] ?? [],
+      toggleLabel: t('outline.toggleFold'),
+      onChange: (folded: string[]) => useOutlineStore.getState().setFolded(FREE_NOTE_STORAGE_KEY, folded)
+    }),
     Link.configure({
       openOnClick: true,
       HTMLAttributes: { class: 'text-blue-600 dark:text-blue-400 underline cursor-pointer' }
@@ -313,20 +330,20 @@ export function FreeNoteView() {
     const file = e.target.files?.[0]
     if (!file || !editor) return
 
-    const reader = new FileReader()
-    reader.onload = () => {
-      const base64 = reader.result as string
-      editor.chain().focus().setImage({ src: base64 }).run()
-    }
-    reader.readAsDataURL(file)
+    // Stored once as a blob - the note only keeps a reference
+    storeImage(file)
+      .then(src => editor.chain().focus().setImage({ src }).run())
+      .catch(error => console.error('[FreeNoteView] Failed to store image:', error))
     e.target.value = ''
   }
 
   // Handle drawing insert
   const handleDrawingInsert = (dataUrl: string) => {
     if (!editor) return
-    editor.chain().focus().setImage({ src: dataUrl }).run()
     setShowDrawingModal(false)
+    storeImage(dataUrl)
+      .then(src => editor.chain().focus().setImage({ src, alt: DRAWING_IMAGE_ALT }).run())
+      .catch(error => console.error('[FreeNoteView] Failed to store drawing:', error))
   }
 
   // Handle link insert
@@ -976,6 +993,22 @@ export function FreeNoteView() {
                   />
                 )}
 
+                {/* Outline */}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <button
+                      onClick={() => setOutlineOpen(!isOutlineOpen)}
+                      className={cn(
+                        "p-1.5 sm:p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors",
+                        isOutlineOpen && "bg-neutral-200 dark:bg-neutral-700"
+                      )}
+                    >
+                      <ListTree className="w-4 h-4" />
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent>{isOutlineOpen ? t('outline.hide') : t('outline.show')}</TooltipContent>
+                </Tooltip>
+
                 <div className="w-px h-5 bg-neutral-200 dark:bg-neutral-700 mx-1" />
 
                 {/* History - Locked */}
@@ -1026,49 +1059,60 @@ export function FreeNoteView() {
             </div>
 
 
-            {/* Editor Content */}
-            <div 
-              ref={editorContainerRef}
-              className="flex-1 overflow-y-auto p-4 sm:p-6 relative z-10"
-            >
-              {/* Title Input */}
-              <input
-                type="text"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder={t('freeNote.titlePlaceholder')}
-                className="w-full text-xl sm:text-2xl font-bold text-neutral-900 dark:text-white bg-transparent border-0 outline-none placeholder:text-neutral-400 mb-4"
-              />
+            <div className="flex-1 flex min-h-0 relative z-10">
+              {/* Editor Content */}
+              <div 
+                ref={editorContainerRef}
+                className="flex-1 min-w-0 overflow-y-auto p-4 sm:p-6 relative"
+              >
+                {/* Title Input */}
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={t('freeNote.titlePlaceholder')}
+                  className="w-full text-xl sm:text-2xl font-bold text-neutral-900 dark:text-white bg-transparent border-0 outline-none placeholder:text-neutral-400 mb-4"
+                />
               
-              {/* Editor with Context Menu */}
-              <ContextMenu>
-                <ContextMenuTrigger asChild onContextMenu={handleContextMenuOpen}>
-                  <div>
-                    <EditorContent 
-                      editor={editor} 
-                      className="min-h-[200px] text-neutral-700 dark:text-neutral-300"
-                    />
-                  </div>
-                </ContextMenuTrigger>
-                <ContextMenuContent>
-                  <ContextMenuItem onClick={handleCut}>
-                    <Scissors className="w-4 h-4 mr-2" />
-                    {t('contextMenu.cut')}
-                  </ContextMenuItem>
-                  <ContextMenuItem onClick={handleCopy}>
-                    <Copy className="w-4 h-4 mr-2" />
-                    {t('contextMenu.copy')}
-                  </ContextMenuItem>
-                  <ContextMenuItem onClick={handlePaste}>
-                    <ClipboardPaste className="w-4 h-4 mr-2" />
-                    {t('contextMenu.paste')}
-                  </ContextMenuItem>
-                  <ContextMenuItem onClick={handleSelectAll}>
-                    <TextSelect className="w-4 h-4 mr-2" />
-                    {t('contextMenu.selectAll')}
-                  </ContextMenuItem>
-                </ContextMenuContent>
-              </ContextMenu>
+                {/* Editor with Context Menu */}
+                <ContextMenu>
+                  <ContextMenuTrigger asChild onContextMenu={handleContextMenuOpen}>
+                    <div>
+                      <EditorContent 
+                        editor={editor} 
+                        className="min-h-[200px] text-neutral-700 dark:text-neutral-300"
+                      />
+                    </div>
+                  </ContextMenuTrigger>
+                  <ContextMenuContent>
+                    <ContextMenuItem onClick={handleCut}>
+                      <Scissors className="w-4 h-4 mr-2" />
+                      {t('contextMenu.cut')}
+                    </ContextMenuItem>
+                    <ContextMenuItem onClick={handleCopy}>
+                      <Copy className="w-4 h-4 mr-2" />
+                      {t('contextMenu.copy')}
+                    </ContextMenuItem>
+                    <ContextMenuItem onClick={handlePaste}>
+                      <ClipboardPaste className="w-4 h-4 mr-2" />
+                      {t('contextMenu.paste')}
+                    </ContextMenuItem>
+                    <ContextMenuItem onClick={handleSelectAll}>
+                      <TextSelect className="w-4 h-4 mr-2" />
+                      {t('contextMenu.selectAll')}
+                    </ContextMenuItem>
+                  </ContextMenuContent>
+                </ContextMenu>
+              </div>
+
+              {/* Outline - overlays the note on mobile, beside it on desktop */}
+              {isOutlineOpen && editor && (
+                <OutlinePanel
+                  editor={editor}
+                  onClose={() => setOutlineOpen(false)}
+                  className="absolute inset-y-0 right-0 z-20 shadow-lg md:static md:shadow-none"
+                />
+              )}
             </div>
 
             {/* Last saved indicator */}
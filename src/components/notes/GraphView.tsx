@@ -0,0 +1,374 @@
+import { useState, useMemo, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useGesture } from '@use-gesture/react'
+import { Waypoints, X, Pin, Share2, Hash } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useNotesStore } from '@/stores/notesStore'
+import { cn } from '@/lib/utils'
+import { collectTags } from '@/lib/tags'
+import { buildNoteGraph, DEFAULT_GRAPH_FILTER, type GraphFilter, type NoteGraph } from '@/lib/noteGraph'
+import { ForceLayout } from '@/lib/forceLayout'
+import { useHistoryBack } from '@/hooks/useHistoryBack'
+
+const EMPTY_GRAPH: NoteGraph = { nodes: [], links: [] }
+const TICK_BUDGET_MS = 8           // Simulation time per frame, keeps panning smooth
+const MIN_ZOOM = 0.05
+const MAX_ZOOM = 8
+const LABEL_ZOOM = 1.2             // Note titles are drawn from this zoom level
+const HIT_RADIUS = 12              // Screen pixels
+
+interface GraphViewProps {
+  open: boolean
+  onClose: () => void
+}
+
+interface Transform {
+  x: number                        // Pan, in screen pixels from the canvas centre
+  y: number
+  k: number                        // Zoom
+}
+
+function getNodeRadius(degree: number): number {
+  return 3 + Math.min(Math.sqrt(degree) * 1.5, 12)
+}
+
+export function GraphView({ open, onClose }: GraphViewProps) {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const setSelectedNote = useNotesStore(state => state.setSelectedNote)
+  const setModalOpen = useNotesStore(state => state.setModalOpen)
+
+  const [filter, setFilter] = useState<GraphFilter>(DEFAULT_GRAPH_FILTER)
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const layoutRef = useRef<ForceLayout | null>(null)
+  const graphRef = useRef<NoteGraph>(EMPTY_GRAPH)
+  const transformRef = useRef<Transform>({ x: 0, y: 0, k: 1 })
+  // Last known position of each node, so filtering doesn't reshuffle the graph
+  const positionsRef = useRef(new Map<string, [number, number]>())
+  const hoveredRef = useRef(-1)
+  const needsDrawRef = useRef(true)
+
+  // Dragging the canvas pans, so no edge swipe here - Escape and back still close
+  useHistoryBack({
+    isOpen: open,
+    onBack: onClose,
+    stateKey: 'graph-view'
+  })
+
+  const graph = useMemo(
+    () => (open ? buildNoteGraph(notes, filter) : EMPTY_GRAPH),
+    [notes, filter, open]
+  )
+  const tags = useMemo(() => (open ? collectTags(notes) : []), [notes, open])
+  const noteCount = graph.nodes.filter(node => node.kind === 'note').length
+
+  // New layout whenever the graph changes, starting from known positions
+  useEffect(() => {
+    if (!open) return
+    const positions = positionsRef.current
+    const previous = layoutRef.current
+    graphRef.current.nodes.forEach((node, i) => {
+      if (previous) positions.set(node.id, [previous.x[i], previous.y[i]])
+    })
+
+    let known = 0
+    const layout = new ForceLayout(graph.nodes.length, graph.links, i => {
+      const position = positions.get(graph.nodes[i].id)
+      if (position) known++
+      return position
+    })
+    // Only a gentle settle if every node was already placed
+    if (known > 0 && known === graph.nodes.length) layout.alpha = 0.1
+
+    layoutRef.current = layout
+    graphRef.current = graph
+    hoveredRef.current = -1
+    needsDrawRef.current = true
+  }, [graph, open])
+
+  // Simulation and drawing loop - the canvas is only redrawn when something moved
+  useEffect(() => {
+    if (!open) return
+    const untitled = t('notes.newNote')
+
+    const draw = () => {
+      const canvas = canvasRef.current
+      const layout = layoutRef.current
+      const ctx = canvas?.getContext('2d')
+      if (!canvas || !layout || !ctx) return
+
+      const dpr = window.devicePixelRatio || 1
+      const width = canvas.clientWidth
+      const height = canvas.clientHeight
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr)
+        canvas.height = Math.round(height * dpr)
+      }
+
+      const { nodes, links } = graphRef.current
+      const { x, y } = layout
+      const { k } = transformRef.current
+      const originX = width / 2 + transformRef.current.x
+      const originY = height / 2 + transformRef.current.y
+      const isDark = document.documentElement.classList.contains('dark')
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+      ctx.setTransform(dpr * k, 0, 0, dpr * k, dpr * originX, dpr * originY)
+
+      // Visible area in graph coordinates, for culling
+      const left = -originX / k
+      const top = -originY / k
+      const right = left + width / k
+      const bottom = top + height / k
+
+      ctx.beginPath()
+      for (const [source, target] of links) {
+        ctx.moveTo(x[source], y[source])
+        ctx.lineTo(x[target], y[target])
+      }
+      ctx.lineWidth = 1 / k
+      ctx.strokeStyle = isDark ? 'rgba(163, 163, 163, 0.25)' : 'rgba(115, 115, 115, 0.25)'
+      ctx.stroke()
+
+      const fills = {
+        note: isDark ? '#a3a3a3' : '#525252',
+        pinned: '#f59e0b',
+        tag: '#3b82f6'
+      }
+      for (const kind of ['note', 'pinned', 'tag'] as const) {
+        ctx.beginPath()
+        nodes.forEach((node, i) => {
+          const nodeKind = node.kind === 'tag' ? 'tag' : node.isPinned ? 'pinned' : 'note'
+          if (nodeKind !== kind) return
+          const radius = getNodeRadius(node.degree)
+          if (x[i] + radius < left || x[i] - radius > right || y[i] + radius < top || y[i] - radius > bottom) return
+          ctx.moveTo(x[i] + radius, y[i])
+          ctx.arc(x[i], y[i], radius, 0, Math.PI * 2)
+        })
+        ctx.fillStyle = fills[kind]
+        ctx.fill()
+      }
+
+      // Labels in screen pixels so text stays the same size at any zoom
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+      ctx.font = '12px system-ui, sans-serif'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'top'
+      ctx.fillStyle = isDark ? '#e5e5e5' : '#262626'
+      const hovered = hoveredRef.current
+      nodes.forEach((node, i) => {
+        const showLabel = i === hovered || (node.kind === 'tag' ? k >= LABEL_ZOOM / 2 : k >= LABEL_ZOOM)
+        if (!showLabel || x[i] < left || x[i] > right || y[i] < top || y[i] > bottom) return
+        const label = node.label || untitled
+        ctx.fillText(
+          label.length > 40 ? `${label.slice(0, 39)}…` : label,
+          originX + x[i] * k,
+          originY + (y[i] + getNodeRadius(node.degree)) * k + 3
+        )
+      })
+    }
+
+    let frame = 0
+    const step = () => {
+      const layout = layoutRef.current
+      if (layout && !layout.isSettled) {
+        const start = performance.now()
+        do {
+          layout.tick()
+        } while (!layout.isSettled && performance.now() - start < TICK_BUDGET_MS)
+        needsDrawRef.current = true
+      }
+      if (needsDrawRef.current) {
+        needsDrawRef.current = false
+        draw()
+      }
+      frame = requestAnimationFrame(step)
+    }
+    frame = requestAnimationFrame(step)
+
+    const handleResize = () => {
+      needsDrawRef.current = true
+    }
+    window.addEventListener('resize', handleResize)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('resize', handleResize)
+    }
+  }, [open, t])
+
+  // Screen point (client coordinates) to graph coordinates
+  const toGraph = (clientX: number, clientY: number): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    const { x, y, k } = transformRef.current
+    return [
+      (clientX - rect.left - rect.width / 2 - x) / k,
+      (clientY - rect.top - rect.height / 2 - y) / k
+    ]
+  }
+
+  const findNode = (clientX: number, clientY: number): number => {
+    const layout = layoutRef.current
+    if (!layout) return -1
+    const [x, y] = toGraph(clientX, clientY)
+    return layout.find(x, y, HIT_RADIUS / transformRef.current.k)
+  }
+
+  // Zoom keeping the point under the cursor in place
+  const zoomAt = (clientX: number, clientY: number, zoom: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    const transform = transformRef.current
+    const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+    const pointX = clientX - rect.left - rect.width / 2
+    const pointY = clientY - rect.top - rect.height / 2
+    transform.x = pointX - (pointX - transform.x) * (k / transform.k)
+    transform.y = pointY - (pointY - transform.y) * (k / transform.k)
+    transform.k = k
+    needsDrawRef.current = true
+  }
+
+  const openNode = (index: number) => {
+    const node = graphRef.current.nodes[index]
+    if (!node) return
+    if (node.kind === 'tag') {
+      setFilter(current => ({ ...current, tag: node.tag ?? null }))
+      return
+    }
+    setSelectedNote(node.id)
+    setModalOpen(true)
+    onClose()
+  }
+
+  useGesture(
+    {
+      onDrag: ({ xy: [clientX, clientY], delta: [dx, dy], first, last, tap, touches, memo }) => {
+        if (touches > 1) return memo
+        const layout = layoutRef.current
+        if (tap) {
+          const index = findNode(clientX, clientY)
+          if (index !== -1) openNode(index)
+          return
+        }
+
+        // Node under the pointer when the drag started, or -1 to pan
+        const dragged: number = first ? findNode(clientX, clientY) : memo ?? -1
+        if (dragged !== -1 && layout) {
+          if (last) {
+            layout.release(dragged)
+          } else {
+            const [x, y] = toGraph(clientX, clientY)
+            layout.fix(dragged, x, y)
+            layout.reheat()
+          }
+        } else {
+          transformRef.current.x += dx
+          transformRef.current.y += dy
+        }
+        needsDrawRef.current = true
+        return dragged
+      },
+      onPinch: ({ origin: [clientX, clientY], offset: [zoom] }) => {
+        zoomAt(clientX, clientY, zoom)
+      },
+      onWheel: ({ event, delta: [, dy] }) => {
+        event.preventDefault()
+        zoomAt(event.clientX, event.clientY, transformRef.current.k * Math.exp(-dy * 0.002))
+      },
+      onMove: ({ xy: [clientX, clientY], dragging }) => {
+        if (dragging) return
+        const index = findNode(clientX, clientY)
+        if (index === hoveredRef.current) return
+        hoveredRef.current = index
+        if (canvasRef.current) canvasRef.current.style.cursor = index === -1 ? 'grab' : 'pointer'
+        needsDrawRef.current = true
+      }
+    },
+    {
+      target: canvasRef,
+      eventOptions: { passive: false },
+      drag: { filterTaps: true },
+      pinch: {
+        scaleBounds: { min: MIN_ZOOM, max: MAX_ZOOM },
+        from: () => [transformRef.current.k, 0]
+      }
+    }
+  )
+
+  const toggleFilter = (key: 'pinnedOnly' | 'sharedOnly' | 'showTags') => {
+    setFilter(current => ({ ...current, [key]: !current[key] }))
+  }
+
+  if (!open) return null
+
+  const chipClass = (active: boolean) => cn(
+    'flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs sm:text-sm transition-colors',
+    active
+      ? 'bg-neutral-900 text-white border-neutral-900 dark:bg-white dark:text-neutral-900 dark:border-white'
+      : 'border-neutral-200 dark:border-neutral-800 text-neutral-500 hover:text-neutral-900 dark:hover:text-white'
+  )
+
+  return (
+    <>
+      {/* Backdrop to cover home page content */}
+      <div className="fixed inset-0 z-[89] bg-neutral-50 dark:bg-neutral-950" />
+
+      <div className="fixed inset-0 z-[90] flex flex-col bg-neutral-50 dark:bg-neutral-950 status-bar-bg">
+        {/* Header */}
+        <div className="px-3 sm:px-4 pt-3 safe-top safe-x">
+          <div className="max-w-5xl mx-auto bg-white/80 dark:bg-neutral-900/80 backdrop-blur-lg border border-neutral-200 dark:border-neutral-800 rounded-[16px] px-3 sm:px-4 py-2.5 sm:py-3">
+            <div className="flex items-center gap-2 sm:gap-3">
+              <Button variant="ghost" size="icon" onClick={onClose} className="rounded-full flex-shrink-0">
+                <X className="w-5 h-5" />
+              </Button>
+              <Waypoints className="w-5 h-5 text-neutral-500 hidden sm:block" />
+              <h1 className="text-base sm:text-lg font-semibold">{t('graph.title')}</h1>
+              <span className="text-sm text-neutral-500">({noteCount})</span>
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-1.5">
+              <button onClick={() => toggleFilter('pinnedOnly')} className={chipClass(filter.pinnedOnly)}>
+                <Pin className="w-3.5 h-3.5" />
+                {t('graph.pinnedOnly')}
+              </button>
+              <button onClick={() => toggleFilter('sharedOnly')} className={chipClass(filter.sharedOnly)}>
+                <Share2 className="w-3.5 h-3.5" />
+                {t('graph.sharedOnly')}
+              </button>
+              <button onClick={() => toggleFilter('showTags')} className={chipClass(filter.showTags)}>
+                <Hash className="w-3.5 h-3.5" />
+                {t('graph.showTags')}
+              </button>
+              <select
+                value={filter.tag ?? ''}
+                onChange={(e) => setFilter(current => ({ ...current, tag: e.target.value || null }))}
+                className="px-2 py-1 rounded-full border border-neutral-200 dark:border-neutral-800 bg-transparent text-xs sm:text-sm text-neutral-600 dark:text-neutral-300 max-w-[12rem]"
+              >
+                <option value="">{t('graph.allTags')}</option>
+                {tags.map(({ tag }) => (
+                  <option key={tag} value={tag}>#{tag}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Graph */}
+        <div className="relative flex-1 min-h-0 safe-x safe-bottom">
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full cursor-grab"
+            style={{ touchAction: 'none' }}
+          />
+          {noteCount === 0 && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-neutral-500 pointer-events-none">
+              <Waypoints className="w-12 sm:w-16 h-12 sm:h-16 mb-4 opacity-20" />
+              <p className="text-base sm:text-lg font-medium">{t('graph.empty')}</p>
+              <p className="text-sm text-center px-4">{t('graph.emptyDescription')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,108 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import Suggestion, { type SuggestionProps } from '@tiptap/suggestion'
+import { forwardRef } from 'react'
+import { Hash } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { TAG_PATTERN, collectTags, normalizeTag, type TagCount } from '@/lib/tags'
+import { cn } from '@/lib/utils'
+import { renderSuggestionPopup, useSuggestionNavigation, type SuggestionListHandle } from './suggestionPopup'
+
+const MAX_SUGGESTIONS = 8
+
+// Style every #tag in the document as a chip (text stays plain, so it
+// survives markdown, copy/paste and collaboration untouched)
+function findTagDecorations(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = []
+
+  doc.descendants((node, pos, parent) => {
+    if (node.type.spec.code) return false
+    if (!node.isText || !node.text) return true
+    if (parent?.type.spec.code || node.marks.some(mark => mark.type.spec.code)) return true
+
+    for (const match of node.text.matchAll(TAG_PATTERN)) {
+      const tag = normalizeTag(match[2])
+      if (!/\p{L}/u.test(tag)) continue
+      const from = pos + (match.index ?? 0) + match[1].length
+      const to = from + match[2].length + 1
+      decorations.push(Decoration.inline(from, to, { class: 'hashtag-chip', 'data-tag': tag }))
+    }
+    return true
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+// Autocomplete list shown while typing #...
+const TagSuggestionList = forwardRef<SuggestionListHandle, SuggestionProps<TagCount, TagCount>>(
+  function TagSuggestionList({ items, command }, ref) {
+    const [selectedIndex] = useSuggestionNavigation(items, command, ref)
+
+    if (items.length === 0) return null
+
+    return (
+      <div className="min-w-[160px] max-w-[260px] py-1 rounded-xl bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 shadow-lg animate-in fade-in duration-200">
+        {items.map((item, index) => (
+          <button
+            key={item.tag}
+            onMouseDown={(e) => {
+              // Keep editor focus
+              e.preventDefault()
+              command(item)
+            }}
+            className={cn(
+              "w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-neutral-700 dark:text-neutral-200",
+              index === selectedIndex ? "bg-neutral-100 dark:bg-neutral-800" : "hover:bg-neutral-50 dark:hover:bg-neutral-800/60"
+            )}
+          >
+            <Hash className="w-3.5 h-3.5 shrink-0 text-neutral-400" />
+            <span className="flex-1 truncate">{item.tag}</span>
+            <span className="text-xs text-neutral-400">{item.count}</span>
+          </button>
+        ))}
+      </div>
+    )
+  }
+)
+
+/**
+ * Inline #tags: chip styling plus autocomplete from tags used in other notes
+ */
+export const Hashtag = Extension.create({
+  name: 'hashtag',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('hashtagChips'),
+        state: {
+          init: (_, { doc }) => findTagDecorations(doc),
+          apply: (tr, old) => tr.docChanged ? findTagDecorations(tr.doc) : old
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state)
+          }
+        }
+      }),
+      Suggestion<TagCount, TagCount>({
+        editor: this.editor,
+        pluginKey: new PluginKey('hashtagSuggestion'),
+        char: '#',
+        allowedPrefixes: [' ', '('],
+        items: ({ query }) => {
+          const prefix = normalizeTag(query)
+          return collectTags(useNotesStore.getState().notes)
+            .filter(({ tag }) => tag.startsWith(prefix) && tag !== prefix)
+            .slice(0, MAX_SUGGESTIONS)
+        },
+        command: ({ editor, range, props }) => {
+          editor.chain().focus().insertContentAt(range, `#${props.tag} `).run()
+        },
+        render: renderSuggestionPopup(TagSuggestionList, 270)
+      })
+    ]
+  }
+})
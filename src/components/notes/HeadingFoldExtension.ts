@@ -0,0 +1,209 @@
+import { Extension, type Editor } from '@tiptap/core'
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import {
+  getOutlineHeadings,
+  getSectionEnd,
+  getHiddenBlocks,
+  getFoldsContaining,
+  type OutlineBlock,
+  type OutlineHeading
+} from '@/lib/outline'
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    headingFold: {
+      toggleHeadingFold: (key: string) => ReturnType
+      // Unfold whatever hides the top-level block at this index
+      revealBlock: (index: number) => ReturnType
+    }
+  }
+}
+
+export interface EditorOutlineHeading extends OutlineHeading {
+  pos: number
+  sectionEnd: number  // Position just past the heading's section
+  hasSection: boolean
+}
+
+interface HeadingFoldOptions {
+  folded: string[]  // Initially folded heading keys
+  toggleLabel: string
+  onChange: (folded: string[]) => void
+}
+
+interface HeadingFoldState {
+  folded: ReadonlySet<string>
+  decorations: DecorationSet
+}
+
+const headingFoldKey = new PluginKey<HeadingFoldState>('headingFold')
+
+const CHEVRON_ICON = '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m6 9 6 6 6-6"/></svg>'
+
+function getOutlineBlocks(doc: ProseMirrorNode): OutlineBlock[] {
+  const blocks: OutlineBlock[] = []
+  doc.forEach(node => {
+    blocks.push({
+      level: node.type.name === 'heading' ? node.attrs.level as number : null,
+      text: node.textContent
+    })
+  })
+  return blocks
+}
+
+/**
+ * H1-H3 headings of the note with their document positions
+ */
+export function getEditorOutline(doc: ProseMirrorNode): EditorOutlineHeading[] {
+  const blocks = getOutlineBlocks(doc)
+  const positions: number[] = []
+  doc.forEach((_, offset) => positions.push(offset))
+
+  return getOutlineHeadings(blocks).map(heading => {
+    const end = getSectionEnd(blocks, heading.index)
+    return {
+      ...heading,
+      pos: positions[heading.index],
+      sectionEnd: end < blocks.length ? positions[end] : doc.content.size,
+      hasSection: end > heading.index + 1
+    }
+  })
+}
+
+export function getFoldedHeadings(state: EditorState): ReadonlySet<string> {
+  return headingFoldKey.getState(state)?.folded ?? new Set()
+}
+
+function createToggle(editor: Editor, key: string, isFolded: boolean, label: string): HTMLElement {
+  const button = document.createElement('button')
+  button.type = 'button'
+  button.className = 'heading-fold-toggle'
+  button.contentEditable = 'false'
+  button.title = label
+  button.setAttribute('aria-label', label)
+  button.setAttribute('aria-expanded', String(!isFolded))
+  button.innerHTML = CHEVRON_ICON
+  button.addEventListener('mousedown', event => event.preventDefault())
+  button.addEventListener('click', () => editor.commands.toggleHeadingFold(key))
+  return button
+}
+
+function buildDecorations(editor: Editor, doc: ProseMirrorNode, folded: ReadonlySet<string>, label: string): DecorationSet {
+  const hidden = getHiddenBlocks(getOutlineBlocks(doc), folded)
+  const headings = new Map(getEditorOutline(doc).map(heading => [heading.index, heading]))
+  const decorations: Decoration[] = []
+
+  doc.forEach((node, pos, index) => {
+    const heading = headings.get(index)
+    if (hidden[index]) {
+      decorations.push(Decoration.node(pos, pos + node.nodeSize, { class: 'heading-fold-hidden' }))
+    } else if (heading?.hasSection) {
+      const isFolded = folded.has(heading.key)
+      decorations.push(
+        Decoration.node(pos, pos + node.nodeSize, { class: isFolded ? 'heading-foldable heading-folded' : 'heading-foldable' }),
+        Decoration.widget(pos + 1, () => createToggle(editor, heading.key, isFolded, label), {
+          key: `fold-${heading.key}-${isFolded}`,
+          side: -1,
+          ignoreSelection: true,
+          stopEvent: () => true
+        })
+      )
+    }
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+/**
+ * Fold the section under an H1-H3 heading. Folds are view state only - the
+ * note content is untouched - and are reported through onChange to be saved.
+ */
+export const HeadingFold = Extension.create<HeadingFoldOptions>({
+  name: 'headingFold',
+
+  addOptions() {
+    return {
+      folded: [],
+      toggleLabel: 'Fold',
+      onChange: () => {}
+    }
+  },
+
+  addCommands() {
+    const setFolded = (tr: Transaction, folded: ReadonlySet<string>) => tr.setMeta(headingFoldKey, { folded })
+
+    return {
+      toggleHeadingFold: (key) => ({ state, tr, dispatch }) => {
+        const heading = getEditorOutline(state.doc).find(h => h.key === key)
+        if (!heading) return false
+
+        const folded = new Set(getFoldedHeadings(state))
+        if (dispatch) {
+          if (folded.has(key)) {
+            folded.delete(key)
+          } else {
+            folded.add(key)
+            // Don't leave the cursor typing into hidden text
+            const headingEnd = heading.pos + state.doc.child(heading.index).nodeSize
+            const { from } = state.selection
+            if (from >= headingEnd && from < heading.sectionEnd) {
+              tr.setSelection(TextSelection.create(tr.doc, headingEnd - 1))
+            }
+          }
+          setFolded(tr, folded)
+        }
+        return true
+      },
+
+      revealBlock: (index) => ({ state, tr, dispatch }) => {
+        const folded = new Set(getFoldedHeadings(state))
+        const containing = getFoldsContaining(getOutlineBlocks(state.doc), folded, index)
+        if (containing.length === 0) return false
+        if (dispatch) {
+          containing.forEach(key => folded.delete(key))
+          setFolded(tr, folded)
+        }
+        return true
+      }
+    }
+  },
+
+  addProseMirrorPlugins() {
+    const { editor } = this
+    const { folded: initialFolded, toggleLabel, onChange } = this.options
+
+    return [
+      new Plugin<HeadingFoldState>({
+        key: headingFoldKey,
+        state: {
+          init: (_, { doc }) => {
+            const folded = new Set(initialFolded)
+            return { folded, decorations: buildDecorations(editor, doc, folded, toggleLabel) }
+          },
+          apply: (tr, value) => {
+            const meta = tr.getMeta(headingFoldKey) as { folded: ReadonlySet<string> } | undefined
+            if (!meta && !tr.docChanged) return value
+            const folded = meta?.folded ?? value.folded
+            return { folded, decorations: buildDecorations(editor, tr.doc, folded, toggleLabel) }
+          }
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state)?.decorations
+          }
+        },
+        view: () => ({
+          update: (view, prevState) => {
+            const folded = getFoldedHeadings(view.state)
+            if (folded === getFoldedHeadings(prevState)) return
+            // Drop folds of headings that were renamed or deleted
+            const keys = new Set(getEditorOutline(view.state.doc).map(heading => heading.key))
+            onChange(Array.from(folded).filter(key => keys.has(key)))
+          }
+        })
+      })
+    ]
+  }
+})
@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react'
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+import { useNotesStore } from '@/stores/notesStore'
+import { useUIStore } from '@/stores/uiStore'
+import {
+  DAILY_NOTE_FORMATS,
+  formatDailyNoteTitle,
+  getDailyNoteKey,
+  getDailyNoteKeys,
+  type DailyNoteFormat
+} from '@/lib/dailyNotes'
+import { cn, getDateFnsLocale } from '@/lib/utils'
+
+interface JournalPanelProps {
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Calendar of daily notes - pick a day to open its note, or create it
+ */
+export function JournalPanel({ open, onClose }: JournalPanelProps) {
+  const { t, i18n } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const openDailyNote = useNotesStore(state => state.openDailyNote)
+  const dailyNoteFormat = useUIStore(state => state.dailyNoteFormat)
+  const setDailyNoteFormat = useUIStore(state => state.setDailyNoteFormat)
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+
+  const locale = getDateFnsLocale(i18n.language)
+  const noteDays = useMemo(() => getDailyNoteKeys(notes), [notes])
+  const days = useMemo(() => eachDayOfInterval({
+    start: startOfWeek(month, { locale }),
+    end: endOfWeek(endOfMonth(month), { locale })
+  }), [month, locale])
+
+  const handleClose = () => {
+    setMonth(startOfMonth(new Date()))
+    onClose()
+  }
+
+  const handleOpenDay = (day: Date) => {
+    openDailyNote(day)
+    handleClose()
+  }
+
+  if (!open) return null
+
+  const now = new Date()
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 safe-x">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md max-h-[85vh] overflow-hidden bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center gap-2 min-w-0">
+            <CalendarDays className="w-5 h-5 text-neutral-500" />
+            <h2 className="text-base font-semibold text-neutral-900 dark:text-white truncate">
+              {t('journal.title')}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          {/* Month navigation */}
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => setMonth(current => addMonths(current, -1))}
+              title={t('journal.previousMonth')}
+              className="p-1.5 rounded-full text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-sm font-semibold text-neutral-900 dark:text-white capitalize">
+              {format(month, 'LLLL yyyy', { locale })}
+            </span>
+            <button
+              onClick={() => setMonth(current => addMonths(current, 1))}
+              title={t('journal.nextMonth')}
+              className="p-1.5 rounded-full text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Calendar grid */}
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {days.slice(0, 7).map(day => (
+              <span key={day.getDay()} className="py-1 text-xs font-medium text-neutral-400">
+                {format(day, 'EEEEEE', { locale })}
+              </span>
+            ))}
+            {days.map(day => {
+              const hasNote = noteDays.has(getDailyNoteKey(day))
+              return (
+                <button
+                  key={day.getTime()}
+                  onClick={() => handleOpenDay(day)}
+                  title={formatDailyNoteTitle(day, dailyNoteFormat)}
+                  className={cn(
+                    'relative aspect-square flex items-center justify-center rounded-lg text-sm transition-colors',
+                    isToday(day)
+                      ? 'bg-neutral-900 text-white dark:bg-white dark:text-neutral-900'
+                      : 'hover:bg-neutral-100 dark:hover:bg-neutral-800',
+                    !isSameMonth(day, month) && !isToday(day) && 'text-neutral-300 dark:text-neutral-600',
+                    isSameMonth(day, month) && !isToday(day) && 'text-neutral-700 dark:text-neutral-300',
+                    hasNote && 'font-semibold'
+                  )}
+                >
+                  {format(day, 'd')}
+                  {hasNote && (
+                    <span className={cn(
+                      'absolute bottom-1 w-1 h-1 rounded-full',
+                      isToday(day) ? 'bg-white dark:bg-neutral-900' : 'bg-neutral-900 dark:bg-white'
+                    )} />
+                  )}
+                </button>
+              )
+            })}
+          </div>
+
+          <button
+            onClick={() => handleOpenDay(now)}
+            className="w-full mt-4 px-4 py-2 text-sm font-medium rounded-lg bg-neutral-900 text-white dark:bg-white dark:text-neutral-900 transition-colors"
+          >
+            {t('journal.openToday')}
+          </button>
+        </div>
+
+        {/* Title format */}
+        <label className="block px-4 py-3 border-t border-neutral-200 dark:border-neutral-700">
+          <span className="block mb-1 text-xs font-medium text-neutral-500 dark:text-neutral-400">
+            {t('journal.titleFormat')}
+          </span>
+          <select
+            value={dailyNoteFormat}
+            onChange={(e) => setDailyNoteFormat(e.target.value as DailyNoteFormat)}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+          >
+            {DAILY_NOTE_FORMATS.map(option => (
+              <option key={option} value={option}>
+                {formatDailyNoteTitle(now, option)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  )
+}
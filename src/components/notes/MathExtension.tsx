@@ -0,0 +1,184 @@
+import { InputRule } from '@tiptap/core'
+import { ReactNodeViewRenderer, NodeViewWrapper, type NodeViewProps } from '@tiptap/react'
+import { TextSelection } from '@tiptap/pm/state'
+import { Fragment } from '@tiptap/pm/model'
+import { InlineMath, BlockMath } from '@tiptap/extension-mathematics'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import 'katex/dist/katex.min.css'
+import { renderLatex, type MathDisplay } from '@/lib/math'
+import { cn } from '@/lib/utils'
+
+// $x^2$ - no space just inside the dollars, so prices like "$5 and $10" stay text
+const INLINE_MATH_INPUT = /(^|\s)\$([^\s$](?:[^$]*[^\s$])?)\$$/
+// $$x^2$$ typed on its own line
+const BLOCK_MATH_INPUT = /^\$\$([^$]+)\$\$$/
+// "$5-$" and the like
+const NUMBERS_ONLY = /^[\d\s.,+\-–]*$/
+
+// Rendered equation; click to edit the LaTeX in place
+function MathView({ node, updateAttributes, deleteNode, editor, getPos }: NodeViewProps) {
+  const { t } = useTranslation()
+  const display: MathDisplay = node.type.name === 'blockMath' ? 'block' : 'inline'
+  const latex = node.attrs.latex as string
+  // New, empty equations (from the slash menu) open in edit mode
+  const [draft, setDraft] = useState<string | null>(() => (latex || !editor.isEditable ? null : ''))
+  const html = useMemo(() => latex ? renderLatex(latex, display) : '', [latex, display])
+  const preview = useMemo(() => draft ? renderLatex(draft, display) : '', [draft, display])
+
+  const finishEditing = (save: boolean) => {
+    if (draft === null) return
+    const value = save ? draft.trim() : latex
+    setDraft(null)
+    if (!value) {
+      deleteNode()
+      editor.commands.focus()
+      return
+    }
+    if (value !== latex) updateAttributes({ latex: value })
+
+    // Continue typing after the equation
+    const pos = getPos()
+    if (typeof pos === 'number') {
+      editor.chain().focus().command(({ tr }) => {
+        tr.setSelection(TextSelection.near(tr.doc.resolve(pos + node.nodeSize)))
+        return true
+      }).run()
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      // Don't close the note
+      e.stopPropagation()
+      e.preventDefault()
+      finishEditing(false)
+    } else if (e.key === 'Enter' && (display === 'inline' || e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      finishEditing(true)
+    }
+  }
+
+  if (draft !== null) {
+    const inputClassName = 'w-full px-2 py-1 rounded-md bg-neutral-100 dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-600 font-mono text-sm text-neutral-900 dark:text-neutral-100 focus:outline-none'
+    return (
+      <NodeViewWrapper
+        as={display === 'block' ? 'div' : 'span'}
+        className={cn('math-editor', display === 'block' ? 'math-editor-block' : 'math-editor-inline')}
+      >
+        {display === 'block' ? (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => finishEditing(true)}
+            placeholder={t('math.placeholder')}
+            rows={Math.max(2, draft.split('\n').length)}
+            autoFocus
+            className={cn(inputClassName, 'resize-none')}
+          />
+        ) : (
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => finishEditing(true)}
+            placeholder={t('math.placeholder')}
+            size={Math.max(8, draft.length + 1)}
+            autoFocus
+            className={cn(inputClassName, 'w-auto')}
+          />
+        )}
+        {display === 'block' && (
+          preview
+            ? <div className="math-preview" dangerouslySetInnerHTML={{ __html: preview }} />
+            : <p className="math-preview text-xs text-neutral-400">{t('math.hint')}</p>
+        )}
+      </NodeViewWrapper>
+    )
+  }
+
+  return (
+    <NodeViewWrapper
+      as={display === 'block' ? 'div' : 'span'}
+      className={cn('math-node', display === 'block' ? 'math-block' : 'math-inline', editor.isEditable && 'math-node-editable')}
+      title={editor.isEditable ? t('math.edit') : undefined}
+      onClick={() => {
+        if (editor.isEditable) setDraft(latex)
+      }}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  )
+}
+
+/**
+ * Inline $...$ equations rendered with KaTeX
+ */
+export const InlineMathNode = InlineMath.extend({
+  // Source as text content, so previews, search and plain exports keep the formula
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', { ...HTMLAttributes, 'data-type': 'inline-math' }, node.attrs.latex]
+  },
+
+  renderText({ node }) {
+    return `$${node.attrs.latex}$`
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathView)
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: INLINE_MATH_INPUT,
+        handler: ({ state, range, match }) => {
+          const [, before, latex] = match
+          if (NUMBERS_ONLY.test(latex)) return null
+          state.tr.replaceWith(range.from + before.length, range.to, this.type.create({ latex }))
+        }
+      })
+    ]
+  }
+})
+
+/**
+ * $$...$$ equation blocks rendered with KaTeX
+ */
+export const BlockMathNode = BlockMath.extend({
+  renderHTML({ node, HTMLAttributes }) {
+    return ['div', { ...HTMLAttributes, 'data-type': 'block-math' }, node.attrs.latex]
+  },
+
+  renderText({ node }) {
+    return `$$${node.attrs.latex}$$`
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathView)
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: BLOCK_MATH_INPUT,
+        handler: ({ state, range, match }) => {
+          const $from = state.doc.resolve(range.from)
+          const mathNode = this.type.create({ latex: match[1].trim() })
+          // The equation replaces its line, followed by an empty one to keep typing in
+          const replacement = Fragment.from([mathNode, state.schema.nodes.paragraph.create()])
+          const index = $from.index(-1)
+          const isWholeLine = $from.parent.textContent.length === match[0].length - 1
+          if (!isWholeLine || !$from.node(-1).canReplace(index, index + 1, replacement)) {
+            return null
+          }
+
+          const before = $from.before()
+          state.tr
+            .replaceWith(before, $from.after(), replacement)
+            .setSelection(TextSelection.create(state.tr.doc, before + mathNode.nodeSize + 1))
+        }
+      })
+    ]
+  }
+})
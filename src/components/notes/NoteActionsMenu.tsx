@@ -10,12 +10,17 @@ import {
   FileCode,
   Loader2,
   AlertTriangle,
-  WifiOff
+  WifiOff,
+  BellRing,
+  LayoutTemplate
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { format } from 'date-fns'
+import { cn, formatDateTime } from '@/lib/utils'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
 import { useAuthStore } from '@/stores/authStore'
 import { useNetworkStore } from '@/stores/networkStore'
+import { useNotesStore } from '@/stores/notesStore'
+import { useTemplatesStore } from '@/stores/templatesStore'
 import { 
   exportNote, 
   importDocument, 
@@ -24,6 +29,11 @@ import {
   isImageFile,
   type ExportFormat 
 } from '@/lib/driveExport'
+import { inlineImageRefs } from '@/lib/noteImages'
+import { refreshNoteLinkTitles } from '@/lib/noteLinks'
+import { REMINDER_REPEATS } from '@/lib/reminders'
+import { requestReminderPermission } from '@/hooks/useReminderNotifications'
+import type { NoteReminder, ReminderRepeat } from '@/types'
 
 // Map i18n language codes to Google OCR language codes
 const OCR_LANGUAGE_MAP: Record<string, string> = {
@@ -52,19 +62,41 @@ interface NoteActionsMenuProps {
   noteContent: string
   onImport: (title: string, content: string) => void
   disabled?: boolean
+  reminder?: NoteReminder
+  onReminderChange?: (reminder: NoteReminder | undefined) => void  // Omit to hide reminders
+}
+
+// <input type="datetime-local"> value in local time
+function toDateTimeInputValue(timestamp: number): string {
+  return format(new Date(timestamp), "yyyy-MM-dd'T'HH:mm")
+}
+
+// Default for a new reminder: next full hour
+function getDefaultReminderTime(): number {
+  const date = new Date()
+  date.setHours(date.getHours() + 1, 0, 0, 0)
+  return date.getTime()
 }
 
 export function NoteActionsMenu({ 
   noteTitle, 
   noteContent, 
   onImport,
-  disabled 
+  disabled,
+  reminder,
+  onReminderChange
 }: NoteActionsMenuProps) {
   const { t, i18n } = useTranslation()
   const [open, setOpen] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [showExportOptions, setShowExportOptions] = useState(false)
+  const [showReminderOptions, setShowReminderOptions] = useState(false)
+  const [reminderTime, setReminderTime] = useState('')
+  const [reminderRepeat, setReminderRepeat] = useState<ReminderRepeat>('none')
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false)
+  const [showTemplateOptions, setShowTemplateOptions] = useState(false)
+  const [templateName, setTemplateName] = useState('')
   const [ocrWarning, setOcrWarning] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const user = useAuthStore(state => state.user)
@@ -78,7 +110,8 @@ export function NoteActionsMenu({
       const blob = await exportNote(
         user.accessToken,
         noteTitle,
-        noteContent,
+        // Exported links are plain [[title]] text - use the current titles
+        await inlineImageRefs(refreshNoteLinkTitles(noteContent, useNotesStore.getState().notes)),
         format
       )
       downloadBlob(blob, getSafeFilename(noteTitle, format))
@@ -124,9 +157,48 @@ export function NoteActionsMenu({
     }
   }, [user?.accessToken, onImport, i18n.language, t])
 
+  const handleOpenReminder = () => {
+    setReminderTime(toDateTimeInputValue(reminder?.at ?? getDefaultReminderTime()))
+    setReminderRepeat(reminder?.repeat ?? 'none')
+    setNotificationsBlocked(typeof Notification !== 'undefined' && Notification.permission === 'denied')
+    setShowReminderOptions(true)
+  }
+
+  const handleSaveReminder = async () => {
+    const at = new Date(reminderTime).getTime()
+    if (!onReminderChange || isNaN(at)) return
+
+    onReminderChange({ at, repeat: reminderRepeat })
+    const granted = await requestReminderPermission()
+    if (!granted) {
+      // Keep the panel open so the warning is seen
+      setNotificationsBlocked(true)
+      return
+    }
+    handleOpenChange(false)
+  }
+
+  const handleRemoveReminder = () => {
+    onReminderChange?.(undefined)
+    handleOpenChange(false)
+  }
+
+  const handleOpenTemplate = () => {
+    setTemplateName(noteTitle)
+    setShowTemplateOptions(true)
+  }
+
+  const handleSaveTemplate = () => {
+    if (!templateName.trim()) return
+    useTemplatesStore.getState().createTemplate(templateName, noteTitle, noteContent)
+    handleOpenChange(false)
+  }
+
   const handleOpenChange = (newOpen: boolean) => {
     if (!newOpen) {
       setShowExportOptions(false)
+      setShowReminderOptions(false)
+      setShowTemplateOptions(false)
       setOcrWarning(null)
     }
     setOpen(newOpen)
@@ -182,7 +254,96 @@ export function NoteActionsMenu({
               'animate-in fade-in-0 zoom-in-95 data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=closed]:zoom-out-95'
             )}
           >
-            {showExportOptions ? (
+            {showTemplateOptions ? (
+              <div className="p-1">
+                <button
+                  onClick={() => setShowTemplateOptions(false)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg mb-1"
+                >
+                  <span>‹</span>
+                  {t('templates.saveAsTemplate')}
+                </button>
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    handleSaveTemplate()
+                  }}
+                  className="px-3 pb-2 space-y-2"
+                >
+                  <input
+                    type="text"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    placeholder={t('templates.namePlaceholder')}
+                    autoFocus
+                    className="w-full px-2 py-1.5 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                  />
+                  <div className="flex justify-end pt-1">
+                    <button
+                      type="submit"
+                      disabled={!templateName.trim()}
+                      className="px-3 py-1.5 text-sm rounded-lg bg-neutral-900 text-white dark:bg-white dark:text-neutral-900 disabled:opacity-50 transition-colors"
+                    >
+                      {t('templates.save')}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            ) : showReminderOptions ? (
+              <div className="p-1">
+                <button
+                  onClick={() => setShowReminderOptions(false)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg mb-1"
+                >
+                  <span>‹</span>
+                  {t('reminders.title')}
+                </button>
+
+                <div className="px-3 pb-2 space-y-2">
+                  <input
+                    type="datetime-local"
+                    value={reminderTime}
+                    onChange={(e) => setReminderTime(e.target.value)}
+                    className="w-full px-2 py-1.5 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                  />
+                  <select
+                    value={reminderRepeat}
+                    onChange={(e) => setReminderRepeat(e.target.value as ReminderRepeat)}
+                    aria-label={t('reminders.repeatLabel')}
+                    className="w-full px-2 py-1.5 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                  >
+                    {REMINDER_REPEATS.map(repeat => (
+                      <option key={repeat} value={repeat}>{t(`reminders.repeat.${repeat}`)}</option>
+                    ))}
+                  </select>
+
+                  {notificationsBlocked && (
+                    <p className="text-xs text-amber-700 dark:text-amber-300">
+                      {t('reminders.permissionDenied')}
+                    </p>
+                  )}
+
+                  <div className="flex items-center justify-end gap-2 pt-1">
+                    {reminder && (
+                      <button
+                        onClick={handleRemoveReminder}
+                        className="px-3 py-1.5 text-sm rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                      >
+                        {t('reminders.remove')}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleSaveReminder}
+                      disabled={!reminderTime}
+                      className="px-3 py-1.5 text-sm rounded-lg bg-neutral-900 text-white dark:bg-white dark:text-neutral-900 disabled:opacity-50 transition-colors"
+                    >
+                      {t('reminders.save')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ) : showExportOptions ? (
               <div className="p-1">
                 {/* Back button */}
                 <button
@@ -251,6 +412,24 @@ export function NoteActionsMenu({
                   </div>
                 )}
                 
+                {onReminderChange && (
+                  <MenuItem
+                    icon={<BellRing className="w-4 h-4" />}
+                    label={t('reminders.title')}
+                    description={reminder ? formatDateTime(reminder.at) : t('reminders.description')}
+                    onClick={handleOpenReminder}
+                    hasSubmenu
+                  />
+                )}
+
+                <MenuItem
+                  icon={<LayoutTemplate className="w-4 h-4" />}
+                  label={t('templates.saveAsTemplate')}
+                  description={t('templates.saveDescription')}
+                  onClick={handleOpenTemplate}
+                  hasSubmenu
+                />
+
                 <MenuItem
                   icon={<Download className="w-4 h-4" />}
                   label={t('noteActions.export')}
@@ -1,12 +1,15 @@
 import { useState, useEffect, useMemo, useRef, memo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Pin, Loader2, AlertCircle, Users, CloudCheck, Copy, Trash2, PinOff } from 'lucide-react'
+import { Pin, Loader2, AlertCircle, Users, CloudCheck, Copy, Trash2, PinOff, Bell } from 'lucide-react'
 import { motion } from 'framer-motion'
-import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { useDraggable } from '@dnd-kit/core'
 import { useNotesStore } from '@/stores/notesStore'
-import { formatDate, getPlainText } from '@/lib/utils'
+import { formatDate, formatDateTime, getPlainText } from '@/lib/utils'
+import { hasActiveReminder } from '@/lib/reminders'
 import { Highlight } from '@/components/ui/Highlight'
 import { NoteBackground, getNoteBackgroundStyle } from './NoteStylePicker'
+import { MoveToNotebookMenu } from '@/components/notebooks/MoveToNotebookMenu'
+import type { NotebookDragData } from '@/components/notebooks/notebookDnd'
 import {
   ContextMenu,
   ContextMenuContent,
@@ -221,9 +224,10 @@ export const NoteCard = memo(function NoteCard({ note, searchQuery }: NoteCardPr
             )}
           </p>
           
-          <p className="mt-3 text-xs text-neutral-400 dark:text-neutral-500 relative z-10">
-            {formatDate(note.updatedAt)}
-          </p>
+          <div className="mt-3 flex items-center justify-between gap-2 text-xs text-neutral-400 dark:text-neutral-500 relative z-10">
+            <span>{formatDate(note.updatedAt)}</span>
+            <ReminderBadge note={note} />
+          </div>
         </motion.div>
       </ContextMenuTrigger>
       <ContextMenuContent>
@@ -235,6 +239,7 @@ export const NoteCard = memo(function NoteCard({ note, searchQuery }: NoteCardPr
           <Copy className="w-4 h-4 mr-2" />
           {t('contextMenu.duplicate')}
         </ContextMenuItem>
+        <MoveToNotebookMenu note={note} />
         <ContextMenuItem onClick={handleMoveToTrash}>
           <Trash2 className="w-4 h-4 mr-2" />
           {t('trash.moveToTrash')}
@@ -265,12 +270,10 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
     }
   }, [isModalOpen, isThisNoteSelected, isAnimating])
   
-  const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({
-    id: note.id,
-  })
-  
-  const { setNodeRef: setDropRef, isOver } = useDroppable({
+  // Notes are dragged onto notebooks in the sidebar
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: note.id,
+    data: { type: 'note', noteId: note.id } satisfies NotebookDragData,
   })
 
   const handleClick = () => {
@@ -306,10 +309,7 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
   if (isDragging) {
     return (
       <div
-        ref={(node) => {
-          setDragRef(node)
-          setDropRef(node)
-        }}
+        ref={setNodeRef}
         className="opacity-0"
       />
     )
@@ -326,10 +326,7 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
       <ContextMenu>
         <ContextMenuTrigger asChild>
           <div
-            ref={(node) => {
-              setDragRef(node)
-              setDropRef(node)
-            }}
+            ref={setNodeRef}
             {...listeners}
             {...attributes}
           >
@@ -348,10 +345,9 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
                 ...backgroundStyle
               }}
               className={cn(
-                "cursor-pointer rounded-[16px] border border-neutral-200 p-4 transition-shadow hover:shadow-md hover:border-neutral-300 dark:border-neutral-700 dark:hover:border-neutral-600 touch-none relative overflow-hidden",
+                "cursor-pointer rounded-[16px] border border-neutral-200 p-4 transition-shadow hover:shadow-md hover:border-neutral-300 dark:border-neutral-700 dark:hover:border-neutral-600 touch-manipulation relative overflow-hidden",
                 // Always have solid bg when using background image
-                note.style?.backgroundImage ? "bg-white dark:bg-neutral-900" : (!hasCustomBg && "bg-white dark:bg-neutral-900"),
-                isOver && "ring-1 ring-neutral-900 dark:ring-white ring-offset-2 dark:ring-offset-neutral-900"
+                note.style?.backgroundImage ? "bg-white dark:bg-neutral-900" : (!hasCustomBg && "bg-white dark:bg-neutral-900")
               )}
             >
               <NoteBackground style={note.style} />
@@ -380,9 +376,10 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
                   <span className="text-neutral-300 dark:text-neutral-600">&nbsp;</span>
                 )}
               </p>              
-              <p className="mt-3 text-xs text-neutral-400 dark:text-neutral-500 relative z-10">
-                {formatDate(note.updatedAt)}
-              </p>
+              <div className="mt-3 flex items-center justify-between gap-2 text-xs text-neutral-400 dark:text-neutral-500 relative z-10">
+                <span>{formatDate(note.updatedAt)}</span>
+                <ReminderBadge note={note} />
+              </div>
             </motion.div>
           </div>
         </ContextMenuTrigger>
@@ -395,6 +392,7 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
             <Copy className="w-4 h-4 mr-2" />
             {t('contextMenu.duplicate')}
           </ContextMenuItem>
+          <MoveToNotebookMenu note={note} />
           <ContextMenuItem onClick={handleMoveToTrash}>
             <Trash2 className="w-4 h-4 mr-2" />
             {t('trash.moveToTrash')}
@@ -405,6 +403,16 @@ export function DraggableNoteCard({ note, searchQuery }: NoteCardProps) {
   )
 }
 
+function ReminderBadge({ note }: { note: Note }) {
+  if (!hasActiveReminder(note)) return null
+  return (
+    <span className="flex items-center gap-1 min-w-0 truncate">
+      <Bell className="w-3 h-3 shrink-0" />
+      {formatDateTime(note.reminder!.at)}
+    </span>
+  )
+}
+
 function SyncIcon({ status, isSyncing }: { status: Note['syncStatus'], isSyncing: boolean }) {
   // If currently syncing and this note is pending, show spinner
   if (isSyncing && status === 'pending') {
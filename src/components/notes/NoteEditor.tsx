@@ -7,9 +7,16 @@ import Placeholder from '@tiptap/extension-placeholder'
 import TaskList from '@tiptap/extension-task-list'
 import TaskItem from '@tiptap/extension-task-item'
 import { ResizableImage } from './ResizableImageExtension'
+import { Hashtag } from './HashtagExtension'
+import { NoteLink } from './NoteLinkExtension'
+import { SlashCommands, type SlashCommandActions } from './SlashCommandExtension'
+import { InlineMathNode, BlockMathNode } from './MathExtension'
+import { HeadingFold } from './HeadingFoldExtension'
+import { OutlinePanel } from './OutlinePanel'
+import { BacklinksPanel } from './BacklinksPanel'
 import { DrawingModal } from './DrawingModal'
 import { CollaborationCursors } from './CollaborationCursors'
-import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight'
+import { CodeBlock } from './CodeBlockExtension'
 import { common, createLowlight } from 'lowlight'
 import { Markdown } from 'tiptap-markdown'
 import Underline from '@tiptap/extension-underline'
@@ -18,6 +25,7 @@ import Subscript from '@tiptap/extension-subscript'
 import Superscript from '@tiptap/extension-superscript'
 import TextAlign from '@tiptap/extension-text-align'
 import Link from '@tiptap/extension-link'
+import { Table, TableRow, TableHeader, TableCell } from '@tiptap/extension-table'
 import { marked } from 'marked'
 import * as Y from 'yjs'
 import { WebrtcProvider } from 'y-webrtc'
@@ -65,12 +73,18 @@ import {
   AlignRight,
   AlignJustify,
   RemoveFormatting,
-  ArrowLeft
+  ArrowLeft,
+  ListTree
 } from 'lucide-react'
 import { useNotesStore } from '@/stores/notesStore'
 import { useAuthStore } from '@/stores/authStore'
 import { useNetworkStore, NetworkRequiredError } from '@/stores/networkStore'
+import { useAIReachable } from '@/stores/aiProviderStore'
+import { useAIActionsStore } from '@/stores/aiActionsStore'
+import { useOutlineStore } from '@/stores/outlineStore'
 import { cn } from '@/lib/utils'
+import { DRAWING_IMAGE_ALT } from '@/lib/search'
+import { storeImage } from '@/lib/noteImages'
 import { ConfirmDialog, InputDialog } from '@/components/ui/Dialog'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
 import { DrawingErrorBoundary } from '@/components/ui/ErrorBoundary'
@@ -78,22 +92,27 @@ import {
   ContextMenu,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuSeparator,
   ContextMenuTrigger,
 } from '@/components/ui/ContextMenu'
 import { ShareDialog } from './ShareDialog'
 import { VersionHistoryPanel } from './VersionHistoryPanel'
 import { NoteStylePicker } from './NoteStylePicker'
+import { TableMenu } from './TableMenu'
 import { NoteActionsMenu } from './NoteActionsMenu'
 import { AIMenu, SummaryModal, InsufficientCreditsModal } from './AIMenu'
 import { AIChatView } from './AIChatView'
 import { SpeechButton } from './SpeechButton'
+import { getAIActionIcon } from './aiActionIcons'
 import { EditorSkeleton } from '@/components/ui/Skeleton'
 import { useNetworkRequiredOverlay } from '@/components/ui/OfflineIndicator'
 import { useResponsiveToolbar } from '@/hooks/useResponsiveToolbar'
 import { useScrollableDrag } from '@/hooks/useScrollableDrag'
 import * as AI from '@/lib/ai'
 import { InsufficientCreditsError } from '@/lib/ai'
-import type { Note, NoteStyle, AIChatMessage } from '@/types'
+import { getChatThreads, createChatThread, upsertThreadMessage, updateChatThread } from '@/lib/chatThreads'
+import { fillPromptTemplate } from '@/lib/aiPromptActions'
+import type { Note, NoteStyle, AIChatMessage, AIChatThread, AIPromptAction } from '@/types'
 
 // Remove duplicate Message type - use AIChatMessage from types
 
@@ -198,9 +217,14 @@ interface CollaboratorInfo {
 
 export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen, canToggleFullscreen = true, onToggleFullscreen }: NoteEditorProps) {
   const { t } = useTranslation()
-  const { updateNote, deleteNote } = useNotesStore()
+  const { updateNote, deleteNote, addNote } = useNotesStore()
   const { user } = useAuthStore()
   const isOnline = useNetworkStore(state => state.isOnline)
+  const isAIReachable = useAIReachable()
+  const aiActions = useAIActionsStore(state => state.aiActions)
+  const sortedAIActions = [...aiActions].sort((a, b) => a.name.localeCompare(b.name))
+  const isOutlineOpen = useOutlineStore(state => state.isPanelOpen)
+  const setOutlineOpen = useOutlineStore(state => state.setPanelOpen)
   
   // Network required overlay for offline handling
   const { showOverlay: showNetworkOverlay, OverlayComponent: NetworkOverlay } = useNetworkRequiredOverlay()
@@ -221,8 +245,13 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
   const [isAILoading, setIsAILoading] = useState(false) // For actions that modify editor
   const [isAskAILoading, setIsAskAILoading] = useState(false) // For ask AI only
   const [isStreaming, setIsStreaming] = useState(false)
+  const [isChatStreaming, setIsChatStreaming] = useState(false)
+  const aiAbortRef = useRef<AbortController | null>(null) // Stops the running editor action
+  const chatAbortRef = useRef<AbortController | null>(null) // Stops the chat answer
   const [showAIChatView, setShowAIChatView] = useState(false) // Fullscreen chat view
-  const [chatMessages, setChatMessages] = useState<AIChatMessage[]>(note.aiChatHistory || []) // Chat history from note
+  const [chatThreads, setChatThreads] = useState<AIChatThread[]>(() => getChatThreads(note.aiChatHistory)) // Chat threads from note
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(() => getChatThreads(note.aiChatHistory)[0]?.id ?? null) // null = new conversation
+  const activeThread = chatThreads.find(thread => thread.id === activeThreadId)
   const [showSummary, setShowSummary] = useState(false)
   const [summaryContent, setSummaryContent] = useState('')
   const [selectedText, setSelectedText] = useState('') // Text currently highlighted
@@ -248,26 +277,28 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
     }
   }, [aiError])
 
-  // Sync chat history when note changes
+  // Sync chat threads when note changes
   useEffect(() => {
-    // Load chat history from note
-    setChatMessages(note.aiChatHistory || [])
+    // Load chat threads from note, reopening the latest one
+    const threads = getChatThreads(note.aiChatHistory)
+    setChatThreads(threads)
+    setActiveThreadId(threads[0]?.id ?? null)
   }, [note.id])
 
-  // Save chat history to note when messages change
+  // Save chat threads to note when messages change
   useEffect(() => {
-    if (chatMessages.length > 0 && note.id) {
-      // Only save if different from current note's history
-      const currentHistory = note.aiChatHistory || []
-      if (JSON.stringify(chatMessages) !== JSON.stringify(currentHistory)) {
+    if (chatThreads.length > 0 && note.id) {
+      // Only save if different from current note's threads
+      const currentThreads = getChatThreads(note.aiChatHistory)
+      if (JSON.stringify(chatThreads) !== JSON.stringify(currentThreads)) {
         // Debounce to avoid too many updates
         const timer = setTimeout(() => {
-          updateNote(note.id, { aiChatHistory: chatMessages })
+          updateNote(note.id, { aiChatHistory: chatThreads })
         }, 500)
         return () => clearTimeout(timer)
       }
     }
-  }, [chatMessages, note.id, note.aiChatHistory, updateNote])
+  }, [chatThreads, note.id, note.aiChatHistory, updateNote])
   
   // WebRTC provider and Y.Doc for collaboration
   const [provider, setProvider] = useState<WebrtcProvider | null>(null)
@@ -487,6 +518,21 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
   const noteIdRef = useRef(note.id)
   noteIdRef.current = note.id
 
+  // Open a [[linked]] note in this modal, saving pending edits first
+  const openLinkedNote = useCallback((noteId: string) => {
+    debouncedUpdate.flush()
+    useNotesStore.getState().setSelectedNote(noteId)
+  }, [debouncedUpdate])
+  const openLinkedNoteRef = useRef(openLinkedNote)
+  openLinkedNoteRef.current = openLinkedNote
+
+  // Slash menu actions - filled in below once the handlers exist
+  const slashActionsRef = useRef<SlashCommandActions>({
+    onInsertImage: () => {},
+    onInsertDrawing: () => {},
+    onAIAction: () => {}
+  })
+
   // Determine if collaboration mode is fully ready
   // This ensures we only switch to collaboration mode when everything is initialized
   // CollaborationCursor requires provider.awareness.doc to be available
@@ -513,7 +559,8 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
         // Use shouldDisableHistory to disable early, before full collaboration ready
         ...(shouldDisableHistory ? { history: false } : {})
       }),
-      CodeBlockLowlight.configure({
+      // Highlighted code, ```mermaid blocks drawn as diagrams
+      CodeBlock.configure({
         lowlight: createLowlight(common),
         defaultLanguage: 'javascript',
         HTMLAttributes: {
@@ -553,6 +600,33 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
       Superscript,
       TextAlign.configure({
         types: ['heading', 'paragraph']
+      }),
+      // Tables with draggable column widths
+      Table.configure({
+        resizable: true
+      }),
+      TableRow,
+      TableHeader,
+      TableCell,
+      // $Inline$ and $$block$$ equations
+      InlineMathNode,
+      BlockMathNode,
+      // Foldable heading sections, remembered on this device
+      HeadingFold.configure({
+        folded: useOutlineStore.getState().folded[note.id] ?? [],
+        toggleLabel: t('outline.toggleFold'),
+        onChange: (folded: string[]) => useOutlineStore.getState().setFolded(note.id, folded)
+      }),
+      // Inline #tags with autocomplete
+      Hashtag,
+      // [[Links]] to other notes
+      NoteLink.configure({
+        currentNoteId: note.id,
+        onOpenNote: (noteId: string) => openLinkedNoteRef.current(noteId)
+      }),
+      // "/" menu for blocks, inserts and AI actions
+      SlashCommands.configure({
+        getActions: () => slashActionsRef.current
       })
     ]
 
@@ -573,7 +647,7 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
     }
 
     return baseExtensions
-  }, [t, isCollaborationReady, shouldDisableHistory, ydoc, provider, awarenessDoc, user?.name, userColor])
+  }, [t, isCollaborationReady, shouldDisableHistory, ydoc, provider, awarenessDoc, user?.name, userColor, note.id])
 
   // Editor - only recreate when roomId changes, NOT when note changes
   const editor = useEditor({
@@ -737,12 +811,10 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
     const file = e.target.files?.[0]
     if (!file || !editor) return
 
-    const reader = new FileReader()
-    reader.onload = () => {
-      const base64 = reader.result as string
-      editor.chain().focus().setImage({ src: base64 }).run()
-    }
-    reader.readAsDataURL(file)
+    // Stored once as a blob - the note only keeps a reference
+    storeImage(file)
+      .then(src => editor.chain().focus().setImage({ src }).run())
+      .catch(error => console.error('[NoteEditor] Failed to store image:', error))
     e.target.value = ''
   }, [editor])
 
@@ -827,61 +899,24 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
     return editor?.getText() || ''
   }
 
-  // Convert markdown to HTML and set to editor
-  const setMarkdownContent = (markdown: string) => {
-    if (!editor) return
-    // Use marked to convert markdown to HTML, then set to editor
-    const html = marked.parse(markdown, { async: false }) as string
-    editor.commands.setContent(html)
+  // Convert markdown to HTML for the editor
+  const markdownToHtml = (markdown: string) => {
+    return marked.parse(markdown, { async: false }) as string
   }
 
-  // Simulate streaming text effect with markdown support
-  const streamText = async (markdownText: string, onComplete?: () => void, asTaskList?: boolean) => {
-    if (!editor) return
-    
-    setIsStreaming(true)
-    editor.commands.setContent('') // Clear editor
-    
-    const words = markdownText.split(' ')
-    let currentText = ''
-    
-    for (let i = 0; i < words.length; i++) {
-      currentText += (i === 0 ? '' : ' ') + words[i]
-      // Set as plain text during streaming for performance
-      editor.commands.setContent(`<p>${currentText}</p>`)
-      
-      // Auto scroll to bottom - smooth scroll during streaming
-      if (editorContainerRef.current) {
-        editorContainerRef.current.scrollTo({
-          top: editorContainerRef.current.scrollHeight,
-          behavior: 'smooth'
-        })
-      }
-      
-      // Random delay for natural feel (15-35ms per word)
-      await new Promise(resolve => setTimeout(resolve, 15 + Math.random() * 20))
-    }
-    
-    // After streaming, parse markdown properly
-    if (asTaskList) {
-      // Convert markdown list to Tiptap task list format
-      const taskListHtml = convertToTaskList(markdownText)
-      editor.commands.setContent(taskListHtml)
-    } else {
-      setMarkdownContent(markdownText)
-    }
-    
-    // Final scroll to ensure everything is visible
+  // Keep the end of the note in view while an answer streams in
+  const scrollToEnd = () => {
     if (editorContainerRef.current) {
       editorContainerRef.current.scrollTo({
         top: editorContainerRef.current.scrollHeight,
         behavior: 'smooth'
       })
     }
-    
-    setIsStreaming(false)
-    if (note) updateNote(note.id, { content: editor.getHTML() })
-    onComplete?.()
+  }
+
+  // Stop the answer being generated - what has arrived is kept
+  const handleStopAI = () => {
+    aiAbortRef.current?.abort()
   }
 
   // Convert markdown list items to Tiptap task list HTML
@@ -890,8 +925,8 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
     const taskItems: string[] = []
     
     for (const line of lines) {
-      // Match markdown list items: - item, * item, or numbered 1. item
-      const match = line.match(/^[\s]*[-*][\s]+(.+)$/) || line.match(/^[\s]*\d+\.[\s]+(.+)$/)
+      // Match markdown list items: - item, - [ ] item, * item, or numbered 1. item
+      const match = line.match(/^[\s]*[-*][\s]+(?:\[[ xX]?\][\s]+)?(.+)$/) || line.match(/^[\s]*\d+\.[\s]+(.+)$/)
       if (match) {
         const text = match[1].trim()
         taskItems.push(`<li data-type="taskItem" data-checked="false"><label><input type="checkbox"><span></span></label><div><p>${text}</p></div></li>`)
@@ -910,7 +945,7 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
     if (!editor || isAILoading || isStreaming) return
     
     // Check network for AI features
-    if (!isOnline) {
+    if (!isAIReachable) {
       showNetworkOverlay(t('ai.title'))
       return
     }
@@ -924,9 +959,26 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
       return
     }
 
+    if (action === 'translate' && !extra) return
+
     setIsAILoading(true)
+    const controller = new AbortController()
+    aiAbortRef.current = controller
+    let frame = 0
+
+    // Show the answer so far, at most once per frame
+    const streamTo = (render: (text: string) => void): AI.AIRequestOptions => ({
+      signal: controller.signal,
+      onToken: (_, text) => {
+        setIsAILoading(false)
+        setIsStreaming(true)
+        cancelAnimationFrame(frame)
+        frame = requestAnimationFrame(() => render(text))
+      }
+    })
     
     // Clear editor and show skeleton for actions that replace content
+    const originalHtml = editor.getHTML()
     const replaceActions = ['improve', 'translate', 'extract-tasks']
     if (replaceActions.includes(action)) {
       editor.commands.setContent('')
@@ -937,85 +989,164 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
 
       switch (action) {
         case 'summarize':
-          result = await AI.summarize(content)
-          setSummaryContent(result)
-          setShowSummary(true)
-          setIsAILoading(false)
+          result = await AI.summarize(content, streamTo(text => {
+            setSummaryContent(text)
+            setShowSummary(true)
+          }))
+          cancelAnimationFrame(frame)
+          if (result) {
+            setSummaryContent(result)
+            setShowSummary(true)
+          }
           break
         
-        case 'continue':
-          result = await AI.continueWriting(content)
-          setIsAILoading(false)
-          // Stream append to existing content
-          const originalHtml = editor.getHTML()
-          setIsStreaming(true)
-          
-          const newWords = result.split(' ')
-          let appendText = '\n\n'
-          for (let i = 0; i < newWords.length; i++) {
-            appendText += (i === 0 ? '' : ' ') + newWords[i]
-            editor.commands.setContent(originalHtml + `<p>${appendText}</p>`)
-            // Auto scroll during streaming
-            if (editorContainerRef.current) {
-              editorContainerRef.current.scrollTo({
-                top: editorContainerRef.current.scrollHeight,
-                behavior: 'smooth'
-              })
-            }
-            await new Promise(resolve => setTimeout(resolve, 15 + Math.random() * 20))
+        case 'continue': {
+          // Append to existing content
+          const appendAnswer = (text: string) => {
+            editor.commands.setContent(originalHtml + markdownToHtml(text))
+            scrollToEnd()
           }
-          // Parse markdown for the appended content
-          setMarkdownContent(content + '\n\n' + result)
-          // Final scroll
-          if (editorContainerRef.current) {
-            editorContainerRef.current.scrollTo({
-              top: editorContainerRef.current.scrollHeight,
-              behavior: 'smooth'
-            })
+          result = await AI.continueWriting(content, streamTo(appendAnswer))
+          cancelAnimationFrame(frame)
+          if (result) {
+            appendAnswer(result)
+            if (note) updateNote(note.id, { content: editor.getHTML() })
           }
-          setIsStreaming(false)
-          if (note) updateNote(note.id, { content: editor.getHTML() })
           break
+        }
         
         case 'improve':
-          result = await AI.improveWriting(content)
-          setIsAILoading(false)
-          await streamText(result)
-          break
-        
         case 'translate':
-          if (!extra) {
-            setIsAILoading(false)
-            return
+        case 'extract-tasks': {
+          const replaceWithAnswer = (text: string) => {
+            editor.commands.setContent(markdownToHtml(text))
+            scrollToEnd()
           }
-          result = await AI.translate(content, extra)
-          setIsAILoading(false)
-          await streamText(result)
-          break
-        
-        case 'extract-tasks':
-          result = await AI.extractTasks(content)
-          setIsAILoading(false)
-          // Convert to Tiptap task list format instead of regular markdown
-          await streamText(result, undefined, true)
+          const options = streamTo(replaceWithAnswer)
+          result = action === 'improve'
+            ? await AI.improveWriting(content, options)
+            : action === 'translate'
+              ? await AI.translate(content, extra!, options)
+              : await AI.extractTasks(content, options)
+          cancelAnimationFrame(frame)
+
+          if (!result) {
+            // Stopped before anything arrived
+            editor.commands.setContent(originalHtml)
+          } else if (action === 'extract-tasks') {
+            // Convert to Tiptap task list format instead of regular markdown
+            editor.commands.setContent(convertToTaskList(result))
+            scrollToEnd()
+          } else {
+            replaceWithAnswer(result)
+          }
+          if (note) updateNote(note.id, { content: editor.getHTML() })
           break
+        }
       }
     } catch (error) {
+      cancelAnimationFrame(frame)
       console.error('AI error:', error)
+      // Restore content if it was cleared or partly replaced
+      if (replaceActions.includes(action) || action === 'continue') {
+        editor.commands.setContent(originalHtml)
+      }
       if (error instanceof InsufficientCreditsError) {
         setShowCreditsError(true)
-        // Restore content if it was cleared
-        if (replaceActions.includes(action)) {
-          editor.commands.setContent(note.content || '')
-        }
       } else {
         setAiError((error as Error).message || t('ai.error'))
       }
+    } finally {
+      aiAbortRef.current = null
       setIsAILoading(false)
       setIsStreaming(false)
     }
   }
 
+  // Run a custom AI action on the selected text - or the whole note
+  const handleCustomAIAction = async (action: AIPromptAction) => {
+    if (!editor || isAILoading || isStreaming) return
+
+    if (!isAIReachable) {
+      showNetworkOverlay(t('ai.title'))
+      return
+    }
+
+    const noteText = getEditorText()
+    if (!noteText.trim()) return
+
+    const { from, to, empty } = editor.state.selection
+    const selection = empty ? '' : editor.state.doc.textBetween(from, to, '\n')
+    const prompt = fillPromptTemplate(action.prompt, { selection, note: noteText })
+
+    // Below the block the selection ends in, or at the end of the note
+    const $to = editor.state.doc.resolve(to)
+    const insertAt = selection && $to.depth > 0 ? $to.after(1) : editor.state.doc.content.size
+
+    const originalHtml = editor.getHTML()
+    const originalDoc = editor.getJSON()
+    const controller = new AbortController()
+    aiAbortRef.current = controller
+    let frame = 0
+    // The note stays in view - no skeleton - so show Stop right away
+    setIsStreaming(true)
+
+    const render = (text: string) => {
+      const html = markdownToHtml(text)
+      if (action.output === 'replace' && !selection) {
+        editor.commands.setContent(html)
+        scrollToEnd()
+        return
+      }
+      editor.commands.setContent(originalDoc)
+      editor.commands.insertContentAt(action.output === 'replace' ? { from, to } : insertAt, html)
+    }
+
+    try {
+      const result = await AI.runPromptAction(prompt, {
+        signal: controller.signal,
+        onToken: action.output === 'new-note' ? undefined : (_, text) => {
+          cancelAnimationFrame(frame)
+          frame = requestAnimationFrame(() => render(text))
+        }
+      })
+      cancelAnimationFrame(frame)
+
+      if (action.output === 'new-note') {
+        if (result) addNote({ title: action.name, content: markdownToHtml(result) })
+        return
+      }
+
+      if (!result) {
+        // Stopped before anything arrived
+        editor.commands.setContent(originalHtml)
+        return
+      }
+      render(result)
+      if (note) updateNote(note.id, { content: editor.getHTML() })
+    } catch (error) {
+      cancelAnimationFrame(frame)
+      console.error('AI error:', error)
+      if (action.output !== 'new-note') {
+        editor.commands.setContent(originalHtml)
+      }
+      if (error instanceof InsufficientCreditsError) {
+        setShowCreditsError(true)
+      } else {
+        setAiError((error as Error).message || t('ai.error'))
+      }
+    } finally {
+      aiAbortRef.current = null
+      setIsStreaming(false)
+    }
+  }
+
+  slashActionsRef.current = {
+    onInsertImage: addImage,
+    onInsertDrawing: () => setShowDrawingModal(true),
+    onAIAction: handleAIAction
+  }
+
   const handleCopy = () => {
     if (selectedText) {
       navigator.clipboard.writeText(selectedText)
@@ -1077,14 +1208,25 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
         noteContent={aiContextText || getEditorText()}
         contextText={aiContextText}
         onClearContext={() => setAiContextText('')}
-        initialMessages={chatMessages}
+        initialMessages={activeThread?.messages ?? []}
+        threads={chatThreads}
+        activeThreadId={activeThread?.id ?? null}
+        onSelectThread={setActiveThreadId}
+        onNewThread={() => setActiveThreadId(null)}
+        onRenameThread={(threadId, name) => setChatThreads(prev => updateChatThread(prev, threadId, { name }))}
         isLoading={isAskAILoading}
-        onSendMessage={async (question, onStream) => {
-          if (isAskAILoading) return
+        isStreaming={isChatStreaming}
+        onStop={() => chatAbortRef.current?.abort()}
+        onSendMessage={async (question) => {
+          if (isAskAILoading || isChatStreaming) return
           
           const content = aiContextText || getEditorText()
           if (!content.trim()) return
 
+          // Continue the open thread, or start one named after the question
+          const thread = activeThread ?? createChatThread(question)
+          setActiveThreadId(thread.id)
+
           // Add user message first
           const userMessage: AIChatMessage = {
             id: Date.now().toString(),
@@ -1092,36 +1234,33 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
             content: question,
             timestamp: Date.now()
           }
-          setChatMessages(prev => [...prev, userMessage])
+          setChatThreads(prev => upsertThreadMessage(prev, thread, userMessage))
 
           setIsAskAILoading(true)
+          const controller = new AbortController()
+          chatAbortRef.current = controller
+          const aiMessage: AIChatMessage = {
+            id: (Date.now() + 1).toString(),
+            role: 'assistant',
+            content: '',
+            timestamp: Date.now()
+          }
           
           try {
-            const result = await AI.askAI(content, question)
-            
-            const aiMessage: AIChatMessage = {
-              id: (Date.now() + 1).toString(),
-              role: 'assistant',
-              content: result,
-              timestamp: Date.now()
-            }
-            
-            // Add empty message first for streaming
-            setChatMessages(prev => [...prev, { ...aiMessage, content: '' }])
-            setIsAskAILoading(false)
-            
-            // Stream the text if callback provided
-            if (onStream) {
-              await onStream(aiMessage.id, result)
+            // Send the thread's earlier turns along, growing the answer in place as tokens arrive
+            const { summary, summarizedCount } = await AI.askInThread(content, thread, question, {
+              signal: controller.signal,
+              onToken: (_, text) => {
+                setIsAskAILoading(false)
+                setIsChatStreaming(true)
+                setChatThreads(prev => upsertThreadMessage(prev, thread, { ...aiMessage, content: text }))
+              }
+            })
+            if (summary !== thread.summary) {
+              setChatThreads(prev => updateChatThread(prev, thread.id, { summary, summarizedCount }))
             }
-            
-            // Update with final content
-            setChatMessages(prev => prev.map(m => 
-              m.id === aiMessage.id ? aiMessage : m
-            ))
           } catch (error) {
             console.error('AI error:', error)
-            setIsAskAILoading(false)
             
             if (error instanceof InsufficientCreditsError) {
               setShowAIChatView(false)
@@ -1132,6 +1271,10 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
             } else {
               setAiError((error as Error).message || t('ai.error'))
             }
+          } finally {
+            chatAbortRef.current = null
+            setIsAskAILoading(false)
+            setIsChatStreaming(false)
           }
         }}
         onInsufficientCredits={() => {
@@ -1176,7 +1319,9 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
           onClose={() => setShowDrawingModal(false)}
           onSave={(imageDataUrl) => {
             // Insert drawing as image into editor
-            editor?.chain().focus().setImage({ src: imageDataUrl }).run()
+            storeImage(imageDataUrl)
+              .then(src => editor?.chain().focus().setImage({ src, alt: DRAWING_IMAGE_ALT }).run())
+              .catch(error => console.error('[NoteEditor] Failed to store drawing:', error))
           }}
         />
       </DrawingErrorBoundary>
@@ -1222,124 +1367,167 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
         </div>
       )}
 
-      {/* Scrollable Content Area - includes back button, title, pin */}
-      <div 
-        ref={editorContainerRef} 
-        className="flex-1 overflow-y-auto px-4 relative"
-      >
-        {/* Header row - Back + Title + Pin - scrolls with content on all devices */}
-        <div className="flex items-center gap-2 pt-4 pb-2 min-w-0">
-          {/* Back button - on mobile always, on desktop only when fullscreen */}
-          <button
-            onClick={onClose}
-            className={cn(
-              "p-2 -ml-2 rounded-full text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors shrink-0",
-              isFullscreen ? "flex" : "md:hidden"
-            )}
-          >
-            <ArrowLeft className="w-5 h-5" />
-          </button>
+      <div className="flex-1 flex min-h-0 relative">
+        {/* Scrollable Content Area - includes back button, title, pin */}
+        <div 
+          ref={editorContainerRef} 
+          className="flex-1 min-w-0 overflow-y-auto px-4 relative"
+        >
+          {/* Header row - Back + Title + Pin - scrolls with content on all devices */}
+          <div className="flex items-center gap-2 pt-4 pb-2 min-w-0">
+            {/* Back button - on mobile always, on desktop only when fullscreen */}
+            <button
+              onClick={onClose}
+              className={cn(
+                "p-2 -ml-2 rounded-full text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors shrink-0",
+                isFullscreen ? "flex" : "md:hidden"
+              )}
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
           
-          <div className="flex-1 min-w-0">
-            <EditableTitle
-              value={note.title}
-              onChange={(value) => updateNote(note.id, { title: value })}
-              placeholder={t('notes.title')}
-              className="text-xl font-medium text-neutral-900 dark:text-white"
-            />
-          </div>
+            <div className="flex-1 min-w-0">
+              <EditableTitle
+                value={note.title}
+                onChange={(value) => updateNote(note.id, { title: value })}
+                placeholder={t('notes.title')}
+                className="text-xl font-medium text-neutral-900 dark:text-white"
+              />
+            </div>
           
-          {/* Collaboration indicator - Desktop only (mobile has its own above) */}
-          {roomId && collaborators.length > 0 && (
-            <div className="hidden md:flex items-center gap-1">
-              <div className="flex -space-x-1">
-                {collaborators.slice(0, 3).map((collab, i) => (
-                  <Tooltip key={i}>
-                    <TooltipTrigger asChild>
-                      {collab.picture ? (
-                        <img
-                          src={collab.picture}
-                          alt={collab.name}
-                          className="w-6 h-6 rounded-full border-2 border-white dark:border-neutral-900 object-cover"
-                        />
-                      ) : (
-                        <div
-                          className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-medium text-white border-2 border-white dark:border-neutral-900"
-                          style={{ backgroundColor: collab.color }}
-                        >
-                          {collab.name.charAt(0).toUpperCase()}
-                        </div>
-                      )}
-                    </TooltipTrigger>
-                    <TooltipContent side="bottom">{collab.name}</TooltipContent>
-                  </Tooltip>
-                ))}
-                {collaborators.length > 3 && (
-                  <div className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-medium bg-neutral-300 dark:bg-neutral-600 text-neutral-700 dark:text-neutral-200 border-2 border-white dark:border-neutral-900">
-                    +{collaborators.length - 3}
-                  </div>
-                )}
+            {/* Collaboration indicator - Desktop only (mobile has its own above) */}
+            {roomId && collaborators.length > 0 && (
+              <div className="hidden md:flex items-center gap-1">
+                <div className="flex -space-x-1">
+                  {collaborators.slice(0, 3).map((collab, i) => (
+                    <Tooltip key={i}>
+                      <TooltipTrigger asChild>
+                        {collab.picture ? (
+                          <img
+                            src={collab.picture}
+                            alt={collab.name}
+                            className="w-6 h-6 rounded-full border-2 border-white dark:border-neutral-900 object-cover"
+                          />
+                        ) : (
+                          <div
+                            className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-medium text-white border-2 border-white dark:border-neutral-900"
+                            style={{ backgroundColor: collab.color }}
+                          >
+                            {collab.name.charAt(0).toUpperCase()}
+                          </div>
+                        )}
+                      </TooltipTrigger>
+                      <TooltipContent side="bottom">{collab.name}</TooltipContent>
+                    </Tooltip>
+                  ))}
+                  {collaborators.length > 3 && (
+                    <div className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-medium bg-neutral-300 dark:bg-neutral-600 text-neutral-700 dark:text-neutral-200 border-2 border-white dark:border-neutral-900">
+                      +{collaborators.length - 3}
+                    </div>
+                  )}
+                </div>
+                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
               </div>
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-            </div>
-          )}
+            )}
 
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <button
-                onClick={onTogglePin}
-                className="p-2 rounded-full text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
-              >
-                {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
-              </button>
-            </TooltipTrigger>
-            <TooltipContent>{isPinned ? t('notes.unpin') : t('notes.pin')}</TooltipContent>
-          </Tooltip>
-        </div>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => setOutlineOpen(!isOutlineOpen)}
+                  className={cn(
+                    "p-2 rounded-full text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors",
+                    isOutlineOpen && "bg-neutral-100 dark:bg-neutral-800"
+                  )}
+                >
+                  <ListTree className="w-4 h-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>{isOutlineOpen ? t('outline.hide') : t('outline.show')}</TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={onTogglePin}
+                  className="p-2 rounded-full text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                >
+                  {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>{isPinned ? t('notes.unpin') : t('notes.pin')}</TooltipContent>
+            </Tooltip>
+          </div>
 
-        {/* Editor Content or Skeleton Loading */}
-        {isAILoading ? (
-          <EditorSkeleton />
-        ) : (
-          <ContextMenu>
-            <ContextMenuTrigger asChild onContextMenu={handleContextMenuOpen}>
-              <div className="relative">
-                <EditorContent 
-                  editor={editor} 
-                  className="min-h-[200px] text-neutral-700 dark:text-neutral-300"
-                />
-                {/* Collaboration cursors overlay */}
-                {isCollaborationReady && provider && (
-                  <CollaborationCursors 
+          {/* Editor Content or Skeleton Loading */}
+          {isAILoading ? (
+            <EditorSkeleton />
+          ) : (
+            <ContextMenu>
+              <ContextMenuTrigger asChild onContextMenu={handleContextMenuOpen}>
+                <div className="relative">
+                  <EditorContent 
                     editor={editor} 
-                    provider={provider}
+                    className="min-h-[200px] text-neutral-700 dark:text-neutral-300"
                   />
-                )}
-              </div>
-            </ContextMenuTrigger>
-            <ContextMenuContent>
-              <ContextMenuItem onClick={handleCut}>
-                <Scissors className="w-4 h-4 mr-2" />
-                {t('contextMenu.cut')}
-              </ContextMenuItem>
-              <ContextMenuItem onClick={handleCopy}>
-                <Copy className="w-4 h-4 mr-2" />
-                {t('contextMenu.copy')}
-              </ContextMenuItem>
-              <ContextMenuItem onClick={handlePaste}>
-                <ClipboardPaste className="w-4 h-4 mr-2" />
-                {t('contextMenu.paste')}
-              </ContextMenuItem>
-              <ContextMenuItem onClick={handleSelectAll}>
-                <TextSelect className="w-4 h-4 mr-2" />
-                {t('contextMenu.selectAll')}
-              </ContextMenuItem>
-              <ContextMenuItem onClick={handleSelectionAskAI}>
-                <Sparkles className="w-4 h-4 mr-2" />
-                {t('ai.ask')}
-              </ContextMenuItem>
-            </ContextMenuContent>
-          </ContextMenu>
+                  {/* Collaboration cursors overlay */}
+                  {isCollaborationReady && provider && (
+                    <CollaborationCursors 
+                      editor={editor} 
+                      provider={provider}
+                    />
+                  )}
+                </div>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <ContextMenuItem onClick={handleCut}>
+                  <Scissors className="w-4 h-4 mr-2" />
+                  {t('contextMenu.cut')}
+                </ContextMenuItem>
+                <ContextMenuItem onClick={handleCopy}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  {t('contextMenu.copy')}
+                </ContextMenuItem>
+                <ContextMenuItem onClick={handlePaste}>
+                  <ClipboardPaste className="w-4 h-4 mr-2" />
+                  {t('contextMenu.paste')}
+                </ContextMenuItem>
+                <ContextMenuItem onClick={handleSelectAll}>
+                  <TextSelect className="w-4 h-4 mr-2" />
+                  {t('contextMenu.selectAll')}
+                </ContextMenuItem>
+                <ContextMenuItem onClick={handleSelectionAskAI}>
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  {t('ai.ask')}
+                </ContextMenuItem>
+                {sortedAIActions.length > 0 && <ContextMenuSeparator />}
+                {sortedAIActions.map(action => {
+                  const Icon = getAIActionIcon(action.icon)
+                  return (
+                    <ContextMenuItem
+                      key={action.id}
+                      onClick={() => handleCustomAIAction(action)}
+                      disabled={isAILoading || isStreaming}
+                    >
+                      <Icon className="w-4 h-4 mr-2" />
+                      <span className="truncate max-w-[200px]">{action.name}</span>
+                    </ContextMenuItem>
+                  )
+                })}
+              </ContextMenuContent>
+            </ContextMenu>
+          )}
+
+          {/* Notes linking here */}
+          {!roomId && <BacklinksPanel noteId={note.id} onOpenNote={openLinkedNote} />}
+        </div>
+
+        {/* Outline - overlays the note on mobile, beside it on desktop */}
+        {isOutlineOpen && editor && (
+          <OutlinePanel
+            editor={editor}
+            onClose={() => setOutlineOpen(false)}
+            className="absolute inset-y-0 right-0 z-20 shadow-lg md:static md:shadow-none"
+          />
         )}
       </div>
 
@@ -1381,7 +1569,10 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
           {toolbarVisibility.ai && (
             <AIMenu 
               onAction={handleAIAction} 
-              disabled={!isOnline || isAILoading || isStreaming}
+              onCustomAction={handleCustomAIAction}
+              disabled={!isAIReachable || isAILoading || isStreaming}
+              isGenerating={isAILoading || isStreaming}
+              onStop={handleStopAI}
             />
           )}
           
@@ -1582,6 +1773,9 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
               <Quote className="w-[18px] h-[18px]" />
             </ToolbarButton>
           )}
+          {toolbarVisibility.table && (
+            <TableMenu editor={editor} />
+          )}
           
           {/* Subscript & Superscript - Priority 5 */}
           {toolbarVisibility.subscript && (
@@ -1690,6 +1884,8 @@ export function NoteEditor({ note, onClose, onTogglePin, isPinned, isFullscreen,
               noteContent={editor?.getHTML() || note.content}
               onImport={handleImportDocument}
               disabled={isAILoading || isStreaming}
+              reminder={note.reminder}
+              onReminderChange={(reminder) => updateNote(note.id, { reminder })}
             />
           )}
 
@@ -0,0 +1,165 @@
+import { Node, mergeAttributes } from '@tiptap/core'
+import { ReactNodeViewRenderer, NodeViewWrapper, type NodeViewProps } from '@tiptap/react'
+import { PluginKey } from '@tiptap/pm/state'
+import Suggestion, { type SuggestionProps } from '@tiptap/suggestion'
+import { forwardRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FileText } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { formatNoteLinkText } from '@/lib/noteLinks'
+import { cn } from '@/lib/utils'
+import { renderSuggestionPopup, useSuggestionNavigation, type SuggestionListHandle } from './suggestionPopup'
+import type { Note } from '@/types'
+
+const MAX_SUGGESTIONS = 8
+
+export interface NoteLinkOptions {
+  currentNoteId: string | null                // Excluded from suggestions
+  onOpenNote: (noteId: string) => void
+}
+
+// Chip showing the target's current title, so renames show up immediately
+function NoteLinkView({ node, extension }: NodeViewProps) {
+  const { t } = useTranslation()
+  const noteId = node.attrs.noteId as string
+  const target = useNotesStore(state => state.notes.find(note => note.id === noteId && !note.isDeleted))
+  const title = target ? (target.title || t('notes.newNote')) : node.attrs.title as string
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      className={cn('note-link', !target && 'note-link-missing')}
+      title={target ? undefined : t('noteLinks.missing')}
+      onClick={() => {
+        if (target) (extension.options as NoteLinkOptions).onOpenNote(noteId)
+      }}
+    >
+      {formatNoteLinkText(title)}
+    </NodeViewWrapper>
+  )
+}
+
+// Autocomplete list shown while typing [[...
+const NoteSuggestionList = forwardRef<SuggestionListHandle, SuggestionProps<Note, Note>>(
+  function NoteSuggestionList({ items, command, query }, ref) {
+    const { t } = useTranslation()
+    const [selectedIndex] = useSuggestionNavigation(items, command, ref)
+
+    return (
+      <div className="min-w-[200px] max-w-[300px] py-1 rounded-xl bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 shadow-lg animate-in fade-in duration-200">
+        {items.length === 0 ? (
+          <p className="px-3 py-1.5 text-sm text-neutral-400">
+            {query ? t('noteLinks.noMatches') : t('noteLinks.hint')}
+          </p>
+        ) : items.map((item, index) => (
+          <button
+            key={item.id}
+            onMouseDown={(e) => {
+              // Keep editor focus
+              e.preventDefault()
+              command(item)
+            }}
+            className={cn(
+              "w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-neutral-700 dark:text-neutral-200",
+              index === selectedIndex ? "bg-neutral-100 dark:bg-neutral-800" : "hover:bg-neutral-50 dark:hover:bg-neutral-800/60"
+            )}
+          >
+            <FileText className="w-3.5 h-3.5 shrink-0 text-neutral-400" />
+            <span className="flex-1 truncate">{item.title || t('notes.newNote')}</span>
+          </button>
+        ))}
+      </div>
+    )
+  }
+)
+
+// Notes whose title contains the query, title prefix matches first
+function findLinkTargets(notes: Note[], query: string, currentNoteId: string | null): Note[] {
+  const search = query.replace(/\]+$/, '').trim().toLowerCase()
+  return notes
+    .filter(note => !note.isDeleted && note.id !== currentNoteId && note.title.toLowerCase().includes(search))
+    .sort((a, b) => {
+      const aPrefix = a.title.toLowerCase().startsWith(search) ? 0 : 1
+      const bPrefix = b.title.toLowerCase().startsWith(search) ? 0 : 1
+      return aPrefix - bPrefix || b.updatedAt - a.updatedAt
+    })
+    .slice(0, MAX_SUGGESTIONS)
+}
+
+/**
+ * [[Wiki links]] to other notes, stored by note ID
+ */
+export const NoteLink = Node.create<NoteLinkOptions>({
+  name: 'noteLink',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addOptions() {
+    return {
+      currentNoteId: null,
+      onOpenNote: () => {}
+    }
+  },
+
+  addAttributes() {
+    return {
+      noteId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-note-id'),
+        renderHTML: attributes => ({ 'data-note-id': attributes.noteId })
+      },
+      // Title when linked - shown if the target is missing
+      title: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-title') ?? '',
+        renderHTML: attributes => ({ 'data-title': attributes.title })
+      }
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-type="noteLink"]',
+      },
+    ]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ 'data-type': 'noteLink' }, HTMLAttributes), formatNoteLinkText(node.attrs.title)]
+  },
+
+  renderText({ node }) {
+    return formatNoteLinkText(node.attrs.title)
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(NoteLinkView)
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<Note, Note>({
+        editor: this.editor,
+        pluginKey: new PluginKey('noteLinkSuggestion'),
+        char: '[[',
+        allowSpaces: true,
+        allowedPrefixes: null,
+        items: ({ query }) => findLinkTargets(useNotesStore.getState().notes, query, this.options.currentNoteId),
+        command: ({ editor, range, props }) => {
+          editor.chain().focus().insertContentAt(range, [
+            { type: this.name, attrs: { noteId: props.id, title: props.title } },
+            { type: 'text', text: ' ' }
+          ]).run()
+        },
+        render: renderSuggestionPopup(NoteSuggestionList, 310)
+      })
+    ]
+  }
+})
@@ -8,39 +8,8 @@ import { cn } from '@/lib/utils'
 import { useThemeStore } from '@/stores/themeStore'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
 import type { NoteStyle } from '@/types'
+import { LIGHT_COLORS, DARK_COLORS } from '@/lib/noteColors'
 
-// Google Keep color palettes - optimized for readability
-const LIGHT_COLORS = [
-  { name: 'Default', value: '#ffffff', textColor: '#171717' },
-  { name: 'Coral', value: '#F28B82', textColor: '#171717' },
-  { name: 'Peach', value: '#FBBC04', textColor: '#171717' },
-  { name: 'Sand', value: '#FFF475', textColor: '#171717' },
-  { name: 'Mint', value: '#CCFF90', textColor: '#171717' },
-  { name: 'Sage', value: '#A7FFEB', textColor: '#171717' },
-  { name: 'Fog', value: '#CBF0F8', textColor: '#171717' },
-  { name: 'Storm', value: '#AECBFA', textColor: '#171717' },
-  { name: 'Dusk', value: '#D7AEFB', textColor: '#171717' },
-  { name: 'Blossom', value: '#FDCFE8', textColor: '#171717' },
-  { name: 'Clay', value: '#E6C9A8', textColor: '#171717' },
-  { name: 'Chalk', value: '#E8EAED', textColor: '#171717' },
-]
-
-const DARK_COLORS = [
-  { name: 'Default', value: '#202124', textColor: '#fafafa' },
-  { name: 'Coral', value: '#5C2B29', textColor: '#fafafa' },
-  { name: 'Peach', value: '#614A19', textColor: '#fafafa' },
-  { name: 'Sand', value: '#635D19', textColor: '#fafafa' },
-  { name: 'Mint', value: '#345920', textColor: '#fafafa' },
-  { name: 'Sage', value: '#16504B', textColor: '#fafafa' },
-  { name: 'Fog', value: '#2D555E', textColor: '#fafafa' },
-  { name: 'Storm', value: '#1E3A5F', textColor: '#fafafa' },
-  { name: 'Dusk', value: '#42275E', textColor: '#fafafa' },
-  { name: 'Blossom', value: '#5B2245', textColor: '#fafafa' },
-  { name: 'Clay', value: '#442F19', textColor: '#fafafa' },
-  { name: 'Chalk', value: '#3C3F43', textColor: '#fafafa' },
-]
-
-// Instagram-inspired filters
 export const IMAGE_FILTERS = [
   { name: 'Normal', value: '', css: '' },
   { name: 'Clarendon', value: 'clarendon', css: 'contrast(1.2) saturate(1.35)' },
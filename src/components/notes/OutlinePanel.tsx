@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { Editor } from '@tiptap/react'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { ChevronDown, ChevronRight, ListTree, X } from 'lucide-react'
+import { getEditorOutline, getFoldedHeadings, type EditorOutlineHeading } from './HeadingFoldExtension'
+import { cn } from '@/lib/utils'
+
+interface OutlinePanelProps {
+  editor: Editor
+  onClose: () => void
+  className?: string
+}
+
+interface OutlineSnapshot {
+  doc: ProseMirrorNode
+  headings: EditorOutlineHeading[]
+  folded: ReadonlySet<string>
+}
+
+function takeSnapshot(editor: Editor, previous?: OutlineSnapshot): OutlineSnapshot {
+  const { doc } = editor.state
+  const folded = getFoldedHeadings(editor.state)
+  // Selection-only transactions don't change the outline
+  if (previous && previous.doc === doc && previous.folded === folded) return previous
+  return { doc, headings: getEditorOutline(doc), folded }
+}
+
+/**
+ * Outline of the note's H1-H3 headings - click to scroll, chevrons fold sections
+ */
+export function OutlinePanel({ editor, onClose, className }: OutlinePanelProps) {
+  const { t } = useTranslation()
+  const [snapshot, setSnapshot] = useState(() => takeSnapshot(editor))
+
+  useEffect(() => {
+    const update = () => setSnapshot(previous => takeSnapshot(editor, previous))
+    update()
+    editor.on('transaction', update)
+    return () => {
+      editor.off('transaction', update)
+    }
+  }, [editor])
+
+  const scrollToHeading = (heading: EditorOutlineHeading) => {
+    editor.commands.revealBlock(heading.index)
+    const dom = editor.view.nodeDOM(heading.pos)
+    if (dom instanceof HTMLElement) {
+      dom.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    }
+  }
+
+  const { headings, folded } = snapshot
+
+  return (
+    <aside
+      className={cn(
+        'w-60 shrink-0 flex flex-col border-l border-neutral-200 dark:border-neutral-800 bg-white/95 dark:bg-neutral-900/95 backdrop-blur-sm',
+        className
+      )}
+    >
+      <div className="flex items-center justify-between px-3 py-2">
+        <span className="flex items-center gap-1.5 text-xs font-medium text-neutral-500 dark:text-neutral-400">
+          <ListTree className="w-3.5 h-3.5" />
+          {t('outline.title')}
+        </span>
+        <button
+          onClick={onClose}
+          aria-label={t('outline.close')}
+          className="p-1 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {headings.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-neutral-400">{t('outline.empty')}</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto px-1.5 pb-2">
+          {headings.map(heading => {
+            const isFolded = folded.has(heading.key)
+            return (
+              <li
+                key={heading.key}
+                className="flex items-center"
+                style={{ paddingLeft: `${(heading.level - 1) * 12}px` }}
+              >
+                {heading.hasSection ? (
+                  <button
+                    onClick={() => editor.commands.toggleHeadingFold(heading.key)}
+                    aria-label={t('outline.toggleFold')}
+                    aria-expanded={!isFolded}
+                    className="p-0.5 rounded text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors shrink-0"
+                  >
+                    {isFolded ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                  </button>
+                ) : (
+                  <span className="w-[18px] shrink-0" />
+                )}
+                <button
+                  onClick={() => scrollToHeading(heading)}
+                  className={cn(
+                    'flex-1 min-w-0 truncate text-left px-1.5 py-1 rounded-md text-sm hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors',
+                    heading.level === 1
+                      ? 'font-medium text-neutral-800 dark:text-neutral-200'
+                      : 'text-neutral-600 dark:text-neutral-400',
+                    !heading.text && 'italic text-neutral-400 dark:text-neutral-500'
+                  )}
+                >
+                  {heading.text || t('outline.untitled')}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </aside>
+  )
+}
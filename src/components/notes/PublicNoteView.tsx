@@ -4,10 +4,10 @@ import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import TaskList from '@tiptap/extension-task-list'
 import TaskItem from '@tiptap/extension-task-item'
-import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight'
 import { common, createLowlight } from 'lowlight'
 import { Markdown } from 'tiptap-markdown'
-import { AlertCircle, ArrowRight, Copy, TextSelect } from 'lucide-react'
+import { Table, TableRow, TableHeader, TableCell } from '@tiptap/extension-table'
+import { AlertCircle, ArrowRight, Copy, ListTree, TextSelect } from 'lucide-react'
 import { LoadingOverlay } from '@/components/ui/LoadingOverlay'
 import {
   ContextMenu,
@@ -16,7 +16,13 @@ import {
   ContextMenuTrigger,
 } from '@/components/ui/ContextMenu'
 import { ReadOnlyImage } from './ResizableImageExtension'
+import { CodeBlock } from './CodeBlockExtension'
+import { InlineMathNode, BlockMathNode } from './MathExtension'
+import { HeadingFold } from './HeadingFoldExtension'
+import { OutlinePanel } from './OutlinePanel'
 import { NoteBackground, getNoteBackgroundStyle } from './NoteStylePicker'
+import { useOutlineStore } from '@/stores/outlineStore'
+import { cn } from '@/lib/utils'
 import type { Note } from '@/types'
 
 interface PublicNoteViewProps {
@@ -31,6 +37,8 @@ export function PublicNoteView({ fileId }: PublicNoteViewProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [copySuccess, setCopySuccess] = useState(false)
+  const isOutlineOpen = useOutlineStore(state => state.isPanelOpen)
+  const setOutlineOpen = useOutlineStore(state => state.setPanelOpen)
 
   // TipTap editor in read-only mode
   const editor = useEditor({
@@ -39,7 +47,7 @@ export function PublicNoteView({ fileId }: PublicNoteViewProps) {
         heading: { levels: [1, 2, 3] },
         codeBlock: false
       }),
-      CodeBlockLowlight.configure({
+      CodeBlock.configure({
         lowlight: createLowlight(common),
         defaultLanguage: 'javascript',
         HTMLAttributes: {
@@ -52,6 +60,17 @@ export function PublicNoteView({ fileId }: PublicNoteViewProps) {
         HTMLAttributes: { class: 'task-item' }
       }),
       ReadOnlyImage,
+      Table,
+      TableRow,
+      TableHeader,
+      TableCell,
+      InlineMathNode,
+      BlockMathNode,
+      HeadingFold.configure({
+        folded: useOutlineStore.getState().folded[`public:${fileId}`] ?? [],
+        toggleLabel: t('outline.toggleFold'),
+        onChange: (folded: string[]) => useOutlineStore.getState().setFolded(`public:${fileId}`, folded)
+      }),
       Markdown.configure({
         html: true,
         transformPastedText: false,
@@ -176,43 +195,66 @@ export function PublicNoteView({ fileId }: PublicNoteViewProps) {
           {/* Background image layer */}
           <NoteBackground style={note.style} className="rounded-[12px] sm:rounded-[16px]" />
           
-          {/* Content layer */}
-          <div className="h-full overflow-y-auto p-4 sm:p-6 pb-8 sm:pb-10 relative z-10">
-            {/* Title */}
-            <h1 className="text-xl sm:text-2xl font-bold text-neutral-900 dark:text-white">
-              {note.title || t('publicNote.untitled')}
-            </h1>
-            <p className="mt-1.5 text-xs text-neutral-400">
-              {t('publicNote.updated')} {new Date(note.updatedAt).toLocaleString()}
-            </p>
+          <div className="h-full flex relative z-10">
+            {/* Content layer */}
+            <div className="flex-1 min-w-0 overflow-y-auto p-4 sm:p-6 pb-8 sm:pb-10">
+              {/* Title */}
+              <div className="flex items-start justify-between gap-2">
+                <h1 className="text-xl sm:text-2xl font-bold text-neutral-900 dark:text-white">
+                  {note.title || t('publicNote.untitled')}
+                </h1>
+                <button
+                  onClick={() => setOutlineOpen(!isOutlineOpen)}
+                  title={isOutlineOpen ? t('outline.hide') : t('outline.show')}
+                  className={cn(
+                    "p-2 -mr-2 rounded-full text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors shrink-0",
+                    isOutlineOpen && "bg-neutral-100 dark:bg-neutral-800"
+                  )}
+                >
+                  <ListTree className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="mt-1.5 text-xs text-neutral-400">
+                {t('publicNote.updated')} {new Date(note.updatedAt).toLocaleString()}
+              </p>
             
-            {/* TipTap Editor Content with Context Menu */}
-            <ContextMenu>
-              <ContextMenuTrigger asChild>
-                <div className="mt-4">
-                  <EditorContent 
-                    editor={editor} 
-                    className="min-h-[200px] text-neutral-700 dark:text-neutral-300"
-                  />
+              {/* TipTap Editor Content with Context Menu */}
+              <ContextMenu>
+                <ContextMenuTrigger asChild>
+                  <div className="mt-4">
+                    <EditorContent 
+                      editor={editor} 
+                      className="min-h-[200px] text-neutral-700 dark:text-neutral-300"
+                    />
+                  </div>
+                </ContextMenuTrigger>
+                <ContextMenuContent>
+                  <ContextMenuItem onClick={handleCopy}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    {t('contextMenu.copy')}
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={handleSelectAll}>
+                    <TextSelect className="w-4 h-4 mr-2" />
+                    {t('contextMenu.selectAll')}
+                  </ContextMenuItem>
+                </ContextMenuContent>
+              </ContextMenu>
+
+              {/* Copy success toast */}
+              {copySuccess && (
+                <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 px-4 py-2 bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 text-sm rounded-full shadow-lg animate-in fade-in slide-in-from-bottom-2">
+                  {t('contextMenu.copy')} ✓
                 </div>
-              </ContextMenuTrigger>
-              <ContextMenuContent>
-                <ContextMenuItem onClick={handleCopy}>
-                  <Copy className="w-4 h-4 mr-2" />
-                  {t('contextMenu.copy')}
-                </ContextMenuItem>
-                <ContextMenuItem onClick={handleSelectAll}>
-                  <TextSelect className="w-4 h-4 mr-2" />
-                  {t('contextMenu.selectAll')}
-                </ContextMenuItem>
-              </ContextMenuContent>
-            </ContextMenu>
-
-            {/* Copy success toast */}
-            {copySuccess && (
-              <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 px-4 py-2 bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 text-sm rounded-full shadow-lg animate-in fade-in slide-in-from-bottom-2">
-                {t('contextMenu.copy')} ✓
-              </div>
+              )}
+            </div>
+
+            {/* Outline - overlays the note on mobile, beside it on desktop */}
+            {isOutlineOpen && editor && (
+              <OutlinePanel
+                editor={editor}
+                onClose={() => setOutlineOpen(false)}
+                className="absolute inset-y-0 right-0 z-20 shadow-lg md:static md:shadow-none"
+              />
             )}
           </div>
         </article>
@@ -3,7 +3,7 @@ import { ReactNodeViewRenderer, NodeViewWrapper, NodeViewProps } from '@tiptap/r
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { createPortal } from 'react-dom'
 import { useTranslation } from 'react-i18next'
-import { Pencil, Trash2, Download, Copy } from 'lucide-react'
+import { Pencil, Trash2, Download, Copy, ImageOff } from 'lucide-react'
 import {
   ContextMenu,
   ContextMenuContent,
@@ -12,6 +12,8 @@ import {
 } from '@/components/ui/ContextMenu'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
 import { ImageEditor } from './ImageEditor'
+import { storeImage } from '@/lib/noteImages'
+import { useResolvedImageSrc } from '@/hooks/useResolvedImageSrc'
 
 // Extend commands interface
 declare module '@tiptap/core' {
@@ -22,6 +24,24 @@ declare module '@tiptap/core' {
   }
 }
 
+// Shown while a stored image loads, or if it isn't available on this device yet
+function ImagePlaceholder({ isMissing, width, height }: { isMissing: boolean; width?: number; height?: number }) {
+  const { t } = useTranslation()
+  return (
+    <div
+      className={`flex flex-col items-center justify-center gap-2 max-w-full rounded-lg bg-neutral-100 dark:bg-neutral-800 text-neutral-400 text-xs ${isMissing ? '' : 'animate-pulse'}`}
+      style={{ width: width ? `${width}px` : '240px', height: height ? `${height}px` : '160px' }}
+    >
+      {isMissing && (
+        <>
+          <ImageOff className="w-6 h-6" />
+          <span>{t('imageEditor.unavailable')}</span>
+        </>
+      )}
+    </div>
+  )
+}
+
 // NodeView component for resizable image
 function ResizableImageComponent({ node, updateAttributes, deleteNode, selected }: NodeViewProps) {
   const { t } = useTranslation()
@@ -38,17 +58,21 @@ function ResizableImageComponent({ node, updateAttributes, deleteNode, selected
     width?: number
     height?: number 
   }
+  const { url: displaySrc, isMissing } = useResolvedImageSrc(src)
 
-  // Handle image edit save
+  // Handle image edit save - the edited image is stored as a new blob
   const handleEditSave = useCallback((newSrc: string) => {
-    updateAttributes({ src: newSrc, width: undefined, height: undefined })
     setShowEditor(false)
+    storeImage(newSrc)
+      .then(ref => updateAttributes({ src: ref, width: undefined, height: undefined }))
+      .catch(error => console.error('[ResizableImage] Failed to store edited image:', error))
   }, [updateAttributes])
 
   // Handle copy image
   const handleCopyImage = useCallback(async () => {
+    if (!displaySrc) return
     try {
-      const response = await fetch(src)
+      const response = await fetch(displaySrc)
       const blob = await response.blob()
       await navigator.clipboard.write([
         new ClipboardItem({ [blob.type]: blob })
@@ -57,17 +81,18 @@ function ResizableImageComponent({ node, updateAttributes, deleteNode, selected
       // Fallback: copy as text (data URL)
       navigator.clipboard.writeText(src)
     }
-  }, [src])
+  }, [src, displaySrc])
 
   // Handle download image
   const handleDownloadImage = useCallback(() => {
+    if (!displaySrc) return
     const link = document.createElement('a')
-    link.href = src
+    link.href = displaySrc
     link.download = alt || 'image'
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
-  }, [src, alt])
+  }, [displaySrc, alt])
 
   // Activate on click/touch - show toolbar immediately
   const handleImageClick = useCallback((e: React.MouseEvent) => {
@@ -170,17 +195,21 @@ function ResizableImageComponent({ node, updateAttributes, deleteNode, selected
               e.stopPropagation()
             }}
           >
-            <img
-              ref={imageRef}
-              src={src}
-              alt={alt || ''}
-              draggable={false}
-              className="max-w-full rounded-lg cursor-pointer"
-              style={{
-                width: width ? `${width}px` : 'auto',
-                height: height ? `${height}px` : 'auto',
-              }}
-            />
+            {displaySrc ? (
+              <img
+                ref={imageRef}
+                src={displaySrc}
+                alt={alt || ''}
+                draggable={false}
+                className="max-w-full rounded-lg cursor-pointer"
+                style={{
+                  width: width ? `${width}px` : 'auto',
+                  height: height ? `${height}px` : 'auto',
+                }}
+              />
+            ) : (
+              <ImagePlaceholder isMissing={isMissing} width={width} height={height} />
+            )}
 
             {/* Controls overlay - only show when active */}
             {isActive && (
@@ -290,9 +319,9 @@ function ResizableImageComponent({ node, updateAttributes, deleteNode, selected
       </ContextMenu>
 
       {/* Image Editor Modal - rendered via Portal to avoid TipTap interference */}
-      {showEditor && createPortal(
+      {showEditor && displaySrc && createPortal(
         <ImageEditor
-          src={src}
+          src={displaySrc}
           onSave={handleEditSave}
           onCancel={() => setShowEditor(false)}
         />,
@@ -369,11 +398,13 @@ function ReadOnlyImageComponent({ node }: NodeViewProps) {
     width?: number
     height?: number 
   }
+  const { url: displaySrc, isMissing } = useResolvedImageSrc(src)
 
   // Handle copy image
   const handleCopyImage = useCallback(async () => {
+    if (!displaySrc) return
     try {
-      const response = await fetch(src)
+      const response = await fetch(displaySrc)
       const blob = await response.blob()
       await navigator.clipboard.write([
         new ClipboardItem({ [blob.type]: blob })
@@ -381,32 +412,37 @@ function ReadOnlyImageComponent({ node }: NodeViewProps) {
     } catch {
       navigator.clipboard.writeText(src)
     }
-  }, [src])
+  }, [src, displaySrc])
 
   // Handle download image
   const handleDownloadImage = useCallback(() => {
+    if (!displaySrc) return
     const link = document.createElement('a')
-    link.href = src
+    link.href = displaySrc
     link.download = alt || 'image'
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
-  }, [src, alt])
+  }, [displaySrc, alt])
 
   return (
     <NodeViewWrapper className="relative inline-block my-2">
       <ContextMenu>
         <ContextMenuTrigger asChild>
-          <img
-            src={src}
-            alt={alt || ''}
-            draggable={false}
-            className="max-w-full rounded-lg"
-            style={{
-              width: width ? `${width}px` : 'auto',
-              height: height ? `${height}px` : 'auto',
-            }}
-          />
+          {displaySrc ? (
+            <img
+              src={displaySrc}
+              alt={alt || ''}
+              draggable={false}
+              className="max-w-full rounded-lg"
+              style={{
+                width: width ? `${width}px` : 'auto',
+                height: height ? `${height}px` : 'auto',
+              }}
+            />
+          ) : (
+            <ImagePlaceholder isMissing={isMissing} width={width} height={height} />
+          )}
         </ContextMenuTrigger>
         <ContextMenuContent>
           <ContextMenuItem onClick={handleCopyImage}>
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/Input'
 import { generateRoomId, sanitizeRoomId, isValidRoomId, checkRoomExists } from '@/lib/collaboration'
 import { driveShare } from '@/lib/driveShare'
 import { shareService } from '@/lib/shareService'
+import { inlineImageRefs } from '@/lib/noteImages'
 import { useNotesStore } from '@/stores/notesStore'
 import { useNetworkStore } from '@/stores/networkStore'
 import { useAuthStore } from '@/stores/authStore'
@@ -116,7 +117,9 @@ export function ShareDialog({
       
       driveShare.setAccessToken(accessToken)
       // Pass existing publicFileId to update instead of creating new
-      const fileId = await driveShare.sharePublic(note, note.publicFileId)
+      // Viewers can't read this account's image blobs, so images are embedded
+      const content = await inlineImageRefs(note.content)
+      const fileId = await driveShare.sharePublic({ ...note, content }, note.publicFileId)
       const link = `${window.location.origin}?view=${fileId}`
       setPublicLink(link)
       setShareSuccess(true)
@@ -145,8 +148,11 @@ export function ShareDialog({
     setShareSuccess(false)
     
     try {
+      // Recipients can't read this account's image blobs, so images are embedded
+      const sharedNote = { ...note, content: await inlineImageRefs(note.content) }
+
       // Check note size locally first
-      const sizeCheck = shareService.checkNoteSize(note)
+      const sizeCheck = shareService.checkNoteSize(sharedNote)
       if (!sizeCheck.valid) {
         setShareError(t('share.fileTooLarge'))
         return
@@ -161,7 +167,7 @@ export function ShareDialog({
 
       // Share via Firestore
       const result = await shareService.shareViaEmail(
-        note,
+        sharedNote,
         shareEmail.trim(),
         user.email,
         user.name
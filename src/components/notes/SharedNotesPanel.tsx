@@ -2,14 +2,8 @@ import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { X, Check, Trash2, Mail, User, Clock, Loader2 } from 'lucide-react'
 import { useNotesStore } from '@/stores/notesStore'
-import { cn } from '@/lib/utils'
+import { cn, getDateFnsLocale } from '@/lib/utils'
 import { formatDistanceToNow } from 'date-fns'
-import type { Locale } from 'date-fns'
-import { vi, enUS, zhCN, zhTW, ja, ko, es, fr, de, it, ptBR, nl, pl, tr, ar, hi, th, id } from 'date-fns/locale'
-
-const localeMap: Record<string, Locale> = {
-  vi, en: enUS, 'zh-CN': zhCN, 'zh-TW': zhTW, ja, ko, es, fr, de, it, 'pt-BR': ptBR, nl, pl, tr, ar, hi, th, id
-}
 
 interface SharedNotesPanelProps {
   open: boolean
@@ -51,8 +45,7 @@ export function SharedNotesPanel({ open, onClose }: SharedNotesPanelProps) {
   }
 
   const formatTime = (timestamp: number) => {
-    const locale = localeMap[i18n.language] || enUS
-    return formatDistanceToNow(timestamp, { addSuffix: true, locale })
+    return formatDistanceToNow(timestamp, { addSuffix: true, locale: getDateFnsLocale(i18n.language) })
   }
 
   if (!open) return null
@@ -0,0 +1,214 @@
+import { Extension, type Editor } from '@tiptap/core'
+import { PluginKey } from '@tiptap/pm/state'
+import Suggestion, { type SuggestionProps } from '@tiptap/suggestion'
+import { forwardRef, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  Pilcrow,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  CheckSquare,
+  Quote,
+  Code2,
+  Minus,
+  Table,
+  Radical,
+  Sigma,
+  Workflow,
+  ImagePlus,
+  Pencil,
+  FileText,
+  PenLine,
+  Wand2,
+  Languages,
+  ListTodo,
+  MessageCircleQuestion,
+  type LucideIcon
+} from 'lucide-react'
+import i18n from '@/locales'
+import { filterCommands, type CommandMatch } from '@/lib/commandSearch'
+import { cn } from '@/lib/utils'
+import * as AI from '@/lib/ai'
+import { MERMAID_LANGUAGE } from '@/lib/diagrams'
+import { renderSuggestionPopup, useSuggestionNavigation, type SuggestionListHandle } from './suggestionPopup'
+
+type SlashCommandGroup = 'blocks' | 'insert' | 'ai'
+
+// Starting point for a new diagram
+const DIAGRAM_TEMPLATE = 'flowchart TD\n  A[Start] --> B{Question?}\n  B -->|Yes| C[Do this]\n  B -->|No| D[Do that]'
+
+export interface SlashCommandItem extends CommandMatch {
+  id: string
+  group: SlashCommandGroup
+  icon: LucideIcon
+  run: (editor: Editor) => void
+}
+
+// Editor features that live outside TipTap (file picker, drawing modal, AI)
+export interface SlashCommandActions {
+  onInsertImage: () => void
+  onInsertDrawing: () => void
+  onAIAction: (action: AI.AIAction, extra?: string) => void
+}
+
+export interface SlashCommandsOptions {
+  getActions: () => SlashCommandActions
+}
+
+// Every command in menu order - labels are read at call time so they follow the app language
+function buildSlashCommands(actions: SlashCommandActions): SlashCommandItem[] {
+  const t = i18n.t.bind(i18n)
+  const ai = (id: AI.AIAction, label: string, icon: LucideIcon, keywords: string[]): SlashCommandItem => ({
+    id: `ai-${id}`, group: 'ai', label, icon, keywords: ['ai', ...keywords], run: () => actions.onAIAction(id)
+  })
+
+  return [
+    { id: 'text', group: 'blocks', label: t('slashCommands.text'), icon: Pilcrow, keywords: ['text', 'paragraph'],
+      run: editor => editor.chain().focus().setParagraph().run() },
+    { id: 'heading1', group: 'blocks', label: t('editor.heading1'), icon: Heading1, keywords: ['h1', 'heading', 'title'],
+      run: editor => editor.chain().focus().setHeading({ level: 1 }).run() },
+    { id: 'heading2', group: 'blocks', label: t('editor.heading2'), icon: Heading2, keywords: ['h2', 'heading', 'subtitle'],
+      run: editor => editor.chain().focus().setHeading({ level: 2 }).run() },
+    { id: 'heading3', group: 'blocks', label: t('editor.heading3'), icon: Heading3, keywords: ['h3', 'heading'],
+      run: editor => editor.chain().focus().setHeading({ level: 3 }).run() },
+    { id: 'bulletList', group: 'blocks', label: t('editor.bulletList'), icon: List, keywords: ['bullet', 'list', 'ul'],
+      run: editor => editor.chain().focus().toggleBulletList().run() },
+    { id: 'orderedList', group: 'blocks', label: t('editor.numberedList'), icon: ListOrdered, keywords: ['numbered', 'ordered', 'list', 'ol'],
+      run: editor => editor.chain().focus().toggleOrderedList().run() },
+    { id: 'taskList', group: 'blocks', label: t('editor.taskList'), icon: CheckSquare, keywords: ['todo', 'task', 'checkbox', 'checklist'],
+      run: editor => editor.chain().focus().toggleTaskList().run() },
+    { id: 'blockquote', group: 'blocks', label: t('editor.blockquote'), icon: Quote, keywords: ['quote', 'blockquote'],
+      run: editor => editor.chain().focus().toggleBlockquote().run() },
+    { id: 'codeBlock', group: 'blocks', label: t('editor.codeBlock'), icon: Code2, keywords: ['code', 'snippet', 'pre'],
+      run: editor => editor.chain().focus().toggleCodeBlock().run() },
+    { id: 'horizontalRule', group: 'blocks', label: t('editor.horizontalRule'), icon: Minus, keywords: ['divider', 'hr', 'line', 'separator'],
+      run: editor => editor.chain().focus().setHorizontalRule().run() },
+
+    { id: 'image', group: 'insert', label: t('editor.insertImage'), icon: ImagePlus, keywords: ['image', 'picture', 'photo', 'upload'],
+      run: () => actions.onInsertImage() },
+    { id: 'drawing', group: 'insert', label: t('drawing.insert'), icon: Pencil, keywords: ['drawing', 'sketch', 'draw'],
+      run: () => actions.onInsertDrawing() },
+    { id: 'table', group: 'insert', label: t('table.title'), icon: Table, keywords: ['table', 'grid', 'rows', 'columns'],
+      run: editor => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run() },
+    { id: 'diagram', group: 'insert', label: t('diagram.title'), icon: Workflow, keywords: ['mermaid', 'diagram', 'flowchart', 'sequence', 'chart'],
+      run: editor => editor.chain().focus().setCodeBlock({ language: MERMAID_LANGUAGE }).insertContent({ type: 'text', text: DIAGRAM_TEMPLATE }).run() },
+    // Empty equations open for editing right away
+    { id: 'inlineMath', group: 'insert', label: t('math.inline'), icon: Radical, keywords: ['math', 'equation', 'latex', 'formula', 'inline'],
+      run: editor => editor.chain().focus().insertContent({ type: 'inlineMath', attrs: { latex: '' } }).run() },
+    { id: 'blockMath', group: 'insert', label: t('math.block'), icon: Sigma, keywords: ['math', 'equation', 'latex', 'formula', 'block'],
+      run: editor => editor.chain().focus().insertContent({ type: 'blockMath', attrs: { latex: '' } }).run() },
+
+    ai('summarize', t('ai.summarize'), FileText, ['summarize', 'summary', 'tldr']),
+    ai('continue', t('ai.continue'), PenLine, ['continue', 'write']),
+    ai('improve', t('ai.improve'), Wand2, ['improve', 'rewrite', 'polish']),
+    ai('extract-tasks', t('ai.extractTasks'), ListTodo, ['tasks', 'todo', 'extract']),
+    ai('ask', t('ai.ask'), MessageCircleQuestion, ['ask', 'chat', 'question']),
+    // One entry per language, found by typing e.g. "/ja" or "/Deutsch"
+    ...AI.LANGUAGES.map((language): SlashCommandItem => ({
+      id: `ai-translate-${language.code}`,
+      group: 'ai',
+      label: `${t('ai.translate')}: ${language.name}`,
+      icon: Languages,
+      keywords: ['translate', language.code],
+      searchOnly: true,
+      run: () => actions.onAIAction('translate', language.name)
+    }))
+  ]
+}
+
+// Command list shown while typing /...
+const SlashCommandList = forwardRef<SuggestionListHandle, SuggestionProps<SlashCommandItem, SlashCommandItem>>(
+  function SlashCommandList({ items, command, query }, ref) {
+    const { t } = useTranslation()
+    const [selectedIndex] = useSuggestionNavigation(items, command, ref)
+    const listRef = useRef<HTMLDivElement>(null)
+
+    // Keep the keyboard selection visible in the scrolling list
+    useEffect(() => {
+      listRef.current?.querySelector(`[data-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' })
+    }, [selectedIndex])
+
+    const groupLabels: Record<SlashCommandGroup, string> = {
+      blocks: t('slashCommands.blocks'),
+      insert: t('slashCommands.insert'),
+      ai: t('ai.title')
+    }
+
+    return (
+      <div
+        ref={listRef}
+        className="w-[250px] max-h-[300px] overflow-y-auto py-1 rounded-xl bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 shadow-lg animate-in fade-in duration-200"
+      >
+        {items.length === 0 ? (
+          <p className="px-3 py-1.5 text-sm text-neutral-400">{t('slashCommands.noMatches')}</p>
+        ) : items.map((item, index) => {
+          // Group headings only make sense in menu order, not when ranked by match
+          const showGroup = !query && (index === 0 || items[index - 1].group !== item.group)
+          const Icon = item.icon
+          return (
+            <div key={item.id}>
+              {showGroup && (
+                <p className="px-3 pt-2 pb-1 text-[11px] font-medium uppercase tracking-wide text-neutral-400">
+                  {groupLabels[item.group]}
+                </p>
+              )}
+              <button
+                data-index={index}
+                onMouseDown={(e) => {
+                  // Keep editor focus
+                  e.preventDefault()
+                  command(item)
+                }}
+                className={cn(
+                  "w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-neutral-700 dark:text-neutral-200",
+                  index === selectedIndex ? "bg-neutral-100 dark:bg-neutral-800" : "hover:bg-neutral-50 dark:hover:bg-neutral-800/60"
+                )}
+              >
+                <Icon className="w-4 h-4 shrink-0 text-neutral-400" />
+                <span className="flex-1 truncate">{item.label}</span>
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+)
+
+/**
+ * "/" menu listing every block type, inserts and AI actions
+ */
+export const SlashCommands = Extension.create<SlashCommandsOptions>({
+  name: 'slashCommands',
+
+  addOptions() {
+    return {
+      getActions: () => ({
+        onInsertImage: () => {},
+        onInsertDrawing: () => {},
+        onAIAction: () => {}
+      })
+    }
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<SlashCommandItem, SlashCommandItem>({
+        editor: this.editor,
+        pluginKey: new PluginKey('slashCommandSuggestion'),
+        char: '/',
+        // Not inside code, where "/" is usually just a path or comment
+        allow: ({ state }) => !state.selection.$from.parent.type.spec.code,
+        items: ({ query }) => filterCommands(buildSlashCommands(this.options.getActions()), query),
+        command: ({ editor, range, props }) => {
+          editor.chain().focus().deleteRange(range).run()
+          props.run(editor)
+        },
+        render: renderSuggestionPopup(SlashCommandList, 260)
+      })
+    ]
+  }
+})
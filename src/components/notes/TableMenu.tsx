@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { Editor } from '@tiptap/react'
+import * as Popover from '@radix-ui/react-popover'
+import {
+  Table,
+  BetweenHorizontalStart,
+  BetweenHorizontalEnd,
+  BetweenVerticalStart,
+  BetweenVerticalEnd,
+  Rows3,
+  Columns3,
+  PanelTop,
+  PanelLeft,
+  TableCellsMerge,
+  TableCellsSplit,
+  Trash2
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/Tooltip'
+
+const GRID_ROWS = 6
+const GRID_COLS = 6
+
+interface TableMenuProps {
+  editor: Editor | null
+  disabled?: boolean
+}
+
+/**
+ * Toolbar menu for tables - a size picker outside a table,
+ * row/column/cell actions inside one
+ */
+export function TableMenu({ editor, disabled }: TableMenuProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [hovered, setHovered] = useState({ rows: 0, cols: 0 })
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setHovered({ rows: 0, cols: 0 })
+    }
+    setOpen(newOpen)
+  }
+
+  const insertTable = (rows: number, cols: number) => {
+    handleOpenChange(false)
+    editor?.chain().focus().insertTable({ rows, cols, withHeaderRow: true }).run()
+  }
+
+  const inTable = !!editor?.isActive('table')
+
+  const actions = editor ? [
+    { icon: BetweenHorizontalStart, label: t('table.addRowBefore'), run: () => editor.chain().focus().addRowBefore().run(), enabled: editor.can().addRowBefore() },
+    { icon: BetweenHorizontalEnd, label: t('table.addRowAfter'), run: () => editor.chain().focus().addRowAfter().run(), enabled: editor.can().addRowAfter() },
+    { icon: Rows3, label: t('table.deleteRow'), run: () => editor.chain().focus().deleteRow().run(), enabled: editor.can().deleteRow() },
+    { icon: BetweenVerticalStart, label: t('table.addColumnBefore'), run: () => editor.chain().focus().addColumnBefore().run(), enabled: editor.can().addColumnBefore() },
+    { icon: BetweenVerticalEnd, label: t('table.addColumnAfter'), run: () => editor.chain().focus().addColumnAfter().run(), enabled: editor.can().addColumnAfter() },
+    { icon: Columns3, label: t('table.deleteColumn'), run: () => editor.chain().focus().deleteColumn().run(), enabled: editor.can().deleteColumn() },
+    { icon: PanelTop, label: t('table.toggleHeaderRow'), run: () => editor.chain().focus().toggleHeaderRow().run(), enabled: editor.can().toggleHeaderRow() },
+    { icon: PanelLeft, label: t('table.toggleHeaderColumn'), run: () => editor.chain().focus().toggleHeaderColumn().run(), enabled: editor.can().toggleHeaderColumn() },
+    { icon: TableCellsMerge, label: t('table.mergeCells'), run: () => editor.chain().focus().mergeCells().run(), enabled: editor.can().mergeCells() },
+    { icon: TableCellsSplit, label: t('table.splitCell'), run: () => editor.chain().focus().splitCell().run(), enabled: editor.can().splitCell() },
+    { icon: Trash2, label: t('table.deleteTable'), run: () => editor.chain().focus().deleteTable().run(), enabled: editor.can().deleteTable() }
+  ] : []
+
+  return (
+    <Popover.Root open={open} onOpenChange={handleOpenChange}>
+      <Popover.Trigger asChild>
+        <span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                disabled={disabled || !editor}
+                onMouseDown={(e) => e.preventDefault()}
+                className={cn(
+                  'p-1.5 rounded-full text-neutral-500 dark:text-neutral-400 hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors touch-manipulation',
+                  disabled && 'opacity-40 cursor-not-allowed',
+                  (open || inTable) && 'bg-neutral-200 dark:bg-neutral-700 text-neutral-800 dark:text-white'
+                )}
+              >
+                <Table className="w-[18px] h-[18px]" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="top">{t('table.title')}</TooltipContent>
+          </Tooltip>
+        </span>
+      </Popover.Trigger>
+
+      <Popover.Portal>
+        <Popover.Content
+          className="z-50 bg-white dark:bg-neutral-800 rounded-xl shadow-lg border border-neutral-200 dark:border-neutral-700 animate-in fade-in zoom-in-95 duration-200"
+          side="top"
+          sideOffset={8}
+          align="start"
+          onOpenAutoFocus={(e) => e.preventDefault()}
+          onCloseAutoFocus={(e) => e.preventDefault()}
+        >
+          {inTable ? (
+            <div className="min-w-[200px] p-1">
+              {actions.map(action => (
+                <button
+                  key={action.label}
+                  disabled={!action.enabled}
+                  onClick={() => {
+                    handleOpenChange(false)
+                    action.run()
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg transition-colors touch-manipulation disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <action.icon className="w-4 h-4" />
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="p-3">
+              <p className="mb-2 text-[13px] text-neutral-500 dark:text-neutral-400">
+                {hovered.rows > 0
+                  ? t('table.size', { rows: hovered.rows, cols: hovered.cols })
+                  : t('table.insert')}
+              </p>
+              <div
+                className="grid gap-1"
+                style={{ gridTemplateColumns: `repeat(${GRID_COLS}, 1fr)` }}
+                onMouseLeave={() => setHovered({ rows: 0, cols: 0 })}
+              >
+                {Array.from({ length: GRID_ROWS * GRID_COLS }, (_, index) => {
+                  const rows = Math.floor(index / GRID_COLS) + 1
+                  const cols = (index % GRID_COLS) + 1
+                  return (
+                    <button
+                      key={index}
+                      aria-label={t('table.size', { rows, cols })}
+                      onMouseEnter={() => setHovered({ rows, cols })}
+                      onClick={() => insertTable(rows, cols)}
+                      className={cn(
+                        'w-5 h-5 rounded-sm border transition-colors',
+                        rows <= hovered.rows && cols <= hovered.cols
+                          ? 'bg-neutral-200 dark:bg-neutral-600 border-neutral-400 dark:border-neutral-500'
+                          : 'border-neutral-200 dark:border-neutral-700'
+                      )}
+                    />
+                  )
+                })}
+              </div>
+            </div>
+          )}
+          <Popover.Arrow className="fill-white dark:fill-neutral-800" />
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  )
+}
@@ -0,0 +1,57 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Hash, X } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { collectTags } from '@/lib/tags'
+import { cn } from '@/lib/utils'
+
+/**
+ * Row of tag chips above the notes list - picking tags narrows the list
+ */
+export function TagFilterBar() {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const selectedTags = useNotesStore(state => state.selectedTags)
+  const toggleTagFilter = useNotesStore(state => state.toggleTagFilter)
+  const clearTagFilter = useNotesStore(state => state.clearTagFilter)
+
+  const tags = useMemo(() => collectTags(notes), [notes])
+
+  // Keep selected tags visible even if no note has them anymore
+  const missingSelected = selectedTags.filter(tag => !tags.some(tc => tc.tag === tag))
+
+  if (tags.length === 0 && selectedTags.length === 0) return null
+
+  return (
+    <div className="flex items-center gap-2 mb-4 overflow-x-auto px-1 pb-1">
+      <Hash className="w-4 h-4 shrink-0 text-neutral-400" />
+      {[...missingSelected.map(tag => ({ tag, count: 0 })), ...tags].map(({ tag, count }) => {
+        const isSelected = selectedTags.includes(tag)
+        return (
+          <button
+            key={tag}
+            onClick={() => toggleTagFilter(tag)}
+            className={cn(
+              "shrink-0 inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-colors touch-manipulation",
+              isSelected
+                ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                : "bg-neutral-200/70 text-neutral-600 hover:bg-neutral-300/70 dark:bg-neutral-800 dark:text-neutral-300 dark:hover:bg-neutral-700"
+            )}
+          >
+            #{tag}
+            {count > 0 && <span className="opacity-60">{count}</span>}
+          </button>
+        )
+      })}
+      {selectedTags.length > 0 && (
+        <button
+          onClick={clearTagFilter}
+          className="shrink-0 inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200 transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+          {t('tags.clearFilter')}
+        </button>
+      )}
+    </div>
+  )
+}
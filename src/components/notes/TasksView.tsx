@@ -0,0 +1,221 @@
+import { useState, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ListTodo, X, Square, CalendarClock, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useNotesStore } from '@/stores/notesStore'
+import { cn, formatDateTime, formatDay } from '@/lib/utils'
+import {
+  extractTasks,
+  setTaskChecked,
+  getOpenTaskGroups,
+  isTaskOverdue,
+  type NoteTask,
+  type TaskSortMode
+} from '@/lib/tasks'
+import { useEdgeSwipeBack, EdgeSwipeIndicator } from '@/hooks/useEdgeSwipeBack'
+import { useHistoryBack } from '@/hooks/useHistoryBack'
+
+interface TasksViewProps {
+  open: boolean
+  onClose: () => void
+}
+
+export function TasksView({ open, onClose }: TasksViewProps) {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const updateNote = useNotesStore(state => state.updateNote)
+  const setSelectedNote = useNotesStore(state => state.setSelectedNote)
+  const setModalOpen = useNotesStore(state => state.setModalOpen)
+
+  const [sortMode, setSortMode] = useState<TaskSortMode>('due')
+  // Last ticked task, for undo
+  const [lastCompleted, setLastCompleted] = useState<NoteTask | null>(null)
+
+  const {
+    handlers: edgeSwipeHandlers,
+    swipeStyle: edgeSwipeStyle,
+    swipeState: edgeSwipeState,
+    progress: edgeSwipeProgress
+  } = useEdgeSwipeBack({
+    onSwipeBack: onClose,
+    edgeWidth: 25,
+    threshold: 100,
+    enabled: open
+  })
+
+  useHistoryBack({
+    isOpen: open,
+    onBack: onClose,
+    stateKey: 'tasks-view'
+  })
+
+  const groups = useMemo(
+    () => (open ? getOpenTaskGroups(notes, sortMode) : []),
+    [notes, sortMode, open]
+  )
+  const taskCount = groups.reduce((count, group) => count + group.tasks.length, 0)
+
+  const setChecked = (task: NoteTask, checked: boolean) => {
+    const note = useNotesStore.getState().notes.find(n => n.id === task.noteId)
+    if (!note) return
+
+    // The note may have changed since the list was built - find the task by text if it moved
+    const current = extractTasks(note.content, note.id)
+    const target = current[task.index]?.text === task.text
+      ? current[task.index]
+      : current.find(item => item.text === task.text && item.checked !== checked)
+    if (!target) return
+
+    updateNote(note.id, { content: setTaskChecked(note.content, target.index, checked) })
+    setLastCompleted(checked ? target : null)
+  }
+
+  const handleOpenNote = (noteId: string) => {
+    setSelectedNote(noteId)
+    setModalOpen(true)
+    handleClose()
+  }
+
+  const handleClose = () => {
+    setLastCompleted(null)
+    onClose()
+  }
+
+  if (!open) return null
+
+  return (
+    <>
+      {/* Backdrop to cover home page content */}
+      <div className="fixed inset-0 z-[89] bg-neutral-50 dark:bg-neutral-950" />
+
+      <div
+        className="fixed inset-0 z-[90] overflow-y-auto bg-neutral-50 dark:bg-neutral-950 status-bar-bg"
+        style={edgeSwipeState.isDragging ? edgeSwipeStyle : undefined}
+        {...edgeSwipeHandlers}
+      >
+        <EdgeSwipeIndicator
+          progress={edgeSwipeProgress}
+          isActive={edgeSwipeState.isDragging && edgeSwipeState.startedFromEdge}
+        />
+
+        {/* Header */}
+        <div className="px-3 sm:px-4 pt-3 safe-top safe-x">
+          <div className="max-w-3xl mx-auto bg-white/80 dark:bg-neutral-900/80 backdrop-blur-lg border border-neutral-200 dark:border-neutral-800 rounded-[16px] px-3 sm:px-4 py-2.5 sm:py-3">
+            <div className="flex items-center justify-between gap-2 sm:gap-4">
+              <div className="flex items-center gap-2 sm:gap-3">
+                <Button variant="ghost" size="icon" onClick={handleClose} className="rounded-full flex-shrink-0">
+                  <X className="w-5 h-5" />
+                </Button>
+                <div className="flex items-center gap-2">
+                  <ListTodo className="w-5 h-5 text-neutral-500 hidden sm:block" />
+                  <h1 className="text-base sm:text-lg font-semibold">{t('tasks.title')}</h1>
+                  {taskCount > 0 && (
+                    <span className="text-sm text-neutral-500">({taskCount})</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center rounded-lg border border-neutral-200 dark:border-neutral-800 p-0.5 text-xs sm:text-sm">
+                {(['due', 'note'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSortMode(mode)}
+                    className={cn(
+                      'px-2 sm:px-3 py-1 rounded-md transition-colors',
+                      sortMode === mode
+                        ? 'bg-neutral-900 text-white dark:bg-white dark:text-neutral-900'
+                        : 'text-neutral-500 hover:text-neutral-900 dark:hover:text-white'
+                    )}
+                  >
+                    {t(`tasks.sort.${mode}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="px-3 sm:px-4 py-3 sm:py-4 safe-x safe-bottom">
+          <div className="max-w-3xl mx-auto space-y-3">
+            {lastCompleted && (
+              <div className="flex items-center justify-between gap-2 px-4 py-2 rounded-xl bg-neutral-900 text-white dark:bg-white dark:text-neutral-900 text-sm">
+                <span className="truncate">{t('tasks.completed', { task: lastCompleted.text })}</span>
+                <button
+                  onClick={() => setChecked(lastCompleted, false)}
+                  className="flex items-center gap-1 font-medium flex-shrink-0"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  {t('tasks.undo')}
+                </button>
+              </div>
+            )}
+
+            {groups.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-[60vh] text-neutral-500">
+                <ListTodo className="w-12 sm:w-16 h-12 sm:h-16 mb-4 opacity-20" />
+                <p className="text-base sm:text-lg font-medium">{t('tasks.empty')}</p>
+                <p className="text-sm text-center px-4">{t('tasks.emptyDescription')}</p>
+              </div>
+            ) : (
+              groups.map(({ note, tasks }) => (
+                <section
+                  key={note.id}
+                  className="rounded-[16px] border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-3 sm:p-4"
+                >
+                  <button
+                    onClick={() => handleOpenNote(note.id)}
+                    className="font-semibold text-neutral-900 dark:text-white hover:underline text-left line-clamp-1"
+                  >
+                    {note.title || t('notes.newNote')}
+                  </button>
+                  <ul className="mt-2 space-y-1">
+                    {tasks.map(task => (
+                      <TaskRow
+                        key={task.index}
+                        task={task}
+                        onComplete={() => setChecked(task, true)}
+                      />
+                    ))}
+                  </ul>
+                </section>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
+
+function TaskRow({ task, onComplete }: { task: NoteTask; onComplete: () => void }) {
+  const { t } = useTranslation()
+  const isOverdue = isTaskOverdue(task)
+
+  return (
+    <li className="flex items-start gap-2">
+      <button
+        onClick={onComplete}
+        className="mt-0.5 flex-shrink-0 text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition-colors"
+        aria-label={t('tasks.markDone')}
+      >
+        <Square className="w-5 h-5" />
+      </button>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-neutral-800 dark:text-neutral-200 break-words">
+          {task.text || ' '}
+        </p>
+        {task.due !== undefined && (
+          <p className={cn(
+            'mt-0.5 flex items-center gap-1 text-xs',
+            isOverdue ? 'text-red-600 dark:text-red-400' : 'text-neutral-400 dark:text-neutral-500'
+          )}>
+            <CalendarClock className="w-3 h-3" />
+            {task.hasDueTime ? formatDateTime(task.due) : formatDay(task.due)}
+            {isOverdue && ` · ${t('tasks.overdue')}`}
+          </p>
+        )}
+      </div>
+    </li>
+  )
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, ArrowLeft, LayoutTemplate, Trash2 } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { useTemplatesStore } from '@/stores/templatesStore'
+import { applyTemplate, getTemplateFields, BUILT_IN_VARIABLES } from '@/lib/templates'
+import { cn, getPlainText } from '@/lib/utils'
+import type { NoteTemplate } from '@/types'
+
+interface TemplatesPanelProps {
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * "New from template" - pick a template, fill in its custom fields, create the note
+ */
+export function TemplatesPanel({ open, onClose }: TemplatesPanelProps) {
+  const { t } = useTranslation()
+  const templates = useTemplatesStore(state => state.templates)
+  const deleteTemplate = useTemplatesStore(state => state.deleteTemplate)
+  const addNote = useNotesStore(state => state.addNote)
+  const [selected, setSelected] = useState<NoteTemplate | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  const fields = selected ? getTemplateFields(selected) : []
+  const sortedTemplates = [...templates].sort((a, b) => a.name.localeCompare(b.name))
+
+  const handleClose = () => {
+    setSelected(null)
+    setValues({})
+    onClose()
+  }
+
+  const createNote = (template: NoteTemplate, fieldValues: Record<string, string>) => {
+    addNote(applyTemplate(template, fieldValues))
+    handleClose()
+  }
+
+  const handleSelect = (template: NoteTemplate) => {
+    if (getTemplateFields(template).length === 0) {
+      createNote(template, {})
+      return
+    }
+    setSelected(template)
+    setValues({})
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 safe-x">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md max-h-[85vh] overflow-hidden bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200 dark:border-neutral-700">
+          <div className="flex items-center gap-2 min-w-0">
+            {selected ? (
+              <button
+                onClick={() => setSelected(null)}
+                className="p-1.5 -ml-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            ) : (
+              <LayoutTemplate className="w-5 h-5 text-neutral-500" />
+            )}
+            <h2 className="text-base font-semibold text-neutral-900 dark:text-white truncate">
+              {selected ? selected.name : t('templates.newFromTemplate')}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1.5 rounded-full text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        {selected ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              createNote(selected, values)
+            }}
+            className="p-4 space-y-3 overflow-y-auto"
+          >
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">{t('templates.fillFields')}</p>
+            {fields.map((field, index) => (
+              <label key={field} className="block">
+                <span className="block mb-1 text-sm font-medium text-neutral-700 dark:text-neutral-300">{field}</span>
+                <input
+                  type="text"
+                  value={values[field] ?? ''}
+                  onChange={(e) => setValues(current => ({ ...current, [field]: e.target.value }))}
+                  autoFocus={index === 0}
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                />
+              </label>
+            ))}
+            <div className="flex justify-end pt-1">
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-neutral-900 text-white dark:bg-white dark:text-neutral-900 transition-colors"
+              >
+                {t('templates.create')}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="overflow-y-auto">
+            {sortedTemplates.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-10 px-6 text-center">
+                <LayoutTemplate className="w-12 h-12 text-neutral-300 dark:text-neutral-600 mb-3" />
+                <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">{t('templates.empty')}</p>
+                <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">{t('templates.emptyHint')}</p>
+              </div>
+            ) : (
+              <ul className="p-2 space-y-1">
+                {sortedTemplates.map(template => (
+                  <li key={template.id} className="group flex items-center gap-1">
+                    <button
+                      onClick={() => handleSelect(template)}
+                      className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                      <span className="block text-sm font-medium text-neutral-900 dark:text-white truncate">
+                        {template.name}
+                      </span>
+                      <span className="block text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                        {getPlainText(template.content).slice(0, 100)}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => deleteTemplate(template.id)}
+                      title={t('templates.delete')}
+                      className={cn(
+                        'p-2 rounded-full text-neutral-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors',
+                        'sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100'
+                      )}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Placeholder reference */}
+            <div className="px-4 py-3 border-t border-neutral-200 dark:border-neutral-700 text-xs text-neutral-500 dark:text-neutral-400">
+              <div className="flex flex-wrap gap-1 mb-1">
+                {BUILT_IN_VARIABLES.map(variable => (
+                  <code key={variable} className="px-1.5 py-0.5 rounded bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300">
+                    {`{{${variable}}}`}
+                  </code>
+                ))}
+              </div>
+              {t('templates.customFieldsHint')}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,16 @@
 import { useState, useRef, useCallback, useMemo, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
 import { AnimatePresence } from 'framer-motion'
+import { BellRing, CalendarDays } from 'lucide-react'
 import { useWindowVirtualizer } from '@tanstack/react-virtual'
 import { EmptyState } from './EmptyState'
 import { NotesListSkeleton } from '@/components/ui/Skeleton'
-import { NoteCard } from './NoteCard'
+import { DraggableNoteCard } from './NoteCard'
 import { useNotesStore } from '@/stores/notesStore'
+import { useNotebooksStore, getNotebookSubtreeIds } from '@/stores/notebooksStore'
+import { hasActiveReminder } from '@/lib/reminders'
+import { isDailyNote, type NoteKindFilter } from '@/lib/dailyNotes'
+import { cn } from '@/lib/utils'
 import type { Note } from '@/types'
 
 // Constants for virtualization
@@ -15,13 +21,65 @@ const OVERSCAN = 5 // Number of items to render outside visible area
 // Grid item types for virtualization
 type GridItem = { type: 'note'; note: Note }
 
+const KIND_FILTERS: NoteKindFilter[] = ['all', 'note', 'daily']
+
+const chipClass = (active: boolean) => cn(
+  "inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors touch-manipulation",
+  active
+    ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+    : "bg-neutral-200/70 text-neutral-600 hover:bg-neutral-300/70 dark:bg-neutral-800 dark:text-neutral-300 dark:hover:bg-neutral-700"
+)
+
+// "Upcoming" toggle - shown once any note has a reminder
+// Notes/Journal chips - shown once any daily note exists
+function ListFilters() {
+  const { t } = useTranslation()
+  const showUpcoming = useNotesStore(state => state.showUpcoming)
+  const setShowUpcoming = useNotesStore(state => state.setShowUpcoming)
+  const noteKindFilter = useNotesStore(state => state.noteKindFilter)
+  const setNoteKindFilter = useNotesStore(state => state.setNoteKindFilter)
+  const reminderCount = useNotesStore(state => state.notes.filter(hasActiveReminder).length)
+  const hasDailyNotes = useNotesStore(state => state.notes.some(n => !n.isDeleted && isDailyNote(n)))
+
+  const showUpcomingToggle = reminderCount > 0 || showUpcoming
+  const showKindChips = hasDailyNotes || noteKindFilter !== 'all'
+  if (!showUpcomingToggle && !showKindChips) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 px-1">
+      {showKindChips && KIND_FILTERS.map(filter => (
+        <button
+          key={filter}
+          onClick={() => setNoteKindFilter(filter)}
+          className={chipClass(noteKindFilter === filter)}
+        >
+          {filter === 'daily' && <CalendarDays className="w-3.5 h-3.5" />}
+          {t(`journal.filter.${filter}`)}
+        </button>
+      ))}
+      {showUpcomingToggle && (
+        <button
+          onClick={() => setShowUpcoming(!showUpcoming)}
+          className={chipClass(showUpcoming)}
+        >
+          <BellRing className="w-3.5 h-3.5" />
+          {t('reminders.upcoming')}
+          {reminderCount > 0 && <span className="opacity-60">{reminderCount}</span>}
+        </button>
+      )}
+    </div>
+  )
+}
+
 export function VirtualizedNotesList() {
   const listRef = useRef<HTMLDivElement>(null)
   const { 
     notes,
     getSearchResults, 
     searchQuery,
-    isModalOpen
+    isModalOpen,
+    showUpcoming,
+    noteKindFilter
   } = useNotesStore()
   
   // Get sync states
@@ -30,6 +88,10 @@ export function VirtualizedNotesList() {
   const isNewUser = useNotesStore(state => state.isNewUser)
   const isCheckingDriveData = useNotesStore(state => state.isCheckingDriveData)
   const driveHasData = useNotesStore(state => state.driveHasData)
+
+  // Notebook filter - includes notes in nested notebooks
+  const notebooks = useNotebooksStore(state => state.notebooks)
+  const selectedNotebookId = useNotebooksStore(state => state.selectedNotebookId)
   
   const [columnCount, setColumnCount] = useState(3)
   
@@ -62,7 +124,10 @@ export function VirtualizedNotesList() {
   }, [isModalOpen])
 
   const searchResults = getSearchResults()
-  const allNotes = searchResults.map(r => r.note)
+  const notebookIds = selectedNotebookId ? getNotebookSubtreeIds(notebooks, selectedNotebookId) : null
+  const allNotes = searchResults
+    .map(r => r.note)
+    .filter(note => !notebookIds || (note.notebookId && notebookIds.has(note.notebookId)))
   const currentQuery = searchResults[0]?.query || ''
 
   // Build flat list of grid items for virtualization
@@ -130,51 +195,77 @@ export function VirtualizedNotesList() {
     if (activeNotes.length === 0) {
       return <EmptyState type="no-notes" />
     }
+    if (showUpcoming && !searchQuery.trim()) {
+      return (
+        <>
+          <ListFilters />
+          <EmptyState type="no-reminders" />
+        </>
+      )
+    }
+    if (noteKindFilter === 'daily' && !searchQuery.trim()) {
+      return (
+        <>
+          <ListFilters />
+          <EmptyState type="no-daily-notes" />
+        </>
+      )
+    }
+    if (notebookIds && !searchQuery.trim()) {
+      return <EmptyState type="empty-notebook" />
+    }
     return <EmptyState type="no-results" searchQuery={searchQuery} />
   }
 
   // Simple virtualized grid
   return (
-    <div 
-      ref={listRef} 
-      className="relative"
-    >
-      <div
-        style={{
-          height: `${virtualizer.getTotalSize()}px`,
-          width: '100%',
-          position: 'relative',
-        }}
+    <>
+      <ListFilters />
+      <div 
+        ref={listRef} 
+        className="relative"
       >
-        {virtualizer.getVirtualItems().map(virtualRow => {
-          const row = rows[virtualRow.index]
-          return (
-            <div
-              key={virtualRow.key}
-              style={{
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                width: '100%',
-                height: `${virtualRow.size}px`,
-                transform: `translateY(${virtualRow.start - virtualizer.options.scrollMargin}px)`,
-              }}
-            >
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 py-1 px-1">
-                <AnimatePresence mode="popLayout">
-                  {row.map(item => {
-                    if (item.type === 'note') {
-                      return <NoteCard key={item.note.id} note={item.note} searchQuery={currentQuery} />
-                    }
-                    return null
-                  })}
-                </AnimatePresence>
+        <div
+          style={{
+            height: `${virtualizer.getTotalSize()}px`,
+            width: '100%',
+            position: 'relative',
+          }}
+        >
+          {virtualizer.getVirtualItems().map(virtualRow => {
+            const row = rows[virtualRow.index]
+            return (
+              <div
+                key={virtualRow.key}
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: '100%',
+                  height: `${virtualRow.size}px`,
+                  transform: `translateY(${virtualRow.start - virtualizer.options.scrollMargin}px)`,
+                }}
+              >
+                {/* Columns follow the measured width (the notebooks sidebar narrows the list) */}
+                <div
+                  className="grid gap-4 py-1 px-1"
+                  style={{ gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))` }}
+                >
+                  <AnimatePresence mode="popLayout">
+                    {row.map(item => {
+                      if (item.type === 'note') {
+                        return <DraggableNoteCard key={item.note.id} note={item.note} searchQuery={currentQuery} />
+                      }
+                      return null
+                    })}
+                  </AnimatePresence>
+                </div>
               </div>
-            </div>
-          )
-        })}
+            )
+          })}
+        </div>
       </div>
-    </div>
+    </>
   )
 }
 
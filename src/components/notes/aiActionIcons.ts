@@ -0,0 +1,38 @@
+import {
+  Sparkles,
+  Wand2,
+  PenLine,
+  Lightbulb,
+  ListChecks,
+  Languages,
+  MessageSquare,
+  BookOpen,
+  Code,
+  Mail,
+  Smile,
+  Zap,
+  type LucideIcon
+} from 'lucide-react'
+
+// Icons a custom AI action can show - the keys are what gets stored and synced
+export const AI_ACTION_ICONS: Record<string, LucideIcon> = {
+  sparkles: Sparkles,
+  wand: Wand2,
+  pen: PenLine,
+  lightbulb: Lightbulb,
+  list: ListChecks,
+  languages: Languages,
+  message: MessageSquare,
+  book: BookOpen,
+  code: Code,
+  mail: Mail,
+  smile: Smile,
+  zap: Zap
+}
+
+export const DEFAULT_AI_ACTION_ICON = 'sparkles'
+
+// Unknown keys - e.g. synced from a newer version - fall back to the default
+export function getAIActionIcon(name: string): LucideIcon {
+  return AI_ACTION_ICONS[name] ?? Sparkles
+}
@@ -0,0 +1,97 @@
+import { useImperativeHandle, useState, type ComponentType, type Ref } from 'react'
+import { ReactRenderer } from '@tiptap/react'
+import type { SuggestionOptions, SuggestionProps, SuggestionKeyDownProps } from '@tiptap/suggestion'
+
+// Popup list components expose their keyboard handling to the suggestion plugin
+export interface SuggestionListHandle {
+  onKeyDown: (props: SuggestionKeyDownProps) => boolean
+}
+
+type SuggestionListProps<I> = SuggestionProps<I, I>
+
+/**
+ * Arrow/Enter/Tab navigation for a suggestion list
+ * Selection resets whenever the item list changes
+ */
+export function useSuggestionNavigation<I>(
+  items: I[],
+  command: (item: I) => void,
+  ref: Ref<SuggestionListHandle>
+): [number, (index: number) => void] {
+  const [selection, setSelection] = useState({ items, index: 0 })
+  const selectedIndex = selection.items === items ? selection.index : 0
+  const setSelectedIndex = (index: number) => setSelection({ items, index })
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: ({ event }) => {
+      if (items.length === 0) return false
+      if (event.key === 'ArrowDown') {
+        setSelectedIndex((selectedIndex + 1) % items.length)
+        return true
+      }
+      if (event.key === 'ArrowUp') {
+        setSelectedIndex((selectedIndex + items.length - 1) % items.length)
+        return true
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        command(items[selectedIndex])
+        return true
+      }
+      return false
+    }
+  }))
+
+  return [selectedIndex, setSelectedIndex]
+}
+
+function positionPopup(popup: HTMLElement, width: number, clientRect?: (() => DOMRect | null) | null) {
+  const rect = clientRect?.()
+  if (!rect) return
+  popup.style.left = `${Math.min(rect.left, window.innerWidth - width)}px`
+  popup.style.top = `${rect.bottom + 6}px`
+}
+
+/**
+ * Render a suggestion list in a floating popup below the cursor
+ * `width` keeps the popup inside the viewport near the right edge
+ */
+export function renderSuggestionPopup<I>(
+  List: ComponentType<SuggestionListProps<I> & { ref?: Ref<SuggestionListHandle> }>,
+  width: number
+): SuggestionOptions<I, I>['render'] {
+  return () => {
+    let component: ReactRenderer<SuggestionListHandle, SuggestionListProps<I>> | null = null
+    let popup: HTMLDivElement | null = null
+
+    const close = () => {
+      popup?.remove()
+      component?.destroy()
+      popup = null
+      component = null
+    }
+
+    return {
+      onStart: (props) => {
+        component = new ReactRenderer(List, { props, editor: props.editor })
+        popup = document.createElement('div')
+        popup.className = 'fixed z-[200]'
+        popup.appendChild(component.element)
+        document.body.appendChild(popup)
+        positionPopup(popup, width, props.clientRect)
+      },
+      onUpdate: (props) => {
+        component?.updateProps(props)
+        if (popup) positionPopup(popup, width, props.clientRect)
+      },
+      onKeyDown: (props) => {
+        if (props.event.key === 'Escape') {
+          // Dismiss until the trigger is typed again
+          close()
+          return true
+        }
+        return component?.ref?.onKeyDown(props) ?? false
+      },
+      onExit: close
+    }
+  }
+}
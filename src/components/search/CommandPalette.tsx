@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Search, FileText, CalendarDays, type LucideIcon } from 'lucide-react'
+import { useNotesStore } from '@/stores/notesStore'
+import { useShortcutBindings } from '@/stores/shortcutsStore'
+import { searchNotes } from '@/lib/search'
+import { filterCommands, type CommandMatch } from '@/lib/commandSearch'
+import { formatCombo, type ShortcutAction } from '@/lib/shortcuts'
+import { isDailyNote } from '@/lib/dailyNotes'
+import { cn, getPlainText } from '@/lib/utils'
+import type { Note } from '@/types'
+
+const MAX_COMMANDS = 6
+const MAX_NOTES = 8
+const RECENT_NOTES = 5
+
+export interface PaletteCommand extends CommandMatch {
+  id: string
+  icon: LucideIcon
+  shortcut?: ShortcutAction   // Shown next to the label
+  run: () => void
+}
+
+type PaletteItem =
+  | { type: 'command'; command: PaletteCommand }
+  | { type: 'note'; note: Note }
+
+interface CommandPaletteProps {
+  open: boolean
+  onClose: () => void
+  commands: PaletteCommand[]
+}
+
+/**
+ * Ctrl/Cmd+K palette - jump to a note or run an app command
+ */
+export function CommandPalette({ open, onClose, commands }: CommandPaletteProps) {
+  const { t } = useTranslation()
+  const notes = useNotesStore(state => state.notes)
+  const setSelectedNote = useNotesStore(state => state.setSelectedNote)
+  const setModalOpen = useNotesStore(state => state.setModalOpen)
+  const bindings = useShortcutBindings()
+  const [query, setQuery] = useState('')
+  const [selection, setSelection] = useState({ query: '', index: 0 })
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const items = useMemo((): PaletteItem[] => {
+    if (!open) return []
+    const activeNotes = notes.filter(note => !note.isDeleted)
+    const matchedNotes = query.trim()
+      ? searchNotes(activeNotes, query).slice(0, MAX_NOTES).map(result => result.note)
+      : [...activeNotes].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, RECENT_NOTES)
+    const matchedCommands = query.trim()
+      ? filterCommands(commands, query).slice(0, MAX_COMMANDS)
+      : commands
+
+    return [
+      ...matchedCommands.map(command => ({ type: 'command' as const, command })),
+      ...matchedNotes.map(note => ({ type: 'note' as const, note }))
+    ]
+  }, [open, notes, commands, query])
+
+  // Selection resets whenever the query changes
+  const selectedIndex = selection.query === query ? Math.min(selection.index, items.length - 1) : 0
+  const setSelectedIndex = (index: number) => setSelection({ query, index })
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [selectedIndex])
+
+  const handleClose = () => {
+    setQuery('')
+    setSelection({ query: '', index: 0 })
+    onClose()
+  }
+
+  const runItem = (item: PaletteItem) => {
+    handleClose()
+    if (item.type === 'command') {
+      item.command.run()
+    } else {
+      setSelectedNote(item.note.id)
+      setModalOpen(true)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      // Don't let the note modal underneath close too
+      e.stopPropagation()
+      handleClose()
+    } else if (e.key === 'ArrowDown' && items.length > 0) {
+      e.preventDefault()
+      setSelectedIndex((selectedIndex + 1) % items.length)
+    } else if (e.key === 'ArrowUp' && items.length > 0) {
+      e.preventDefault()
+      setSelectedIndex((selectedIndex + items.length - 1) % items.length)
+    } else if (e.key === 'Enter' && items[selectedIndex]) {
+      e.preventDefault()
+      runItem(items[selectedIndex])
+    }
+  }
+
+  if (!open) return null
+
+  const firstNoteIndex = items.findIndex(item => item.type === 'note')
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-start justify-center p-4 pt-[12vh] safe-x">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={handleClose}
+      />
+
+      {/* Palette */}
+      <div
+        className="relative w-full max-w-lg max-h-[70vh] overflow-hidden bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl animate-in fade-in-0 zoom-in-95 border border-neutral-200 dark:border-neutral-700 flex flex-col"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-neutral-200 dark:border-neutral-700">
+          <Search className="w-4 h-4 shrink-0 text-neutral-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('commandPalette.placeholder')}
+            autoFocus
+            className="flex-1 py-3 bg-transparent text-sm text-neutral-900 dark:text-white placeholder:text-neutral-400 focus:outline-none"
+          />
+        </div>
+
+        <div ref={listRef} className="overflow-y-auto py-1">
+          {items.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-neutral-400">{t('commandPalette.noResults')}</p>
+          ) : items.map((item, index) => {
+            const isCommandHeading = index === 0 && item.type === 'command'
+            const isNoteHeading = index === firstNoteIndex
+            const combo = item.type === 'command' && item.command.shortcut ? bindings[item.command.shortcut] : null
+            const Icon = item.type === 'command' ? item.command.icon : isDailyNote(item.note) ? CalendarDays : FileText
+
+            return (
+              <div key={item.type === 'command' ? `command-${item.command.id}` : `note-${item.note.id}`}>
+                {(isCommandHeading || isNoteHeading) && (
+                  <p className="px-4 pt-2 pb-1 text-[11px] font-medium uppercase tracking-wide text-neutral-400">
+                    {isCommandHeading
+                      ? t('commandPalette.commands')
+                      : query.trim() ? t('commandPalette.notes') : t('commandPalette.recentNotes')}
+                  </p>
+                )}
+                <button
+                  data-index={index}
+                  onClick={() => runItem(item)}
+                  onMouseMove={() => index !== selectedIndex && setSelectedIndex(index)}
+                  className={cn(
+                    'w-full flex items-center gap-3 px-4 py-2 text-sm text-left text-neutral-700 dark:text-neutral-200',
+                    index === selectedIndex && 'bg-neutral-100 dark:bg-neutral-800'
+                  )}
+                >
+                  <Icon className="w-4 h-4 shrink-0 text-neutral-400" />
+                  {item.type === 'command' ? (
+                    <span className="flex-1 truncate">{item.command.label}</span>
+                  ) : (
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate">{item.note.title || t('notes.newNote')}</span>
+                      <span className="block text-xs text-neutral-400 truncate">
+                        {getPlainText(item.note.content).slice(0, 80)}
+                      </span>
+                    </span>
+                  )}
+                  {combo && (
+                    <kbd className="shrink-0 px-1.5 py-0.5 rounded bg-neutral-100 dark:bg-neutral-800 text-[11px] font-sans text-neutral-500">
+                      {formatCombo(combo)}
+                    </kbd>
+                  )}
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,23 +7,57 @@ import {
   X, 
   Loader2,
   ExternalLink,
-  StickyNote
+  StickyNote,
+  Minus,
+  Sparkles,
+  Square,
+  ArrowUp,
+  WifiOff
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useAuthStore } from '@/stores/authStore'
 import { useNotesStore } from '@/stores/notesStore'
+import { useAIProviderStore, useAIReachable } from '@/stores/aiProviderStore'
+import { useUIStore } from '@/stores/uiStore'
+import * as AI from '@/lib/ai'
+import { InsufficientCreditsError } from '@/lib/ai'
+import { retrieveExcerpts } from '@/lib/askNotes'
+import { parseCitations, type NotePassage } from '@/lib/noteRetrieval'
 import { searchDocuments, getMimeTypeLabel, type DriveSearchResult } from '@/lib/driveSearch'
-import { searchNotes, type SearchResult } from '@/lib/search'
+import { searchNotes, parseSearchQuery, type SearchResult, type SearchTerm } from '@/lib/search'
+import { Highlight } from '@/components/ui/Highlight'
+import type { TFunction } from 'i18next'
 
 interface GlobalSearchProps {
   open: boolean
   onClose: () => void
   onSelectNote?: (noteId: string) => void
+  initialTab?: SearchTab
 }
 
-type SearchTab = 'notes' | 'drive'
+export type SearchTab = 'notes' | 'drive' | 'ask'
 
-export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps) {
+type AskStatus = 'idle' | 'retrieving' | 'answering' | 'done'
+
+// Chip label for a parsed search term
+function getTermLabel(term: SearchTerm, t: TFunction): string {
+  switch (term.type) {
+    case 'phrase': return `"${term.value}"`
+    case 'title': return t('searchQuery.title', { value: term.value })
+    case 'tag': return `#${term.value}`
+    case 'is': return term.value === 'pinned' ? t('searchQuery.pinned') : t('searchQuery.shared')
+    case 'has':
+      if (term.value === 'image') return t('searchQuery.hasImage')
+      if (term.value === 'task') return t('searchQuery.hasTask')
+      return t('searchQuery.hasDrawing')
+    case 'before': return t('searchQuery.before', { value: term.value })
+    case 'after': return t('searchQuery.after', { value: term.value })
+    case 'color': return t('searchQuery.color', { value: term.value })
+    default: return term.value
+  }
+}
+
+export function GlobalSearch({ open, onClose, onSelectNote, initialTab = 'notes' }: GlobalSearchProps) {
   const { t } = useTranslation()
   const user = useAuthStore(state => state.user)
   const notes = useNotesStore(state => state.notes)
@@ -31,12 +65,33 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
   const setModalOpen = useNotesStore(state => state.setModalOpen)
   
   const [query, setQuery] = useState('')
-  const [activeTab, setActiveTab] = useState<SearchTab>('notes')
+  const [activeTab, setActiveTab] = useState<SearchTab>(initialTab)
   const [noteResults, setNoteResults] = useState<SearchResult[]>([])
   const [driveResults, setDriveResults] = useState<DriveSearchResult[]>([])
   const [isSearchingDrive, setIsSearchingDrive] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
 
+  // Ask your notes
+  const isOnline = useAIReachable()
+  // Matching by meaning needs embeddings from the AI provider
+  const canEmbed = useAIProviderStore(state => state.provider === 'gnote' || state.embeddingModel.trim() !== '')
+  const askNotesEmbeddings = useUIStore(state => state.askNotesEmbeddings)
+  const setAskNotesEmbeddings = useUIStore(state => state.setAskNotesEmbeddings)
+  const [answer, setAnswer] = useState('')
+  const [sources, setSources] = useState<NotePassage[]>([])
+  const [askStatus, setAskStatus] = useState<AskStatus>('idle')
+  const [askError, setAskError] = useState<string | null>(null)
+  const askAbortRef = useRef<AbortController | null>(null)
+  const isAsking = askStatus === 'retrieving' || askStatus === 'answering'
+
+  // Operators, phrases and exclusions shown as chips (plain words stay in the input)
+  const chips = parseSearchQuery(query).filter(term => term.type !== 'text' || term.negated)
+
+  const removeTerm = (term: SearchTerm) => {
+    setQuery(query.replace(term.raw, '').replace(/\s+/g, ' ').trim())
+    inputRef.current?.focus()
+  }
+
   // Focus input when opened
   useEffect(() => {
     if (open && inputRef.current) {
@@ -44,6 +99,11 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
     }
   }, [open])
 
+  // Stop answering when closed
+  useEffect(() => {
+    if (!open) askAbortRef.current?.abort()
+  }, [open])
+
   // Search notes locally
   useEffect(() => {
     if (query.trim()) {
@@ -86,6 +146,41 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
     onClose()
   }
 
+  // Answer from the best matching passages of all notes, found on this device
+  const handleAsk = async () => {
+    const question = query.trim()
+    if (!question || isAsking || !isOnline) return
+
+    const controller = new AbortController()
+    askAbortRef.current = controller
+    setAnswer('')
+    setSources([])
+    setAskError(null)
+    setAskStatus('retrieving')
+
+    try {
+      const activeNotes = notes.filter(n => !n.isDeleted)
+      const excerpts = await retrieveExcerpts(activeNotes, question, {
+        useEmbeddings: askNotesEmbeddings,
+        signal: controller.signal
+      })
+      if (controller.signal.aborted || excerpts.length === 0) return
+
+      setSources(excerpts)
+      setAskStatus('answering')
+      await AI.askNotes(question, excerpts.map(({ title, text }) => ({ title, text })), {
+        signal: controller.signal,
+        onToken: (_, text) => setAnswer(text)
+      })
+    } catch (error) {
+      console.error('Ask notes error:', error)
+      setAskError(error instanceof InsufficientCreditsError ? t('credits.insufficientCredits') : t('ai.error'))
+    } finally {
+      askAbortRef.current = null
+      setAskStatus('done')
+    }
+  }
+
   const handleOpenInDrive = (webViewLink?: string) => {
     if (webViewLink) {
       window.open(webViewLink, '_blank', 'noopener,noreferrer')
@@ -95,6 +190,8 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       onClose()
+    } else if (e.key === 'Enter' && activeTab === 'ask') {
+      handleAsk()
     }
   }
 
@@ -119,10 +216,29 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={t('header.search')}
+            placeholder={activeTab === 'ask' ? t('askNotes.placeholder') : t('header.search')}
             className="flex-1 bg-transparent border-0 outline-none text-neutral-900 dark:text-white placeholder:text-neutral-400"
           />
-          {query && (
+          {activeTab === 'ask' && (isAsking ? (
+            <button
+              onClick={() => askAbortRef.current?.abort()}
+              aria-label={t('ai.stop')}
+              title={t('ai.stop')}
+              className="p-1.5 rounded-full bg-neutral-200 dark:bg-neutral-700 text-neutral-800 dark:text-white hover:bg-neutral-300 dark:hover:bg-neutral-600"
+            >
+              <Square className="w-3.5 h-3.5 fill-current" />
+            </button>
+          ) : query.trim() && isOnline && (
+            <button
+              onClick={handleAsk}
+              aria-label={t('askNotes.ask')}
+              title={t('askNotes.ask')}
+              className="p-1.5 rounded-full bg-neutral-900 dark:bg-white text-white dark:text-neutral-900 hover:opacity-90"
+            >
+              <ArrowUp className="w-3.5 h-3.5" />
+            </button>
+          ))}
+          {query && !isAsking && (
             <button
               onClick={() => setQuery('')}
               className="p-1 rounded-full hover:bg-neutral-100 dark:hover:bg-neutral-800"
@@ -132,6 +248,34 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
           )}
         </div>
 
+        {/* Parsed query */}
+        {chips.length > 0 && activeTab !== 'ask' && (
+          <div className="flex flex-wrap gap-1.5 px-4 py-2 border-b border-neutral-200 dark:border-neutral-700">
+            {chips.map((term, index) => (
+              <span
+                key={`${term.raw}-${index}`}
+                className={cn(
+                  "inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs font-medium",
+                  term.negated
+                    ? "bg-red-50 text-red-600 dark:bg-red-500/10 dark:text-red-400"
+                    : "bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300"
+                )}
+              >
+                {term.negated && <Minus className="w-3 h-3" />}
+                <span className={cn("max-w-[180px] truncate", term.negated && "line-through")}>
+                  {getTermLabel(term, t)}
+                </span>
+                <button
+                  onClick={() => removeTerm(term)}
+                  className="p-0.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex border-b border-neutral-200 dark:border-neutral-700">
           <button
@@ -168,11 +312,84 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
               </span>
             )}
           </button>
+          <button
+            onClick={() => setActiveTab('ask')}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium transition-colors",
+              activeTab === 'ask'
+                ? "text-neutral-900 dark:text-white border-b-2 border-neutral-900 dark:border-white"
+                : "text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300"
+            )}
+          >
+            <Sparkles className="w-4 h-4" />
+            {t('askNotes.title')}
+          </button>
         </div>
 
         {/* Results */}
         <div className="max-h-[50vh] overflow-y-auto">
-          {activeTab === 'notes' ? (
+          {activeTab === 'ask' ? (
+            // Ask your notes
+            !isOnline ? (
+              <div className="py-8 text-center">
+                <WifiOff className="w-8 h-8 mx-auto text-neutral-300 dark:text-neutral-600 mb-2" />
+                <p className="text-sm text-neutral-500">{t('askNotes.offline')}</p>
+              </div>
+            ) : askStatus === 'idle' ? (
+              <div className="py-8 px-6 text-center">
+                <Sparkles className="w-8 h-8 mx-auto text-neutral-300 dark:text-neutral-600 mb-2" />
+                <p className="text-sm text-neutral-500">{t('askNotes.description')}</p>
+              </div>
+            ) : (
+              <div className="px-4 py-3 space-y-4">
+                {askStatus === 'retrieving' && (
+                  <div className="flex items-center gap-2 text-sm text-neutral-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {t('askNotes.finding')}
+                  </div>
+                )}
+                {askStatus === 'answering' && !answer && (
+                  <div className="flex items-center gap-2 text-sm text-neutral-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {t('ai.processing')}
+                  </div>
+                )}
+                {answer && (
+                  <AskNotesAnswer answer={answer} sources={sources} onOpenNote={handleSelectNote} />
+                )}
+                {askError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">{askError}</p>
+                )}
+                {askStatus === 'done' && !askError && sources.length === 0 && (
+                  <p className="text-sm text-neutral-500">{t('askNotes.noMatches')}</p>
+                )}
+                {sources.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-neutral-500 mb-1">{t('askNotes.sources')}</p>
+                    <div className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                      {sources.map((source, index) => (
+                        <button
+                          key={source.id}
+                          onClick={() => handleSelectNote(source.noteId)}
+                          className="w-full flex items-start gap-3 py-2 hover:bg-neutral-50 dark:hover:bg-neutral-800/50 transition-colors text-left"
+                        >
+                          <span className="mt-0.5 min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-neutral-100 dark:bg-neutral-800 text-xs text-neutral-600 dark:text-neutral-300">
+                            {index + 1}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">
+                              {source.title || t('publicNote.untitled')}
+                            </p>
+                            <p className="text-xs text-neutral-500 line-clamp-2">{source.text}</p>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          ) : activeTab === 'notes' ? (
             // Notes Results
             query.trim() ? (
               noteResults.length > 0 ? (
@@ -186,7 +403,7 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
                       <FileText className="w-5 h-5 text-neutral-400 flex-shrink-0" />
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">
-                          {note.title || t('publicNote.untitled')}
+                          <Highlight text={note.title || t('publicNote.untitled')} query={query} />
                         </p>
                         <p className="text-xs text-neutral-500 truncate">
                           {new Date(note.updatedAt).toLocaleDateString()}
@@ -257,12 +474,53 @@ export function GlobalSearch({ open, onClose, onSelectNote }: GlobalSearchProps)
         </div>
 
         {/* Footer */}
-        <div className="px-4 py-2 border-t border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-800/30">
-          <p className="text-xs text-neutral-400 text-center">
-            {activeTab === 'drive' ? t('driveSearch.hint') : t('emptyState.tryDifferent')}
-          </p>
-        </div>
+        {(activeTab !== 'ask' || canEmbed) && (
+          <div className="px-4 py-2 border-t border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-800/30">
+            {activeTab === 'ask' ? (
+              <label className="flex items-center justify-center gap-2 text-xs text-neutral-500 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={askNotesEmbeddings}
+                  onChange={(e) => setAskNotesEmbeddings(e.target.checked)}
+                  className="rounded border-neutral-300 dark:border-neutral-600"
+                />
+                {t('askNotes.matchByMeaning')}
+              </label>
+            ) : (
+              <p className="text-xs text-neutral-400 text-center">
+                {activeTab === 'drive' ? t('driveSearch.hint') : t('searchQuery.hint')}
+              </p>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
 }
+
+// Answer text with its [n] citations as links to the source notes
+function AskNotesAnswer({ answer, sources, onOpenNote }: {
+  answer: string
+  sources: NotePassage[]
+  onOpenNote: (noteId: string) => void
+}) {
+  return (
+    <p className="text-sm text-neutral-800 dark:text-neutral-200 leading-relaxed whitespace-pre-wrap">
+      {parseCitations(answer).map((part, index) => {
+        const source = part.type === 'citation' ? sources[part.number - 1] : undefined
+        if (part.type === 'text') return <span key={index}>{part.text}</span>
+        if (!source) return <span key={index}>[{part.number}]</span>
+        return (
+          <button
+            key={index}
+            onClick={() => onOpenNote(source.noteId)}
+            title={source.title}
+            className="mx-0.5 px-1.5 rounded-full bg-neutral-100 dark:bg-neutral-800 text-xs align-text-top text-neutral-600 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-700"
+          >
+            {part.number}
+          </button>
+        )
+      })}
+    </p>
+  )
+}
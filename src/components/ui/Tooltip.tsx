@@ -2,6 +2,7 @@ import * as React from 'react'
 import * as TooltipPrimitive from '@radix-ui/react-tooltip'
 import { cn } from '@/lib/utils'
 import { isTouchDevice } from '@/hooks/useIsTouchDevice'
+import { useIsDark } from '@/hooks/useIsDark'
 
 const TooltipProvider = TooltipPrimitive.Provider
 
@@ -46,28 +47,6 @@ const Tooltip = ({ children, ...props }: React.ComponentPropsWithoutRef<typeof T
 
 const TooltipTrigger = TooltipPrimitive.Trigger
 
-// Hook to detect dark mode from document class
-function useIsDark() {
-  const [isDark, setIsDark] = React.useState(() => 
-    typeof document !== 'undefined' && document.documentElement.classList.contains('dark')
-  )
-
-  React.useEffect(() => {
-    const observer = new MutationObserver(() => {
-      setIsDark(document.documentElement.classList.contains('dark'))
-    })
-    
-    observer.observe(document.documentElement, {
-      attributes: true,
-      attributeFilter: ['class']
-    })
-
-    return () => observer.disconnect()
-  }, [])
-
-  return isDark
-}
-
 const TooltipContent = React.forwardRef<
   React.ComponentRef<typeof TooltipPrimitive.Content>,
   React.ComponentPropsWithoutRef<typeof TooltipPrimitive.Content>
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react'
+
+/**
+ * Whether dark mode is on, from the class on <html>
+ */
+export function useIsDark() {
+  const [isDark, setIsDark] = useState(() => 
+    typeof document !== 'undefined' && document.documentElement.classList.contains('dark')
+  )
+
+  useEffect(() => {
+    const observer = new MutationObserver(() => {
+      setIsDark(document.documentElement.classList.contains('dark'))
+    })
+    
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ['class']
+    })
+
+    return () => observer.disconnect()
+  }, [])
+
+  return isDark
+}
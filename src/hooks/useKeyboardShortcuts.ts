@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react'
+import { useShortcutsStore } from '@/stores/shortcutsStore'
+import {
+  eventToCombo,
+  findShortcutAction,
+  isValidShortcut,
+  resolveShortcuts,
+  type ShortcutAction
+} from '@/lib/shortcuts'
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>
+
+/**
+ * Run handlers for the user's configured shortcuts, app-wide.
+ * Shortcuts always include a modifier, so they also work while typing in
+ * a note. Components that capture keys (e.g. the shortcut recorder) stop
+ * propagation to keep them from firing.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  const overrides = useShortcutsStore(state => state.overrides)
+  const handlersRef = useRef(handlers)
+
+  // Keep ref updated
+  useEffect(() => {
+    handlersRef.current = handlers
+  }, [handlers])
+
+  useEffect(() => {
+    const bindings = resolveShortcuts(overrides)
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.isComposing) return
+      const combo = eventToCombo(e)
+      if (!combo || !isValidShortcut(combo)) return
+
+      const action = findShortcutAction(bindings, combo)
+      const handler = action && handlersRef.current[action]
+      if (!handler) return
+
+      e.preventDefault()
+      handler()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [overrides])
+}
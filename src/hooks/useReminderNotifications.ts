@@ -0,0 +1,153 @@
+/**
+ * Reminder notifications
+ * Checks notes for due reminders while the app is open and shows them
+ * as system notifications. Clicking one opens the note.
+ */
+import { useEffect } from 'react'
+import { useNotesStore } from '@/stores/notesStore'
+import type { Note } from '@/types'
+import { isReminderDue, completeReminder } from '@/lib/reminders'
+import { htmlToText } from '@/lib/searchIndex'
+import i18n from '@/locales'
+
+// How often to look for due reminders
+const CHECK_INTERVAL = 30 * 1000
+
+// Message the service worker posts when a notification is clicked (see public/reminder-sw.js)
+const OPEN_NOTE_MESSAGE = 'OPEN_REMINDER_NOTE'
+
+// URL parameter the service worker opens the app with when no window is open
+const OPEN_NOTE_PARAM = 'note'
+
+/**
+ * Ask for notification permission
+ * Returns true if notifications can be shown
+ */
+export async function requestReminderPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+function hasNote(notes: Note[], noteId: string): boolean {
+  return notes.some(note => note.id === noteId && !note.isDeleted)
+}
+
+// Returns false if the note isn't there - e.g. not loaded yet
+function openNote(noteId: string): boolean {
+  const { notes, setSelectedNote, setModalOpen } = useNotesStore.getState()
+  if (!hasNote(notes, noteId)) return false
+  window.focus()
+  setSelectedNote(noteId)
+  setModalOpen(true)
+  return true
+}
+
+// The note a notification opened the app for, removed from the URL
+function takeNoteFromUrl(): string | null {
+  const params = new URLSearchParams(window.location.search)
+  const noteId = params.get(OPEN_NOTE_PARAM)
+  if (noteId) {
+    params.delete(OPEN_NOTE_PARAM)
+    const search = params.toString()
+    window.history.replaceState({}, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`)
+  }
+  return noteId
+}
+
+async function showNotification(noteId: string, title: string, body: string) {
+  const options: NotificationOptions = {
+    body,
+    tag: `reminder-${noteId}`,
+    icon: '/pwa-192x192.png',
+    data: { noteId }
+  }
+
+  try {
+    const notification = new Notification(title, options)
+    notification.onclick = () => {
+      openNote(noteId)
+      notification.close()
+    }
+  } catch {
+    // Mobile browsers only allow notifications through the service worker
+    const registration = await navigator.serviceWorker?.ready
+    await registration?.showNotification(title, options)
+  }
+}
+
+// Set while a check runs, so the interval and a tab switch can't notify twice
+let isChecking = false
+
+async function notifyDueReminders() {
+  if (isChecking || typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+  isChecking = true
+
+  try {
+    const { notes, updateNote } = useNotesStore.getState()
+    const now = Date.now()
+
+    for (const note of notes) {
+      if (!note.reminder || note.isDeleted || !isReminderDue(note.reminder, now)) continue
+
+      const title = note.title || i18n.t('reminders.untitled')
+      const body = htmlToText(note.content).replace(/\s+/g, ' ').trim().slice(0, 120)
+      try {
+        await showNotification(note.id, title, body)
+      } catch (error) {
+        console.error('[Reminders] Failed to show notification:', error)
+        continue
+      }
+      updateNote(note.id, { reminder: completeReminder(note.reminder, now) })
+    }
+  } finally {
+    isChecking = false
+  }
+}
+
+/**
+ * Show notifications for due reminders while the app is open
+ */
+export function useReminderNotifications(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return
+
+    notifyDueReminders()
+    const interval = setInterval(notifyDueReminders, CHECK_INTERVAL)
+
+    // Timers are throttled in background tabs - check again on return
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        notifyDueReminders()
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OPEN_NOTE_MESSAGE && event.data.noteId) {
+        openNote(event.data.noteId)
+      }
+    }
+    navigator.serviceWorker?.addEventListener('message', handleMessage)
+
+    // Notes load after sign-in, so wait for the one the notification is for
+    let stopWaiting = () => {}
+    const pendingNoteId = takeNoteFromUrl()
+    if (pendingNoteId && !openNote(pendingNoteId)) {
+      stopWaiting = useNotesStore.subscribe((state) => {
+        if (!hasNote(state.notes, pendingNoteId)) return
+        // Unsubscribe first - opening the note updates the store, which calls back in here
+        stopWaiting()
+        openNote(pendingNoteId)
+      })
+    }
+
+    return () => {
+      stopWaiting()
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', handleVisibility)
+      navigator.serviceWorker?.removeEventListener('message', handleMessage)
+    }
+  }, [enabled])
+}
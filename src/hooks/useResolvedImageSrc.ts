@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { getLoadedImageSrc, resolveImageSrc } from '@/lib/noteImages'
+
+export interface ResolvedImageSrc {
+  url: string | null     // Displayable URL, null while loading or if missing
+  isMissing: boolean     // Not stored locally and not on Drive
+}
+
+/**
+ * Resolve a note image src (blob reference or plain URL) for display
+ * Blob references are loaded lazily from IndexedDB, or from Drive on first view
+ */
+export function useResolvedImageSrc(src: string): ResolvedImageSrc {
+  // Result of the last lookup, keyed by the src it was for
+  const [resolved, setResolved] = useState<{ src: string; url: string | null } | null>(null)
+  const loaded = getLoadedImageSrc(src)
+
+  useEffect(() => {
+    if (loaded) return
+    let cancelled = false
+    resolveImageSrc(src).then(url => {
+      if (!cancelled) setResolved({ src, url })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [src, loaded])
+
+  if (loaded) return { url: loaded, isMissing: false }
+  if (resolved?.src === src) return { url: resolved.url, isMissing: resolved.url === null }
+  return { url: null, isMissing: false }
+}
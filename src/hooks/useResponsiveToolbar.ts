@@ -18,7 +18,7 @@ const PRIORITY_BREAKPOINTS: Record<ToolbarPriority, number> = {
   1: BREAKPOINTS.xs,   // Always visible: AI, Voice, Bold, Italic, Underline, Undo, Redo, Delete
   2: BREAKPOINTS.sm,   // Small+: Strikethrough, Highlight, H1, Bullet List
   3: BREAKPOINTS.md,   // Medium+: H2, H3, Ordered List, Task List, Align Left
-  4: BREAKPOINTS.lg,   // Large+: Other alignments, Code, Quote, Link
+  4: BREAKPOINTS.lg,   // Large+: Other alignments, Code, Quote, Table, Link
   5: BREAKPOINTS.xl,   // XL+: Sub/Superscript, HR, Clear, Image, Drawing, Style, Share, History, Fullscreen
 }
 
@@ -59,6 +59,7 @@ export interface ToolbarVisibility {
   inlineCode: boolean
   codeBlock: boolean
   blockquote: boolean
+  table: boolean
   link: boolean
   
   // Priority 5 - xl+
@@ -125,6 +126,7 @@ function getVisibilityForWidth(width: number): ToolbarVisibility {
     inlineCode: p4,
     codeBlock: p4,
     blockquote: p4,
+    table: p4,
     link: p4,
     
     // Priority 5 - xl+
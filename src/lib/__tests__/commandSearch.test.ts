@@ -0,0 +1,110 @@
+/**
+ * Tests for command search
+ *
+ * Verifies fuzzy scoring (subsequence, prefix and word-start bonuses),
+ * keyword matching across languages, and that search-only commands stay
+ * hidden until the user types.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.commandSearchTests.runAllCommandSearchTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { fuzzyScore, filterCommands, type CommandMatch } from '../commandSearch'
+
+const commands: (CommandMatch & { id: string })[] = [
+  { id: 'heading1', label: 'Überschrift 1', keywords: ['h1', 'heading'] },
+  { id: 'bulletList', label: 'Aufzählung', keywords: ['bullet', 'list'] },
+  { id: 'taskList', label: 'Aufgabenliste', keywords: ['todo', 'task', 'checklist'] },
+  { id: 'codeBlock', label: 'Codeblock', keywords: ['code'] },
+  { id: 'translate-ja', label: 'Übersetzen: 日本語', keywords: ['translate', 'ja'], searchOnly: true }
+]
+
+/**
+ * Test 1: Subsequence matches score, prefixes beat scattered matches
+ */
+export function testFuzzyScore() {
+  console.log('[Command Search 1] Testing fuzzy score...')
+
+  const prefix = fuzzyScore('cod', 'Code block')
+  const wordStart = fuzzyScore('cb', 'Code block')
+  const scattered = fuzzyScore('oe', 'Code block')
+  const missing = fuzzyScore('xyz', 'Code block')
+
+  const passed = prefix !== null && wordStart !== null && scattered !== null && missing === null &&
+    prefix > wordStart && wordStart > scattered && fuzzyScore('', 'anything') === 0
+
+  if (passed) {
+    console.log('[Command Search 1] ✓ Scores:', { prefix, wordStart, scattered })
+    return true
+  }
+  console.error('[Command Search 1] ✗ Unexpected scores:', { prefix, wordStart, scattered, missing })
+  return false
+}
+
+/**
+ * Test 2: Empty query keeps menu order without search-only commands
+ */
+export function testEmptyQuery() {
+  console.log('[Command Search 2] Testing empty query...')
+
+  const ids = filterCommands(commands, '').map(c => c.id).join(',')
+
+  if (ids === 'heading1,bulletList,taskList,codeBlock') {
+    console.log('[Command Search 2] ✓ Menu order:', ids)
+    return true
+  }
+  console.error('[Command Search 2] ✗ Unexpected list:', ids)
+  return false
+}
+
+/**
+ * Test 3: English keywords match translated labels, best match first
+ */
+export function testKeywordMatching() {
+  console.log('[Command Search 3] Testing keyword matching...')
+
+  const todo = filterCommands(commands, 'todo').map(c => c.id)
+  const h1 = filterCommands(commands, 'h1').map(c => c.id)
+  const ja = filterCommands(commands, 'ja').map(c => c.id)
+
+  const passed = todo[0] === 'taskList' && h1[0] === 'heading1' && ja[0] === 'translate-ja'
+
+  if (passed) {
+    console.log('[Command Search 3] ✓ Top matches:', todo[0], h1[0], ja[0])
+    return true
+  }
+  console.error('[Command Search 3] ✗ Unexpected matches:', { todo, h1, ja })
+  return false
+}
+
+/**
+ * Run all command search tests
+ */
+export function runAllCommandSearchTests() {
+  console.log('[Command Search Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    score: testFuzzyScore(),
+    empty: testEmptyQuery(),
+    keywords: testKeywordMatching()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Command Search Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).commandSearchTests = {
+    testFuzzyScore,
+    testEmptyQuery,
+    testKeywordMatching,
+    runAllCommandSearchTests
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for Mermaid diagrams in note HTML
+ *
+ * Verifies that only mermaid code blocks are treated as diagrams, that
+ * their source is decoded from the editor's HTML, and that Markdown export
+ * writes them as ```mermaid fences.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.diagramsTests.runAllDiagramsTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { isDiagramLanguage, replaceDiagrams, diagramsToMarkdown } from '../diagrams'
+
+const DIAGRAM_HTML = '<pre class="hljs"><code class="language-mermaid">flowchart TD\n  A[Start] --&gt; B{&quot;Done?&quot;}</code></pre>'
+
+/**
+ * Test 1: Only mermaid code blocks are diagrams
+ */
+export function testFindDiagrams() {
+  console.log('[Diagrams 1] Testing diagram detection...')
+
+  const html = '<p>Intro</p>' + DIAGRAM_HTML +
+    '<pre class="hljs"><code class="language-javascript">const a = 1</code></pre><pre><code>plain</code></pre>'
+  const sources: string[] = []
+  const result = replaceDiagrams(html, source => {
+    sources.push(source)
+    return '#'
+  })
+
+  const passed = sources.length === 1 &&
+    sources[0] === 'flowchart TD\n  A[Start] --> B{"Done?"}' &&
+    result.startsWith('<p>Intro</p>#<pre class="hljs"><code class="language-javascript">') &&
+    isDiagramLanguage('Mermaid') && !isDiagramLanguage('javascript') && !isDiagramLanguage(null)
+
+  if (passed) {
+    console.log('[Diagrams 1] ✓ Found:', sources)
+    return true
+  }
+  console.error('[Diagrams 1] ✗ Unexpected result:', { sources, result })
+  return false
+}
+
+/**
+ * Test 2: Markdown export uses a mermaid fence
+ */
+export function testDiagramsToMarkdown() {
+  console.log('[Diagrams 2] Testing Markdown output...')
+
+  const markdown = diagramsToMarkdown(DIAGRAM_HTML)
+  const expected = '\n\n```mermaid\nflowchart TD\n  A[Start] --&gt; B{&quot;Done?&quot;}\n```\n\n'
+
+  if (markdown === expected) {
+    console.log('[Diagrams 2] ✓ Markdown output correct')
+    return true
+  }
+  console.error('[Diagrams 2] ✗ Unexpected output:', JSON.stringify(markdown))
+  return false
+}
+
+/**
+ * Run all diagram tests
+ */
+export function runAllDiagramsTests() {
+  console.log('[Diagrams Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    find: testFindDiagrams(),
+    markdown: testDiagramsToMarkdown()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Diagrams Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).diagramsTests = {
+    testFindDiagrams,
+    testDiagramsToMarkdown,
+    runAllDiagramsTests
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Fixtures shared by the test suites
+ * Synced records with neutral defaults - tests override the fields they check.
+ */
+import type { Note, Notebook } from '@/types'
+
+export function makeNote(overrides: Partial<Note> = {}): Note {
+  return {
+    id: 'note-1',
+    title: '',
+    content: '',
+    createdAt: 0,
+    updatedAt: 0,
+    isPinned: false,
+    syncStatus: 'synced',
+    version: 1,
+    ...overrides
+  }
+}
+
+export function makeNotebook(overrides: Partial<Notebook> = {}): Notebook {
+  return {
+    id: 'nb-1',
+    name: '',
+    parentId: null,
+    createdAt: 0,
+    updatedAt: 0,
+    version: 1,
+    syncStatus: 'synced',
+    ...overrides
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for Markdown table export
+ *
+ * Verifies that editor tables become GFM tables with a header row, that
+ * merged cells keep every row the same width, and that pipes in cell text
+ * are escaped.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.markdownTablesTests.runAllMarkdownTablesTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { htmlTablesToMarkdown } from '../markdownTables'
+
+/**
+ * Test 1: A table with a header row keeps it as the Markdown header
+ */
+export function testHeaderRow() {
+  console.log('[Markdown Tables 1] Testing header row...')
+
+  const html = '<p>Before</p><table style="min-width: 50px"><colgroup><col><col></colgroup><tbody>' +
+    '<tr><th colspan="1" rowspan="1"><p>Name</p></th><th><p>Qty</p></th></tr>' +
+    '<tr><td><p>Apples</p></td><td><p>3</p></td></tr>' +
+    '</tbody></table><p>After</p>'
+  const markdown = htmlTablesToMarkdown(html)
+  const expected = '<p>Before</p>\n\n| <p>Name</p> | <p>Qty</p> |\n| --- | --- |\n| <p>Apples</p> | <p>3</p> |\n\n<p>After</p>'
+
+  if (markdown === expected) {
+    console.log('[Markdown Tables 1] ✓ Header row kept')
+    return true
+  }
+  console.error('[Markdown Tables 1] ✗ Unexpected output:', markdown)
+  return false
+}
+
+/**
+ * Test 2: Merged cells leave empty slots and tables without a header get an empty one
+ */
+export function testMergedCells() {
+  console.log('[Markdown Tables 2] Testing merged cells...')
+
+  const html = '<table><tbody>' +
+    '<tr><td colspan="2">Wide</td><td rowspan="2">Tall</td></tr>' +
+    '<tr><td>a</td><td>b</td></tr>' +
+    '<tr><td rowspan="2">c</td><td>d</td><td>e</td></tr>' +
+    '<tr><td>f</td><td>g</td></tr>' +
+    '</tbody></table>'
+  const markdown = htmlTablesToMarkdown(html).trim()
+  const expected = [
+    '|  |  |  |',
+    '| --- | --- | --- |',
+    '| Wide |  | Tall |',
+    '| a | b |  |',
+    '| c | d | e |',
+    '|  | f | g |'
+  ].join('\n')
+
+  if (markdown === expected) {
+    console.log('[Markdown Tables 2] ✓ Merged cells aligned')
+    return true
+  }
+  console.error('[Markdown Tables 2] ✗ Unexpected output:', markdown)
+  return false
+}
+
+/**
+ * Test 3: Pipes are escaped and line breaks inside a cell are collapsed
+ */
+export function testCellText() {
+  console.log('[Markdown Tables 3] Testing cell text...')
+
+  const markdown = htmlTablesToMarkdown('<table><tr><th>a | b</th></tr><tr><td>line 1\n\nline 2</td></tr></table>').trim()
+  const expected = '| a \\| b |\n| --- |\n| line 1 line 2 |'
+
+  if (markdown === expected) {
+    console.log('[Markdown Tables 3] ✓ Cell text cleaned')
+    return true
+  }
+  console.error('[Markdown Tables 3] ✗ Unexpected output:', markdown)
+  return false
+}
+
+/**
+ * Run all Markdown table tests
+ */
+export function runAllMarkdownTablesTests() {
+  console.log('[Markdown Tables Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    headerRow: testHeaderRow(),
+    mergedCells: testMergedCells(),
+    cellText: testCellText()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Markdown Tables Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).markdownTablesTests = {
+    testHeaderRow,
+    testMergedCells,
+    testCellText,
+    runAllMarkdownTablesTests
+  }
+}
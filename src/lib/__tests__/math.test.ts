@@ -0,0 +1,118 @@
+/**
+ * Tests for math in note HTML
+ *
+ * Verifies that equation elements are found in either attribute order with
+ * their LaTeX decoded, that Markdown export writes $...$ and $$...$$, and
+ * that invalid LaTeX renders instead of throwing.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.mathTests.runAllMathTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { replaceMath, mathToMarkdown, renderLatex } from '../math'
+
+/**
+ * Test 1: Equations are found and their LaTeX is decoded
+ */
+export function testReplaceMath() {
+  console.log('[Math 1] Testing equation detection...')
+
+  const html = '<p>Area <span data-latex="\\pi r^2" data-type="inline-math">\\pi r^2</span> and ' +
+    '<span data-type="inline-math" data-latex="a &lt; b &amp;&amp; c">a &lt; b &amp;&amp; c</span></p>' +
+    '<div data-latex="\\frac{1}{2}" data-type="block-math">\\frac{1}{2}</div>' +
+    '<span data-type="noteLink" data-title="Other">[[Other]]</span>'
+  const found: string[] = []
+  const result = replaceMath(html, (latex, display) => {
+    found.push(`${display}:${latex}`)
+    return '#'
+  })
+
+  const passed = found.join('|') === 'inline:\\pi r^2|inline:a < b && c|block:\\frac{1}{2}' &&
+    result === '<p>Area # and #</p>#<span data-type="noteLink" data-title="Other">[[Other]]</span>'
+
+  if (passed) {
+    console.log('[Math 1] ✓ Equations:', found)
+    return true
+  }
+  console.error('[Math 1] ✗ Unexpected result:', { found, result })
+  return false
+}
+
+/**
+ * Test 2: Markdown uses $...$ inline and $$ lines around blocks
+ */
+export function testMathToMarkdown() {
+  console.log('[Math 2] Testing Markdown output...')
+
+  const markdown = mathToMarkdown(
+    '<p>So <span data-latex="x<y" data-type="inline-math">x&lt;y</span></p>' +
+    '<div data-latex="E = mc^2" data-type="block-math">E = mc^2</div>'
+  )
+  const expected = '<p>So $x&lt;y$</p>\n\n$$\nE = mc^2\n$$\n\n'
+
+  if (markdown === expected) {
+    console.log('[Math 2] ✓ Markdown output correct')
+    return true
+  }
+  console.error('[Math 2] ✗ Unexpected output:', JSON.stringify(markdown))
+  return false
+}
+
+/**
+ * Test 3: KaTeX renders valid LaTeX and shows errors for invalid LaTeX
+ */
+export function testRenderLatex() {
+  console.log('[Math 3] Testing rendering...')
+
+  let valid = ''
+  let invalid = ''
+  try {
+    valid = renderLatex('x^2', 'inline')
+    invalid = renderLatex('\\frac{1}{', 'block')
+  } catch (error) {
+    console.error('[Math 3] ✗ Rendering threw:', error)
+    return false
+  }
+
+  const passed = valid.includes('class="katex"') && !valid.includes('katex-display') &&
+    invalid.includes('katex-error')
+
+  if (passed) {
+    console.log('[Math 3] ✓ Rendering correct')
+    return true
+  }
+  console.error('[Math 3] ✗ Unexpected output:', { valid, invalid })
+  return false
+}
+
+/**
+ * Run all math tests
+ */
+export function runAllMathTests() {
+  console.log('[Math Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    replace: testReplaceMath(),
+    markdown: testMathToMarkdown(),
+    render: testRenderLatex()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Math Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).mathTests = {
+    testReplaceMath,
+    testMathToMarkdown,
+    testRenderLatex,
+    runAllMathTests
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Tests for the note graph and its layout
+ *
+ * Verifies that links and shared tags become edges, that filters drop
+ * notes along with their edges, and that the force layout settles to
+ * finite, separated positions.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.noteGraphTests.runAllNoteGraphTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { buildNoteGraph, DEFAULT_GRAPH_FILTER, getTagNodeId } from '../noteGraph'
+import { ForceLayout } from '../forceLayout'
+import { makeNote } from './fixtures'
+
+function link(noteId: string): string {
+  return `<span data-type="noteLink" data-note-id="${noteId}" data-title="${noteId}">[[${noteId}]]</span>`
+}
+
+/**
+ * Test 1: Links are undirected and deduplicated, tags shared by 2+ notes get a hub
+ */
+export function testBuildNoteGraph() {
+  console.log('[NoteGraph 1] Testing graph building...')
+
+  const notes = [
+    makeNote({ id: 'a', content: `<p>${link('b')} ${link('b')} ${link('missing')}</p>`, tags: ['work'] }),
+    makeNote({ id: 'b', content: `<p>${link('a')}</p>`, tags: ['work'] }),
+    makeNote({ id: 'c', content: '<p>Alone</p>', tags: ['solo'] })
+  ]
+  const { nodes, links } = buildNoteGraph(notes, DEFAULT_GRAPH_FILTER)
+  const ids = nodes.map(node => node.id)
+
+  const passed = ids.join(',') === `a,b,c,${getTagNodeId('work')}` &&
+    links.length === 3 &&
+    nodes[0].degree === 2 &&
+    nodes[2].degree === 0 &&
+    nodes[3].degree === 2
+
+  if (passed) {
+    console.log('[NoteGraph 1] ✓ Nodes:', ids, 'links:', links.length)
+    return true
+  }
+  console.error('[NoteGraph 1] ✗ Unexpected graph:', ids, links)
+  return false
+}
+
+/**
+ * Test 2: Filters drop notes and the edges to them
+ */
+export function testGraphFilters() {
+  console.log('[NoteGraph 2] Testing filters...')
+
+  const notes = [
+    makeNote({ id: 'a', content: `<p>${link('b')}</p>`, isPinned: true, tags: ['work'] }),
+    makeNote({ id: 'b', content: `<p>${link('a')}</p>`, tags: ['work'] }),
+    makeNote({ id: 'c', content: `<p>${link('a')}</p>`, isPinned: true, isShared: true, tags: ['work'] }),
+    makeNote({ id: 'd', content: '<p>Trashed</p>', isPinned: true, isDeleted: true })
+  ]
+
+  const pinned = buildNoteGraph(notes, { ...DEFAULT_GRAPH_FILTER, pinnedOnly: true, showTags: false })
+  const shared = buildNoteGraph(notes, { ...DEFAULT_GRAPH_FILTER, sharedOnly: true })
+  const tagged = buildNoteGraph(notes, { ...DEFAULT_GRAPH_FILTER, tag: 'work', showTags: false })
+
+  const passed = pinned.nodes.map(node => node.id).join(',') === 'a,c' &&
+    pinned.links.length === 1 &&
+    shared.nodes.map(node => node.id).join(',') === 'c' &&
+    tagged.nodes.length === 3 &&
+    tagged.links.length === 2
+
+  if (passed) {
+    console.log('[NoteGraph 2] ✓ Filters applied')
+    return true
+  }
+  console.error('[NoteGraph 2] ✗ Unexpected filtered graphs:', { pinned, shared, tagged })
+  return false
+}
+
+/**
+ * Test 3: The layout settles, and nodes starting at the same point separate
+ */
+export function testForceLayoutSettles() {
+  console.log('[NoteGraph 3] Testing layout...')
+
+  const layout = new ForceLayout(6, [[0, 1], [1, 2], [3, 4]], () => [0, 0])
+  let ticks = 0
+  while (!layout.isSettled && ticks < 1000) {
+    layout.tick()
+    ticks++
+  }
+
+  let finite = true
+  let minDistance = Infinity
+  for (let i = 0; i < layout.count; i++) {
+    if (!Number.isFinite(layout.x[i]) || !Number.isFinite(layout.y[i])) finite = false
+    for (let j = i + 1; j < layout.count; j++) {
+      minDistance = Math.min(minDistance, Math.hypot(layout.x[i] - layout.x[j], layout.y[i] - layout.y[j]))
+    }
+  }
+
+  if (layout.isSettled && finite && minDistance > 1 && layout.find(layout.x[2], layout.y[2], 1) === 2) {
+    console.log('[NoteGraph 3] ✓ Settled after', ticks, 'ticks, min distance', minDistance.toFixed(1))
+    return true
+  }
+  console.error('[NoteGraph 3] ✗ Layout did not settle:', { ticks, finite, minDistance })
+  return false
+}
+
+/**
+ * Run all note graph tests
+ */
+export function runAllNoteGraphTests() {
+  console.log('[NoteGraph Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    build: testBuildNoteGraph(),
+    filters: testGraphFilters(),
+    layout: testForceLayoutSettles()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[NoteGraph Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).noteGraphTests = {
+    testBuildNoteGraph,
+    testGraphFilters,
+    testForceLayoutSettles,
+    runAllNoteGraphTests
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for note image storage
+ *
+ * Verifies that base64 images are moved into content-addressed blobs,
+ * that identical images share one blob, that references can be turned
+ * back into data URLs for shares and exports, and that drawings saved
+ * without alt text are labelled.
+ * Uses IndexedDB, so run these in the browser.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.noteImagesTests.runAllNoteImagesTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { getImageBlob } from '@/lib/db/imageBlobRepository'
+import {
+  IMAGE_REF_PREFIX,
+  isImageRef,
+  dataUrlToBlob,
+  hasInlineImages,
+  extractInlineImages,
+  inlineImageRefs,
+  isCanvasPng,
+  labelUnmarkedDrawings
+} from '../noteImages'
+
+// 1x1 transparent PNG
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+// 1x1 RGBA PNGs - as a canvas exports it, and with a pHYs chunk like a screenshot
+const CANVAS_PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAAC0lEQVR4nGP4DwQACfsD/fteaysAAAAASUVORK5CYII='
+const SCREENSHOT_PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAACXBIWXMAAA7DAAAOwwHHb6hkAAAAC0lEQVR4nGP4DwQACfsD/fteaysAAAAASUVORK5CYII='
+
+/**
+ * Test 1: Data URLs decode to blobs
+ */
+export function testDataUrlToBlob() {
+  console.log('[NoteImages 1] Testing data URL decoding...')
+
+  const blob = dataUrlToBlob(PIXEL)
+  if (blob.type === 'image/png' && blob.size === 68) {
+    console.log('[NoteImages 1] ✓ Decoded', blob.size, 'bytes')
+    return true
+  }
+  console.error('[NoteImages 1] ✗ Unexpected blob:', blob.type, blob.size)
+  return false
+}
+
+/**
+ * Test 2: Inline images become references, duplicates share one blob
+ */
+export async function testExtractInlineImages() {
+  console.log('[NoteImages 2] Testing extraction...')
+
+  try {
+    const html = `<p>before</p><img src="${PIXEL}" alt="a"><img src="${PIXEL}" width="20"><img src="https://example.com/x.png">`
+    const extracted = await extractInlineImages(html)
+    const srcs = Array.from(extracted.matchAll(/src="([^"]+)"/g), match => match[1])
+
+    const [first, second, external] = srcs
+    const stored = isImageRef(first) ? await getImageBlob(first.slice(IMAGE_REF_PREFIX.length)) : undefined
+
+    const passed = !hasInlineImages(extracted) &&
+      isImageRef(first) && first === second &&
+      external === 'https://example.com/x.png' &&
+      extracted.includes('alt="a"') && extracted.includes('width="20"') &&
+      stored?.size === 68
+
+    if (passed) {
+      console.log('[NoteImages 2] ✓ Extracted to', first)
+      return true
+    }
+    console.error('[NoteImages 2] ✗ Unexpected result:', { srcs, stored })
+    return false
+  } catch (error) {
+    console.error('[NoteImages 2] ✗ Error:', error)
+    return false
+  }
+}
+
+/**
+ * Test 3: References round-trip back to the original data URL
+ */
+export async function testInlineImageRefs() {
+  console.log('[NoteImages 3] Testing inlining...')
+
+  try {
+    const html = `<img src="${PIXEL}">`
+    const roundTrip = await inlineImageRefs(await extractInlineImages(html))
+
+    if (roundTrip === html) {
+      console.log('[NoteImages 3] ✓ Round-tripped')
+      return true
+    }
+    console.error('[NoteImages 3] ✗ Unexpected HTML:', roundTrip.slice(0, 120))
+    return false
+  } catch (error) {
+    console.error('[NoteImages 3] ✗ Error:', error)
+    return false
+  }
+}
+
+/**
+ * Test 4: Drawings saved without alt text are labelled
+ */
+export function testLabelUnmarkedDrawings() {
+  console.log('[NoteImages 4] Testing drawing labels...')
+
+  const html = `<img src="${CANVAS_PIXEL}"><img src="${SCREENSHOT_PIXEL}"><img src="${PIXEL}"><img src="${CANVAS_PIXEL}" alt="sketch">`
+  const labelled = labelUnmarkedDrawings(html)
+  const alts = Array.from(labelled.matchAll(/<img\b[^>]*>/g), match => /alt="([^"]*)"/.exec(match[0])?.[1])
+
+  const passed = isCanvasPng(CANVAS_PIXEL) && !isCanvasPng(SCREENSHOT_PIXEL) && !isCanvasPng(PIXEL) &&
+    !isCanvasPng('data:image/png;base64,!!') &&
+    alts.join(',') === 'drawing,,,sketch'
+
+  if (passed) {
+    console.log('[NoteImages 4] ✓ Drawings labelled')
+    return true
+  }
+  console.error('[NoteImages 4] ✗ Unexpected alt text:', alts)
+  return false
+}
+
+/**
+ * Run all note image tests
+ */
+export async function runAllNoteImagesTests() {
+  console.log('[NoteImages Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    decode: testDataUrlToBlob(),
+    extract: await testExtractInlineImages(),
+    inline: await testInlineImageRefs(),
+    drawings: testLabelUnmarkedDrawings()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[NoteImages Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).noteImagesTests = {
+    testDataUrlToBlob,
+    testExtractInlineImages,
+    testInlineImageRefs,
+    testLabelUnmarkedDrawings,
+    runAllNoteImagesTests
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for [[wiki links]] between notes
+ *
+ * Verifies that links are found by note ID, that backlinks skip deleted
+ * notes and self-links, and that exports show the target's current title.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.noteLinksTests.runAllNoteLinksTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { extractLinkedNoteIds, getBacklinks, refreshNoteLinkTitles } from '../noteLinks'
+import { makeNote } from './fixtures'
+
+function link(noteId: string, title: string): string {
+  return `<span data-type="noteLink" data-note-id="${noteId}" data-title="${title}">[[${title}]]</span>`
+}
+
+/**
+ * Test 1: Linked note IDs are extracted once each, in order
+ */
+export function testExtractLinkedNoteIds() {
+  console.log('[NoteLinks 1] Testing link extraction...')
+
+  const html = `<p>See ${link('b', 'Beta')} and ${link('a', 'Alpha')}, again ${link('b', 'Beta')}</p>`
+  const ids = extractLinkedNoteIds(html)
+
+  if (ids.join(',') === 'b,a') {
+    console.log('[NoteLinks 1] ✓ Extracted', ids)
+    return true
+  }
+  console.error('[NoteLinks 1] ✗ Unexpected IDs:', ids)
+  return false
+}
+
+/**
+ * Test 2: Backlinks are matched by ID and skip deleted notes and self-links
+ */
+export function testGetBacklinks() {
+  console.log('[NoteLinks 2] Testing backlinks...')
+
+  const notes = [
+    makeNote({ id: 'target', title: 'Target', content: `<p>${link('target', 'Target')}</p>` }),
+    makeNote({ id: 'old', title: 'Old', content: `<p>${link('target', 'Old title')}</p>`, updatedAt: 1 }),
+    makeNote({ id: 'new', title: 'New', content: `<p>${link('target', 'Target')}</p>`, updatedAt: 2 }),
+    makeNote({ id: 'other', title: 'Other', content: `<p>${link('target-2', 'Target 2')}</p>`, updatedAt: 3 }),
+    makeNote({ id: 'trashed', title: 'Trashed', content: `<p>${link('target', 'Target')}</p>`, updatedAt: 4, isDeleted: true })
+  ]
+
+  const ids = getBacklinks(notes, 'target').map(note => note.id)
+  if (ids.join(',') === 'new,old') {
+    console.log('[NoteLinks 2] ✓ Backlinks:', ids)
+    return true
+  }
+  console.error('[NoteLinks 2] ✗ Unexpected backlinks:', ids)
+  return false
+}
+
+/**
+ * Test 3: Exported links use the current title, falling back to the stored one
+ */
+export function testRefreshNoteLinkTitles() {
+  console.log('[NoteLinks 3] Testing title refresh...')
+
+  const notes = [makeNote({ id: 'a', title: 'Renamed & moved', content: '' })]
+  const html = `<p>${link('a', 'Original')} ${link('gone', 'Deleted note')}</p>`
+  const refreshed = refreshNoteLinkTitles(html, notes)
+
+  const passed = refreshed.includes('data-title="Renamed &amp; moved">[[Renamed &amp; moved]]</span>') &&
+    refreshed.includes('[[Deleted note]]') &&
+    extractLinkedNoteIds(refreshed).join(',') === 'a,gone'
+
+  if (passed) {
+    console.log('[NoteLinks 3] ✓ Titles refreshed')
+    return true
+  }
+  console.error('[NoteLinks 3] ✗ Unexpected HTML:', refreshed)
+  return false
+}
+
+/**
+ * Run all note link tests
+ */
+export function runAllNoteLinksTests() {
+  console.log('[NoteLinks Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    extract: testExtractLinkedNoteIds(),
+    backlinks: testGetBacklinks(),
+    refresh: testRefreshNoteLinkTitles()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[NoteLinks Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).noteLinksTests = {
+    testExtractLinkedNoteIds,
+    testGetBacklinks,
+    testRefreshNoteLinkTitles,
+    runAllNoteLinksTests
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Tests for OpenAI-compatible AI servers
+ *
+ * Verifies that requests become the same prompts the G-Note backend builds,
+ * that endpoint URLs are joined and local servers recognized, and that text
+ * is read from both streamed chunks and whole completions.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.openAICompatibleTests.runAllOpenAICompatibleTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { buildPrompt, getEndpointUrl, isLocalUrl, readCompletionText } from '../openAICompatible'
+
+/**
+ * Test 1: Prompts for each kind of request
+ */
+export function testBuildPrompt() {
+  console.log('[OpenAI Compatible 1] Testing prompts...')
+
+  const translate = buildPrompt('translate', { content: 'Hello', targetLanguage: 'Français' })
+  const ask = buildPrompt('ask', { content: 'Trip notes', question: 'When?' })
+  const followUp = buildPrompt('ask', {
+    content: 'Trip notes',
+    question: 'And back?',
+    history: [{ role: 'user', content: 'When?' }, { role: 'assistant', content: 'In May' }],
+    summary: 'Planning a trip'
+  })
+  const askNotes = buildPrompt('ask-notes', {
+    question: 'Budget?',
+    excerpts: [{ title: 'Trip', text: '900 euros' }, { title: '', text: 'Flights' }]
+  })
+
+  const passed = translate.includes('to Français') && translate.endsWith('Content:\nHello') &&
+    !ask.includes('conversation so far') && ask.endsWith('Question: When?') &&
+    followUp.includes('Summary of the earlier conversation:\nPlanning a trip') &&
+    followUp.includes('User: When?\n\nAssistant: In May') &&
+    askNotes.includes('[1] Trip\n900 euros\n\n[2] Untitled\nFlights') &&
+    buildPrompt('extract-tasks', { content: 'x' }).includes('- [ ] task')
+
+  if (passed) {
+    console.log('[OpenAI Compatible 1] ✓ Prompts built')
+    return true
+  }
+  console.error('[OpenAI Compatible 1] ✗ Unexpected prompts:', { translate, ask, followUp, askNotes })
+  return false
+}
+
+/**
+ * Test 2: Endpoint URLs and local servers
+ */
+export function testServerUrls() {
+  console.log('[OpenAI Compatible 2] Testing server URLs...')
+
+  const passed = getEndpointUrl(' http://localhost:11434/v1/ ', 'chat/completions') === 'http://localhost:11434/v1/chat/completions' &&
+    isLocalUrl('http://127.0.0.1:8080') &&
+    isLocalUrl('http://[::1]:8080/v1') &&
+    !isLocalUrl('https://api.example.com/v1') &&
+    !isLocalUrl('localhost:8080')
+
+  if (passed) {
+    console.log('[OpenAI Compatible 2] ✓ URLs handled')
+    return true
+  }
+  console.error('[OpenAI Compatible 2] ✗ Unexpected URL handling')
+  return false
+}
+
+/**
+ * Test 3: Reading completion text
+ */
+export function testReadCompletionText() {
+  console.log('[OpenAI Compatible 3] Testing completion text...')
+
+  const streamed = readCompletionText({ choices: [{ delta: { content: 'Hel' } }] })
+  const whole = readCompletionText({ choices: [{ message: { content: 'Hello' } }] })
+  const empty = readCompletionText({ choices: [{ delta: { content: null } }] })
+
+  if (streamed === 'Hel' && whole === 'Hello' && empty === '' && readCompletionText({}) === '') {
+    console.log('[OpenAI Compatible 3] ✓ Text read')
+    return true
+  }
+  console.error('[OpenAI Compatible 3] ✗ Unexpected text:', { streamed, whole, empty })
+  return false
+}
+
+/**
+ * Run all OpenAI-compatible server tests
+ */
+export function runAllOpenAICompatibleTests() {
+  console.log('[OpenAI Compatible Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    prompts: testBuildPrompt(),
+    urls: testServerUrls(),
+    completionText: testReadCompletionText()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[OpenAI Compatible Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).openAICompatibleTests = {
+    testBuildPrompt,
+    testServerUrls,
+    testReadCompletionText,
+    runAllOpenAICompatibleTests
+  }
+}
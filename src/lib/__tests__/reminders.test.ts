@@ -0,0 +1,152 @@
+/**
+ * Tests for note reminder scheduling
+ *
+ * Verifies due checks, recurring occurrences (including month-end
+ * clamping and occurrences missed while offline) and the upcoming list.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.remindersTests.runAllRemindersTests() from the console
+ * 3. Check the console output for results
+ */
+
+import {
+  isReminderDue,
+  completeReminder,
+  getNextOccurrence,
+  hasActiveReminder,
+  getUpcomingNotes
+} from '../reminders'
+import { makeNote } from './fixtures'
+
+const HOUR = 60 * 60 * 1000
+
+/**
+ * Test 1: One-off reminders are due once
+ */
+export function testOneOffReminder() {
+  console.log('[Reminders 1] Testing one-off reminder...')
+
+  const now = Date.now()
+  const reminder = { at: now - HOUR, repeat: 'none' as const }
+  const completed = completeReminder(reminder, now)
+
+  const passed = isReminderDue(reminder, now) &&
+    !isReminderDue({ ...reminder, at: now + HOUR }, now) &&
+    !isReminderDue(completed, now + HOUR) &&
+    hasActiveReminder(makeNote({ id: 'a', reminder })) &&
+    !hasActiveReminder(makeNote({ id: 'b', reminder: completed }))
+
+  if (passed) {
+    console.log('[Reminders 1] ✓ Due once, then inactive')
+    return true
+  }
+  console.error('[Reminders 1] ✗ Unexpected state:', completed)
+  return false
+}
+
+/**
+ * Test 2: Recurring reminders move to the next occurrence, skipping missed ones
+ */
+export function testRecurringReminder() {
+  console.log('[Reminders 2] Testing recurring reminder...')
+
+  const start = new Date(2025, 0, 6, 9, 0).getTime()
+  const tenDaysLater = new Date(2025, 0, 16, 12, 0).getTime()
+
+  const daily = completeReminder({ at: start, repeat: 'daily' }, tenDaysLater)
+  const weekly = getNextOccurrence({ at: start, repeat: 'weekly' }, tenDaysLater)
+
+  const passed = daily.at === new Date(2025, 0, 17, 9, 0).getTime() &&
+    !isReminderDue(daily, tenDaysLater) &&
+    isReminderDue(daily, daily.at) &&
+    weekly === new Date(2025, 0, 20, 9, 0).getTime()
+
+  if (passed) {
+    console.log('[Reminders 2] ✓ Next occurrences:', new Date(daily.at), new Date(weekly))
+    return true
+  }
+  console.error('[Reminders 2] ✗ Unexpected occurrences:', new Date(daily.at), new Date(weekly))
+  return false
+}
+
+/**
+ * Test 3: Monthly and yearly reminders clamp to the end of shorter months
+ */
+export function testMonthEndClamping() {
+  console.log('[Reminders 3] Testing month-end clamping...')
+
+  const jan31 = new Date(2025, 0, 31, 8, 0).getTime()
+  const leapDay = new Date(2024, 1, 29, 8, 0).getTime()
+
+  const february = getNextOccurrence({ at: jan31, repeat: 'monthly' }, jan31)
+  const march = getNextOccurrence({ at: jan31, repeat: 'monthly' }, february)
+  const nextYear = getNextOccurrence({ at: leapDay, repeat: 'yearly' }, leapDay)
+
+  const passed = february === new Date(2025, 1, 28, 8, 0).getTime() &&
+    march === new Date(2025, 2, 31, 8, 0).getTime() &&
+    nextYear === new Date(2025, 1, 28, 8, 0).getTime()
+
+  if (passed) {
+    console.log('[Reminders 3] ✓ Clamped correctly')
+    return true
+  }
+  console.error('[Reminders 3] ✗ Unexpected dates:', new Date(february), new Date(march), new Date(nextYear))
+  return false
+}
+
+/**
+ * Test 4: Upcoming notes are sorted by reminder time, skipping finished and deleted ones
+ */
+export function testUpcomingNotes() {
+  console.log('[Reminders 4] Testing upcoming notes...')
+
+  const now = Date.now()
+  const notes = [
+    makeNote({ id: 'later', reminder: { at: now + 2 * HOUR, repeat: 'none' } }),
+    makeNote({ id: 'none' }),
+    makeNote({ id: 'done', reminder: { at: now - HOUR, repeat: 'none', notifiedAt: now } }),
+    makeNote({ id: 'soon', reminder: { at: now + HOUR, repeat: 'weekly' } }),
+    makeNote({ id: 'deleted', reminder: { at: now, repeat: 'none' }, isDeleted: true })
+  ]
+
+  const ids = getUpcomingNotes(notes).map(note => note.id)
+  if (ids.join(',') === 'soon,later') {
+    console.log('[Reminders 4] ✓ Upcoming:', ids)
+    return true
+  }
+  console.error('[Reminders 4] ✗ Unexpected order:', ids)
+  return false
+}
+
+/**
+ * Run all reminder tests
+ */
+export function runAllRemindersTests() {
+  console.log('[Reminders Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    oneOff: testOneOffReminder(),
+    recurring: testRecurringReminder(),
+    monthEnd: testMonthEndClamping(),
+    upcoming: testUpcomingNotes()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Reminders Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).remindersTests = {
+    testOneOffReminder,
+    testRecurringReminder,
+    testMonthEndClamping,
+    testUpcomingNotes,
+    runAllRemindersTests
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Tests for the full-text search index
+ *
+ * Verifies tokenization across scripts (Latin, CJK, Thai), prefix and
+ * multi-word matching, incremental updates, and lookup speed at 10k notes.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.searchIndexTests.runAllSearchIndexTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { tokenize, createIndexEntry, SearchIndex } from '../searchIndex'
+import { makeNote } from './fixtures'
+
+function matchIds(index: SearchIndex, query: string): string[] {
+  return Array.from(index.search(query).keys()).sort()
+}
+
+/**
+ * Test 1: Text is split into normalized tokens per script
+ */
+export function testTokenize() {
+  console.log('[SearchIndex 1] Testing tokenization...')
+
+  const checks: [string, string[]][] = [
+    ['Café <b>Notes</b>, 2026!', ['cafe', 'b', 'notes', 'b', '2026']],
+    ['会议记录', ['会议', '议记', '记录']],
+    ['東京 meeting', ['東京', 'meeting']]
+  ]
+
+  const failed = checks.filter(([text, expected]) => JSON.stringify(tokenize(text)) !== JSON.stringify(expected))
+
+  // Thai has no spaces - words come from the segmenter (or bigrams without one)
+  const thai = tokenize('ประชุมทีม')
+  const thaiOk = thai.length > 1 && thai.join('').length <= 'ประชุมทีม'.length * 2
+
+  if (failed.length === 0 && thaiOk) {
+    console.log('[SearchIndex 1] ✓ Tokenized Latin, CJK and Thai text', thai)
+    return true
+  }
+  console.error('[SearchIndex 1] ✗ Unexpected tokens:', failed.map(([text]) => ({ text, got: tokenize(text) })), thai)
+  return false
+}
+
+/**
+ * Test 2: Every word must match, the last one as a prefix
+ */
+export function testSearch() {
+  console.log('[SearchIndex 2] Testing search...')
+
+  const index = new SearchIndex()
+  index.load([
+    createIndexEntry(makeNote({ id: 'a', title: 'Budget review', content: '<p>quarterly numbers</p><img src="data:image/png;base64,QUJD">' })),
+    createIndexEntry(makeNote({ id: 'b', title: 'Groceries', content: '<p>buy bread and milk</p>' })),
+    createIndexEntry(makeNote({ id: 'c', title: '会议记录', content: '<p>東京オフィス</p>' })),
+    createIndexEntry(makeNote({ id: 'd', title: 'Notes', content: '<p>review the budget later</p>' }))
+  ])
+
+  const checks: [string, string[]][] = [
+    ['budget', ['a', 'd']],
+    ['budget rev', ['a', 'd']],
+    ['bu', ['a', 'b', 'd']],
+    ['bu ', []],
+    ['quarterly milk', []],
+    ['记录', ['c']],
+    ['会', ['c']],
+    ['オフィス', ['c']],
+    ['base64', []]
+  ]
+
+  const failed = checks.filter(([query, expected]) => JSON.stringify(matchIds(index, query)) !== JSON.stringify(expected))
+
+  // Title matches score higher
+  const scores = index.search('budget')
+  const titleFirst = (scores.get('a') ?? 0) > (scores.get('d') ?? 0)
+
+  if (failed.length === 0 && titleFirst) {
+    console.log('[SearchIndex 2] ✓ All queries matched')
+    return true
+  }
+  console.error('[SearchIndex 2] ✗ Failed queries:', failed.map(([query]) => ({ query, got: matchIds(index, query) })), { titleFirst })
+  return false
+}
+
+/**
+ * Test 3: Updating and removing notes changes results
+ */
+export function testIncrementalUpdates() {
+  console.log('[SearchIndex 3] Testing incremental updates...')
+
+  const index = new SearchIndex()
+  index.update(createIndexEntry(makeNote({ id: 'a', title: 'Draft', content: '<p>first version</p>', updatedAt: 1000 })))
+  const before = matchIds(index, 'first')
+
+  index.update(createIndexEntry(makeNote({ id: 'a', title: 'Draft', content: '<p>second version</p>', updatedAt: 2000 })))
+  const afterUpdate = [matchIds(index, 'first'), matchIds(index, 'second')]
+  const current = index.isCurrent('a', 2000) && !index.isCurrent('a', 1000)
+
+  index.remove('a')
+  const afterRemove = matchIds(index, 'draft')
+
+  const passed = JSON.stringify(before) === '["a"]' &&
+    JSON.stringify(afterUpdate) === '[[],["a"]]' &&
+    current &&
+    afterRemove.length === 0
+
+  if (passed) {
+    console.log('[SearchIndex 3] ✓ Index follows edits and deletes')
+    return true
+  }
+  console.error('[SearchIndex 3] ✗ Unexpected results:', { before, afterUpdate, current, afterRemove })
+  return false
+}
+
+/**
+ * Test 4: Lookups stay fast with 10k notes
+ */
+export function testPerformance() {
+  console.log('[SearchIndex 4] Testing performance with 10k notes...')
+
+  // 2,000-word vocabulary, 80 words per note
+  const syllables = ['ka', 'lo', 'mi', 'ne', 'ru', 'sa', 'to', 'vi', 'be', 'do']
+  const vocabulary = Array.from({ length: 2000 }, (_, i) =>
+    syllables[i % 10] + syllables[Math.floor(i / 10) % 10] + syllables[Math.floor(i / 100) % 10] + (i >= 1000 ? 'n' : ''))
+  let seed = 42
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+
+  const index = new SearchIndex()
+  const entries = []
+  for (let i = 0; i < 10000; i++) {
+    const body = Array.from({ length: 80 }, () => vocabulary[Math.floor(random() * vocabulary.length)]).join(' ')
+    entries.push(createIndexEntry(makeNote({ id: `n${i}`, title: `Note ${i}`, content: `<p>${body}</p>` })))
+  }
+  index.load(entries)
+
+  const queries = ['kalomi', 'kalomi nerusa', 'kalo', 'ka', 'note 42', 'tovibe dokalo rumi']
+  // First pass builds the sorted token list and warms up the JIT
+  queries.forEach(query => index.search(query))
+  const start = performance.now()
+  for (const query of queries) {
+    index.search(query)
+  }
+  const average = (performance.now() - start) / queries.length
+
+  if (average < 5) {
+    console.log(`[SearchIndex 4] ✓ Average query took ${average.toFixed(2)}ms`)
+    return true
+  }
+  console.error(`[SearchIndex 4] ✗ Average query took ${average.toFixed(2)}ms`)
+  return false
+}
+
+/**
+ * Run all search index tests
+ */
+export function runAllSearchIndexTests() {
+  console.log('[SearchIndex Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    tokenize: testTokenize(),
+    search: testSearch(),
+    incremental: testIncrementalUpdates(),
+    performance: testPerformance()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[SearchIndex Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).searchIndexTests = {
+    testTokenize,
+    testIncrementalUpdates,
+    testSearch,
+    testPerformance,
+    runAllSearchIndexTests
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for the search query language
+ *
+ * Verifies that operators, phrases and exclusions are parsed into terms,
+ * that notes are filtered by them, and that only positive words are highlighted.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.searchQueryTests.runAllSearchQueryTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { parseSearchQuery, searchNotes, highlightText } from '../search'
+import { makeNote } from './fixtures'
+
+// Edited after the 2026-01-01 cutoff the date filters below use
+const EDITED_AT = new Date(2026, 0, 15).getTime()
+
+const notes = [
+  makeNote({ id: 'pinned', updatedAt: EDITED_AT, title: 'Weekly report', content: '<p>draft for the team</p>', isPinned: true }),
+  makeNote({ id: 'tasks', updatedAt: EDITED_AT, title: 'Groceries', content: '<ul data-type="taskList"><li data-type="taskItem">milk</li></ul>', style: { backgroundColor: '#F28B82' } }),
+  makeNote({ id: 'image', title: 'Trip', content: '<p>beach</p><img src="data:x">', updatedAt: new Date(2025, 5, 1).getTime() }),
+  makeNote({ id: 'drawing', updatedAt: EDITED_AT, title: 'Sketch', content: '<img src="data:y" alt="drawing">', style: { backgroundColor: '#5C2B29' } })
+]
+
+function ids(query: string): string[] {
+  return searchNotes(notes, query).map(r => r.note.id).sort()
+}
+
+/**
+ * Test 1: Query is split into typed terms
+ */
+export function testParseQuery() {
+  console.log('[SearchQuery 1] Testing parser...')
+
+  const terms = parseSearchQuery('budget "exact phrase" -draft title:"weekly report" is:pinned has:nothing before:2026-01-01')
+  const summary = terms.map(term => `${term.negated ? '-' : ''}${term.type}=${term.value}`)
+  const expected = [
+    'text=budget',
+    'phrase=exact phrase',
+    '-text=draft',
+    'title=weekly report',
+    'is=pinned',
+    'text=has:nothing',
+    'before=2026-01-01'
+  ]
+
+  if (JSON.stringify(summary) === JSON.stringify(expected)) {
+    console.log('[SearchQuery 1] ✓ Parsed', summary)
+    return true
+  }
+  console.error('[SearchQuery 1] ✗ Unexpected terms:', summary)
+  return false
+}
+
+/**
+ * Test 2: Operators filter notes
+ */
+export function testOperatorsFilter() {
+  console.log('[SearchQuery 2] Testing operators...')
+
+  const checks: [string, string[]][] = [
+    ['is:pinned', ['pinned']],
+    ['-is:pinned has:image', ['drawing', 'image']],
+    ['has:task', ['tasks']],
+    ['has:drawing', ['drawing']],
+    ['before:2026-01-01', ['image']],
+    ['after:2026-01-01', ['drawing', 'pinned', 'tasks']],
+    ['color:coral', ['drawing', 'tasks']],
+    ['"for the team"', ['pinned']],
+    ['-draft title:report', []]
+  ]
+
+  const failed = checks.filter(([query, expected]) => JSON.stringify(ids(query)) !== JSON.stringify(expected))
+  if (failed.length === 0) {
+    console.log('[SearchQuery 2] ✓ All operators matched')
+    return true
+  }
+  console.error('[SearchQuery 2] ✗ Failed queries:', failed.map(([query]) => ({ query, got: ids(query) })))
+  return false
+}
+
+/**
+ * Test 3: Only positive words and phrases are highlighted
+ */
+export function testHighlightPositiveTerms() {
+  console.log('[SearchQuery 3] Testing highlighting...')
+
+  const segments = highlightText('Weekly report draft', 'weekly "report" -draft is:pinned')
+  const highlighted = segments.filter(s => s.highlight).map(s => s.text)
+
+  if (JSON.stringify(highlighted) === JSON.stringify(['Weekly', 'report'])) {
+    console.log('[SearchQuery 3] ✓ Highlighted', highlighted)
+    return true
+  }
+  console.error('[SearchQuery 3] ✗ Unexpected segments:', segments)
+  return false
+}
+
+/**
+ * Run all search query tests
+ */
+export function runAllSearchQueryTests() {
+  console.log('[SearchQuery Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    parse: testParseQuery(),
+    operators: testOperatorsFilter(),
+    highlight: testHighlightPositiveTerms()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[SearchQuery Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).searchQueryTests = {
+    testParseQuery,
+    testOperatorsFilter,
+    testHighlightPositiveTerms,
+    runAllSearchQueryTests
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Tests for keyboard shortcuts
+ *
+ * Verifies that key presses map to the same combo on macOS and elsewhere,
+ * that shortcuts without Mod/Ctrl/Alt are rejected, and that user
+ * overrides (including unbinding) take precedence over the defaults.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.shortcutsTests.runAllShortcutsTests() from the console
+ * 3. Check the console output for results
+ */
+
+import {
+  eventToCombo,
+  isValidShortcut,
+  formatCombo,
+  resolveShortcuts,
+  findShortcutAction
+} from '../shortcuts'
+
+function keyEvent(key: string, code: string, modifiers: { ctrl?: boolean; meta?: boolean; alt?: boolean; shift?: boolean } = {}) {
+  return {
+    key,
+    code,
+    ctrlKey: !!modifiers.ctrl,
+    metaKey: !!modifiers.meta,
+    altKey: !!modifiers.alt,
+    shiftKey: !!modifiers.shift
+  }
+}
+
+/**
+ * Test 1: Cmd on macOS and Ctrl elsewhere both become Mod; Option keys use the physical key
+ */
+export function testEventToCombo() {
+  console.log('[Shortcuts 1] Testing key combos...')
+
+  const mac = eventToCombo(keyEvent('k', 'KeyK', { meta: true }), true)
+  const windows = eventToCombo(keyEvent('k', 'KeyK', { ctrl: true }), false)
+  const option = eventToCombo(keyEvent('˜', 'KeyN', { meta: true, alt: true }), true)
+  const modifierOnly = eventToCombo(keyEvent('Shift', 'ShiftLeft', { shift: true }), false)
+  const macCtrl = eventToCombo(keyEvent('k', 'KeyK', { ctrl: true }), true)
+
+  const passed = mac === 'Mod+K' && windows === 'Mod+K' && option === 'Mod+Alt+N' &&
+    modifierOnly === null && macCtrl === 'Ctrl+K'
+
+  if (passed) {
+    console.log('[Shortcuts 1] ✓ Combos:', { mac, windows, option, macCtrl })
+    return true
+  }
+  console.error('[Shortcuts 1] ✗ Unexpected combos:', { mac, windows, option, modifierOnly, macCtrl })
+  return false
+}
+
+/**
+ * Test 2: Plain and Shift-only keys are rejected, function keys are allowed
+ */
+export function testIsValidShortcut() {
+  console.log('[Shortcuts 2] Testing shortcut validation...')
+
+  const passed = isValidShortcut('Mod+K') && isValidShortcut('Alt+Shift+1') && isValidShortcut('F2') &&
+    !isValidShortcut('K') && !isValidShortcut('Shift+K') &&
+    formatCombo('Mod+Shift+K', true) === '⌘⇧K' && formatCombo('Mod+Shift+K', false) === 'Ctrl+Shift+K'
+
+  if (passed) {
+    console.log('[Shortcuts 2] ✓ Validation and formatting correct')
+    return true
+  }
+  console.error('[Shortcuts 2] ✗ Unexpected validation or formatting')
+  return false
+}
+
+/**
+ * Test 3: Overrides replace defaults and null unbinds
+ */
+export function testResolveShortcuts() {
+  console.log('[Shortcuts 3] Testing overrides...')
+
+  const bindings = resolveShortcuts({ newNote: 'Mod+Alt+M', commandPalette: null, openTrash: 'Mod+K' })
+
+  const passed = findShortcutAction(bindings, 'Mod+Alt+M') === 'newNote' &&
+    findShortcutAction(bindings, 'Mod+Alt+N') === undefined &&
+    findShortcutAction(bindings, 'Mod+K') === 'openTrash' &&
+    bindings.syncNow === 'Mod+Shift+S'
+
+  if (passed) {
+    console.log('[Shortcuts 3] ✓ Overrides applied')
+    return true
+  }
+  console.error('[Shortcuts 3] ✗ Unexpected bindings:', bindings)
+  return false
+}
+
+/**
+ * Run all shortcut tests
+ */
+export function runAllShortcutsTests() {
+  console.log('[Shortcuts Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    combos: testEventToCombo(),
+    validation: testIsValidShortcut(),
+    overrides: testResolveShortcuts()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Shortcuts Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).shortcutsTests = {
+    testEventToCombo,
+    testIsValidShortcut,
+    testResolveShortcuts,
+    runAllShortcutsTests
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for the cross-note task list
+ *
+ * Verifies task extraction from TipTap task list HTML (including nested
+ * lists and @due annotations), ticking tasks off in place, and sorting.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.tasksTests.runAllTasksTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { extractTasks, setTaskChecked, getOpenTaskGroups, parseDueDate } from '../tasks'
+import { makeNote } from './fixtures'
+
+function taskItem(text: string, checked = false, nested = ''): string {
+  const input = checked ? '<input type="checkbox" checked="checked">' : '<input type="checkbox">'
+  return `<li data-checked="${checked}" data-type="taskItem"><label>${input}<span></span></label><div><p>${text}</p>${nested}</div></li>`
+}
+
+function taskList(...items: string[]): string {
+  return `<ul data-type="taskList">${items.join('')}</ul>`
+}
+
+/**
+ * Test 1: Tasks are extracted in order with their own text and due dates
+ */
+export function testExtractTasks() {
+  console.log('[Tasks 1] Testing extraction...')
+
+  const html = '<p>Groceries</p>' + taskList(
+    taskItem('Buy milk &amp; eggs @due(2025-03-01)', false, taskList(taskItem('Oat milk', true))),
+    taskItem('Call mom @due(2025-02-20 18:30)')
+  )
+  const tasks = extractTasks(html, 'n1')
+
+  const passed = tasks.length === 3 &&
+    tasks[0].text === 'Buy milk & eggs' && !tasks[0].checked &&
+    tasks[0].due === new Date(2025, 2, 1).getTime() && !tasks[0].hasDueTime &&
+    tasks[1].text === 'Oat milk' && tasks[1].checked && tasks[1].due === undefined &&
+    tasks[2].due === new Date(2025, 1, 20, 18, 30).getTime() && tasks[2].hasDueTime === true
+
+  if (passed) {
+    console.log('[Tasks 1] ✓ Extracted', tasks.map(task => task.text))
+    return true
+  }
+  console.error('[Tasks 1] ✗ Unexpected tasks:', tasks)
+  return false
+}
+
+/**
+ * Test 2: Ticking a task only changes that task
+ */
+export function testSetTaskChecked() {
+  console.log('[Tasks 2] Testing ticking off...')
+
+  const html = taskList(taskItem('First'), taskItem('Second'), taskItem('Third', true))
+  const ticked = setTaskChecked(html, 1, true)
+  const unticked = setTaskChecked(ticked, 2, false)
+  const states = extractTasks(unticked, 'n').map(task => task.checked)
+
+  const passed = states.join(',') === 'false,true,false' &&
+    setTaskChecked(html, 5, true) === html &&
+    !/<input[^>]*checked[^>]*><span><\/span><\/label><div><p>Third/.test(unticked)
+
+  if (passed) {
+    console.log('[Tasks 2] ✓ States:', states)
+    return true
+  }
+  console.error('[Tasks 2] ✗ Unexpected HTML:', unticked)
+  return false
+}
+
+/**
+ * Test 3: Invalid due dates are ignored
+ */
+export function testParseDueDate() {
+  console.log('[Tasks 3] Testing due dates...')
+
+  const passed = parseDueDate('pay rent @due(2025-02-30)') === null &&
+    parseDueDate('no annotation') === null &&
+    parseDueDate('@DUE(2025-12-01T09:00)')?.hasTime === true
+
+  if (passed) {
+    console.log('[Tasks 3] ✓ Due dates parsed')
+    return true
+  }
+  console.error('[Tasks 3] ✗ Unexpected parse results')
+  return false
+}
+
+/**
+ * Test 4: Groups only hold open tasks and sort by due date or by note
+ */
+export function testOpenTaskGroups() {
+  console.log('[Tasks 4] Testing grouping...')
+
+  const notes = [
+    makeNote({ id: 'recent', content: taskList(taskItem('Undated')), updatedAt: 3 }),
+    makeNote({ id: 'done', content: taskList(taskItem('Finished', true)), updatedAt: 2 }),
+    makeNote({ id: 'dated', content: taskList(taskItem('Later @due(2025-05-01)'), taskItem('Sooner @due(2025-04-01)')), updatedAt: 1 }),
+    makeNote({ id: 'trashed', content: taskList(taskItem('Gone')), updatedAt: 4, isDeleted: true })
+  ]
+
+  const byDue = getOpenTaskGroups(notes, 'due')
+  const byNote = getOpenTaskGroups(notes, 'note')
+
+  const passed = byDue.map(group => group.note.id).join(',') === 'dated,recent' &&
+    byDue[0].tasks.map(task => task.text).join(',') === 'Sooner,Later' &&
+    byNote.map(group => group.note.id).join(',') === 'recent,dated' &&
+    byNote[1].tasks.map(task => task.text).join(',') === 'Later,Sooner'
+
+  if (passed) {
+    console.log('[Tasks 4] ✓ Grouped and sorted')
+    return true
+  }
+  console.error('[Tasks 4] ✗ Unexpected groups:', byDue, byNote)
+  return false
+}
+
+/**
+ * Run all task tests
+ */
+export function runAllTasksTests() {
+  console.log('[Tasks Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    extract: testExtractTasks(),
+    check: testSetTaskChecked(),
+    due: testParseDueDate(),
+    groups: testOpenTaskGroups()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Tasks Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).tasksTests = {
+    testExtractTasks,
+    testSetTaskChecked,
+    testParseDueDate,
+    testOpenTaskGroups,
+    runAllTasksTests
+  }
+}
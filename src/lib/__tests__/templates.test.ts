@@ -0,0 +1,116 @@
+/**
+ * Tests for note templates
+ *
+ * Verifies that custom fields are found once each (built-ins excluded),
+ * that placeholders are filled with HTML escaping in content, and that
+ * synced template lists respect deletions.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.templatesTests.runAllTemplatesTests() from the console
+ * 3. Check the console output for results
+ */
+
+import type { NoteTemplate } from '@/types'
+import { applyTemplate, getTemplateFields, getBuiltInValues } from '../templates'
+import { mergeTemplates } from '../sync/conflictResolver'
+
+function createTemplate(id: string, version = 1, updatedAt = 0): NoteTemplate {
+  return { id, name: id, title: '', content: '', createdAt: 0, updatedAt, version, syncStatus: 'synced' }
+}
+
+/**
+ * Test 1: Custom fields are listed in order, without built-ins or duplicates
+ */
+export function testGetTemplateFields() {
+  console.log('[Templates 1] Testing field detection...')
+
+  const fields = getTemplateFields({
+    title: 'Stand-up {{ Date }} – {{Team}}',
+    content: '<p>{{team}} {{Team}} {{weekday}}</p><p>Owner: {{Q&amp;A lead}}</p>'
+  })
+
+  if (fields.join('|') === 'Team|team|Q&A lead') {
+    console.log('[Templates 1] ✓ Fields:', fields)
+    return true
+  }
+  console.error('[Templates 1] ✗ Unexpected fields:', fields)
+  return false
+}
+
+/**
+ * Test 2: Placeholders are filled, content values are escaped, unknown ones are kept
+ */
+export function testApplyTemplate() {
+  console.log('[Templates 2] Testing placeholder filling...')
+
+  const now = new Date(2026, 2, 2, 9, 30).getTime()
+  const builtIns = getBuiltInValues(now)
+  const { title, content } = applyTemplate(
+    { title: '{{date}} {{Team}}', content: '<p>{{ WEEKDAY }} at {{time}}: {{Team}} {{missing}}</p>' },
+    { Team: '<R&D>' },
+    now
+  )
+
+  const passed = title === `${builtIns.date} <R&D>` &&
+    content === `<p>${builtIns.weekday} at ${builtIns.time}: &lt;R&amp;D&gt; {{missing}}</p>` &&
+    builtIns.weekday === 'Monday'
+
+  if (passed) {
+    console.log('[Templates 2] ✓ Filled:', title, content)
+    return true
+  }
+  console.error('[Templates 2] ✗ Unexpected result:', { title, content, builtIns })
+  return false
+}
+
+/**
+ * Test 3: Newer versions win and templates deleted after their last update are dropped
+ */
+export function testMergeTemplates() {
+  console.log('[Templates 3] Testing template merge...')
+
+  const local = [createTemplate('a', 2, 10), createTemplate('b', 1, 10), createTemplate('c', 1, 10)]
+  const remote = [createTemplate('a', 1, 20), createTemplate('b', 1, 10), createTemplate('d', 1, 10)]
+  const tombstones = new Map([['b', 50], ['c', 5]])
+
+  const merged = mergeTemplates(local, remote, tombstones)
+  const summary = merged.map(t => `${t.id}${t.version}`).sort().join(',')
+
+  if (summary === 'a2,c1,d1') {
+    console.log('[Templates 3] ✓ Merged:', summary)
+    return true
+  }
+  console.error('[Templates 3] ✗ Unexpected merge:', summary)
+  return false
+}
+
+/**
+ * Run all template tests
+ */
+export function runAllTemplatesTests() {
+  console.log('[Templates Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    fields: testGetTemplateFields(),
+    apply: testApplyTemplate(),
+    merge: testMergeTemplates()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[Templates Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).templatesTests = {
+    testGetTemplateFields,
+    testApplyTemplate,
+    testMergeTemplates,
+    runAllTemplatesTests
+  }
+}
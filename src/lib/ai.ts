@@ -1,9 +1,22 @@
-// AI Service - calls backend API with credits support
+// AI Service - calls the AI provider chosen in settings, streaming answers as they're generated.
+// The G-Note backend is paid with AI credits; an OpenAI-compatible server of the user's own is not.
 
 import { useCreditsStore } from '@/stores/creditsStore'
 import { useAuthStore } from '@/stores/authStore'
 import { useNetworkStore, NetworkRequiredError } from '@/stores/networkStore'
-import type { AICreditsInfo } from '@/types'
+import { useAIProviderStore, type AIProviderSettings } from '@/stores/aiProviderStore'
+import { readServerSentEvents } from '@/lib/sse'
+import { getChatContext, type ChatTurn } from '@/lib/chatThreads'
+import {
+  buildPrompt,
+  getEndpointUrl,
+  isLocalUrl,
+  readCompletionText,
+  type AIEndpoint,
+  type ChatCompletionChunk,
+  type PromptBody
+} from '@/lib/openAICompatible'
+import type { AICreditsInfo, AIChatMessage, AIChatThread } from '@/types'
 
 const API_URL = import.meta.env.VITE_API_URL || ''
 
@@ -16,6 +29,13 @@ interface AIResponse {
   _credits?: AICreditsInfo
 }
 
+// Payload of a streamed "token", "done" or "error" event
+interface AIStreamEvent {
+  text?: string
+  error?: string
+  _credits?: AICreditsInfo
+}
+
 export class InsufficientCreditsError extends Error {
   currentBalance: number
   
@@ -26,7 +46,33 @@ export class InsufficientCreditsError extends Error {
   }
 }
 
-async function callAI(endpoint: string, body: Record<string, string>): Promise<string> {
+export interface AIRequestOptions {
+  // Called for each streamed piece of the answer, with the text so far
+  onToken?: (token: string, text: string) => void
+  // Abort to stop generating - the request then resolves with the text so far
+  signal?: AbortSignal
+}
+
+export type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'
+
+/**
+ * Where AI requests go. Every action is a request to one of the G-Note
+ * backend's endpoints; other providers turn it into a prompt of their own.
+ */
+export interface AIProvider {
+  generate: (endpoint: AIEndpoint, body: PromptBody, options?: AIRequestOptions) => Promise<string>
+  embed: (texts: string[], taskType: EmbeddingTask, signal?: AbortSignal) => Promise<number[][]>
+  // Model the embeddings come from - empty when the provider can't embed
+  embeddingModel: string
+}
+
+// The server bills a stopped answer once it notices the disconnect
+const STOPPED_CREDITS_REFRESH_DELAY = 1500
+
+const GNOTE_EMBEDDING_MODEL = 'text-embedding-004'
+
+// POST to a G-Note backend AI endpoint - resolves null if the request was aborted
+async function requestAI(endpoint: string, body: object, signal?: AbortSignal): Promise<Response | null> {
   // Check network status first
   const { isOnline } = useNetworkStore.getState()
   if (!isOnline) {
@@ -41,20 +87,30 @@ async function callAI(endpoint: string, body: Record<string, string>): Promise<s
   const userId = useAuthStore.getState().user?.id
   
   const headers: Record<string, string> = { 
-    'Content-Type': 'application/json'
+    'Content-Type': 'application/json',
+    'Accept': 'text/event-stream'
   }
   
   if (userId) {
     headers['x-user-id'] = userId
   }
 
-  const response = await fetch(`${API_URL}/ai/${endpoint}`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(body)
-  })
+  try {
+    return await fetch(`${API_URL}/ai/${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    })
+  } catch (error) {
+    if (signal?.aborted) return null
+    throw error
+  }
+}
 
-  const data: AIResponse = await response.json()
+// Read a JSON response, turning errors into exceptions and updating credits
+async function readAIResponse<T extends Omit<AIResponse, 'result'>>(response: Response): Promise<T> {
+  const data: T = await response.json()
   
   // Handle insufficient credits
   if (response.status === 402 || data.code === 'INSUFFICIENT_CREDITS') {
@@ -73,31 +129,269 @@ async function callAI(endpoint: string, body: Record<string, string>): Promise<s
     useCreditsStore.getState().updateCreditsFromResponse(data._credits)
   }
 
-  return data.result
+  return data
+}
+
+async function callBackend(endpoint: AIEndpoint, body: PromptBody, { onToken, signal }: AIRequestOptions = {}): Promise<string> {
+  const response = await requestAI(endpoint, body, signal)
+  if (!response) return ''
+
+  // Errors come back as JSON before any streaming starts
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream') || !response.body) {
+    const { result } = await readAIResponse<AIResponse>(response)
+    onToken?.(result, result)
+    return result
+  }
+
+  let text = ''
+  try {
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      const payload: AIStreamEvent = JSON.parse(data)
+      if (event === 'token' && payload.text) {
+        text += payload.text
+        onToken?.(payload.text, text)
+      } else if (event === 'done' && payload._credits) {
+        useCreditsStore.getState().updateCreditsFromResponse(payload._credits)
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'AI request failed')
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error
+    const userId = useAuthStore.getState().user?.id
+    if (userId) {
+      setTimeout(() => useCreditsStore.getState().refreshCredits(userId), STOPPED_CREDITS_REFRESH_DELAY)
+    }
+  }
+
+  return text
+}
+
+interface AIEmbedResponse extends Omit<AIResponse, 'result'> {
+  embeddings: number[][]
+}
+
+const gnoteProvider: AIProvider = {
+  generate: callBackend,
+  embed: async (texts, taskType, signal) => {
+    const response = await requestAI('embed', { texts, taskType }, signal)
+    if (!response) return []
+    const { embeddings } = await readAIResponse<AIEmbedResponse>(response)
+    return embeddings
+  },
+  embeddingModel: GNOTE_EMBEDDING_MODEL
+}
+
+interface ServerErrorResponse {
+  error?: string | { message?: string }
+}
+
+interface EmbeddingsResponse extends ServerErrorResponse {
+  data?: { embedding: number[]; index: number }[]
+}
+
+function getServerError(data: ServerErrorResponse): string | undefined {
+  return typeof data.error === 'string' ? data.error : data.error?.message
+}
+
+// POST to the user's own server - resolves null if the request was aborted
+async function requestServer(settings: AIProviderSettings, path: string, body: object, signal?: AbortSignal): Promise<Response | null> {
+  const { isOnline } = useNetworkStore.getState()
+  if (!isOnline && !isLocalUrl(settings.baseUrl)) {
+    throw new NetworkRequiredError('AI features require an internet connection')
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`
+  }
+
+  let response: Response
+  try {
+    response = await fetch(getEndpointUrl(settings.baseUrl, path), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    })
+  } catch (error) {
+    if (signal?.aborted) return null
+    throw error
+  }
+
+  if (!response.ok) {
+    const data: ServerErrorResponse = await response.json().catch(() => ({}))
+    throw new Error(getServerError(data) || `AI server error (${response.status})`)
+  }
+  return response
+}
+
+/**
+ * An OpenAI-compatible server, e.g. Ollama or llama.cpp - prompts are sent
+ * to /chat/completions and streamed back, no credits involved
+ */
+function createOpenAICompatibleProvider(settings: AIProviderSettings): AIProvider {
+  return {
+    generate: async (endpoint, body, { onToken, signal } = {}) => {
+      const response = await requestServer(settings, 'chat/completions', {
+        model: settings.model.trim(),
+        messages: [{ role: 'user', content: buildPrompt(endpoint, body) }],
+        stream: true
+      }, signal)
+      if (!response) return ''
+
+      // Servers that don't stream answer with the whole completion
+      if (!response.headers.get('Content-Type')?.includes('text/event-stream') || !response.body) {
+        const data: ChatCompletionChunk & ServerErrorResponse = await response.json()
+        const error = getServerError(data)
+        if (error) throw new Error(error)
+        const result = readCompletionText(data)
+        onToken?.(result, result)
+        return result
+      }
+
+      let text = ''
+      try {
+        for await (const { data } of readServerSentEvents(response.body)) {
+          if (data === '[DONE]') break
+          const chunk: ChatCompletionChunk & ServerErrorResponse = JSON.parse(data)
+          const error = getServerError(chunk)
+          if (error) throw new Error(error)
+          const token = readCompletionText(chunk)
+          if (token) {
+            text += token
+            onToken?.(token, text)
+          }
+        }
+      } catch (error) {
+        if (!signal?.aborted) throw error
+      }
+      return text
+    },
+
+    embed: async (texts, _taskType, signal) => {
+      const response = await requestServer(settings, 'embeddings', { model: settings.embeddingModel.trim(), input: texts }, signal)
+      if (!response) return []
+      const data: EmbeddingsResponse = await response.json()
+      const error = getServerError(data)
+      if (error || !data.data) throw new Error(error || 'AI request failed')
+      return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+    },
+
+    embeddingModel: settings.embeddingModel.trim()
+  }
+}
+
+/**
+ * The provider chosen in settings
+ */
+export function getAIProvider(): AIProvider {
+  const settings = useAIProviderStore.getState()
+  if (settings.provider !== 'openai-compatible') return gnoteProvider
+
+  // Never fall back to the paid backend without being asked to
+  if (!settings.baseUrl.trim() || !settings.model.trim()) {
+    throw new Error('AI server not configured')
+  }
+  return createOpenAICompatibleProvider(settings)
+}
+
+async function callAI(endpoint: AIEndpoint, body: PromptBody, options?: AIRequestOptions): Promise<string> {
+  return getAIProvider().generate(endpoint, body, options)
+}
+
+export async function summarize(content: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('summarize', { content }, options)
+}
+
+export async function continueWriting(content: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('continue', { content }, options)
+}
+
+export async function improveWriting(content: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('improve', { content }, options)
+}
+
+export async function translate(content: string, targetLanguage: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('translate', { content, targetLanguage }, options)
 }
 
-export async function summarize(content: string): Promise<string> {
-  return callAI('summarize', { content })
+export async function extractTasks(content: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('extract-tasks', { content }, options)
 }
 
-export async function continueWriting(content: string): Promise<string> {
-  return callAI('continue', { content })
+export async function askAI(content: string, question: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('ask', { content, question }, options)
 }
 
-export async function improveWriting(content: string): Promise<string> {
-  return callAI('improve', { content })
+export interface ThreadAnswer {
+  answer: string
+  // The thread's summary, updated when older turns were folded into it
+  summary?: string
+  summarizedCount?: number
+}
+
+/**
+ * Ask a follow-up question in a chat thread, sending its earlier turns along.
+ * Turns beyond the context budget are summarized first.
+ */
+export async function askInThread(
+  content: string,
+  thread: Pick<AIChatThread, 'messages' | 'summary' | 'summarizedCount'>,
+  question: string,
+  options?: AIRequestOptions
+): Promise<ThreadAnswer> {
+  const { history, pending } = getChatContext(thread)
+  let { summary, summarizedCount } = thread
+
+  if (pending.length > 0) {
+    summary = await summarizeChat(pending, summary, { signal: options?.signal })
+    if (options?.signal?.aborted) return { answer: '' }
+    summarizedCount = (summarizedCount ?? 0) + pending.length
+  }
+
+  const answer = await callAI('ask', { content, question, history, summary }, options)
+  return { answer, summary, summarizedCount }
 }
 
-export async function translate(content: string, targetLanguage: string): Promise<string> {
-  return callAI('translate', { content, targetLanguage })
+// Fold older chat turns into the running summary of the conversation
+export async function summarizeChat(turns: ChatTurn[], summary?: string, options?: AIRequestOptions): Promise<string> {
+  const messages = turns.map(({ role, content }) => ({ role, content }))
+  return callAI('summarize-chat', { messages, summary }, options)
+}
+
+// Run a custom AI action's prompt, filled in with the note's text
+export async function runPromptAction(prompt: string, options?: AIRequestOptions): Promise<string> {
+  return callAI('custom', { prompt }, options)
+}
+
+export interface NoteExcerpt {
+  title: string
+  text: string
+}
+
+// Answer from excerpts of the user's notes, citing them as [1], [2]...
+export async function askNotes(question: string, excerpts: NoteExcerpt[], options?: AIRequestOptions): Promise<string> {
+  return callAI('ask-notes', { question, excerpts }, options)
+}
+
+// Texts embedded per request
+export const MAX_EMBEDDING_BATCH = 50
+
+export async function embedTexts(texts: string[], taskType: EmbeddingTask, signal?: AbortSignal): Promise<number[][]> {
+  return getAIProvider().embed(texts, taskType, signal)
 }
 
-export async function extractTasks(content: string): Promise<string> {
-  return callAI('extract-tasks', { content })
+// Model of the embeddings embedTexts returns - empty when they're unavailable
+export function getEmbeddingModel(): string {
+  return getAIProvider().embeddingModel
 }
 
-export async function askAI(content: string, question: string): Promise<string> {
-  return callAI('ask', { content, question })
+// Add a chat message, or replace it while its answer is still streaming in
+export function upsertChatMessage(messages: AIChatMessage[], message: AIChatMessage): AIChatMessage[] {
+  return messages.some(m => m.id === message.id)
+    ? messages.map(m => m.id === message.id ? message : m)
+    : [...messages, message]
 }
 
 // Languages for translation with country codes for flags
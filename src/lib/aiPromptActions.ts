@@ -0,0 +1,39 @@
+/**
+ * Custom AI actions
+ * A custom action's prompt is a template: {{selection}} is the text selected
+ * in the editor - the whole note when nothing is selected - and {{note}} is
+ * the whole note. A prompt without placeholders gets the text appended.
+ */
+import type { AIPromptOutput } from '@/types'
+
+export const PROMPT_PLACEHOLDERS = ['selection', 'note'] as const
+
+export const AI_PROMPT_OUTPUTS: AIPromptOutput[] = ['replace', 'insert-below', 'new-note']
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(selection|note)\s*\}\}/gi
+
+export interface PromptValues {
+  selection: string
+  note: string
+}
+
+/**
+ * Whether a prompt template mentions any placeholder
+ */
+export function hasPromptPlaceholder(template: string): boolean {
+  return new RegExp(PLACEHOLDER_PATTERN.source, 'i').test(template)
+}
+
+/**
+ * The prompt to send for an action
+ */
+export function fillPromptTemplate(template: string, { selection, note }: PromptValues): string {
+  const text = selection.trim() ? selection : note
+
+  if (!hasPromptPlaceholder(template)) {
+    return `${template.trim()}\n\n${text}`
+  }
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+    name.toLowerCase() === 'note' ? note : text
+  )
+}
@@ -0,0 +1,81 @@
+/**
+ * Ask your notes
+ * Finds the passages of the user's notes that best match a question, to be
+ * sent to the AI as excerpts. Keyword ranking runs on the device; with
+ * embeddings enabled, passages are also ranked by meaning. Passage
+ * embeddings are cached in IndexedDB and only refreshed for edited notes,
+ * or when the AI provider's embedding model changes.
+ */
+import type { Note } from '@/types'
+import * as AI from '@/lib/ai'
+import { getPassageEmbeddings, savePassageEmbeddings, removePassageEmbeddings } from '@/lib/db/embeddingRepository'
+import {
+  splitIntoPassages,
+  rankByKeywords,
+  rankBySimilarity,
+  fuseRankings,
+  selectExcerpts,
+  type NotePassage,
+  type RankedPassage
+} from '@/lib/noteRetrieval'
+
+export interface RetrieveOptions {
+  useEmbeddings?: boolean
+  signal?: AbortSignal
+}
+
+/**
+ * Embed passages that aren't cached yet and rank all passages by similarity
+ */
+async function rankByEmbeddings(notes: Note[], passages: NotePassage[], question: string, model: string, signal?: AbortSignal): Promise<RankedPassage[]> {
+  const updatedAt = new Map(notes.map(note => [note.id, note.updatedAt]))
+  const vectors = new Map<string, number[]>()
+  const outdated = new Set<string>()
+
+  for (const record of await getPassageEmbeddings()) {
+    if (updatedAt.get(record.noteId) === record.updatedAt && (record.model ?? '') === model) {
+      vectors.set(record.id, record.vector)
+    } else {
+      outdated.add(record.noteId)
+    }
+  }
+  if (outdated.size > 0) {
+    await removePassageEmbeddings(Array.from(outdated))
+  }
+
+  const missing = passages.filter(passage => !vectors.has(passage.id))
+  for (let i = 0; i < missing.length; i += AI.MAX_EMBEDDING_BATCH) {
+    const batch = missing.slice(i, i + AI.MAX_EMBEDDING_BATCH)
+    const embeddings = await AI.embedTexts(batch.map(passage => `${passage.title}\n${passage.text}`), 'RETRIEVAL_DOCUMENT', signal)
+    if (signal?.aborted) return []
+    const records = batch.map((passage, index) => ({
+      id: passage.id,
+      noteId: passage.noteId,
+      updatedAt: updatedAt.get(passage.noteId)!,
+      model,
+      vector: embeddings[index]
+    }))
+    records.forEach(record => vectors.set(record.id, record.vector))
+    await savePassageEmbeddings(records)
+  }
+
+  const [queryVector] = await AI.embedTexts([question], 'RETRIEVAL_QUERY', signal)
+  if (!queryVector) return []
+  return rankBySimilarity(passages, vectors, queryVector)
+}
+
+/**
+ * The excerpts to answer a question from
+ */
+export async function retrieveExcerpts(notes: Note[], question: string, { useEmbeddings, signal }: RetrieveOptions = {}): Promise<NotePassage[]> {
+  const passages = notes.flatMap(splitIntoPassages)
+  const rankings = [rankByKeywords(passages, question)]
+
+  // Providers without an embedding model only match by keywords
+  const model = useEmbeddings ? AI.getEmbeddingModel() : ''
+  if (model) {
+    rankings.push(await rankByEmbeddings(notes, passages, question, model, signal))
+  }
+
+  return selectExcerpts(fuseRankings(rankings))
+}
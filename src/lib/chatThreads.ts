@@ -0,0 +1,161 @@
+/**
+ * AI chat threads
+ * Each note keeps its conversations with the AI as named threads. A question
+ * is sent with the thread's recent turns that fit a token budget; older turns
+ * are folded into a running summary so follow-ups keep their context.
+ */
+import type { AIChatMessage, AIChatThread } from '@/types'
+import { generateId } from '@/lib/utils'
+
+// Recent turns sent along with a question, in estimated tokens
+export const CHAT_CONTEXT_TOKEN_BUDGET = 2000
+
+// Id of the thread holding chat history saved before threads existed -
+// fixed so every device migrates it to the same thread
+export const LEGACY_THREAD_ID = 'legacy'
+
+const THREAD_NAME_LENGTH = 40
+
+export interface ChatTurn {
+  role: AIChatMessage['role']
+  content: string
+}
+
+export interface ChatContext {
+  history: ChatTurn[]            // Recent turns, sent as they are
+  pending: AIChatMessage[]       // Older turns not yet in the summary
+}
+
+// Rough token count - about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function isThread(entry: AIChatThread | AIChatMessage): entry is AIChatThread {
+  return Array.isArray((entry as AIChatThread).messages)
+}
+
+/**
+ * A note's chat threads, most recently used first. Plain message lists from
+ * before threads existed become a single thread.
+ */
+export function getChatThreads(history: AIChatThread[] | AIChatMessage[] | undefined): AIChatThread[] {
+  if (!history || history.length === 0) return []
+
+  const entries: (AIChatThread | AIChatMessage)[] = history
+  const threads = entries.filter(isThread)
+  const legacyMessages = entries.filter((entry): entry is AIChatMessage => !isThread(entry))
+
+  if (legacyMessages.length > 0) {
+    const timestamps = legacyMessages.map(m => m.timestamp)
+    threads.push({
+      id: LEGACY_THREAD_ID,
+      name: '',
+      messages: legacyMessages,
+      createdAt: Math.min(...timestamps),
+      updatedAt: Math.max(...timestamps)
+    })
+  }
+
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export function createChatThread(question: string): AIChatThread {
+  const now = Date.now()
+  return {
+    id: generateId(),
+    name: getThreadName(question),
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Default thread name from its first question
+export function getThreadName(question: string): string {
+  const name = question.replace(/\s+/g, ' ').trim()
+  return name.length > THREAD_NAME_LENGTH ? `${name.slice(0, THREAD_NAME_LENGTH - 1).trimEnd()}…` : name
+}
+
+/**
+ * Add or replace a message in a thread, moving the thread to the top
+ */
+export function upsertThreadMessage(threads: AIChatThread[], thread: AIChatThread, message: AIChatMessage): AIChatThread[] {
+  const current = threads.find(t => t.id === thread.id) ?? thread
+  const messages = current.messages.some(m => m.id === message.id)
+    ? current.messages.map(m => m.id === message.id ? message : m)
+    : [...current.messages, message]
+  const updated = { ...current, messages, updatedAt: Date.now() }
+  return [updated, ...threads.filter(t => t.id !== thread.id)]
+}
+
+export function updateChatThread(threads: AIChatThread[], threadId: string, changes: Partial<AIChatThread>): AIChatThread[] {
+  return threads.map(t => t.id === threadId ? { ...t, ...changes } : t)
+}
+
+/**
+ * Split a thread's turns into the recent ones that fit the budget and the
+ * older ones still to be summarized. The latest turn is always sent.
+ */
+export function getChatContext(thread: Pick<AIChatThread, 'messages' | 'summarizedCount'>, budget = CHAT_CONTEXT_TOKEN_BUDGET): ChatContext {
+  const { messages } = thread
+  let start = messages.length
+  let tokens = 0
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content)
+    if (tokens + cost > budget && start < messages.length) break
+    tokens += cost
+    start--
+  }
+
+  return {
+    history: messages.slice(start).map(({ role, content }) => ({ role, content })),
+    pending: messages.slice(thread.summarizedCount ?? 0, start)
+  }
+}
+
+// A summary covers the leading messages of its own copy. Messages from the other
+// copy can sort in between once merged, so count up to its last covered message
+function getMergedSummarizedCount(thread: AIChatThread, merged: AIChatMessage[]): number {
+  const last = thread.summarizedCount ? thread.messages[thread.summarizedCount - 1] : undefined
+  return last ? merged.findIndex(m => m.id === last.id) + 1 : 0
+}
+
+/**
+ * Combine two copies of a note's chat threads - messages are append-only,
+ * so both sides' messages are kept
+ */
+export function mergeChatThreads(
+  local: AIChatThread[] | AIChatMessage[] | undefined,
+  remote: AIChatThread[] | AIChatMessage[] | undefined
+): AIChatThread[] {
+  const merged = new Map<string, AIChatThread>()
+
+  for (const thread of [...getChatThreads(remote), ...getChatThreads(local)]) {
+    const other = merged.get(thread.id)
+    if (!other) {
+      merged.set(thread.id, thread)
+      continue
+    }
+
+    const messages = Array.from(new Map([...other.messages, ...thread.messages].map(m => [m.id, m])).values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+    const newer = thread.updatedAt >= other.updatedAt ? thread : other
+    // Keep whichever summary covers more of the conversation
+    const threadCount = getMergedSummarizedCount(thread, messages)
+    const otherCount = getMergedSummarizedCount(other, messages)
+    const summarized = threadCount >= otherCount ? thread : other
+    const summarizedCount = Math.max(threadCount, otherCount)
+    merged.set(thread.id, {
+      ...newer,
+      messages,
+      summary: summarized.summary,
+      summarizedCount: summarizedCount || undefined,
+      createdAt: Math.min(thread.createdAt, other.createdAt),
+      updatedAt: Math.max(thread.updatedAt, other.updatedAt)
+    })
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.updatedAt - a.updatedAt)
+}
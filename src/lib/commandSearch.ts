@@ -0,0 +1,61 @@
+/**
+ * Command Search
+ * Fuzzy filtering shared by the editor's "/" menu and the command palette.
+ * Commands match on their translated label or any English keyword, so
+ * "/h1" and "todo" work in every app language.
+ */
+
+export interface CommandMatch {
+  label: string
+  keywords?: string[]
+  searchOnly?: boolean   // Hidden until the user types a query (e.g. one entry per language)
+}
+
+const WORD_BOUNDARY = /[\s\-_/:.]/
+
+/**
+ * Score how well `query` matches `text` as an in-order subsequence
+ * Higher is better; null when some query character is missing
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase()
+  const haystack = text.toLowerCase()
+  if (!needle) return 0
+
+  let score = 0
+  let from = 0
+  let previous = -2
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from)
+    if (index < 0) return null
+    if (index === previous + 1) score += 3
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 2
+    score -= (index - from) * 0.1
+    previous = index
+    from = index + 1
+  }
+
+  if (haystack.startsWith(needle)) score += 10
+  return score
+}
+
+/**
+ * Commands matching the query, best first - all commands in their original
+ * order (minus search-only ones) when the query is empty
+ */
+export function filterCommands<T extends CommandMatch>(commands: T[], query: string): T[] {
+  if (!query.trim()) return commands.filter(command => !command.searchOnly)
+
+  const scored: { command: T; score: number }[] = []
+  for (const command of commands) {
+    let best: number | null = null
+    for (const text of [command.label, ...(command.keywords ?? [])]) {
+      const score = fuzzyScore(query, text)
+      if (score !== null && (best === null || score > best)) best = score
+    }
+    if (best !== null) scored.push({ command, score: best })
+  }
+
+  // Array.prototype.sort is stable, so ties keep menu order
+  return scored.sort((a, b) => b.score - a.score).map(({ command }) => command)
+}
@@ -0,0 +1,62 @@
+/**
+ * Daily Notes
+ * Journal entries, one note per day. A daily note is found by its
+ * journalDate key (yyyy-MM-dd, local time) rather than its title, so the
+ * title can use any display format and be renamed freely.
+ */
+import { format } from 'date-fns'
+import type { Note } from '@/types'
+import { getDateFnsLocale } from '@/lib/utils'
+
+// Title formats offered in settings - date-fns tokens, localized by the app language
+export const DAILY_NOTE_FORMATS = ['PPPP', 'PPP', 'PP', 'yyyy-MM-dd'] as const
+export type DailyNoteFormat = typeof DAILY_NOTE_FORMATS[number]
+
+// Notes list filter by kind
+export type NoteKindFilter = 'all' | 'note' | 'daily'
+
+export function getDailyNoteKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+export function parseDailyNoteKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function formatDailyNoteTitle(date: Date, dateFormat: DailyNoteFormat): string {
+  return format(date, dateFormat, { locale: getDateFnsLocale() })
+}
+
+export function isDailyNote(note: Note): boolean {
+  return note.kind === 'daily' && !!note.journalDate
+}
+
+export function matchesKindFilter(note: Note, filter: NoteKindFilter): boolean {
+  if (filter === 'all') return true
+  return filter === 'daily' ? isDailyNote(note) : !isDailyNote(note)
+}
+
+/**
+ * The daily note for a day - the most recently edited one if two devices
+ * each created it while offline
+ */
+export function findDailyNote(notes: Note[], key: string): Note | undefined {
+  let found: Note | undefined
+  for (const note of notes) {
+    if (note.isDeleted || !isDailyNote(note) || note.journalDate !== key) continue
+    if (!found || note.updatedAt > found.updatedAt) found = note
+  }
+  return found
+}
+
+/**
+ * Days that have a daily note, for marking the calendar
+ */
+export function getDailyNoteKeys(notes: Note[]): Set<string> {
+  const keys = new Set<string>()
+  for (const note of notes) {
+    if (!note.isDeleted && isDailyNote(note)) keys.add(note.journalDate!)
+  }
+  return keys
+}
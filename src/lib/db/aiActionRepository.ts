@@ -0,0 +1,37 @@
+/**
+ * AI Action Repository
+ * CRUD operations for custom AI actions
+ */
+import { db } from './schema'
+import type { AIPromptAction } from '@/types'
+
+/**
+ * Get all custom AI actions
+ */
+export async function getAllAIActions(): Promise<AIPromptAction[]> {
+  return db.aiActions.toArray()
+}
+
+/**
+ * Save a single custom AI action
+ */
+export async function saveAIAction(action: AIPromptAction): Promise<void> {
+  await db.aiActions.put(action)
+}
+
+/**
+ * Delete a custom AI action by ID
+ */
+export async function deleteAIAction(id: string): Promise<void> {
+  await db.aiActions.delete(id)
+}
+
+/**
+ * Replace all custom AI actions (after sync)
+ */
+export async function replaceAllAIActions(actions: AIPromptAction[]): Promise<void> {
+  await db.transaction('rw', db.aiActions, async () => {
+    await db.aiActions.clear()
+    await db.aiActions.bulkPut(actions)
+  })
+}
@@ -0,0 +1,27 @@
+/**
+ * Conflict Repository
+ * Persists sync conflicts with both note copies so they can be reviewed later
+ */
+import { db, type ConflictRecord } from './schema'
+
+/**
+ * Save conflict records
+ */
+export async function saveConflictRecords(records: ConflictRecord[]): Promise<void> {
+  await db.conflicts.bulkPut(records)
+}
+
+/**
+ * Get all conflict records, newest first
+ */
+export async function getAllConflictRecords(): Promise<ConflictRecord[]> {
+  const records = await db.conflicts.orderBy('createdAt').toArray()
+  return records.reverse()
+}
+
+/**
+ * Delete a conflict record (after it has been reviewed)
+ */
+export async function deleteConflictRecord(id: string): Promise<void> {
+  await db.conflicts.delete(id)
+}
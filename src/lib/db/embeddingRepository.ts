@@ -0,0 +1,27 @@
+/**
+ * Embedding Repository
+ * Caches note passage embeddings, so each passage is embedded only once
+ * per note revision
+ */
+import { db, type PassageEmbeddingRecord } from './schema'
+
+/**
+ * Get all cached passage embeddings
+ */
+export async function getPassageEmbeddings(): Promise<PassageEmbeddingRecord[]> {
+  return db.passageEmbeddings.toArray()
+}
+
+/**
+ * Save passage embeddings
+ */
+export async function savePassageEmbeddings(records: PassageEmbeddingRecord[]): Promise<void> {
+  await db.passageEmbeddings.bulkPut(records)
+}
+
+/**
+ * Remove the embeddings of notes that changed or no longer exist
+ */
+export async function removePassageEmbeddings(noteIds: string[]): Promise<void> {
+  await db.passageEmbeddings.where('noteId').anyOf(noteIds).delete()
+}
@@ -0,0 +1,40 @@
+/**
+ * Image Blob Repository
+ * Stores note images by content hash, and tracks which are on Drive
+ */
+import { db, type ImageBlobRecord } from './schema'
+
+/**
+ * Get an image blob
+ */
+export async function getImageBlob(id: string): Promise<ImageBlobRecord | undefined> {
+  return db.imageBlobs.get(id)
+}
+
+/**
+ * Check if an image blob is stored locally
+ */
+export async function hasImageBlob(id: string): Promise<boolean> {
+  return (await db.imageBlobs.where('id').equals(id).count()) > 0
+}
+
+/**
+ * Save an image blob
+ */
+export async function saveImageBlob(record: ImageBlobRecord): Promise<void> {
+  await db.imageBlobs.put(record)
+}
+
+/**
+ * Get image blobs not yet uploaded to Drive
+ */
+export async function getPendingImageBlobs(): Promise<ImageBlobRecord[]> {
+  return db.imageBlobs.where('syncStatus').equals('pending').toArray()
+}
+
+/**
+ * Mark an image blob as uploaded
+ */
+export async function markImageBlobSynced(id: string, driveFileId: string): Promise<void> {
+  await db.imageBlobs.update(id, { syncStatus: 'synced', driveFileId })
+}
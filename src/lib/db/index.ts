@@ -3,7 +3,7 @@
  * Re-exports database instance and all repositories
  */
 export { db, GNoteDatabase } from './schema'
-export type { SyncQueueItem, Tombstone, MetadataItem, FileIdCacheItem } from './schema'
+export type { SyncQueueItem, Tombstone, MetadataItem, FileIdCacheItem, ConflictRecord, ImageBlobRecord, PassageEmbeddingRecord } from './schema'
 
 export * from './noteRepository'
 export * from './syncQueueRepository'
@@ -11,6 +11,14 @@ export * from './tombstoneRepository'
 export * from './metadataRepository'
 export * from './migrationRepository'
 export * from './fileIdCacheRepository'
+export * from './syncBaseRepository'
+export * from './conflictRepository'
+export * from './notebookRepository'
+export * from './templateRepository'
+export * from './aiActionRepository'
+export * from './searchIndexRepository'
+export * from './imageBlobRepository'
+export * from './embeddingRepository'
 export * from './utils'
 
 // Re-export priority constants
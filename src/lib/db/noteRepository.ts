@@ -4,12 +4,14 @@
  */
 import { db } from './schema'
 import type { Note } from '@/types'
+import { indexNotes, removeFromSearchIndex, clearSearchIndex } from './searchIndexRepository'
 
 /**
  * Save a single note
  */
 export async function saveNote(note: Note): Promise<void> {
   await db.notes.put(note)
+  await indexNotes([note])
 }
 
 /**
@@ -17,6 +19,7 @@ export async function saveNote(note: Note): Promise<void> {
  */
 export async function saveNotes(notes: Note[]): Promise<void> {
   await db.notes.bulkPut(notes)
+  await indexNotes(notes)
 }
 
 /**
@@ -40,6 +43,30 @@ export async function getNotesByCollection(collectionId: string): Promise<Note[]
   return db.notes.where('collectionId').equals(collectionId).toArray()
 }
 
+/**
+ * Get notes with a tag (uses the multi-entry tags index)
+ */
+export async function getNotesByTag(tag: string): Promise<Note[]> {
+  return db.notes.where('tags').equals(tag).toArray()
+}
+
+/**
+ * Get IDs of notes with a tag or a tag nested under it, e.g. work finds work/meetings
+ * (uses the multi-entry tags index)
+ */
+export async function getNoteIdsByTag(tag: string): Promise<Set<string>> {
+  const ids = await db.notes.where('tags').equals(tag).or('tags').startsWith(`${tag}/`).primaryKeys()
+  return new Set(ids)
+}
+
+/**
+ * Get every tag in use
+ */
+export async function getAllTags(): Promise<string[]> {
+  const keys = await db.notes.orderBy('tags').uniqueKeys()
+  return keys as string[]
+}
+
 /**
  * Get notes by sync status
  */
@@ -61,6 +88,7 @@ export async function getActiveNotes(): Promise<Note[]> {
  */
 export async function deleteNote(id: string): Promise<void> {
   await db.notes.delete(id)
+  await removeFromSearchIndex([id])
 }
 
 /**
@@ -68,6 +96,7 @@ export async function deleteNote(id: string): Promise<void> {
  */
 export async function deleteNotes(ids: string[]): Promise<void> {
   await db.notes.bulkDelete(ids)
+  await removeFromSearchIndex(ids)
 }
 
 /**
@@ -92,4 +121,5 @@ export async function countNotes(): Promise<number> {
  */
 export async function clearNotes(): Promise<void> {
   await db.notes.clear()
+  await clearSearchIndex()
 }
@@ -0,0 +1,44 @@
+/**
+ * Notebook Repository
+ * CRUD operations for notebooks (nested folders for notes)
+ */
+import { db } from './schema'
+import type { Notebook } from '@/types'
+
+/**
+ * Get all notebooks
+ */
+export async function getAllNotebooks(): Promise<Notebook[]> {
+  return db.notebooks.toArray()
+}
+
+/**
+ * Save a single notebook
+ */
+export async function saveNotebook(notebook: Notebook): Promise<void> {
+  await db.notebooks.put(notebook)
+}
+
+/**
+ * Save multiple notebooks
+ */
+export async function saveNotebooks(notebooks: Notebook[]): Promise<void> {
+  await db.notebooks.bulkPut(notebooks)
+}
+
+/**
+ * Delete notebooks by ID
+ */
+export async function deleteNotebooks(ids: string[]): Promise<void> {
+  await db.notebooks.bulkDelete(ids)
+}
+
+/**
+ * Replace all notebooks (after sync)
+ */
+export async function replaceAllNotebooks(notebooks: Notebook[]): Promise<void> {
+  await db.transaction('rw', db.notebooks, async () => {
+    await db.notebooks.clear()
+    await db.notebooks.bulkPut(notebooks)
+  })
+}
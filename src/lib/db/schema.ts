@@ -3,7 +3,10 @@
  * Defines all tables and indexes for offline storage
  */
 import Dexie, { type Table } from 'dexie'
-import type { Note } from '@/types'
+import type { Note, Notebook, NoteTemplate, AIPromptAction } from '@/types'
+import type { ConflictInfo } from '@/lib/sync/types'
+import { extractTags } from '@/lib/tags'
+import type { SearchIndexEntry } from '@/lib/searchIndex'
 
 // ============ Legacy Types (for migration support) ============
 
@@ -42,7 +45,7 @@ export interface SyncQueueItem {
 // ============ Tombstone Types ============
 export interface Tombstone {
   id: string
-  entityType: 'note' | 'collection'
+  entityType: 'note' | 'collection' | 'notebook' | 'template' | 'aiAction'
   deletedAt: number
 }
 
@@ -68,6 +71,35 @@ export interface MigrationBackup {
   version: number
 }
 
+// ============ Conflict Types ============
+export interface ConflictRecord {
+  id: string
+  noteId: string
+  info: ConflictInfo
+  localNote: Note    // Copy on this device when the conflict was detected
+  remoteNote: Note   // Copy on Drive when the conflict was detected
+  createdAt: number
+}
+
+// ============ Image Blob Types ============
+export interface ImageBlobRecord {
+  id: string           // SHA-256 of the image bytes - notes reference images by this
+  blob: Blob
+  size: number
+  createdAt: number
+  syncStatus: 'pending' | 'synced'   // pending = not on Drive yet
+  driveFileId?: string
+}
+
+// ============ Passage Embedding Types ============
+export interface PassageEmbeddingRecord {
+  id: string           // Passage id - `${noteId}:${index}`
+  noteId: string
+  updatedAt: number    // Note updatedAt when embedded - newer notes are embedded again
+  model?: string       // Embedding model - vectors of different models can't be compared
+  vector: number[]
+}
+
 // ============ Database Class ============
 export class GNoteDatabase extends Dexie {
   notes!: Table<Note, string>
@@ -77,6 +109,14 @@ export class GNoteDatabase extends Dexie {
   metadata!: Table<MetadataItem, string>
   fileIdCache!: Table<FileIdCacheItem, string>
   migrationBackup!: Table<MigrationBackup, number>
+  syncBases!: Table<Note, string>
+  conflicts!: Table<ConflictRecord, string>
+  notebooks!: Table<Notebook, string>
+  searchIndex!: Table<SearchIndexEntry, string>
+  imageBlobs!: Table<ImageBlobRecord, string>
+  templates!: Table<NoteTemplate, string>
+  passageEmbeddings!: Table<PassageEmbeddingRecord, string>
+  aiActions!: Table<AIPromptAction, string>
 
   constructor() {
     super('gnote-offline')
@@ -140,6 +180,143 @@ export class GNoteDatabase extends Dexie {
       // This upgrade hook just logs the schema change
       console.log('[Schema] Upgraded to version 10 - collections table removed, collectionId index removed from notes')
     })
+
+    // Version 11: Add sync bases - last synced copy of each note, used as
+    // the common ancestor for three-way merges
+    this.version(11).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id'
+    })
+
+    // Version 12: Add conflicts table - preserves both copies of diverged notes for review
+    this.version(12).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt'
+    })
+
+    // Version 13: Add notebooks table and notebookId index on notes
+    this.version(13).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt'
+    })
+
+    // Version 14: Add multi-entry tags index on notes
+    this.version(14).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId, *tags',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt'
+    }).upgrade(tx => {
+      // Backfill tags for existing notes
+      return tx.table('notes').toCollection().modify((note: Note) => {
+        if (!note.tags) note.tags = extractTags(note.content || '')
+      })
+    })
+
+    // Version 15: Add full-text search index - tokens per note, multi-entry
+    // index on tokens makes it an inverted index (token -> notes)
+    this.version(15).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId, *tags',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt',
+      searchIndex: 'noteId, *tokens'
+    })
+
+    // Version 16: Add image blobs - note images stored once by content hash
+    // instead of inline base64 in note HTML
+    this.version(16).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId, *tags',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt',
+      searchIndex: 'noteId, *tokens',
+      imageBlobs: 'id, syncStatus'
+    })
+
+    // Version 17: Add note templates
+    this.version(17).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId, *tags',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt',
+      searchIndex: 'noteId, *tokens',
+      imageBlobs: 'id, syncStatus',
+      templates: 'id, updatedAt'
+    })
+
+    // Version 18: Add passage embeddings for asking questions across notes
+    this.version(18).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId, *tags',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt',
+      searchIndex: 'noteId, *tokens',
+      imageBlobs: 'id, syncStatus',
+      templates: 'id, updatedAt',
+      passageEmbeddings: 'id, noteId'
+    })
+
+    // Version 19: Add custom AI actions
+    this.version(19).stores({
+      notes: 'id, updatedAt, syncStatus, isDeleted, notebookId, *tags',
+      syncQueue: 'id, entityType, entityId, priority, timestamp, [entityType+entityId]',
+      tombstones: 'id, entityType, deletedAt',
+      metadata: 'key',
+      fileIdCache: 'entityId, entityType',
+      migrationBackup: 'timestamp',
+      syncBases: 'id',
+      conflicts: 'id, noteId, createdAt',
+      notebooks: 'id, parentId, updatedAt',
+      searchIndex: 'noteId, *tokens',
+      imageBlobs: 'id, syncStatus',
+      templates: 'id, updatedAt',
+      passageEmbeddings: 'id, noteId',
+      aiActions: 'id, updatedAt'
+    })
   }
 }
 
@@ -0,0 +1,96 @@
+/**
+ * Search Index Repository
+ * Persists full-text index entries and keeps the in-memory index in step
+ */
+import { db } from './schema'
+import { getMetadata, setMetadata } from './metadataRepository'
+import type { Note } from '@/types'
+import {
+  searchIndex,
+  createIndexEntry,
+  SEARCH_INDEX_VERSION
+} from '@/lib/searchIndex'
+
+const VERSION_KEY = 'searchIndexVersion'
+
+// Notes indexed per batch when rebuilding, so the UI stays responsive
+const REBUILD_BATCH_SIZE = 200
+
+/**
+ * Index notes whose content changed since they were last indexed
+ * Index failures are logged, never thrown - the index can always be rebuilt
+ */
+export async function indexNotes(notes: Note[]): Promise<void> {
+  try {
+    const entries = notes
+      .filter(note => !searchIndex.isCurrent(note.id, note.updatedAt))
+      .map(createIndexEntry)
+    if (entries.length === 0) return
+
+    for (const entry of entries) {
+      searchIndex.update(entry)
+    }
+    await db.searchIndex.bulkPut(entries)
+  } catch (error) {
+    console.error('[SearchIndex] Failed to index notes:', error)
+  }
+}
+
+/**
+ * Remove notes from the index
+ */
+export async function removeFromSearchIndex(noteIds: string[]): Promise<void> {
+  try {
+    for (const id of noteIds) {
+      searchIndex.remove(id)
+    }
+    await db.searchIndex.bulkDelete(noteIds)
+  } catch (error) {
+    console.error('[SearchIndex] Failed to remove notes from index:', error)
+  }
+}
+
+/**
+ * Clear the whole index
+ */
+export async function clearSearchIndex(): Promise<void> {
+  searchIndex.clear()
+  await db.searchIndex.clear()
+}
+
+/**
+ * Load the persisted index into memory, then index notes that are
+ * missing or out of date (first run, or notes saved before an upgrade)
+ */
+export async function loadSearchIndex(notes: Note[]): Promise<void> {
+  try {
+    const version = await getMetadata<number>(VERSION_KEY)
+    if (version !== SEARCH_INDEX_VERSION) {
+      // Tokenizer changed - start over
+      await db.searchIndex.clear()
+      await setMetadata(VERSION_KEY, SEARCH_INDEX_VERSION)
+    }
+
+    searchIndex.load(await db.searchIndex.toArray())
+
+    // Drop entries for notes that no longer exist
+    const noteIds = new Set(notes.map(note => note.id))
+    const stale = searchIndex.getIndexedIds().filter(id => !noteIds.has(id))
+    if (stale.length > 0) {
+      await removeFromSearchIndex(stale)
+    }
+
+    const outdated = notes.filter(note => !searchIndex.isCurrent(note.id, note.updatedAt))
+    for (let i = 0; i < outdated.length; i += REBUILD_BATCH_SIZE) {
+      await indexNotes(outdated.slice(i, i + REBUILD_BATCH_SIZE))
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+
+    if (outdated.length > 0) {
+      console.log(`[SearchIndex] Indexed ${outdated.length} notes`)
+    }
+    searchIndex.markReady()
+  } catch (error) {
+    console.error('[SearchIndex] Failed to load search index:', error)
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Sync Base Repository
+ * Stores the last synced copy of each note as the common ancestor for three-way merges
+ */
+import { db } from './schema'
+import type { Note } from '@/types'
+
+/**
+ * Save synced notes as merge bases
+ */
+export async function saveSyncBases(notes: Note[]): Promise<void> {
+  await db.syncBases.bulkPut(notes)
+}
+
+/**
+ * Get merge bases for the given note IDs
+ */
+export async function getSyncBases(ids: string[]): Promise<Map<string, Note>> {
+  const bases = await db.syncBases.bulkGet(ids)
+  const map = new Map<string, Note>()
+  for (const base of bases) {
+    if (base) map.set(base.id, base)
+  }
+  return map
+}
+
+/**
+ * Delete merge bases (e.g. for permanently deleted notes)
+ */
+export async function deleteSyncBases(ids: string[]): Promise<void> {
+  await db.syncBases.bulkDelete(ids)
+}
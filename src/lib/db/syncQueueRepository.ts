@@ -9,6 +9,7 @@
 import { db, type SyncQueueItem, type Collection } from './schema'
 import type { Note } from '@/types'
 import { v4 as uuidv4 } from 'uuid'
+import { indexNotes } from './searchIndexRepository'
 
 // Re-export SyncQueueItem type for convenience
 export type { SyncQueueItem } from './schema'
@@ -225,6 +226,7 @@ export async function saveNoteWithQueue(
     await db.notes.put(note)
     await addToSyncQueue(queueItem)
   })
+  await indexNotes([note])
 }
 
 /**
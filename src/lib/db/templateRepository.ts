@@ -0,0 +1,37 @@
+/**
+ * Template Repository
+ * CRUD operations for note templates
+ */
+import { db } from './schema'
+import type { NoteTemplate } from '@/types'
+
+/**
+ * Get all templates
+ */
+export async function getAllTemplates(): Promise<NoteTemplate[]> {
+  return db.templates.toArray()
+}
+
+/**
+ * Save a single template
+ */
+export async function saveTemplate(template: NoteTemplate): Promise<void> {
+  await db.templates.put(template)
+}
+
+/**
+ * Delete a template by ID
+ */
+export async function deleteTemplate(id: string): Promise<void> {
+  await db.templates.delete(id)
+}
+
+/**
+ * Replace all templates (after sync)
+ */
+export async function replaceAllTemplates(templates: NoteTemplate[]): Promise<void> {
+  await db.transaction('rw', db.templates, async () => {
+    await db.templates.clear()
+    await db.templates.bulkPut(templates)
+  })
+}
@@ -12,7 +12,7 @@ const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
  */
 export async function addTombstone(
   id: string,
-  entityType: 'note' | 'collection'
+  entityType: 'note' | 'collection' | 'notebook' | 'template' | 'aiAction'
 ): Promise<void> {
   await db.tombstones.put({
     id,
@@ -32,7 +32,7 @@ export async function getAllTombstones(): Promise<Tombstone[]> {
  * Get tombstones by entity type
  */
 export async function getTombstonesByType(
-  entityType: 'note' | 'collection'
+  entityType: 'note' | 'collection' | 'notebook' | 'template' | 'aiAction'
 ): Promise<Tombstone[]> {
   return db.tombstones.where('entityType').equals(entityType).toArray()
 }
@@ -96,7 +96,7 @@ export async function getTombstoneMap(): Promise<Map<string, number>> {
  * Returns format compatible with driveSync
  */
 export async function getTombstonesForSync(
-  entityType: 'note' | 'collection'
+  entityType: 'note' | 'collection' | 'notebook' | 'template' | 'aiAction'
 ): Promise<{ id: string; deletedAt: number }[]> {
   const tombstones = await getTombstonesByType(entityType)
   return tombstones.map(t => ({ id: t.id, deletedAt: t.deletedAt }))
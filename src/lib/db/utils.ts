@@ -52,13 +52,21 @@ export async function safeDbWrite<T>(
  */
 export async function clearAllData(): Promise<void> {
   await db.transaction('rw', 
-    [db.notes, db.syncQueue, db.tombstones, db.metadata],
+    [db.notes, db.syncQueue, db.tombstones, db.metadata, db.syncBases, db.conflicts, db.notebooks, db.searchIndex, db.imageBlobs, db.templates, db.passageEmbeddings, db.aiActions],
     async () => {
       await Promise.all([
         db.notes.clear(),
         db.syncQueue.clear(),
         db.tombstones.clear(),
-        db.metadata.clear()
+        db.metadata.clear(),
+        db.syncBases.clear(),
+        db.conflicts.clear(),
+        db.notebooks.clear(),
+        db.searchIndex.clear(),
+        db.imageBlobs.clear(),
+        db.templates.clear(),
+        db.passageEmbeddings.clear(),
+        db.aiActions.clear()
       ])
     }
   )
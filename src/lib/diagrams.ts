@@ -0,0 +1,159 @@
+/**
+ * Mermaid diagrams in note HTML
+ * A diagram is a code block with language "mermaid"; the source stays the
+ * note content and the SVG is rendered wherever it's shown. Mermaid is
+ * large, so it's only loaded once a diagram needs drawing.
+ */
+import type { Mermaid } from 'mermaid'
+import { svgToPng } from '@/lib/svgImages'
+
+export const MERMAID_LANGUAGE = 'mermaid'
+
+const MERMAID_BLOCK_PATTERN = /<pre[^>]*>\s*<code[^>]*\sclass="[^"]*\blanguage-mermaid\b[^"]*"[^>]*>([\s\S]*?)<\/code>\s*<\/pre>/gi
+
+let mermaidModule: Promise<Mermaid> | null = null
+// Mermaid keeps global config and scratch elements, so renders run one at a time
+let renderQueue: Promise<unknown> = Promise.resolve()
+let nextDiagramId = 0
+
+function decodeHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Check if a code block language is a diagram
+ */
+export function isDiagramLanguage(language: string | null | undefined): boolean {
+  return language?.toLowerCase() === MERMAID_LANGUAGE
+}
+
+/**
+ * Replace every diagram code block in note HTML
+ */
+export function replaceDiagrams(html: string, replace: (source: string, block: string) => string): string {
+  return html.replace(MERMAID_BLOCK_PATTERN, (block, code: string) => replace(decodeHtml(code), block))
+}
+
+/**
+ * Diagrams as ```mermaid fences (HTML-escaped, like the rest of the HTML
+ * being converted to Markdown)
+ */
+export function diagramsToMarkdown(html: string): string {
+  return replaceDiagrams(html, source => `\n\n\`\`\`${MERMAID_LANGUAGE}\n${escapeHtml(source.trim())}\n\`\`\`\n\n`)
+}
+
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidModule) {
+    mermaidModule = import('mermaid').then(module => module.default)
+  }
+  return mermaidModule
+}
+
+interface RenderDiagramOptions {
+  dark?: boolean
+  // HTML labels look best on screen but need <foreignObject>, which can't be rasterized everywhere
+  htmlLabels?: boolean
+}
+
+/**
+ * Render Mermaid source to an SVG string - rejects with Mermaid's message on syntax errors
+ */
+export function renderDiagram(source: string, { dark = false, htmlLabels = true }: RenderDiagramOptions = {}): Promise<string> {
+  const render = async () => {
+    const mermaid = await loadMermaid()
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      theme: dark ? 'dark' : 'default',
+      htmlLabels,
+      flowchart: { htmlLabels }
+    })
+
+    const id = `mermaid-diagram-${nextDiagramId++}`
+    try {
+      const { svg } = await mermaid.render(id, source)
+      return svg
+    } finally {
+      // Left behind when rendering fails
+      document.getElementById(`d${id}`)?.remove()
+    }
+  }
+
+  const result = renderQueue.then(render, render)
+  renderQueue = result.catch(() => {})
+  return result
+}
+
+/**
+ * Replace diagram code blocks with inline SVG, for HTML export.
+ * Blocks that don't render stay as code.
+ */
+export async function renderDiagramsToSvg(html: string): Promise<string> {
+  return replaceAsync(html, async (source, block) => {
+    try {
+      return `<figure class="diagram">${await renderDiagram(source)}</figure>`
+    } catch {
+      return block
+    }
+  })
+}
+
+// Mermaid sizes its SVG to the page width - give it a fixed size from the viewBox
+function getSvgSize(svg: string): { width: number; height: number } | null {
+  const viewBox = /viewBox="[\d.-]+\s+[\d.-]+\s+([\d.]+)\s+([\d.]+)"/.exec(svg)
+  if (!viewBox) return null
+  return { width: parseFloat(viewBox[1]), height: parseFloat(viewBox[2]) }
+}
+
+/**
+ * Replace diagram code blocks with PNG images, for Google Docs conversion
+ * (PDF/DOCX export). Blocks that don't render stay as code.
+ */
+export async function renderDiagramsToImages(html: string): Promise<string> {
+  return replaceAsync(html, async (source, block) => {
+    try {
+      const svg = await renderDiagram(source, { htmlLabels: false })
+      const size = getSvgSize(svg)
+      if (!size) return block
+
+      const sizedSvg = svg.replace(/<svg\b([^>]*)>/, (_, attributes: string) => {
+        const rest = attributes.replace(/\s(width|height|style)="[^"]*"/g, '')
+        return `<svg${rest} width="${size.width}" height="${size.height}">`
+      })
+      const png = await svgToPng(sizedSvg, size.width, size.height)
+      return `<p style="text-align: center"><img src="${png}" width="${Math.round(size.width)}" height="${Math.round(size.height)}" alt="${escapeHtml(source.trim())}"></p>`
+    } catch {
+      return block
+    }
+  })
+}
+
+async function replaceAsync(html: string, replace: (source: string, block: string) => Promise<string>): Promise<string> {
+  const blocks: { source: string; block: string }[] = []
+  const withPlaceholders = replaceDiagrams(html, (source, block) => {
+    blocks.push({ source, block })
+    return `<!--diagram-${blocks.length - 1}-->`
+  })
+  if (blocks.length === 0) return html
+
+  const rendered: string[] = []
+  for (const { source, block } of blocks) {
+    rendered.push(await replace(source, block))
+  }
+  return withPlaceholders.replace(/<!--diagram-(\d+)-->/g, (_, index: string) => rendered[Number(index)])
+}
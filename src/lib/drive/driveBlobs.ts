@@ -0,0 +1,48 @@
+/**
+ * Drive Blobs
+ * Content-addressed attachments (note images) stored in the G-Note folder
+ *
+ * File names are derived from the content hash, so an image is uploaded
+ * once and any device can find it from the ID in the note HTML.
+ */
+import { driveClient } from './driveClient'
+import { getOrCreateFolder } from './driveIndex'
+
+/**
+ * Drive file name for a blob
+ */
+export function getBlobFileName(blobId: string): string {
+  return `blob-${blobId}`
+}
+
+/**
+ * Find a blob's file ID in the G-Note folder
+ */
+export async function findBlobFileId(blobId: string, folderId: string): Promise<string | null> {
+  const query = `name='${getBlobFileName(blobId)}' and '${folderId}' in parents and trashed=false`
+  const result = await driveClient.searchFiles(query)
+  return result.files?.[0]?.id ?? null
+}
+
+/**
+ * Upload a blob unless another device already has
+ * Returns the Drive file ID
+ */
+export async function uploadBlob(blobId: string, blob: Blob, folderId: string): Promise<string> {
+  return driveClient.withUploadLock(async () => {
+    const existingFileId = await findBlobFileId(blobId, folderId)
+    if (existingFileId) return existingFileId
+    return driveClient.createBinaryFile(getBlobFileName(blobId), blob, folderId)
+  })
+}
+
+/**
+ * Download a blob
+ * Returns null if it isn't on Drive (not uploaded from its device yet)
+ */
+export async function downloadBlob(blobId: string): Promise<Blob | null> {
+  const folderId = await getOrCreateFolder()
+  const fileId = await findBlobFileId(blobId, folderId)
+  if (!fileId) return null
+  return driveClient.downloadFileAsBlob(fileId)
+}
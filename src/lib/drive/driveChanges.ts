@@ -0,0 +1,87 @@
+/**
+ * Drive Changes
+ * Incremental change detection via the Drive Changes API
+ *
+ * A stored page token marks the position in the user's change feed at the
+ * last sync. Listing changes from that token tells the sync engine which
+ * note files changed remotely, so an idle sync costs a single request.
+ */
+import { driveClient } from './driveClient'
+import { DriveError, DEFAULT_DRIVE_CONFIG, type DriveChange } from './types'
+
+export interface ChangedFiles {
+  // IDs of changed G-Note files (notes and index files)
+  fileIds: Set<string>
+  // Token to resume from on the next sync
+  newStartPageToken: string
+}
+
+/**
+ * Check if a change touches a file the sync engine cares about
+ * Removed/trashed files have no usable name and are always reported
+ */
+export function isSyncFileChange(change: DriveChange): boolean {
+  if (change.removed || !change.file || change.file.trashed) return true
+
+  const { name } = change.file
+  const { notesIndexFile, notebooksIndexFile, templatesIndexFile, aiActionsIndexFile, deletedIdsFile } = DEFAULT_DRIVE_CONFIG
+  return name === notesIndexFile || name === notebooksIndexFile || name === templatesIndexFile ||
+    name === aiActionsIndexFile || name === deletedIdsFile || /^note-.+\.json$/.test(name)
+}
+
+/**
+ * Get a page token for the current end of the change feed
+ */
+export async function getChangesStartToken(): Promise<string> {
+  return driveClient.getStartPageToken()
+}
+
+/**
+ * List G-Note files changed since the given page token
+ * Returns null if the token is no longer valid (caller should do a full scan)
+ */
+export async function listChangedFiles(pageToken: string): Promise<ChangedFiles | null> {
+  const fileIds = new Set<string>()
+  let token = pageToken
+
+  try {
+    for (;;) {
+      const page = await driveClient.listChanges(token)
+      for (const change of page.changes || []) {
+        if (isSyncFileChange(change)) {
+          fileIds.add(change.fileId)
+        }
+      }
+
+      if (page.newStartPageToken) {
+        return { fileIds, newStartPageToken: page.newStartPageToken }
+      }
+      if (!page.nextPageToken) return null
+      token = page.nextPageToken
+    }
+  } catch (error) {
+    // Expired or malformed tokens come back as 400/404
+    if (error instanceof DriveError && (error.code === 'DRIVE_NOT_FOUND' || error.message.startsWith('400'))) {
+      console.warn('[DriveChanges] Page token rejected, falling back to full scan')
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Move a page token past changes made by this client
+ * Keeps the original token if anyone else changed G-Note files in the meantime,
+ * so those changes are picked up on the next sync
+ */
+export async function skipOwnChanges(pageToken: string, ownFileIds: Set<string>): Promise<string> {
+  if (ownFileIds.size === 0) return pageToken
+
+  const changed = await listChangedFiles(pageToken)
+  if (!changed) return pageToken
+
+  for (const fileId of changed.fileIds) {
+    if (!ownFileIds.has(fileId)) return pageToken
+  }
+  return changed.newStartPageToken
+}
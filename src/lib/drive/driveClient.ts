@@ -4,7 +4,7 @@
  */
 import { Mutex } from 'async-mutex'
 import { useNetworkStore } from '@/stores/networkStore'
-import { DriveError, type DriveErrorCode } from './types'
+import { DriveError, type DriveErrorCode, type DriveChangeList } from './types'
 
 const DRIVE_API = 'https://www.googleapis.com/drive/v3'
 const UPLOAD_API = 'https://www.googleapis.com/upload/drive/v3'
@@ -15,6 +15,8 @@ const uploadMutex = new Mutex()
 
 export class DriveClient {
   private accessToken: string | null = null
+  // Files written by this client - lets sync skip its own entries in the Changes feed
+  private writtenFileIds = new Set<string>()
 
   /**
    * Set access token for API calls
@@ -30,6 +32,15 @@ export class DriveClient {
     return this.accessToken
   }
 
+  /**
+   * Get and reset the IDs of files written since the last call
+   */
+  takeWrittenFileIds(): Set<string> {
+    const ids = this.writtenFileIds
+    this.writtenFileIds = new Set()
+    return ids
+  }
+
   /**
    * Check if client is authenticated
    */
@@ -203,6 +214,54 @@ export class DriveClient {
     return response.text()
   }
 
+  /**
+   * Download file content as a binary blob
+   */
+  async downloadFileAsBlob(fileId: string): Promise<Blob> {
+    const url = `${DRIVE_API}/files/${fileId}?alt=media`
+    const response = await this.requestRaw(url)
+    return response.blob()
+  }
+
+  /**
+   * Create a new binary file (images and other attachments)
+   */
+  async createBinaryFile(
+    name: string,
+    blob: Blob,
+    parentId: string
+  ): Promise<string> {
+    const metadata = {
+      name,
+      mimeType: blob.type || 'application/octet-stream',
+      parents: [parentId]
+    }
+
+    const form = new FormData()
+    form.append(
+      'metadata',
+      new Blob([JSON.stringify(metadata)], { type: 'application/json' })
+    )
+    form.append('file', blob)
+
+    const response = await fetch(
+      `${UPLOAD_API}/files?uploadType=multipart&fields=id`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+        body: form
+      }
+    )
+
+    if (!response.ok) {
+      throw await this.handleErrorResponse(response)
+    }
+
+    const data = await response.json()
+    this.writtenFileIds.add(data.id)
+    return data.id
+  }
+
   /**
    * Create a new file
    */
@@ -241,6 +300,7 @@ export class DriveClient {
     }
 
     const data = await response.json()
+    this.writtenFileIds.add(data.id)
     return data.id
   }
 
@@ -285,6 +345,7 @@ export class DriveClient {
     if (!response.ok) {
       throw await this.handleErrorResponse(response)
     }
+    this.writtenFileIds.add(fileId)
   }
 
   /**
@@ -293,6 +354,7 @@ export class DriveClient {
   async deleteFile(fileId: string): Promise<void> {
     const url = `${DRIVE_API}/files/${fileId}`
     await this.request(url, { method: 'DELETE' })
+    this.writtenFileIds.add(fileId)
   }
 
   /**
@@ -312,6 +374,27 @@ export class DriveClient {
     )
     return response.id
   }
+
+  // ============ Changes API ============
+
+  /**
+   * Get a page token pointing at the current end of the Changes feed
+   */
+  async getStartPageToken(): Promise<string> {
+    const response = await this.request<{ startPageToken: string }>(
+      `${DRIVE_API}/changes/startPageToken`
+    )
+    return response.startPageToken
+  }
+
+  /**
+   * List one page of changes since the given page token
+   */
+  async listChanges(pageToken: string): Promise<DriveChangeList> {
+    const fields = 'nextPageToken,newStartPageToken,changes(fileId,removed,file(name,trashed))'
+    const url = `${DRIVE_API}/changes?pageToken=${encodeURIComponent(pageToken)}&pageSize=1000&spaces=drive&fields=${encodeURIComponent(fields)}`
+    return this.request(url)
+  }
 }
 
 // Singleton instance
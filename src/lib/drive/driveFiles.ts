@@ -5,6 +5,7 @@
 import { driveClient } from './driveClient'
 import { DriveError } from './types'
 import type { Note } from '@/types'
+import { extractTags } from '@/lib/tags'
 import {
   saveFileId,
   saveFileIds,
@@ -123,6 +124,11 @@ export async function downloadNote(fileId: string): Promise<Note | null> {
         console.warn(`[DriveFiles] Skipping collection file ${fileId} during note download`)
         return null
       }
+
+      // Notes written before tags existed get them from their content
+      if (data && typeof data === 'object' && !Array.isArray(data.tags)) {
+        data.tags = extractTags(typeof data.content === 'string' ? data.content : '')
+      }
       
       return data
     } catch (parseError) {
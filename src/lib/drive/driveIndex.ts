@@ -1,6 +1,6 @@
 /**
  * Drive Index
- * Manages index files (notes-index, deleted-ids)
+ * Manages index files (notes-index, notebooks-index, templates-index, ai-actions-index, deleted-ids)
  */
 import { driveClient } from './driveClient'
 import {
@@ -10,6 +10,9 @@ import {
 import {
   DEFAULT_DRIVE_CONFIG,
   type NotesIndex,
+  type NotebooksIndex,
+  type TemplatesIndex,
+  type AIActionsIndex,
   type DeletedIdsIndex,
   type TombstoneEntry
 } from './types'
@@ -17,6 +20,9 @@ import {
 // Cached file IDs for index files
 let folderId: string | null = null
 let notesIndexFileId: string | null = null
+let notebooksIndexFileId: string | null = null
+let templatesIndexFileId: string | null = null
+let aiActionsIndexFileId: string | null = null
 let deletedIdsFileId: string | null = null
 
 // Remote tombstone cache
@@ -29,6 +35,9 @@ const remoteDeletedIds = new Set<string>()
 export function resetDriveState(): void {
   folderId = null
   notesIndexFileId = null
+  notebooksIndexFileId = null
+  templatesIndexFileId = null
+  aiActionsIndexFileId = null
   deletedIdsFileId = null
   remoteTombstones.clear()
   remoteDeletedIds.clear()
@@ -114,6 +123,156 @@ export async function updateNotesIndex(
   }
 }
 
+// ============ Notebooks Index ============
+
+/**
+ * Get notebooks index file (empty if it doesn't exist yet)
+ */
+export async function getNotebooksIndex(): Promise<NotebooksIndex> {
+  const folder = await getOrCreateFolder()
+  const { notebooksIndexFile } = DEFAULT_DRIVE_CONFIG
+
+  if (!notebooksIndexFileId) {
+    const query = `name='${notebooksIndexFile}' and '${folder}' in parents and trashed=false`
+    const result = await driveClient.searchFiles(query)
+
+    if (result.files?.length > 0) {
+      notebooksIndexFileId = result.files[0].id
+    }
+  }
+
+  if (notebooksIndexFileId) {
+    try {
+      const data = await driveClient.downloadFile<NotebooksIndex>(notebooksIndexFileId)
+      return { notebooks: data.notebooks || [], lastSync: data.lastSync }
+    } catch {
+      console.warn('[DriveIndex] Failed to download notebooks index')
+    }
+  }
+
+  // Return empty index (don't create file until needed)
+  return { notebooks: [], lastSync: Date.now() }
+}
+
+/**
+ * Update notebooks index file
+ */
+export async function updateNotebooksIndex(notebooks: NotebooksIndex['notebooks']): Promise<void> {
+  const folder = await getOrCreateFolder()
+  const { notebooksIndexFile } = DEFAULT_DRIVE_CONFIG
+
+  const index: NotebooksIndex = {
+    notebooks,
+    lastSync: Date.now()
+  }
+
+  if (notebooksIndexFileId) {
+    await driveClient.updateFile(notebooksIndexFileId, index)
+  } else {
+    notebooksIndexFileId = await driveClient.createFile(notebooksIndexFile, index, folder)
+  }
+}
+
+// ============ Templates Index ============
+
+/**
+ * Get templates index file (empty if it doesn't exist yet)
+ */
+export async function getTemplatesIndex(): Promise<TemplatesIndex> {
+  const folder = await getOrCreateFolder()
+  const { templatesIndexFile } = DEFAULT_DRIVE_CONFIG
+
+  if (!templatesIndexFileId) {
+    const query = `name='${templatesIndexFile}' and '${folder}' in parents and trashed=false`
+    const result = await driveClient.searchFiles(query)
+
+    if (result.files?.length > 0) {
+      templatesIndexFileId = result.files[0].id
+    }
+  }
+
+  if (templatesIndexFileId) {
+    try {
+      const data = await driveClient.downloadFile<TemplatesIndex>(templatesIndexFileId)
+      return { templates: data.templates || [], lastSync: data.lastSync }
+    } catch {
+      console.warn('[DriveIndex] Failed to download templates index')
+    }
+  }
+
+  // Return empty index (don't create file until needed)
+  return { templates: [], lastSync: Date.now() }
+}
+
+/**
+ * Update templates index file
+ */
+export async function updateTemplatesIndex(templates: TemplatesIndex['templates']): Promise<void> {
+  const folder = await getOrCreateFolder()
+  const { templatesIndexFile } = DEFAULT_DRIVE_CONFIG
+
+  const index: TemplatesIndex = {
+    templates,
+    lastSync: Date.now()
+  }
+
+  if (templatesIndexFileId) {
+    await driveClient.updateFile(templatesIndexFileId, index)
+  } else {
+    templatesIndexFileId = await driveClient.createFile(templatesIndexFile, index, folder)
+  }
+}
+
+// ============ AI Actions Index ============
+
+/**
+ * Get custom AI actions index file (empty if it doesn't exist yet)
+ */
+export async function getAIActionsIndex(): Promise<AIActionsIndex> {
+  const folder = await getOrCreateFolder()
+  const { aiActionsIndexFile } = DEFAULT_DRIVE_CONFIG
+
+  if (!aiActionsIndexFileId) {
+    const query = `name='${aiActionsIndexFile}' and '${folder}' in parents and trashed=false`
+    const result = await driveClient.searchFiles(query)
+
+    if (result.files?.length > 0) {
+      aiActionsIndexFileId = result.files[0].id
+    }
+  }
+
+  if (aiActionsIndexFileId) {
+    try {
+      const data = await driveClient.downloadFile<AIActionsIndex>(aiActionsIndexFileId)
+      return { aiActions: data.aiActions || [], lastSync: data.lastSync }
+    } catch {
+      console.warn('[DriveIndex] Failed to download AI actions index')
+    }
+  }
+
+  // Return empty index (don't create file until needed)
+  return { aiActions: [], lastSync: Date.now() }
+}
+
+/**
+ * Update custom AI actions index file
+ */
+export async function updateAIActionsIndex(aiActions: AIActionsIndex['aiActions']): Promise<void> {
+  const folder = await getOrCreateFolder()
+  const { aiActionsIndexFile } = DEFAULT_DRIVE_CONFIG
+
+  const index: AIActionsIndex = {
+    aiActions,
+    lastSync: Date.now()
+  }
+
+  if (aiActionsIndexFileId) {
+    await driveClient.updateFile(aiActionsIndexFileId, index)
+  } else {
+    aiActionsIndexFileId = await driveClient.createFile(aiActionsIndexFile, index, folder)
+  }
+}
+
 // ============ Collections Index ============
 // Note: Collection index operations have been removed as part of the collection feature removal.
 
@@ -144,6 +303,9 @@ export async function getOrCreateDeletedIdsIndex(): Promise<DeletedIdsIndex> {
       // Migrate legacy format and prune old tombstones
       let noteTombstones: TombstoneEntry[] = data.noteTombstones || []
       let collectionTombstones: TombstoneEntry[] = data.collectionTombstones || []
+      let notebookTombstones: TombstoneEntry[] = data.notebookTombstones || []
+      let templateTombstones: TombstoneEntry[] = data.templateTombstones || []
+      let aiActionTombstones: TombstoneEntry[] = data.aiActionTombstones || []
 
       // Migrate legacy noteIds
       if (data.noteIds?.length && !data.noteTombstones?.length) {
@@ -158,6 +320,9 @@ export async function getOrCreateDeletedIdsIndex(): Promise<DeletedIdsIndex> {
       // Prune old tombstones
       noteTombstones = noteTombstones.filter(t => t.deletedAt > cutoffTime)
       collectionTombstones = collectionTombstones.filter(t => t.deletedAt > cutoffTime)
+      notebookTombstones = notebookTombstones.filter(t => t.deletedAt > cutoffTime)
+      templateTombstones = templateTombstones.filter(t => t.deletedAt > cutoffTime)
+      aiActionTombstones = aiActionTombstones.filter(t => t.deletedAt > cutoffTime)
 
       // Cache tombstones
       remoteTombstones.clear()
@@ -171,14 +336,14 @@ export async function getOrCreateDeletedIdsIndex(): Promise<DeletedIdsIndex> {
         remoteTombstones.set(t.id, t.deletedAt)
       })
 
-      return { noteTombstones, collectionTombstones, lastSync: data.lastSync }
+      return { noteTombstones, collectionTombstones, notebookTombstones, templateTombstones, aiActionTombstones, lastSync: data.lastSync }
     } catch {
       console.warn('[DriveIndex] Failed to download deleted IDs index')
     }
   }
 
   // Return empty index (don't create file until needed)
-  return { noteTombstones: [], collectionTombstones: [], lastSync: Date.now() }
+  return { noteTombstones: [], collectionTombstones: [], notebookTombstones: [], templateTombstones: [], aiActionTombstones: [], lastSync: Date.now() }
 }
 
 /**
@@ -186,7 +351,10 @@ export async function getOrCreateDeletedIdsIndex(): Promise<DeletedIdsIndex> {
  */
 export async function updateDeletedIdsIndex(
   noteTombstones: TombstoneEntry[],
-  collectionTombstones: TombstoneEntry[]
+  collectionTombstones: TombstoneEntry[],
+  notebookTombstones: TombstoneEntry[] = [],
+  templateTombstones: TombstoneEntry[] = [],
+  aiActionTombstones: TombstoneEntry[] = []
 ): Promise<void> {
   const folder = await getOrCreateFolder()
   const { deletedIdsFile, tombstoneRetentionMs } = DEFAULT_DRIVE_CONFIG
@@ -196,10 +364,16 @@ export async function updateDeletedIdsIndex(
   // Prune old tombstones
   const prunedNoteTombstones = noteTombstones.filter(t => t.deletedAt > cutoffTime)
   const prunedCollectionTombstones = collectionTombstones.filter(t => t.deletedAt > cutoffTime)
+  const prunedNotebookTombstones = notebookTombstones.filter(t => t.deletedAt > cutoffTime)
+  const prunedTemplateTombstones = templateTombstones.filter(t => t.deletedAt > cutoffTime)
+  const prunedAIActionTombstones = aiActionTombstones.filter(t => t.deletedAt > cutoffTime)
 
   const index: DeletedIdsIndex = {
     noteTombstones: prunedNoteTombstones,
     collectionTombstones: prunedCollectionTombstones,
+    notebookTombstones: prunedNotebookTombstones,
+    templateTombstones: prunedTemplateTombstones,
+    aiActionTombstones: prunedAIActionTombstones,
     // Keep legacy format for backward compatibility
     noteIds: prunedNoteTombstones.map(t => t.id),
     collectionIds: prunedCollectionTombstones.map(t => t.id),
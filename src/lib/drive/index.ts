@@ -5,4 +5,6 @@
 export { driveClient, DriveClient } from './driveClient'
 export * from './driveFiles'
 export * from './driveIndex'
+export * from './driveChanges'
+export * from './driveBlobs'
 export * from './types'
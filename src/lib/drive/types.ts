@@ -2,6 +2,7 @@
  * Drive Types
  * Type definitions for Google Drive sync operations
  */
+import type { Notebook, NoteTemplate, AIPromptAction } from '@/types'
 
 // ============ Index File Types ============
 
@@ -17,6 +18,22 @@ export interface NotesIndex {
   lastSync: number
 }
 
+// Notebooks are small, so the index file holds them in full
+export interface NotebooksIndex {
+  notebooks: Notebook[]
+  lastSync: number
+}
+
+export interface TemplatesIndex {
+  templates: NoteTemplate[]
+  lastSync: number
+}
+
+export interface AIActionsIndex {
+  aiActions: AIPromptAction[]
+  lastSync: number
+}
+
 // ============ Tombstone Types ============
 
 export interface TombstoneEntry {
@@ -31,6 +48,9 @@ export interface DeletedIdsIndex {
   // New format with timestamps
   noteTombstones?: TombstoneEntry[]
   collectionTombstones?: TombstoneEntry[]
+  notebookTombstones?: TombstoneEntry[]
+  templateTombstones?: TombstoneEntry[]
+  aiActionTombstones?: TombstoneEntry[]
   lastSync: number
 }
 
@@ -49,6 +69,23 @@ export interface DriveFileList {
   nextPageToken?: string
 }
 
+// ============ Changes API Types ============
+
+export interface DriveChange {
+  fileId: string
+  removed?: boolean
+  file?: {
+    name: string
+    trashed?: boolean
+  }
+}
+
+export interface DriveChangeList {
+  changes: DriveChange[]
+  nextPageToken?: string
+  newStartPageToken?: string
+}
+
 // ============ Error Types ============
 
 export type DriveErrorCode = 
@@ -76,6 +113,9 @@ export class DriveError extends Error {
 export interface DriveConfig {
   folderName: string
   notesIndexFile: string
+  notebooksIndexFile: string
+  templatesIndexFile: string
+  aiActionsIndexFile: string
   collectionsIndexFile: string
   deletedIdsFile: string
   tombstoneRetentionMs: number
@@ -84,6 +124,9 @@ export interface DriveConfig {
 export const DEFAULT_DRIVE_CONFIG: DriveConfig = {
   folderName: 'G-Note',
   notesIndexFile: 'notes-index.json',
+  notebooksIndexFile: 'notebooks-index.json',
+  templatesIndexFile: 'templates-index.json',
+  aiActionsIndexFile: 'ai-actions-index.json',
   collectionsIndexFile: 'collections-index.json',
   deletedIdsFile: 'deleted-ids.json',
   tombstoneRetentionMs: 30 * 24 * 60 * 60 * 1000 // 30 days
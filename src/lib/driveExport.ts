@@ -4,6 +4,11 @@
  * và import từ các file document
  */
 
+import { htmlTablesToMarkdown } from '@/lib/markdownTables'
+import { mathToMarkdown, renderMathToHtml, KATEX_STYLESHEET_URL } from '@/lib/math'
+import { renderMathToImages } from '@/lib/mathImages'
+import { diagramsToMarkdown, renderDiagramsToSvg, renderDiagramsToImages } from '@/lib/diagrams'
+
 const DRIVE_API = 'https://www.googleapis.com/drive/v3'
 const UPLOAD_API = 'https://www.googleapis.com/upload/drive/v3'
 
@@ -49,7 +54,7 @@ export async function exportNote(
 ): Promise<Blob> {
   // For HTML and MD, no need to use Google Drive
   if (format === 'html') {
-    const fullHtml = wrapHtmlContent(title, htmlContent)
+    const fullHtml = wrapHtmlContent(title, renderMathToHtml(await renderDiagramsToSvg(htmlContent)))
     return new Blob([fullHtml], { type: 'text/html' })
   }
   
@@ -64,7 +69,8 @@ export async function exportNote(
     mimeType: 'application/vnd.google-apps.document'
   }
   
-  const fullHtml = wrapHtmlContent(title, htmlContent)
+  // Google Docs can't lay out KaTeX or take SVG, so equations and diagrams go in as images
+  const fullHtml = wrapHtmlContent(title, await renderMathToImages(await renderDiagramsToImages(htmlContent)))
   
   const form = new FormData()
   form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }))
@@ -258,7 +264,8 @@ function wrapHtmlContent(title: string, content: string): string {
 <html>
 <head>
   <meta charset="utf-8">
-  <title>${escapeHtml(title || 'Untitled')}</title>
+  <title>${escapeHtml(title || 'Untitled')}</title>${content.includes('class="katex') ? `
+  <link rel="stylesheet" href="${KATEX_STYLESHEET_URL}">` : ''}
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; max-width: 800px; margin: 0 auto; padding: 20px; }
     h1, h2, h3 { margin-top: 1.5em; margin-bottom: 0.5em; }
@@ -268,6 +275,11 @@ function wrapHtmlContent(title: string, content: string): string {
     pre { background: #f4f4f4; padding: 12px; border-radius: 6px; overflow-x: auto; }
     img { max-width: 100%; height: auto; }
     blockquote { border-left: 3px solid #ccc; margin: 1em 0; padding-left: 1em; color: #666; }
+    figure.diagram { margin: 1em 0; text-align: center; }
+    table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+    th, td { border: 1px solid #ccc; padding: 6px 10px; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    th p, td p { margin: 0; }
   </style>
 </head>
 <body>
@@ -287,7 +299,9 @@ function escapeHtml(text: string): string {
 
 function htmlToMarkdown(html: string): string {
   // Basic HTML to Markdown conversion
-  return html
+  const markdown = diagramsToMarkdown(mathToMarkdown(html))
+    // Links first - the inline formatting rules below would take their spans apart
+    .replace(/<span[^>]*data-type="noteLink"[^>]*data-title="([^"]*)"[^>]*>.*?<\/span>/gi, '[[$1]]')
     .replace(/<h1[^>]*>(.*?)<\/h1>/gi, '# $1\n\n')
     .replace(/<h2[^>]*>(.*?)<\/h2>/gi, '## $1\n\n')
     .replace(/<h3[^>]*>(.*?)<\/h3>/gi, '### $1\n\n')
@@ -295,7 +309,7 @@ function htmlToMarkdown(html: string): string {
     .replace(/<b[^>]*>(.*?)<\/b>/gi, '**$1**')
     .replace(/<em[^>]*>(.*?)<\/em>/gi, '*$1*')
     .replace(/<i[^>]*>(.*?)<\/i>/gi, '*$1*')
-    .replace(/<s[^>]*>(.*?)<\/s>/gi, '~~$1~~')
+    .replace(/<s(?:\s[^>]*)?>(.*?)<\/s>/gi, '~~$1~~')
     .replace(/<strike[^>]*>(.*?)<\/strike>/gi, '~~$1~~')
     .replace(/<code[^>]*>(.*?)<\/code>/gi, '`$1`')
     .replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '[$2]($1)')
@@ -306,6 +320,9 @@ function htmlToMarkdown(html: string): string {
     .replace(/<ol[^>]*>|<\/ol>/gi, '\n')
     .replace(/<p[^>]*>(.*?)<\/p>/gi, '$1\n\n')
     .replace(/<br\s*\/?>/gi, '\n')
+
+  // Tables go last so cell contents are already converted
+  return htmlTablesToMarkdown(markdown)
     .replace(/<[^>]+>/g, '')
     .replace(/&nbsp;/g, ' ')
     .replace(/&amp;/g, '&')
@@ -0,0 +1,358 @@
+/**
+ * Force Layout
+ * Small force-directed layout for the graph view, modelled on d3-force:
+ * many-body repulsion (Barnes-Hut approximated, O(n log n) per tick),
+ * spring links and a weak pull towards the centre. Positions live in typed
+ * arrays so a few thousand nodes can be simulated on the main thread in
+ * short per-frame slices.
+ */
+
+const REPULSION = -40
+const LINK_DISTANCE = 36
+const CENTER_STRENGTH = 0.04
+const VELOCITY_DECAY = 0.6
+const ALPHA_MIN = 0.001
+const ALPHA_DECAY = 1 - Math.pow(ALPHA_MIN, 1 / 300)   // ~300 ticks to settle
+// Barnes-Hut accuracy: cells smaller than THETA x distance act as one body
+const THETA2 = 0.81
+const MIN_DISTANCE2 = 1
+
+export class ForceLayout {
+  readonly x: Float64Array
+  readonly y: Float64Array
+  private vx: Float64Array
+  private vy: Float64Array
+  private fixed: Uint8Array
+  private links: Array<[number, number]>
+  private linkStrength: Float64Array
+  private linkBias: Float64Array
+  private sameNext: Int32Array
+  private tree = new QuadTree()
+  alpha = 1
+
+  constructor(count: number, links: Array<[number, number]>, initial?: (index: number) => [number, number] | undefined) {
+    this.x = new Float64Array(count)
+    this.y = new Float64Array(count)
+    this.vx = new Float64Array(count)
+    this.vy = new Float64Array(count)
+    this.fixed = new Uint8Array(count)
+    this.sameNext = new Int32Array(count)
+    this.links = links
+
+    // Phyllotaxis spiral - even initial spread without randomness
+    const angleStep = Math.PI * (3 - Math.sqrt(5))
+    for (let i = 0; i < count; i++) {
+      const position = initial?.(i)
+      if (position) {
+        this.x[i] = position[0]
+        this.y[i] = position[1]
+      } else {
+        const radius = 10 * Math.sqrt(0.5 + i)
+        this.x[i] = radius * Math.cos(i * angleStep)
+        this.y[i] = radius * Math.sin(i * angleStep)
+      }
+    }
+
+    // Weaker springs on hubs so they don't collapse their neighbours
+    const degree = new Uint32Array(count)
+    for (const [source, target] of links) {
+      degree[source]++
+      degree[target]++
+    }
+    this.linkStrength = new Float64Array(links.length)
+    this.linkBias = new Float64Array(links.length)
+    links.forEach(([source, target], i) => {
+      this.linkStrength[i] = 1 / Math.min(degree[source], degree[target])
+      this.linkBias[i] = degree[source] / (degree[source] + degree[target])
+    })
+  }
+
+  get count(): number {
+    return this.x.length
+  }
+
+  get isSettled(): boolean {
+    return this.alpha < ALPHA_MIN
+  }
+
+  // Restart the simulation (after dragging a node)
+  reheat(alpha = 0.3): void {
+    this.alpha = Math.max(this.alpha, alpha)
+  }
+
+  // Pin a node at a position while it's dragged
+  fix(index: number, x: number, y: number): void {
+    this.fixed[index] = 1
+    this.x[index] = x
+    this.y[index] = y
+    this.vx[index] = 0
+    this.vy[index] = 0
+  }
+
+  release(index: number): void {
+    this.fixed[index] = 0
+  }
+
+  /**
+   * Index of the node nearest to a point, within a radius
+   */
+  find(x: number, y: number, radius: number): number {
+    let best = -1
+    let bestDistance = radius * radius
+    for (let i = 0; i < this.count; i++) {
+      const dx = this.x[i] - x
+      const dy = this.y[i] - y
+      const distance = dx * dx + dy * dy
+      if (distance < bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  tick(): void {
+    if (this.count === 0) {
+      this.alpha = 0
+      return
+    }
+    const alpha = this.alpha
+
+    this.applyLinks(alpha)
+    this.applyRepulsion(alpha)
+
+    for (let i = 0; i < this.count; i++) {
+      if (this.fixed[i]) continue
+      this.vx[i] -= this.x[i] * CENTER_STRENGTH * alpha
+      this.vy[i] -= this.y[i] * CENTER_STRENGTH * alpha
+      this.vx[i] *= VELOCITY_DECAY
+      this.vy[i] *= VELOCITY_DECAY
+      this.x[i] += this.vx[i]
+      this.y[i] += this.vy[i]
+    }
+
+    this.alpha += (0 - this.alpha) * ALPHA_DECAY
+  }
+
+  private applyLinks(alpha: number): void {
+    const { x, y, vx, vy } = this
+    for (let i = 0; i < this.links.length; i++) {
+      const [source, target] = this.links[i]
+      let dx = x[target] + vx[target] - x[source] - vx[source]
+      let dy = y[target] + vy[target] - y[source] - vy[source]
+      if (dx === 0 && dy === 0) {
+        dx = (i % 7) * 1e-3 + 1e-3
+        dy = (i % 5) * 1e-3 + 1e-3
+      }
+      const length = Math.sqrt(dx * dx + dy * dy)
+      const force = (length - LINK_DISTANCE) / length * alpha * this.linkStrength[i]
+      dx *= force
+      dy *= force
+      const bias = this.linkBias[i]
+      vx[target] -= dx * bias
+      vy[target] -= dy * bias
+      vx[source] += dx * (1 - bias)
+      vy[source] += dy * (1 - bias)
+    }
+  }
+
+  private applyRepulsion(alpha: number): void {
+    const { x, y, vx, vy, tree, sameNext } = this
+    tree.build(x, y, sameNext)
+    const { cellSize, cellMass, cellCx, cellCy, cellBody, cellChildren } = tree
+    const strength = REPULSION * alpha
+    const stack = tree.stack
+
+    for (let i = 0; i < this.count; i++) {
+      let top = 0
+      stack[top++] = 0
+      while (top > 0) {
+        const cell = stack[--top]
+        const dx = cellCx[cell] - x[i]
+        const dy = cellCy[cell] - y[i]
+        let distance2 = dx * dx + dy * dy
+        const body = cellBody[cell]
+
+        if (body === -1) {
+          // Far enough away: treat the whole cell as one body
+          if (cellSize[cell] * cellSize[cell] < THETA2 * distance2) {
+            const force = strength * cellMass[cell] / distance2
+            vx[i] += dx * force
+            vy[i] += dy * force
+          } else {
+            for (let c = cell * 4; c < cell * 4 + 4; c++) {
+              if (cellChildren[c] !== -1) stack[top++] = cellChildren[c]
+            }
+          }
+          continue
+        }
+
+        // Leaf: every body in it except this one
+        let others = cellMass[cell]
+        for (let chained = body; chained !== -1; chained = sameNext[chained]) {
+          if (chained === i) others--
+        }
+        if (others === 0) continue
+        if (distance2 < MIN_DISTANCE2) {
+          // Coincident nodes - nudge apart deterministically
+          const jitter = ((i * 2654435761) % 1000) / 1000 - 0.5
+          vx[i] += jitter
+          vy[i] -= jitter
+          distance2 = MIN_DISTANCE2
+        }
+        const force = strength * others / distance2
+        vx[i] += dx * force
+        vy[i] += dy * force
+      }
+    }
+  }
+}
+
+/**
+ * Barnes-Hut quadtree in flat arrays, rebuilt every tick without allocating
+ * Cell 0 is the root; children always have higher indexes than their parent
+ */
+class QuadTree {
+  cellX0 = new Float64Array(0)
+  cellY0 = new Float64Array(0)
+  cellSize = new Float64Array(0)
+  cellMass = new Float64Array(0)
+  cellCx = new Float64Array(0)             // Centre of mass
+  cellCy = new Float64Array(0)
+  cellBody = new Int32Array(0)             // First body for leaves, -1 internal, -2 empty
+  cellChildren = new Int32Array(0)         // 4 per cell, -1 if empty
+  stack = new Int32Array(0)
+  private cellCount = 0
+
+  private ensureCapacity(cells: number): void {
+    if (cells <= this.cellBody.length) return
+    const capacity = Math.max(cells, this.cellBody.length * 2, 64)
+    const grow = <T extends Float64Array | Int32Array>(array: T, size: number): T => {
+      const next = new (array.constructor as { new (size: number): T })(size)
+      next.set(array)
+      return next
+    }
+    this.cellX0 = grow(this.cellX0, capacity)
+    this.cellY0 = grow(this.cellY0, capacity)
+    this.cellSize = grow(this.cellSize, capacity)
+    this.cellMass = grow(this.cellMass, capacity)
+    this.cellCx = grow(this.cellCx, capacity)
+    this.cellCy = grow(this.cellCy, capacity)
+    this.cellBody = grow(this.cellBody, capacity)
+    this.cellChildren = grow(this.cellChildren, capacity * 4)
+    this.stack = new Int32Array(capacity * 4)
+  }
+
+  private addCell(x0: number, y0: number, size: number): number {
+    this.ensureCapacity(this.cellCount + 1)
+    const cell = this.cellCount++
+    this.cellX0[cell] = x0
+    this.cellY0[cell] = y0
+    this.cellSize[cell] = size
+    this.cellBody[cell] = -1
+    this.cellChildren.fill(-1, cell * 4, cell * 4 + 4)
+    return cell
+  }
+
+  /**
+   * Build the tree for the given positions
+   * Bodies at the same point are chained through `sameNext`
+   */
+  build(x: Float64Array, y: Float64Array, sameNext: Int32Array): void {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (let i = 0; i < x.length; i++) {
+      if (x[i] < minX) minX = x[i]
+      if (x[i] > maxX) maxX = x[i]
+      if (y[i] < minY) minY = y[i]
+      if (y[i] > maxY) maxY = y[i]
+    }
+
+    this.cellCount = 0
+    this.ensureCapacity(x.length * 2)
+    sameNext.fill(-1)
+    this.addCell(minX, minY, Math.max(maxX - minX, maxY - minY, 1) * 1.0001)
+    this.cellBody[0] = -2
+
+    for (let i = 0; i < x.length; i++) {
+      this.insert(i, x, y, sameNext)
+    }
+    if (this.cellBody[0] === -2) this.cellBody[0] = -1
+    this.accumulate(x, y, sameNext)
+  }
+
+  private insert(index: number, x: Float64Array, y: Float64Array, sameNext: Int32Array): void {
+    let cell = 0
+    for (;;) {
+      const body = this.cellBody[cell]
+
+      // Empty leaf (or the empty root): take it
+      if (body === -2) {
+        this.cellBody[cell] = index
+        return
+      }
+
+      if (body >= 0) {
+        // Same point as the leaf's body - chain it rather than subdividing forever
+        if ((x[body] === x[index] && y[body] === y[index]) || this.cellSize[cell] < 1e-6) {
+          sameNext[index] = sameNext[body]
+          sameNext[body] = index
+          return
+        }
+        // Split the leaf: move its bodies into a child
+        this.cellBody[cell] = -1
+        const child = this.childFor(cell, x[body], y[body])
+        this.cellBody[child] = body
+      }
+
+      cell = this.childFor(cell, x[index], y[index])
+    }
+  }
+
+  // Child cell containing a point, created (as an empty leaf) if needed
+  private childFor(cell: number, px: number, py: number): number {
+    const half = this.cellSize[cell] / 2
+    const right = px >= this.cellX0[cell] + half ? 1 : 0
+    const bottom = py >= this.cellY0[cell] + half ? 1 : 0
+    const slot = cell * 4 + bottom * 2 + right
+    let child = this.cellChildren[slot]
+    if (child === -1) {
+      child = this.addCell(this.cellX0[cell] + right * half, this.cellY0[cell] + bottom * half, half)
+      this.cellBody[child] = -2
+      this.cellChildren[slot] = child
+    }
+    return child
+  }
+
+  private accumulate(x: Float64Array, y: Float64Array, sameNext: Int32Array): void {
+    // Children come after their parents, so walking backwards sees them first
+    for (let cell = this.cellCount - 1; cell >= 0; cell--) {
+      const body = this.cellBody[cell]
+      if (body >= 0) {
+        let mass = 0
+        for (let chained = body; chained !== -1; chained = sameNext[chained]) mass++
+        this.cellMass[cell] = mass
+        this.cellCx[cell] = x[body]
+        this.cellCy[cell] = y[body]
+        continue
+      }
+
+      let mass = 0
+      let cx = 0
+      let cy = 0
+      for (let c = cell * 4; c < cell * 4 + 4; c++) {
+        const child = this.cellChildren[c]
+        if (child === -1 || this.cellMass[child] === 0) continue
+        mass += this.cellMass[child]
+        cx += this.cellCx[child] * this.cellMass[child]
+        cy += this.cellCy[child] * this.cellMass[child]
+      }
+      this.cellMass[cell] = mass
+      this.cellCx[cell] = mass > 0 ? cx / mass : 0
+      this.cellCy[cell] = mass > 0 ? cy / mass : 0
+      if (body === -2) this.cellBody[cell] = -1
+    }
+  }
+}
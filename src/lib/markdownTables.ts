@@ -0,0 +1,102 @@
+/**
+ * HTML tables to GitHub-flavoured Markdown tables.
+ *
+ * Markdown has no merged cells, so a cell spanning several columns or rows
+ * keeps its text in the first slot and leaves the others empty - the column
+ * count stays the same on every row.
+ */
+
+const TABLE_PATTERN = /<table[^>]*>([\s\S]*?)<\/table>/gi
+const ROW_PATTERN = /<tr[^>]*>([\s\S]*?)<\/tr>/gi
+const CELL_PATTERN = /<(t[hd])([^>]*)>([\s\S]*?)<\/\1>/gi
+
+interface TableRow {
+  cells: string[]
+  isHeader: boolean
+}
+
+function getSpan(attributes: string, name: 'colspan' | 'rowspan'): number {
+  const match = attributes.match(new RegExp(`${name}="?(\\d+)`, 'i'))
+  return match ? Math.max(1, parseInt(match[1], 10)) : 1
+}
+
+function toCellText(content: string): string {
+  return content
+    .replace(/\s*\n\s*/g, ' ')
+    .trim()
+    .replace(/\|/g, '\\|')
+}
+
+function parseRows(tableHtml: string): TableRow[] {
+  const rows: TableRow[] = []
+  // Columns still covered by a rowspan from a row above -> rows left
+  const pendingRowspans: number[] = []
+
+  for (const [, rowHtml] of tableHtml.matchAll(ROW_PATTERN)) {
+    const cells: string[] = []
+    let isHeader = true
+    let column = 0
+
+    const skipCoveredColumns = () => {
+      while (pendingRowspans[column] > 0) {
+        pendingRowspans[column]--
+        cells[column++] = ''
+      }
+    }
+
+    for (const [, tag, attributes, content] of rowHtml.matchAll(CELL_PATTERN)) {
+      skipCoveredColumns()
+      if (tag.toLowerCase() !== 'th') isHeader = false
+
+      const colspan = getSpan(attributes, 'colspan')
+      const rowspan = getSpan(attributes, 'rowspan')
+      for (let i = 0; i < colspan; i++) {
+        cells[column] = i === 0 ? toCellText(content) : ''
+        if (rowspan > 1) pendingRowspans[column] = rowspan - 1
+        column++
+      }
+    }
+    // Rowspans covering the end of the row
+    for (; column < pendingRowspans.length; column++) {
+      if (pendingRowspans[column] > 0) {
+        pendingRowspans[column]--
+        cells[column] = ''
+      }
+    }
+
+    if (cells.length > 0) rows.push({ cells, isHeader })
+  }
+
+  return rows
+}
+
+function formatRow(cells: string[], width: number): string {
+  const padded = Array.from({ length: width }, (_, i) => cells[i] ?? '')
+  return `| ${padded.join(' | ')} |`
+}
+
+function rowsToMarkdown(rows: TableRow[]): string {
+  const width = Math.max(...rows.map(row => row.cells.length))
+  // Markdown tables always start with a header row - use an empty one if the table has none
+  const [header, body] = rows[0].isHeader
+    ? [rows[0].cells, rows.slice(1)]
+    : [[], rows]
+
+  return [
+    formatRow(header, width),
+    formatRow(Array(width).fill('---'), width),
+    ...body.map(row => formatRow(row.cells, width))
+  ].join('\n')
+}
+
+/**
+ * Replace every <table> in the HTML with a Markdown table. Cell contents are
+ * left as they are (other tags included) for the caller's own conversion,
+ * except that line breaks are collapsed so each row stays on one line.
+ */
+export function htmlTablesToMarkdown(html: string): string {
+  return html.replace(TABLE_PATTERN, (_, tableHtml: string) => {
+    const rows = parseRows(tableHtml)
+    return rows.length > 0 ? `\n\n${rowsToMarkdown(rows)}\n\n` : ''
+  })
+}
@@ -0,0 +1,70 @@
+/**
+ * Math (LaTeX) in note HTML
+ * Equations are stored as <span data-type="inline-math"> and
+ * <div data-type="block-math"> elements with the source in data-latex,
+ * and rendered with KaTeX.
+ */
+import katex from 'katex'
+
+export type MathDisplay = 'inline' | 'block'
+
+const MATH_ELEMENT_PATTERN = /<(span|div)(\s[^>]*?data-type="(inline|block)-math"[^>]*)>[\s\S]*?<\/\1>/gi
+const LATEX_ATTRIBUTE_PATTERN = /\sdata-latex="([^"]*)"/i
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Render LaTeX to KaTeX HTML - invalid input is shown in red instead of throwing
+ */
+export function renderLatex(latex: string, display: MathDisplay): string {
+  return katex.renderToString(latex, {
+    displayMode: display === 'block',
+    throwOnError: false
+  })
+}
+
+/**
+ * Replace every equation element in note HTML
+ */
+export function replaceMath(html: string, replace: (latex: string, display: MathDisplay) => string): string {
+  return html.replace(MATH_ELEMENT_PATTERN, (_, _tag: string, attributes: string, display: MathDisplay) => {
+    const latex = decodeAttribute(LATEX_ATTRIBUTE_PATTERN.exec(attributes)?.[1] ?? '')
+    return replace(latex, display)
+  })
+}
+
+/**
+ * Equations as $...$ and $$...$$ (HTML-escaped, like the rest of the
+ * HTML being converted to Markdown)
+ */
+export function mathToMarkdown(html: string): string {
+  return replaceMath(html, (latex, display) => display === 'block'
+    ? `\n\n$$\n${escapeHtml(latex)}\n$$\n\n`
+    : `$${escapeHtml(latex)}$`
+  )
+}
+
+/**
+ * Equations rendered with KaTeX, for HTML that's viewed outside the app
+ * (needs the KaTeX stylesheet)
+ */
+export function renderMathToHtml(html: string): string {
+  return replaceMath(html, renderLatex)
+}
+
+export const KATEX_STYLESHEET_URL = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css`
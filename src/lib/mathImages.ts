@@ -0,0 +1,94 @@
+/**
+ * Equations as PNG images
+ * Google Docs conversion (PDF/DOCX export) drops KaTeX's CSS and fonts, so
+ * equations are drawn to images first: the KaTeX HTML goes into an SVG
+ * <foreignObject> with the fonts embedded, which is then rasterized.
+ */
+import katexCss from 'katex/dist/katex.min.css?inline'
+import { replaceMath, renderLatex, type MathDisplay } from '@/lib/math'
+import { blobToDataUrl } from '@/lib/noteImages'
+import { svgToPng } from '@/lib/svgImages'
+
+const FONT_SIZE = 16
+
+let embeddedCss: Promise<string> | null = null
+
+// KaTeX CSS with its woff2 fonts as data URLs - an SVG image can't load anything external
+async function embedFonts(css: string): Promise<string> {
+  const fontUrls = new Set(Array.from(css.matchAll(/url\(["']?([^"')]+\.woff2)["']?\)/g), match => match[1]))
+  let embedded = css.replace(/,\s*url\(["']?[^"')]+\.(?:woff|ttf)["']?\)\s*format\(["'][^"']+["']\)/g, '')
+
+  for (const url of fontUrls) {
+    const dataUrl = await blobToDataUrl(await (await fetch(url)).blob())
+    embedded = embedded.split(url).join(dataUrl)
+  }
+  // The image is cropped to the equation itself
+  return `${embedded}.katex-display{margin:0}`
+}
+
+function getEmbeddedCss(): Promise<string> {
+  if (!embeddedCss) {
+    embeddedCss = embedFonts(katexCss).catch(error => {
+      embeddedCss = null
+      throw error
+    })
+  }
+  return embeddedCss
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+async function renderEquationImage(latex: string, display: MathDisplay, css: string): Promise<string> {
+  // Lay the equation out in the page first to get its size
+  const container = document.createElement('div')
+  container.style.cssText = `position:fixed;left:-10000px;top:0;display:inline-block;font-size:${FONT_SIZE}px;color:#000`
+  container.innerHTML = `<style>${css}</style>${renderLatex(latex, display)}`
+  document.body.appendChild(container)
+
+  try {
+    const { width, height } = container.getBoundingClientRect()
+    const imageWidth = Math.ceil(width)
+    const imageHeight = Math.ceil(height)
+    container.style.cssText = `display:inline-block;font-size:${FONT_SIZE}px;color:#000`
+    const xhtml = new XMLSerializer().serializeToString(container)
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${imageWidth}" height="${imageHeight}">` +
+      `<foreignObject width="100%" height="100%">${xhtml}</foreignObject></svg>`
+    const png = await svgToPng(svg, imageWidth, imageHeight)
+
+    const img = `<img src="${png}" width="${imageWidth}" height="${imageHeight}" alt="${escapeAttribute(latex)}">`
+    return display === 'block' ? `<p style="text-align: center">${img}</p>` : img
+  } finally {
+    container.remove()
+  }
+}
+
+// Source text when an equation can't be drawn (e.g. the browser blocks the canvas)
+function renderEquationText(latex: string, display: MathDisplay): string {
+  const text = `<code>${escapeAttribute(latex)}</code>`
+  return display === 'block' ? `<p style="text-align: center">${text}</p>` : text
+}
+
+/**
+ * Replace equations in note HTML with PNG images
+ */
+export async function renderMathToImages(html: string): Promise<string> {
+  const equations: { latex: string; display: MathDisplay }[] = []
+  const withPlaceholders = replaceMath(html, (latex, display) => {
+    equations.push({ latex, display })
+    return `<!--math-${equations.length - 1}-->`
+  })
+  if (equations.length === 0) return html
+
+  const css = await getEmbeddedCss().catch(() => null)
+  const rendered: string[] = []
+  for (const { latex, display } of equations) {
+    rendered.push(css
+      ? await renderEquationImage(latex, display, css).catch(() => renderEquationText(latex, display))
+      : renderEquationText(latex, display))
+  }
+
+  return withPlaceholders.replace(/<!--math-(\d+)-->/g, (_, index: string) => rendered[Number(index)])
+}
@@ -0,0 +1,106 @@
+/**
+ * Note Graph
+ * Builds the graph shown in the graph view: one node per note, edges for
+ * [[links]], and one hub node per tag shared by two or more notes. Tag hubs
+ * keep the edge count linear - connecting every pair of notes with a
+ * common tag would be quadratic for popular tags.
+ */
+import type { Note } from '@/types'
+import { extractLinkedNoteIds } from '@/lib/noteLinks'
+import { getNoteTags, noteHasTag } from '@/lib/tags'
+
+export interface GraphFilter {
+  pinnedOnly: boolean
+  sharedOnly: boolean
+  tag: string | null         // Only notes with this tag (or a nested one)
+  showTags: boolean          // Include tag hub nodes
+}
+
+export const DEFAULT_GRAPH_FILTER: GraphFilter = {
+  pinnedOnly: false,
+  sharedOnly: false,
+  tag: null,
+  showTags: true
+}
+
+export interface GraphNode {
+  id: string                 // Note ID, or "tag:<tag>" for tag hubs
+  kind: 'note' | 'tag'
+  label: string
+  degree: number
+  isPinned?: boolean
+  tag?: string               // Tag hubs only
+}
+
+export interface NoteGraph {
+  nodes: GraphNode[]
+  links: Array<[number, number]>   // Node indexes
+}
+
+export function getTagNodeId(tag: string): string {
+  return `tag:${tag}`
+}
+
+/**
+ * Build the graph for the notes matching a filter
+ */
+export function buildNoteGraph(notes: Note[], filter: GraphFilter): NoteGraph {
+  const included = notes.filter(note =>
+    !note.isDeleted &&
+    (!filter.pinnedOnly || note.isPinned) &&
+    (!filter.sharedOnly || note.isShared) &&
+    (!filter.tag || noteHasTag(note, filter.tag))
+  )
+
+  const nodes: GraphNode[] = []
+  const indexes = new Map<string, number>()
+  for (const note of included) {
+    indexes.set(note.id, nodes.length)
+    nodes.push({ id: note.id, kind: 'note', label: note.title, degree: 0, isPinned: note.isPinned })
+  }
+
+  const links: Array<[number, number]> = []
+  const seen = new Set<string>()
+  const addLink = (source: number, target: number) => {
+    if (source === target) return
+    // Links are undirected in the graph - a note linking back doesn't add an edge
+    const key = source < target ? `${source}:${target}` : `${target}:${source}`
+    if (seen.has(key)) return
+    seen.add(key)
+    links.push([source, target])
+    nodes[source].degree++
+    nodes[target].degree++
+  }
+
+  for (const note of included) {
+    if (!note.content?.includes('data-type="noteLink"')) continue
+    const source = indexes.get(note.id)!
+    for (const targetId of extractLinkedNoteIds(note.content)) {
+      const target = indexes.get(targetId)
+      if (target !== undefined) addLink(source, target)
+    }
+  }
+
+  if (filter.showTags) {
+    const tagNotes = new Map<string, number[]>()
+    for (const note of included) {
+      for (const tag of getNoteTags(note)) {
+        let members = tagNotes.get(tag)
+        if (!members) {
+          members = []
+          tagNotes.set(tag, members)
+        }
+        members.push(indexes.get(note.id)!)
+      }
+    }
+
+    for (const [tag, members] of tagNotes) {
+      if (members.length < 2) continue
+      const hub = nodes.length
+      nodes.push({ id: getTagNodeId(tag), kind: 'tag', label: `#${tag}`, degree: 0, tag })
+      for (const member of members) addLink(member, hub)
+    }
+  }
+
+  return { nodes, links }
+}
@@ -0,0 +1,245 @@
+/**
+ * Note Images
+ * Images are stored once per content hash in the imageBlobs table and
+ * referenced from note HTML as <img src="gnote-image:<hash>">, so editing a
+ * note never re-uploads its photos. Blobs are uploaded to the G-Note Drive
+ * folder during sync and downloaded on demand by other devices.
+ */
+import {
+  getImageBlob,
+  hasImageBlob,
+  saveImageBlob,
+  getPendingImageBlobs,
+  markImageBlobSynced
+} from '@/lib/db/imageBlobRepository'
+import { driveClient } from '@/lib/drive/driveClient'
+import { uploadBlob, downloadBlob } from '@/lib/drive/driveBlobs'
+import { getOrCreateFolder } from '@/lib/drive/driveIndex'
+import { DRAWING_IMAGE_ALT } from '@/lib/search'
+
+export const IMAGE_REF_PREFIX = 'gnote-image:'
+
+const INLINE_IMAGE_PATTERN = /(<img\b[^>]*?\bsrc=")(data:image\/[^";,]+;base64,[^"]+)(")/gi
+const IMAGE_REF_PATTERN = /(<img\b[^>]*?\bsrc=")gnote-image:([0-9a-f]{64})(")/gi
+const UNLABELLED_PNG_PATTERN = /<img\b(?![^>]*\balt=)(?=[^>]*\bsrc="(data:image\/png;base64,[^"]+)")/gi
+
+// Object URLs for loaded images, shared by every open editor
+const objectUrls = new Map<string, string>()
+const loading = new Map<string, Promise<string | null>>()
+
+/**
+ * Check if an image src is a blob reference
+ */
+export function isImageRef(src: string | null | undefined): src is string {
+  return !!src && src.startsWith(IMAGE_REF_PREFIX)
+}
+
+function getImageRefId(src: string): string {
+  return src.slice(IMAGE_REF_PREFIX.length)
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Decode a base64 data URL
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',', 2)
+  const mimeType = /^data:([^;,]+)/.exec(header)?.[1] || 'image/png'
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0))
+  return new Blob([bytes], { type: mimeType })
+}
+
+/**
+ * Encode a blob as a base64 data URL
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Store an image (file, blob or data URL) and get the src to put in the note
+ */
+export async function storeImage(image: Blob | string): Promise<string> {
+  const blob = typeof image === 'string' ? dataUrlToBlob(image) : image
+  const id = await hashBlob(blob)
+
+  if (!(await hasImageBlob(id))) {
+    await saveImageBlob({ id, blob, size: blob.size, createdAt: Date.now(), syncStatus: 'pending' })
+  }
+  return IMAGE_REF_PREFIX + id
+}
+
+async function loadImage(id: string): Promise<string | null> {
+  let blob = (await getImageBlob(id))?.blob
+
+  // Added on another device - fetch it from Drive once
+  if (!blob && driveClient.isAuthenticated()) {
+    try {
+      const downloaded = await downloadBlob(id)
+      if (downloaded) {
+        blob = downloaded
+        await saveImageBlob({ id, blob, size: blob.size, createdAt: Date.now(), syncStatus: 'synced' })
+      }
+    } catch (error) {
+      console.error(`[NoteImages] Failed to download image ${id}:`, error)
+    }
+  }
+
+  if (!blob) return null
+  const url = URL.createObjectURL(blob)
+  objectUrls.set(id, url)
+  return url
+}
+
+/**
+ * Get a displayable URL for an image src, if already loaded
+ * Plain URLs (including legacy data URLs) are returned as is
+ */
+export function getLoadedImageSrc(src: string): string | undefined {
+  return isImageRef(src) ? objectUrls.get(getImageRefId(src)) : src
+}
+
+/**
+ * Resolve an image src to a displayable URL
+ * Returns null if the image is missing locally and can't be downloaded
+ */
+export async function resolveImageSrc(src: string): Promise<string | null> {
+  if (!isImageRef(src)) return src
+
+  const id = getImageRefId(src)
+  const loaded = objectUrls.get(id)
+  if (loaded) return loaded
+
+  let request = loading.get(id)
+  if (!request) {
+    request = loadImage(id).finally(() => loading.delete(id))
+    loading.set(id, request)
+  }
+  return request
+}
+
+/**
+ * Check if note HTML still embeds base64 images
+ */
+export function hasInlineImages(html: string): boolean {
+  return html.includes('src="data:image/')
+}
+
+/**
+ * Check if a PNG data URL is a canvas export - RGBA, with nothing but an
+ * sRGB chunk between the header and the image data. Photos, screenshots and
+ * edited images carry other chunks (physical size, text, color profile).
+ */
+export function isCanvasPng(dataUrl: string): boolean {
+  // The signature and first chunks fit in the first 96 bytes
+  const start = dataUrl.indexOf(',') + 1
+  const base64 = dataUrl.slice(start, start + 128)
+  let bytes: Uint8Array
+  try {
+    bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+  } catch {
+    return false
+  }
+
+  const chunkType = (offset: number) => String.fromCharCode(...bytes.slice(offset + 4, offset + 8))
+  const chunkEnd = (offset: number) =>
+    offset + 12 + ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+
+  // IHDR: 8-bit RGBA
+  if (bytes.length < 33 || chunkType(8) !== 'IHDR' || bytes[24] !== 8 || bytes[25] !== 6) return false
+
+  let offset = chunkEnd(8)
+  if (chunkType(offset) === 'sRGB') offset = chunkEnd(offset)
+  return chunkType(offset) === 'IDAT'
+}
+
+/**
+ * Label drawings saved before they got alt text, so has:drawing finds them.
+ * Drawings were the only canvas exports put into notes.
+ */
+export function labelUnmarkedDrawings(html: string): string {
+  return html.replace(UNLABELLED_PNG_PATTERN, (tag, dataUrl: string) =>
+    isCanvasPng(dataUrl) ? `<img alt="${DRAWING_IMAGE_ALT}"` : tag
+  )
+}
+
+/**
+ * Move base64 images in note HTML into image blobs
+ */
+export async function extractInlineImages(html: string): Promise<string> {
+  const labelled = labelUnmarkedDrawings(html)
+  const refs = new Map<string, string>()
+  for (const [, , dataUrl] of labelled.matchAll(INLINE_IMAGE_PATTERN)) {
+    if (!refs.has(dataUrl)) {
+      refs.set(dataUrl, await storeImage(dataUrl))
+    }
+  }
+  if (refs.size === 0) return labelled
+
+  return labelled.replace(INLINE_IMAGE_PATTERN, (_, before: string, dataUrl: string, after: string) =>
+    before + refs.get(dataUrl) + after
+  )
+}
+
+/**
+ * Replace image references with base64 data URLs
+ * For HTML that leaves this account (shares, exports), where blobs can't be resolved
+ */
+export async function inlineImageRefs(html: string): Promise<string> {
+  const dataUrls = new Map<string, string>()
+  for (const [, , id] of html.matchAll(IMAGE_REF_PATTERN)) {
+    if (dataUrls.has(id)) continue
+    const url = await resolveImageSrc(IMAGE_REF_PREFIX + id)
+    if (url) {
+      const blob = await (await fetch(url)).blob()
+      dataUrls.set(id, await blobToDataUrl(blob))
+    }
+  }
+  if (dataUrls.size === 0) return html
+
+  return html.replace(IMAGE_REF_PATTERN, (match, before: string, id: string, after: string) => {
+    const dataUrl = dataUrls.get(id)
+    return dataUrl ? before + dataUrl + after : match
+  })
+}
+
+/**
+ * Upload images that aren't on Drive yet
+ * Failed uploads stay pending and are retried on the next sync
+ */
+export async function uploadPendingImages(): Promise<void> {
+  const pending = await getPendingImageBlobs()
+  if (pending.length === 0) return
+
+  const folderId = await getOrCreateFolder()
+  let uploaded = 0
+  for (const record of pending) {
+    try {
+      const fileId = await uploadBlob(record.id, record.blob, folderId)
+      await markImageBlobSynced(record.id, fileId)
+      uploaded++
+    } catch (error) {
+      console.error(`[NoteImages] Failed to upload image ${record.id}:`, error)
+    }
+  }
+  console.log(`[NoteImages] Uploaded ${uploaded}/${pending.length} images`)
+}
+
+/**
+ * Release loaded images (on logout)
+ */
+export function releaseLoadedImages(): void {
+  for (const url of objectUrls.values()) {
+    URL.revokeObjectURL(url)
+  }
+  objectUrls.clear()
+}
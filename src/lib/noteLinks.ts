@@ -0,0 +1,80 @@
+/**
+ * Note Links
+ * [[Wiki links]] between notes are stored in note HTML as
+ *   <span data-type="noteLink" data-note-id="<id>" data-title="<title>">[[title]]</span>
+ * The ID is what the link points to; the title is only a fallback for when
+ * the target is missing, so renaming a note never breaks links to it.
+ */
+import type { Note } from '@/types'
+
+const NOTE_LINK_PATTERN = /<span\b[^>]*\bdata-type="noteLink"[^>]*>[\s\S]*?<\/span>/gi
+const NOTE_ID_ATTR_PATTERN = /\bdata-note-id="([^"]*)"/i
+const TITLE_ATTR_PATTERN = /\bdata-title="([^"]*)"/i
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function unescapeAttr(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Text shown for a link: [[title]]
+ */
+export function formatNoteLinkText(title: string): string {
+  return `[[${title}]]`
+}
+
+/**
+ * IDs of the notes a note links to, in order of first appearance
+ */
+export function extractLinkedNoteIds(html: string): string[] {
+  const ids = new Set<string>()
+  for (const [link] of html.matchAll(NOTE_LINK_PATTERN)) {
+    const id = NOTE_ID_ATTR_PATTERN.exec(link)?.[1]
+    if (id) ids.add(id)
+  }
+  return Array.from(ids)
+}
+
+/**
+ * Check if a note's content links to another note
+ */
+export function linksToNote(html: string, noteId: string): boolean {
+  // Cheap check first - most notes have no links
+  return html.includes(`data-note-id="${noteId}"`) && extractLinkedNoteIds(html).includes(noteId)
+}
+
+/**
+ * Notes linking to a note, most recently edited first
+ */
+export function getBacklinks(notes: Note[], noteId: string): Note[] {
+  return notes
+    .filter(note => note.id !== noteId && !note.isDeleted && linksToNote(note.content || '', noteId))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * Rewrite link text and titles to the linked notes' current titles
+ * For HTML that leaves the editor (exports), where links are plain text
+ */
+export function refreshNoteLinkTitles(html: string, notes: Note[]): string {
+  if (!html.includes('data-type="noteLink"')) return html
+  const titles = new Map(notes.filter(note => !note.isDeleted).map(note => [note.id, note.title]))
+
+  return html.replace(NOTE_LINK_PATTERN, (link: string) => {
+    const id = NOTE_ID_ATTR_PATTERN.exec(link)?.[1] ?? ''
+    const fallback = unescapeAttr(TITLE_ATTR_PATTERN.exec(link)?.[1] ?? '')
+    const title = titles.get(id) || fallback
+    return `<span data-type="noteLink" data-note-id="${escapeAttr(id)}" data-title="${escapeAttr(title)}">${escapeAttr(formatNoteLinkText(title))}</span>`
+  })
+}
@@ -0,0 +1,184 @@
+/**
+ * Note retrieval for "Ask your notes"
+ * Notes are split into passages and ranked against the question on the
+ * device - by keywords, and by embedding similarity when enabled - so only
+ * the few best excerpts are sent to the AI.
+ */
+import { htmlToText, tokenize } from '@/lib/searchIndex'
+
+// Target passage size in characters
+export const PASSAGE_LENGTH = 800
+
+// Excerpts sent with a question
+export const MAX_EXCERPTS = 6
+const MAX_EXCERPTS_PER_NOTE = 2
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+// Reciprocal rank fusion constant - dampens the lead of the very top ranks
+const FUSION_K = 60
+
+export interface NotePassage {
+  id: string          // `${noteId}:${index}`
+  noteId: string
+  title: string
+  text: string
+}
+
+export interface RankedPassage {
+  passage: NotePassage
+  score: number
+}
+
+export type AnswerPart =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; number: number }
+
+// Where to cut a long text: the last sentence end, else the last space
+function findCut(text: string, max: number): number {
+  const window = text.slice(0, max)
+  const sentenceEnd = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('! '),
+    window.lastIndexOf('? '),
+    window.lastIndexOf('。')
+  )
+  if (sentenceEnd > max / 2) return sentenceEnd + 1
+  const space = window.lastIndexOf(' ')
+  return space > max / 2 ? space : max
+}
+
+/**
+ * Split a note's text into passages of about PASSAGE_LENGTH characters
+ */
+export function splitIntoPassages(note: { id: string; title: string; content: string }): NotePassage[] {
+  let text = htmlToText(note.content || '').replace(/\s+/g, ' ').trim()
+  const passages: NotePassage[] = []
+
+  while (text) {
+    const cut = text.length > PASSAGE_LENGTH ? findCut(text, PASSAGE_LENGTH) : text.length
+    passages.push({
+      id: `${note.id}:${passages.length}`,
+      noteId: note.id,
+      title: note.title,
+      text: text.slice(0, cut).trim()
+    })
+    text = text.slice(cut).trim()
+  }
+
+  return passages
+}
+
+/**
+ * Rank passages by the question's words (BM25). The note title counts as
+ * part of every passage. Passages sharing no words are left out.
+ */
+export function rankByKeywords(passages: NotePassage[], question: string): RankedPassage[] {
+  const queryTokens = Array.from(new Set(tokenize(question)))
+  if (queryTokens.length === 0 || passages.length === 0) return []
+
+  const documents = passages.map(passage => {
+    const counts = new Map<string, number>()
+    const tokens = tokenize(`${passage.title} ${passage.text}`, true)
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1)
+    return { counts, length: tokens.length }
+  })
+  const averageLength = documents.reduce((total, doc) => total + doc.length, 0) / documents.length || 1
+
+  const idf = new Map<string, number>()
+  for (const token of queryTokens) {
+    const frequency = documents.filter(doc => doc.counts.has(token)).length
+    idf.set(token, Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5)))
+  }
+
+  const ranked: RankedPassage[] = []
+  documents.forEach((doc, index) => {
+    let score = 0
+    for (const token of queryTokens) {
+      const count = doc.counts.get(token)
+      if (!count) continue
+      score += idf.get(token)! * (count * (K1 + 1)) / (count + K1 * (1 - B + B * doc.length / averageLength))
+    }
+    if (score > 0) ranked.push({ passage: passages[index], score })
+  })
+
+  return ranked.sort((a, b) => b.score - a.score)
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Rank passages by embedding similarity to the question
+ */
+export function rankBySimilarity(
+  passages: NotePassage[],
+  vectors: Map<string, number[]>,
+  queryVector: number[]
+): RankedPassage[] {
+  return passages
+    .filter(passage => vectors.has(passage.id))
+    .map(passage => ({ passage, score: cosineSimilarity(vectors.get(passage.id)!, queryVector) }))
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Merge rankings by reciprocal rank - their scores aren't comparable
+ */
+export function fuseRankings(rankings: RankedPassage[][]): RankedPassage[] {
+  const fused = new Map<string, RankedPassage>()
+  for (const ranking of rankings) {
+    ranking.forEach(({ passage }, rank) => {
+      const score = 1 / (FUSION_K + rank + 1)
+      const existing = fused.get(passage.id)
+      fused.set(passage.id, { passage, score: (existing?.score ?? 0) + score })
+    })
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * The best passages to send, spread over several notes
+ */
+export function selectExcerpts(ranked: RankedPassage[], max = MAX_EXCERPTS): NotePassage[] {
+  const perNote = new Map<string, number>()
+  const selected: NotePassage[] = []
+
+  for (const { passage } of ranked) {
+    if (selected.length >= max) break
+    const count = perNote.get(passage.noteId) ?? 0
+    if (count >= MAX_EXCERPTS_PER_NOTE) continue
+    perNote.set(passage.noteId, count + 1)
+    selected.push(passage)
+  }
+
+  return selected
+}
+
+/**
+ * Split an answer into text and its [n] citations, as they stream in
+ */
+export function parseCitations(answer: string): AnswerPart[] {
+  const parts: AnswerPart[] = []
+  let last = 0
+
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    if (match.index! > last) parts.push({ type: 'text', text: answer.slice(last, match.index) })
+    parts.push({ type: 'citation', number: Number(match[1]) })
+    last = match.index! + match[0].length
+  }
+  if (last < answer.length) parts.push({ type: 'text', text: answer.slice(last) })
+
+  return parts
+}
@@ -0,0 +1,150 @@
+/**
+ * OpenAI-compatible AI servers
+ * Helpers for sending AI actions to a server of the user's own - such as
+ * Ollama or llama.cpp - through its /chat/completions and /embeddings
+ * endpoints. The G-Note backend builds its prompts on the server; for these
+ * servers the same prompts are built here, kept in step with
+ * backend/src/routes/ai.js.
+ */
+import type { ChatTurn } from '@/lib/chatThreads'
+
+// Endpoints of the G-Note backend, one per kind of request
+export type AIEndpoint =
+  | 'summarize'
+  | 'continue'
+  | 'improve'
+  | 'translate'
+  | 'extract-tasks'
+  | 'ask'
+  | 'summarize-chat'
+  | 'ask-notes'
+  | 'custom'
+
+export interface PromptBody {
+  content?: string
+  targetLanguage?: string
+  question?: string
+  history?: ChatTurn[]
+  messages?: ChatTurn[]
+  summary?: string
+  excerpts?: { title: string; text: string }[]
+  prompt?: string            // Custom AI actions - already filled in
+}
+
+// A chunk of a streamed chat completion
+export interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; message?: { content?: string | null } }[]
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * URL of an endpoint under the base URL the user entered,
+ * e.g. http://localhost:11434/v1 + chat/completions
+ */
+export function getEndpointUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.trim().replace(/\/+$/, '')}/${path}`
+}
+
+// Servers on this device keep working offline
+export function isLocalUrl(baseUrl: string): boolean {
+  try {
+    return LOCAL_HOSTS.includes(new URL(baseUrl.trim()).hostname)
+  } catch {
+    return false
+  }
+}
+
+// Text of a completion or of one streamed chunk of it
+export function readCompletionText(data: ChatCompletionChunk): string {
+  const choice = data.choices?.[0]
+  return choice?.delta?.content ?? choice?.message?.content ?? ''
+}
+
+// Earlier turns of a chat, as prompt text
+function formatConversation(summary?: string, history: ChatTurn[] = []): string {
+  const parts: string[] = []
+  if (summary?.trim()) {
+    parts.push(`Summary of the earlier conversation:
+${summary.trim()}`)
+  }
+  if (history.length > 0) {
+    parts.push(`Conversation so far:
+${history.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n\n')}`)
+  }
+  return parts.join('\n\n')
+}
+
+/**
+ * The prompt for an endpoint's request body
+ */
+export function buildPrompt(endpoint: AIEndpoint, body: PromptBody): string {
+  const content = body.content ?? ''
+
+  switch (endpoint) {
+    case 'summarize':
+      return `Summarize the following content into concise key points. IMPORTANT: Respond in the SAME language as the input content. Use markdown format (headings, lists, bold, code blocks if needed).
+
+Content:
+${content}`
+
+    case 'continue':
+      return `Continue writing the following content naturally and coherently. IMPORTANT: Keep the same style and language as the input content. Only write the continuation, do not repeat existing content. Use markdown format if appropriate.
+
+Content:
+${content}`
+
+    case 'improve':
+      return `Improve the following text: fix spelling, grammar errors, make it clearer and more coherent. IMPORTANT: Keep the same meaning and language as the input content. Use markdown format (headings, lists, bold, inline code, code blocks for code).
+
+Content:
+${content}`
+
+    case 'translate':
+      return `Translate the following content to ${body.targetLanguage}. Keep markdown format if present (headings, lists, code blocks, links).
+
+Content:
+${content}`
+
+    case 'extract-tasks':
+      return `Analyze the following content and create a list of tasks/to-dos. IMPORTANT: Respond in the SAME language as the input content.
+
+Content:
+${content}
+
+Return only a markdown task list, one "- [ ] task" per line.`
+
+    case 'ask': {
+      const conversation = formatConversation(body.summary, body.history)
+      return `Based on the following note content${conversation ? ' and the conversation so far' : ''}, answer the question concisely and clearly. IMPORTANT: Respond in the SAME language as the question. Use markdown format if needed (lists, code blocks, bold).
+
+Note content:
+${content}
+${conversation ? `\n${conversation}\n` : ''}
+Question: ${body.question}`
+    }
+
+    case 'summarize-chat':
+      return `Summarize the following conversation between a user and an AI assistant about a note, so it can be continued later. Keep the questions asked, the answers' key facts and any decisions. Merge in the earlier summary if there is one. IMPORTANT: Respond in the SAME language as the conversation. Be brief.
+
+${formatConversation(body.summary, body.messages)}`
+
+    case 'ask-notes': {
+      const sources = (body.excerpts ?? [])
+        .map((excerpt, index) => `[${index + 1}] ${excerpt.title || 'Untitled'}
+${excerpt.text}`)
+        .join('\n\n')
+      return `Answer the question using only the following excerpts from the user's notes. After each statement, cite the excerpts it comes from by number, like [1] or [2][3]. If the excerpts don't contain the answer, say so briefly. IMPORTANT: Respond in the SAME language as the question. Write plain text in short paragraphs or "- " lists, without other markdown.
+
+Excerpts:
+${sources || '(none)'}
+
+Question: ${body.question}`
+    }
+
+    case 'custom':
+      return `${(body.prompt ?? '').trim()}
+
+IMPORTANT: Respond with the result only, without any introduction. Use markdown format if appropriate.`
+  }
+}
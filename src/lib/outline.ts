@@ -0,0 +1,73 @@
+/**
+ * Note outline and heading folds
+ * Works on the note's top-level blocks: a heading's section is everything
+ * after it up to the next heading of the same or a higher level. Headings
+ * have no ids, so folds are remembered by level and text.
+ */
+
+export const OUTLINE_LEVELS = [1, 2, 3]
+
+export interface OutlineBlock {
+  level: number | null  // null for anything that isn't a heading
+  text: string
+}
+
+export interface OutlineHeading {
+  key: string
+  level: number
+  text: string
+  index: number  // Position among the top-level blocks
+}
+
+/**
+ * H1-H3 headings with stable keys - repeated headings are numbered
+ */
+export function getOutlineHeadings(blocks: OutlineBlock[]): OutlineHeading[] {
+  const seen = new Map<string, number>()
+  const headings: OutlineHeading[] = []
+
+  blocks.forEach((block, index) => {
+    if (block.level === null || !OUTLINE_LEVELS.includes(block.level)) return
+    const text = block.text.trim()
+    const base = `${block.level}:${text}`
+    const count = seen.get(base) ?? 0
+    seen.set(base, count + 1)
+    headings.push({ key: count ? `${base}#${count}` : base, level: block.level, text, index })
+  })
+
+  return headings
+}
+
+/**
+ * Index just past the end of a heading's section
+ */
+export function getSectionEnd(blocks: OutlineBlock[], index: number): number {
+  const level = blocks[index].level ?? 0
+  for (let i = index + 1; i < blocks.length; i++) {
+    const other = blocks[i].level
+    if (other !== null && other <= level) return i
+  }
+  return blocks.length
+}
+
+/**
+ * Which blocks are inside a folded section
+ */
+export function getHiddenBlocks(blocks: OutlineBlock[], folded: ReadonlySet<string>): boolean[] {
+  const hidden = blocks.map(() => false)
+  for (const heading of getOutlineHeadings(blocks)) {
+    if (!folded.has(heading.key) || hidden[heading.index]) continue
+    const end = getSectionEnd(blocks, heading.index)
+    for (let i = heading.index + 1; i < end; i++) hidden[i] = true
+  }
+  return hidden
+}
+
+/**
+ * Folded headings whose sections contain a block - unfolding them reveals it
+ */
+export function getFoldsContaining(blocks: OutlineBlock[], folded: ReadonlySet<string>, index: number): string[] {
+  return getOutlineHeadings(blocks)
+    .filter(heading => folded.has(heading.key) && heading.index < index && index < getSectionEnd(blocks, heading.index))
+    .map(heading => heading.key)
+}
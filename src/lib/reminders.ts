@@ -0,0 +1,97 @@
+/**
+ * Note Reminders
+ * Scheduling rules for one-off and recurring reminders
+ *
+ * A reminder is due once its time has passed and no device has notified
+ * for that occurrence yet. Notifying marks it (and moves recurring reminders
+ * to their next occurrence), and the change syncs like any other note edit.
+ */
+import type { Note, NoteReminder, ReminderRepeat } from '@/types'
+
+export const REMINDER_REPEATS: ReminderRepeat[] = ['none', 'daily', 'weekly', 'monthly', 'yearly']
+
+function addMonths(at: number, months: number): number {
+  const date = new Date(at)
+  const day = date.getDate()
+  date.setDate(1)
+  date.setMonth(date.getMonth() + months)
+  // Clamp to the last day of the month (Jan 31 -> Feb 28)
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+  date.setDate(Math.min(day, lastDay))
+  return date.getTime()
+}
+
+/**
+ * Time of the occurrence after `at`
+ * Calendar-based, so recurring reminders keep their local time across DST
+ */
+export function addRepeat(at: number, repeat: ReminderRepeat): number {
+  const date = new Date(at)
+  switch (repeat) {
+    case 'daily':
+      date.setDate(date.getDate() + 1)
+      return date.getTime()
+    case 'weekly':
+      date.setDate(date.getDate() + 7)
+      return date.getTime()
+    case 'monthly':
+      return addMonths(at, 1)
+    case 'yearly':
+      return addMonths(at, 12)
+    case 'none':
+      return at
+  }
+}
+
+/**
+ * First occurrence strictly after a time (skips ones missed while offline)
+ */
+export function getNextOccurrence(reminder: NoteReminder, after: number): number {
+  if (reminder.repeat === 'none') return reminder.at
+
+  let at = reminder.at
+  for (let step = 1; at <= after; step++) {
+    // Count months from the reminder's date so skipped occurrences don't compound clamping
+    at = reminder.repeat === 'monthly' || reminder.repeat === 'yearly'
+      ? addMonths(reminder.at, step * (reminder.repeat === 'yearly' ? 12 : 1))
+      : addRepeat(at, reminder.repeat)
+  }
+  return at
+}
+
+/**
+ * Check if a reminder should notify now
+ */
+export function isReminderDue(reminder: NoteReminder, now: number = Date.now()): boolean {
+  return reminder.at <= now && (reminder.notifiedAt ?? 0) < reminder.at
+}
+
+/**
+ * Reminder after its notification was shown
+ */
+export function completeReminder(reminder: NoteReminder, now: number = Date.now()): NoteReminder {
+  return {
+    ...reminder,
+    at: getNextOccurrence(reminder, now),
+    notifiedAt: now
+  }
+}
+
+/**
+ * Check if a note has a reminder that will still notify
+ * (recurring reminders always do, one-off ones until they have)
+ */
+export function hasActiveReminder(note: Note): boolean {
+  const { reminder } = note
+  if (!reminder || note.isDeleted) return false
+  return reminder.repeat !== 'none' || (reminder.notifiedAt ?? 0) < reminder.at
+}
+
+/**
+ * Notes with active reminders, soonest first
+ */
+export function getUpcomingNotes(notes: Note[]): Note[] {
+  return notes
+    .filter(hasActiveReminder)
+    .sort((a, b) => a.reminder!.at - b.reminder!.at)
+}
@@ -1,5 +1,8 @@
 import Fuse, { type FuseResult, type IFuseOptions } from 'fuse.js'
 import type { Note } from '@/types'
+import { normalizeTag, noteHasTag } from '@/lib/tags'
+import { getColorName } from '@/lib/noteColors'
+import { searchIndex, htmlToText, tokenize } from '@/lib/searchIndex'
 
 export interface SearchResult {
   note: Note
@@ -16,47 +19,244 @@ const fuseOptions: IFuseOptions<Note> = {
   minMatchCharLength: 2
 }
 
-export function searchNotes(notes: Note[], query: string): SearchResult[] {
+// Drawings are inserted as images with this alt text so has:drawing can find them.
+// Older drawings get it when their images move to image storage (see noteImages.ts)
+export const DRAWING_IMAGE_ALT = 'drawing'
+
+// ============ Query Language ============
+
+export type SearchTermType =
+  | 'text'     // word - full-text matched
+  | 'phrase'   // "exact phrase"
+  | 'title'    // title:word
+  | 'tag'      // tag:work
+  | 'is'       // is:pinned, is:shared
+  | 'has'      // has:image, has:task, has:drawing
+  | 'before'   // before:2026-01-01 (updated before that day)
+  | 'after'    // after:2026-01-01 (updated on or after that day)
+  | 'color'    // color:coral or color:#f28b82
+
+export interface SearchTerm {
+  type: SearchTermType
+  value: string
+  negated: boolean   // -term
+  raw: string        // As typed, for display
+}
+
+const IS_VALUES = ['pinned', 'shared']
+const HAS_VALUES = ['image', 'task', 'drawing']
+const OPERATORS = new Set<SearchTermType>(['title', 'tag', 'is', 'has', 'before', 'after', 'color'])
+
+// -? operator: "quoted value" | value
+const TOKEN_PATTERN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi
+
+/**
+ * Parse a YYYY, YYYY-MM or YYYY-MM-DD date to local midnight
+ */
+function parseDate(value: string): number | null {
+  const match = /^(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?$/.exec(value)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2] || 1) - 1, Number(match[3] || 1))
+  return isNaN(date.getTime()) ? null : date.getTime()
+}
+
+function isValidOperatorValue(type: SearchTermType, value: string): boolean {
+  switch (type) {
+    case 'is': return IS_VALUES.includes(value)
+    case 'has': return HAS_VALUES.includes(value)
+    case 'before':
+    case 'after': return parseDate(value) !== null
+    case 'tag': return normalizeTag(value).length > 0
+    default: return value.length > 0
+  }
+}
+
+/**
+ * Parse a search query into terms
+ * Unknown operators and invalid values are treated as plain text
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = []
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, operator, quoted, bare] = match
+    const negated = !!minus
+    const value = (quoted ?? bare ?? '').trim()
+    const type = operator?.toLowerCase() as SearchTermType | undefined
+
+    if (type && OPERATORS.has(type)) {
+      const normalized = type === 'title' ? value : value.toLowerCase()
+      if (isValidOperatorValue(type, normalized)) {
+        terms.push({
+          type,
+          value: type === 'tag' ? normalizeTag(normalized) : normalized,
+          negated,
+          raw
+        })
+        continue
+      }
+    }
+
+    // Plain word, quoted phrase, or an operator we don't understand
+    const text = operator ? `${operator}:${value}` : value
+    if (!text) continue
+    terms.push({
+      type: quoted !== undefined && !operator ? 'phrase' : 'text',
+      value: text,
+      negated,
+      raw
+    })
+  }
+
+  return terms
+}
+
+/**
+ * Words and phrases to highlight in results
+ */
+export function getHighlightTerms(query: string): string[] {
+  return parseSearchQuery(query)
+    .filter(term => !term.negated && (term.type === 'text' || term.type === 'phrase' || term.type === 'title'))
+    .map(term => term.value)
+}
+
+// ============ Matching ============
+
+function containsText(note: Note, text: string): boolean {
+  const needle = text.toLowerCase()
+  return note.title.toLowerCase().includes(needle) ||
+    htmlToText(note.content || '').toLowerCase().includes(needle)
+}
+
+// Notes the index hasn't caught up with (just edited, or still loading) are
+// matched by scanning their text for every word instead
+function containsAllWords(note: Note, text: string): boolean {
+  const haystack = `${note.title} ${htmlToText(note.content || '')}`
+  const noteTokens = tokenize(haystack, true)
+  return tokenize(text).every(word => noteTokens.some(token => token.startsWith(word)))
+}
+
+/**
+ * Match plain words through the full-text index, best matches first
+ * Notes with equal scores keep their incoming order
+ */
+function searchIndexed(notes: Note[], text: string): Note[] {
+  const scores = searchIndex.search(text)
+  const matches: { note: Note; score: number; order: number }[] = []
+
+  notes.forEach((note, order) => {
+    const score = searchIndex.isCurrent(note.id, note.updatedAt)
+      ? scores.get(note.id)
+      : (containsAllWords(note, text) ? 1 : undefined)
+    if (score) matches.push({ note, score, order })
+  })
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(match => match.note)
+}
+
+function matchesTerm(note: Note, term: SearchTerm, hasTag: TagMatcher): boolean {
+  const content = note.content || ''
+
+  switch (term.type) {
+    case 'text':
+    case 'phrase':
+      return containsText(note, term.value)
+    case 'title':
+      return note.title.toLowerCase().includes(term.value.toLowerCase())
+    case 'tag':
+      return hasTag(note, term.value)
+    case 'is':
+      return term.value === 'pinned' ? note.isPinned : !!note.isShared
+    case 'has':
+      if (term.value === 'image') return /<img\s/i.test(content)
+      if (term.value === 'task') return content.includes('data-type="taskList"') || content.includes('data-type="taskItem"')
+      return content.includes(`alt="${DRAWING_IMAGE_ALT}"`)
+    case 'before':
+      return note.updatedAt < (parseDate(term.value) ?? 0)
+    case 'after':
+      return note.updatedAt >= (parseDate(term.value) ?? 0)
+    case 'color': {
+      const color = note.style?.backgroundColor
+      if (term.value.startsWith('#')) return color?.toLowerCase() === term.value
+      return getColorName(color) === term.value
+    }
+  }
+}
+
+// Checks tag: terms - the notes store passes one backed by the IndexedDB tags index
+export type TagMatcher = (note: Note, tag: string) => boolean
+
+export function searchNotes(notes: Note[], query: string, hasTag: TagMatcher = noteHasTag): SearchResult[] {
   if (!query.trim()) {
     return notes.map(note => ({ note, query: '' }))
   }
 
-  const fuse = new Fuse(notes, fuseOptions)
-  const results = fuse.search(query)
+  const terms = parseSearchQuery(query)
+
+  // Plain words go through the full-text index, everything else is an exact filter
+  const fuzzyText = terms
+    .filter(term => term.type === 'text' && !term.negated)
+    .map(term => term.value)
+    .join(' ')
+  const filters = terms.filter(term => term.type !== 'text' || term.negated)
 
-  return results.map((result: FuseResult<Note>) => ({
-    note: result.item,
-    query: query.trim()
+  const filtered = filters.length > 0
+    ? notes.filter(note => filters.every(term => matchesTerm(note, term, hasTag) !== term.negated))
+    : notes
+
+  const resultQuery = query.trim()
+
+  if (!fuzzyText) {
+    return filtered.map(note => ({ note, query: resultQuery }))
+  }
+
+  if (searchIndex.isReady) {
+    return searchIndexed(filtered, fuzzyText).map(note => ({ note, query: resultQuery }))
+  }
+
+  // Index still loading - fall back to fuzzy matching stripped text
+  const fuse = new Fuse(
+    filtered.map(note => ({ ...note, content: htmlToText(note.content || '') })),
+    fuseOptions
+  )
+  const byId = new Map(filtered.map(note => [note.id, note]))
+
+  return fuse.search(fuzzyText).map((result: FuseResult<Note>) => ({
+    note: byId.get(result.item.id) ?? result.item,
+    query: resultQuery
   }))
 }
 
-// Simple text highlight - find and highlight exact query matches
+// Highlight every positive search term in text (operators like is:pinned are skipped)
 export function highlightText(text: string, query: string): { text: string; highlight: boolean }[] {
-  if (!query.trim()) {
+  const terms = getHighlightTerms(query)
+    .map(term => term.toLowerCase())
+    .filter(term => term.length > 0)
+
+  if (terms.length === 0) {
     return [{ text, highlight: false }]
   }
 
-  const segments: { text: string; highlight: boolean }[] = []
+  // Mark matched characters, then group into segments (handles overlapping terms)
   const lowerText = text.toLowerCase()
-  const lowerQuery = query.toLowerCase().trim()
-  
-  let lastIndex = 0
-  let index = lowerText.indexOf(lowerQuery)
-
-  while (index !== -1) {
-    // Add non-highlighted text before match
-    if (index > lastIndex) {
-      segments.push({ text: text.slice(lastIndex, index), highlight: false })
+  const marked = new Array<boolean>(text.length).fill(false)
+  for (const term of terms) {
+    let index = lowerText.indexOf(term)
+    while (index !== -1) {
+      marked.fill(true, index, index + term.length)
+      index = lowerText.indexOf(term, index + term.length)
     }
-    // Add highlighted match (use original case from text)
-    segments.push({ text: text.slice(index, index + query.length), highlight: true })
-    lastIndex = index + query.length
-    index = lowerText.indexOf(lowerQuery, lastIndex)
   }
 
-  // Add remaining text
-  if (lastIndex < text.length) {
-    segments.push({ text: text.slice(lastIndex), highlight: false })
+  const segments: { text: string; highlight: boolean }[] = []
+  let start = 0
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marked[i] !== marked[start]) {
+      segments.push({ text: text.slice(start, i), highlight: marked[start] })
+      start = i
+    }
   }
 
   return segments.length > 0 ? segments : [{ text, highlight: false }]
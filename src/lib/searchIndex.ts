@@ -0,0 +1,318 @@
+/**
+ * Full-text Search Index
+ * Tokenizes note text and keeps an in-memory inverted index (token -> notes)
+ * The index is persisted per note in IndexedDB (see searchIndexRepository)
+ * so it doesn't have to be rebuilt from note HTML on every start
+ */
+
+// Bump when tokenization changes - persisted entries are rebuilt
+export const SEARCH_INDEX_VERSION = 1
+
+// Persisted tokens for one note
+export interface SearchIndexEntry {
+  noteId: string
+  titleTokens: string[]
+  tokens: string[]           // Title and content tokens (multi-entry index)
+  updatedAt: number          // Note updatedAt when indexed - used to skip unchanged notes
+}
+
+// Prefix queries expand to at most this many index tokens
+const MAX_PREFIX_EXPANSION = 500
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u
+const CJK_SPLIT_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu
+const THAI_PATTERN = /\p{Script=Thai}/u
+const LATIN_PATTERN = /\p{Script=Latin}/u
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu
+
+// Intl.Segmenter isn't in the ES2020 lib this project compiles against
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>
+}
+type WordSegmenterConstructor = new (locale: string, options: { granularity: 'word' }) => WordSegmenter
+
+// Thai has no spaces between words - use the platform word segmenter when available
+const Segmenter = typeof Intl !== 'undefined'
+  ? (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter
+  : undefined
+const thaiSegmenter = Segmenter ? new Segmenter('th', { granularity: 'word' }) : null
+
+/**
+ * Convert note HTML to searchable plain text
+ * Tags (including inline base64 images) are dropped entirely
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+// Overlapping character pairs - CJK text matches on any substring of 2+ characters
+// Indexed text also gets single characters so one-character queries work
+function ngrams(run: string, withUnigrams: boolean): string[] {
+  const chars = Array.from(run)
+  if (chars.length === 1) return chars
+  const result: string[] = withUnigrams ? [...chars] : []
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.push(chars[i] + chars[i + 1])
+  }
+  return result
+}
+
+function segmentThai(run: string, forIndex: boolean): string[] {
+  if (!thaiSegmenter) return ngrams(run, forIndex)
+  const words: string[] = []
+  for (const segment of thaiSegmenter.segment(run)) {
+    if (segment.isWordLike) words.push(segment.segment)
+  }
+  return words
+}
+
+// Lowercase, unify full-width forms, and strip accents from Latin words (café -> cafe)
+function normalizeWord(word: string): string {
+  const normalized = word.normalize('NFKC').toLowerCase()
+  return LATIN_PATTERN.test(normalized)
+    ? normalized.normalize('NFD').replace(/\p{M}/gu, '')
+    : normalized
+}
+
+/**
+ * Split text into search tokens, in order (may contain duplicates)
+ * - Space-separated scripts: one token per word
+ * - Chinese/Japanese: character bigrams
+ * - Thai: dictionary word segmentation
+ */
+export function tokenize(text: string, forIndex = false): string[] {
+  const tokens: string[] = []
+
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    const normalized = normalizeWord(word)
+
+    if (CJK_PATTERN.test(normalized)) {
+      for (const [part] of normalized.matchAll(CJK_SPLIT_PATTERN)) {
+        if (CJK_PATTERN.test(part)) {
+          tokens.push(...ngrams(part, forIndex))
+        } else {
+          tokens.push(part)
+        }
+      }
+    } else if (THAI_PATTERN.test(normalized)) {
+      tokens.push(...segmentThai(normalized, forIndex))
+    } else {
+      tokens.push(normalized)
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Build the index entry for a note
+ */
+export function createIndexEntry(note: { id: string; title: string; content: string; updatedAt: number }): SearchIndexEntry {
+  const titleTokens = Array.from(new Set(tokenize(note.title || '', true)))
+  const contentTokens = tokenize(htmlToText(note.content || ''), true)
+  return {
+    noteId: note.id,
+    titleTokens,
+    tokens: Array.from(new Set([...titleTokens, ...contentTokens])),
+    updatedAt: note.updatedAt
+  }
+}
+
+/**
+ * In-memory inverted index
+ * Notes are numbered internally so lookups can score into typed arrays
+ */
+export class SearchIndex {
+  // token -> note number -> weight (2 when the token is in the title)
+  private postings = new Map<string, Map<number, number>>()
+  private entries = new Map<string, SearchIndexEntry>()
+  private numbers = new Map<string, number>()
+  private noteIds: (string | null)[] = []
+  private freeNumbers: number[] = []
+  private sortedTokens: string[] | null = null
+  private ready = false
+
+  get isReady(): boolean {
+    return this.ready
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Replace the whole index (after loading from IndexedDB)
+   */
+  load(entries: SearchIndexEntry[]): void {
+    this.reset()
+    for (const entry of entries) {
+      this.add(entry)
+    }
+  }
+
+  // Called once every note is indexed - search falls back to scanning until then
+  markReady(): void {
+    this.ready = true
+  }
+
+  update(entry: SearchIndexEntry): void {
+    this.remove(entry.noteId)
+    this.add(entry)
+  }
+
+  remove(noteId: string): void {
+    const entry = this.entries.get(noteId)
+    const number = this.numbers.get(noteId)
+    if (!entry || number === undefined) return
+    for (const token of entry.tokens) {
+      const notes = this.postings.get(token)
+      if (!notes) continue
+      notes.delete(number)
+      if (notes.size === 0) {
+        this.postings.delete(token)
+        this.sortedTokens = null
+      }
+    }
+    this.entries.delete(noteId)
+    this.numbers.delete(noteId)
+    this.noteIds[number] = null
+    this.freeNumbers.push(number)
+  }
+
+  clear(): void {
+    this.reset()
+    this.ready = false
+  }
+
+  has(noteId: string): boolean {
+    return this.entries.has(noteId)
+  }
+
+  // Is the note indexed at this revision?
+  isCurrent(noteId: string, updatedAt: number): boolean {
+    return this.entries.get(noteId)?.updatedAt === updatedAt
+  }
+
+  getIndexedIds(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  private reset(): void {
+    this.postings.clear()
+    this.entries.clear()
+    this.numbers.clear()
+    this.noteIds = []
+    this.freeNumbers = []
+    this.sortedTokens = null
+  }
+
+  private add(entry: SearchIndexEntry): void {
+    const number = this.freeNumbers.pop() ?? this.noteIds.length
+    this.noteIds[number] = entry.noteId
+    this.numbers.set(entry.noteId, number)
+
+    const titleTokens = new Set(entry.titleTokens)
+    for (const token of entry.tokens) {
+      let notes = this.postings.get(token)
+      if (!notes) {
+        notes = new Map()
+        this.postings.set(token, notes)
+        this.sortedTokens = null
+      }
+      notes.set(number, titleTokens.has(token) ? 2 : 1)
+    }
+    this.entries.set(entry.noteId, entry)
+  }
+
+  // Postings for a token exactly or, for prefix tokens, every token starting with it
+  private lookup(token: string, prefix: boolean): Map<number, number>[] {
+    if (!prefix) {
+      const notes = this.postings.get(token)
+      return notes ? [notes] : []
+    }
+
+    if (!this.sortedTokens) {
+      this.sortedTokens = Array.from(this.postings.keys()).sort()
+    }
+    const sorted = this.sortedTokens
+
+    // Binary search for the first token >= prefix
+    let low = 0
+    let high = sorted.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (sorted[mid] < token) low = mid + 1
+      else high = mid
+    }
+
+    const result: Map<number, number>[] = []
+    for (let i = low; i < sorted.length && result.length < MAX_PREFIX_EXPANSION; i++) {
+      if (!sorted[i].startsWith(token)) break
+      result.push(this.postings.get(sorted[i])!)
+    }
+    return result
+  }
+
+  /**
+   * Find notes containing every word of the query
+   * The last word matches as a prefix while it's still being typed
+   * Returns noteId -> score (title matches count double)
+   */
+  search(query: string): Map<string, number> {
+    const tokens = tokenize(query)
+    if (tokens.length === 0) return new Map()
+
+    // Only whole words can be prefixes - CJK bigrams are already exact substrings
+    const lastToken = tokens[tokens.length - 1]
+    const lastIsPrefix = !/\s$/.test(query) && !CJK_PATTERN.test(lastToken)
+
+    // matched[n] counts query words found in note n so far; a note stays a
+    // candidate only while it has matched every word before the current one
+    const capacity = this.noteIds.length
+    const matched = new Uint16Array(capacity)
+    const wordWeight = new Uint8Array(capacity)
+    const scores = new Float64Array(capacity)
+
+    const unique = Array.from(new Set(tokens))
+    for (let i = 0; i < unique.length; i++) {
+      const isPrefix = lastIsPrefix && unique[i] === lastToken
+      let found = 0
+
+      for (const notes of this.lookup(unique[i], isPrefix)) {
+        for (const [number, weight] of notes) {
+          if (matched[number] === i) {
+            matched[number] = i + 1
+            wordWeight[number] = weight
+            scores[number] += weight
+            found++
+          } else if (matched[number] === i + 1 && weight > wordWeight[number]) {
+            // Prefix matched both a content and a title token - keep the best
+            scores[number] += weight - wordWeight[number]
+            wordWeight[number] = weight
+          }
+        }
+      }
+
+      if (found === 0) return new Map()
+    }
+
+    const result = new Map<string, number>()
+    for (let number = 0; number < capacity; number++) {
+      const noteId = this.noteIds[number]
+      if (noteId && matched[number] === unique.length) {
+        result.set(noteId, scores[number])
+      }
+    }
+    return result
+  }
+}
+
+// Shared index for the app
+export const searchIndex = new SearchIndex()
@@ -0,0 +1,105 @@
+/**
+ * Keyboard Shortcuts
+ * Bindings are stored as combo strings like "Mod+Shift+K", where Mod is
+ * Cmd on Apple devices and Ctrl elsewhere, so one setting works on both.
+ * Keys come from KeyboardEvent.code for letters and digits so Alt/Option
+ * combos aren't broken by the characters they type on macOS.
+ */
+
+export const SHORTCUT_ACTIONS = [
+  'commandPalette',
+  'newNote',
+  'search',
+  'openToday',
+  'syncNow',
+  'toggleTheme',
+  'openTasks',
+  'openGraph',
+  'openTrash'
+] as const
+export type ShortcutAction = typeof SHORTCUT_ACTIONS[number]
+
+// Unbound actions are only reachable from the command palette
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string | null> = {
+  commandPalette: 'Mod+K',
+  newNote: 'Mod+Alt+N',
+  search: 'Mod+Shift+F',
+  openToday: 'Mod+Alt+D',
+  syncNow: 'Mod+Shift+S',
+  toggleTheme: 'Mod+Shift+L',
+  openTasks: null,
+  openGraph: null,
+  openTrash: null
+}
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock', 'Fn', 'OS']
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.userAgent)
+}
+
+function getKeyName(event: KeyEventLike): string {
+  const code = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(event.code)
+  if (code) return code[1] ?? code[2]
+  if (event.key === ' ') return 'Space'
+  return event.key.length === 1 ? event.key.toUpperCase() : event.key
+}
+
+/**
+ * Combo string for a key press - null while only modifiers are held
+ */
+export function eventToCombo(event: KeyEventLike, isMac: boolean = isMacPlatform()): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+
+  const parts: string[] = []
+  if (isMac ? event.metaKey : event.ctrlKey) parts.push('Mod')
+  // The other platform key (Ctrl on macOS, Win on others) is kept distinct
+  if (isMac ? event.ctrlKey : event.metaKey) parts.push('Ctrl')
+  if (event.altKey) parts.push('Alt')
+  if (event.shiftKey) parts.push('Shift')
+  parts.push(getKeyName(event))
+  return parts.join('+')
+}
+
+/**
+ * Shortcuts must use Mod, Ctrl or Alt (or a function key) so they never
+ * swallow normal typing in notes
+ */
+export function isValidShortcut(combo: string): boolean {
+  const parts = combo.split('+')
+  const key = parts[parts.length - 1]
+  return /^F\d{1,2}$/.test(key) || parts.some(part => part === 'Mod' || part === 'Ctrl' || part === 'Alt')
+}
+
+/**
+ * Human-readable combo - symbols on macOS, words elsewhere
+ */
+export function formatCombo(combo: string, isMac: boolean = isMacPlatform()): string {
+  const symbols: Record<string, string> = isMac
+    ? { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' }
+    : { Mod: 'Ctrl', Ctrl: 'Win', Alt: 'Alt', Shift: 'Shift' }
+  const parts = combo.split('+').map(part => symbols[part] ?? part)
+  return parts.join(isMac ? '' : '+')
+}
+
+/**
+ * Effective bindings - user overrides on top of the defaults
+ * An override of null removes the default binding
+ */
+export function resolveShortcuts(
+  overrides: Partial<Record<ShortcutAction, string | null>>
+): Record<ShortcutAction, string | null> {
+  return { ...DEFAULT_SHORTCUTS, ...overrides }
+}
+
+/**
+ * Action bound to a combo, if any
+ */
+export function findShortcutAction(
+  bindings: Record<ShortcutAction, string | null>,
+  combo: string
+): ShortcutAction | undefined {
+  return SHORTCUT_ACTIONS.find(action => bindings[action] === combo)
+}
@@ -0,0 +1,63 @@
+/**
+ * Server-Sent Events over fetch
+ * EventSource can only GET, so streamed POST responses are read from the
+ * fetch body and split into events here.
+ */
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+/**
+ * Parse the complete events in buffered stream text. The unfinished tail is
+ * returned to be prepended to the next chunk.
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.split('\n\n')
+  const rest = blocks.pop() ?? ''
+  const events: ServerSentEvent[] = []
+
+  for (const block of blocks) {
+    let event = 'message'
+    const data: string[] = []
+
+    for (const rawLine of block.split('\n')) {
+      const line = rawLine.replace(/\r$/, '')
+      // Blank lines and ":" comments (keep-alives) carry nothing
+      if (!line || line.startsWith(':')) continue
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+      if (field === 'event') event = value
+      else if (field === 'data') data.push(value)
+    }
+
+    if (data.length > 0) events.push({ event, data: data.join('\n') })
+  }
+
+  return { events, rest }
+}
+
+/**
+ * Read a response body as Server-Sent Events, as they arrive
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+      // A final event may end without its blank line
+      const { events, rest } = parseServerSentEvents(done ? `${buffer}\n\n` : buffer)
+      buffer = rest
+      yield* events
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
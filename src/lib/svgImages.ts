@@ -0,0 +1,26 @@
+/**
+ * SVG to PNG, for exports that only take raster images
+ * (Google Docs conversion for PDF/DOCX)
+ */
+
+const PIXEL_RATIO = 2
+
+/**
+ * Draw an SVG document onto a canvas and return it as a PNG data URL,
+ * at twice the given size so it stays sharp in print
+ */
+export async function svgToPng(svg: string, width: number, height: number): Promise<string> {
+  const image = new Image()
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(width * PIXEL_RATIO)
+  canvas.height = Math.ceil(height * PIXEL_RATIO)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas not supported')
+  context.scale(PIXEL_RATIO, PIXEL_RATIO)
+  context.drawImage(image, 0, 0, width, height)
+
+  return canvas.toDataURL('image/png')
+}
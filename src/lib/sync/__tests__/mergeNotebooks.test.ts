@@ -0,0 +1,142 @@
+/**
+ * Tests for notebook merging during sync
+ *
+ * Verifies that the newer copy of each notebook wins, that tombstones remove
+ * notebooks deleted on another device, and that nesting broken by concurrent
+ * moves or deletions is repaired by moving notebooks to the top level.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.mergeNotebooksTests.runAllMergeNotebooksTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { makeNotebook } from '@/lib/__tests__/fixtures'
+import { mergeNotebooks } from '../conflictResolver'
+
+/**
+ * Test 1: Higher version wins regardless of side
+ */
+export function testHigherVersionWins() {
+  console.log('[MergeNotebooks 1] Testing version precedence...')
+
+  const local = makeNotebook({ name: 'Work (renamed)', version: 3, updatedAt: 3000 })
+  const remote = makeNotebook({ name: 'Work', version: 2, updatedAt: 4000 })
+
+  const result = mergeNotebooks([local], [remote], new Map())
+
+  if (result.length === 1 && result[0].name === 'Work (renamed)') {
+    console.log('[MergeNotebooks 1] ✓ Higher version kept')
+    return true
+  }
+  console.error('[MergeNotebooks 1] ✗ Unexpected result:', result)
+  return false
+}
+
+/**
+ * Test 2: Tombstone newer than the notebook removes it
+ */
+export function testTombstoneRemovesNotebook() {
+  console.log('[MergeNotebooks 2] Testing tombstones...')
+
+  const deleted = makeNotebook({ id: 'nb-deleted', updatedAt: 1000 })
+  const editedAfter = makeNotebook({ id: 'nb-edited', updatedAt: 5000 })
+  const tombstones = new Map([
+    ['nb-deleted', 2000],
+    ['nb-edited', 2000]
+  ])
+
+  const result = mergeNotebooks([], [deleted, editedAfter], tombstones)
+
+  if (result.length === 1 && result[0].id === 'nb-edited') {
+    console.log('[MergeNotebooks 2] ✓ Deleted notebook dropped, later edit kept')
+    return true
+  }
+  console.error('[MergeNotebooks 2] ✗ Unexpected result:', result)
+  return false
+}
+
+/**
+ * Test 3: Children of a deleted notebook move to the top level
+ */
+export function testOrphanMovedToTopLevel() {
+  console.log('[MergeNotebooks 3] Testing orphaned notebooks...')
+
+  const parent = makeNotebook({ id: 'nb-parent', updatedAt: 1000 })
+  const child = makeNotebook({ id: 'nb-child', parentId: 'nb-parent', updatedAt: 1000 })
+  const tombstones = new Map([['nb-parent', 2000]])
+
+  const result = mergeNotebooks([parent, child], [], tombstones)
+  const repaired = result.find(nb => nb.id === 'nb-child')
+
+  if (
+    result.length === 1 &&
+    repaired?.parentId === null &&
+    repaired.version === 2 &&
+    repaired.syncStatus === 'pending'
+  ) {
+    console.log('[MergeNotebooks 3] ✓ Child moved to top level and marked pending')
+    return true
+  }
+  console.error('[MergeNotebooks 3] ✗ Unexpected result:', result)
+  return false
+}
+
+/**
+ * Test 4: Concurrent moves that form a cycle are broken
+ */
+export function testCycleIsBroken() {
+  console.log('[MergeNotebooks 4] Testing move cycles...')
+
+  // Laptop moved A into B, phone moved B into A
+  const local = [
+    makeNotebook({ id: 'nb-a', parentId: 'nb-b', version: 2, updatedAt: 2000 }),
+    makeNotebook({ id: 'nb-b', parentId: null, version: 1, updatedAt: 1000 })
+  ]
+  const remote = [
+    makeNotebook({ id: 'nb-a', parentId: null, version: 1, updatedAt: 1000 }),
+    makeNotebook({ id: 'nb-b', parentId: 'nb-a', version: 2, updatedAt: 2500 })
+  ]
+
+  const result = mergeNotebooks(local, remote, new Map())
+  const topLevel = result.filter(nb => nb.parentId === null)
+
+  if (result.length === 2 && topLevel.length === 1) {
+    console.log('[MergeNotebooks 4] ✓ One notebook moved to top level, the other nested')
+    return true
+  }
+  console.error('[MergeNotebooks 4] ✗ Unexpected result:', result)
+  return false
+}
+
+/**
+ * Run all notebook merge tests
+ */
+export function runAllMergeNotebooksTests() {
+  console.log('[MergeNotebooks Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    higherVersion: testHigherVersionWins(),
+    tombstone: testTombstoneRemovesNotebook(),
+    orphan: testOrphanMovedToTopLevel(),
+    cycle: testCycleIsBroken()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[MergeNotebooks Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).mergeNotebooksTests = {
+    testHigherVersionWins,
+    testTombstoneRemovesNotebook,
+    testOrphanMovedToTopLevel,
+    testCycleIsBroken,
+    runAllMergeNotebooksTests
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for note tags
+ *
+ * Verifies that #tags are found in note HTML (and not in code), that
+ * tag: filters work in search, and that tags survive a three-way merge
+ * when each device added a different tag.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.noteTagsTests.runAllNoteTagsTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { extractTags } from '@/lib/tags'
+import { searchNotes } from '@/lib/search'
+import { makeNote } from '@/lib/__tests__/fixtures'
+import { resolveNoteConflict } from '../conflictResolver'
+
+/**
+ * Test 1: Tags are extracted from text, code and entities are ignored
+ */
+export function testExtractTags() {
+  console.log('[NoteTags 1] Testing tag extraction...')
+
+  const html = '<p>#Work and #家族 #work</p><p>Issue #42 &#39;quoted&#39;</p><pre><code>#include</code></pre><p><a href="#top">link</a> #work/meetings</p>'
+  const tags = extractTags(html)
+  const expected = ['work', '家族', 'work/meetings']
+
+  if (tags.length === expected.length && expected.every(tag => tags.includes(tag))) {
+    console.log('[NoteTags 1] ✓ Found', tags)
+    return true
+  }
+  console.error('[NoteTags 1] ✗ Unexpected tags:', tags)
+  return false
+}
+
+/**
+ * Test 2: tag: filters narrow search, the rest of the query is fuzzy matched
+ */
+export function testTagSearch() {
+  console.log('[NoteTags 2] Testing tag: search...')
+
+  const notes = [
+    makeNote({ id: 'a', title: 'Budget', content: '<p>#work numbers</p>' }),
+    makeNote({ id: 'b', title: 'Budget', content: '<p>#home numbers</p>' }),
+    makeNote({ id: 'c', title: 'Standup', content: '<p>#work/meetings</p>' })
+  ]
+
+  const tagOnly = searchNotes(notes, 'tag:work').map(r => r.note.id)
+  const tagAndText = searchNotes(notes, 'budget tag:work').map(r => r.note.id)
+
+  if (
+    tagOnly.length === 2 && tagOnly.includes('a') && tagOnly.includes('c') &&
+    tagAndText.length === 1 && tagAndText[0] === 'a'
+  ) {
+    console.log('[NoteTags 2] ✓ Tag filters applied')
+    return true
+  }
+  console.error('[NoteTags 2] ✗ Unexpected results:', { tagOnly, tagAndText })
+  return false
+}
+
+/**
+ * Test 3: Tags added on both devices are kept after merging
+ */
+export function testTagsSurviveMerge() {
+  console.log('[NoteTags 3] Testing tags through the conflict resolver...')
+
+  const base = makeNote({ content: '<p>one</p><p>two</p>' })
+  const local = makeNote({ content: '<p>one #laptop</p><p>two</p>', version: 2, updatedAt: 2000 })
+  const remote = makeNote({ content: '<p>one</p><p>two #phone</p>', version: 2, updatedAt: 2500 })
+
+  const { winner, conflict } = resolveNoteConflict(local, remote, base)
+  const tags = winner.tags || []
+
+  if (conflict.resolution === 'merge' && tags.includes('laptop') && tags.includes('phone')) {
+    console.log('[NoteTags 3] ✓ Both tags kept:', tags)
+    return true
+  }
+  console.error('[NoteTags 3] ✗ Unexpected merge:', { resolution: conflict.resolution, tags })
+  return false
+}
+
+/**
+ * Run all note tag tests
+ */
+export function runAllNoteTagsTests() {
+  console.log('[NoteTags Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    extract: testExtractTags(),
+    search: testTagSearch(),
+    merge: testTagsSurviveMerge()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[NoteTags Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).noteTagsTests = {
+    testExtractTags,
+    testTagSearch,
+    testTagsSurviveMerge,
+    runAllNoteTagsTests
+  }
+}
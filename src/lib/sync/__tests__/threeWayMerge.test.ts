@@ -0,0 +1,140 @@
+/**
+ * Tests for three-way note merging
+ *
+ * Verifies that concurrent edits from two devices are merged block by block
+ * against the last synced copy, and that overlapping edits end up between
+ * conflict markers instead of being dropped.
+ *
+ * To run these tests manually:
+ * 1. Import this file in your application
+ * 2. Call window.threeWayMergeTests.runAllThreeWayMergeTests() from the console
+ * 3. Check the console output for results
+ */
+
+import { makeNote } from '@/lib/__tests__/fixtures'
+import { resolveNoteConflict } from '../conflictResolver'
+import { mergeHtml, hasConflictMarkers, CONFLICT_MARKERS } from '../threeWayMerge'
+
+/**
+ * Test 1: Non-overlapping paragraph edits are combined
+ */
+export function testNonOverlappingEditsMerge() {
+  console.log('[ThreeWayMerge 1] Testing non-overlapping edits...')
+
+  const base = '<p>one</p><p>two</p><p>three</p>'
+  const local = '<p>one (laptop)</p><p>two</p><p>three</p>'
+  const remote = '<p>one</p><p>two</p><p>three</p><p>four (phone)</p>'
+
+  const result = mergeHtml(base, local, remote)
+  const expected = '<p>one (laptop)</p><p>two</p><p>three</p><p>four (phone)</p>'
+
+  if (result.html === expected && result.conflicts === 0) {
+    console.log('[ThreeWayMerge 1] ✓ Both edits kept')
+    return true
+  }
+  console.error('[ThreeWayMerge 1] ✗ Unexpected merge result:', result)
+  return false
+}
+
+/**
+ * Test 2: Overlapping edits produce conflict markers with both versions
+ */
+export function testOverlappingEditsProduceMarkers() {
+  console.log('[ThreeWayMerge 2] Testing overlapping edits...')
+
+  const base = '<p>one</p><p>two</p><p>three</p>'
+  const local = '<p>one</p><p>two (laptop)</p><p>three</p>'
+  const remote = '<p>one</p><p>two (phone)</p><p>three</p>'
+
+  const result = mergeHtml(base, local, remote)
+  const passed =
+    result.conflicts === 1 &&
+    hasConflictMarkers(result.html) &&
+    result.html.includes('<p>two (laptop)</p>') &&
+    result.html.includes('<p>two (phone)</p>') &&
+    result.html.includes(CONFLICT_MARKERS.separator)
+
+  if (passed) {
+    console.log('[ThreeWayMerge 2] ✓ Conflict marked, no data lost')
+    return true
+  }
+  console.error('[ThreeWayMerge 2] ✗ Unexpected merge result:', result)
+  return false
+}
+
+/**
+ * Test 3: Resolver merges when both sides changed since the base
+ */
+export function testResolverUsesBase() {
+  console.log('[ThreeWayMerge 3] Testing resolveNoteConflict with a base...')
+
+  const base = makeNote({ content: '<p>one</p><p>two</p><p>three</p>' })
+  const local = makeNote({ content: '<p>one!</p><p>two</p><p>three</p>', version: 2, updatedAt: 2000 })
+  const remote = makeNote({ content: '<p>one</p><p>two</p><p>three!</p>', version: 3, updatedAt: 3000, isPinned: true })
+
+  const { winner, conflict } = resolveNoteConflict(local, remote, base)
+  const passed =
+    conflict.resolution === 'merge' &&
+    winner.content === '<p>one!</p><p>two</p><p>three!</p>' &&
+    winner.isPinned === true &&
+    winner.version === 4
+
+  if (passed) {
+    console.log('[ThreeWayMerge 3] ✓ Notes merged three-way')
+    return true
+  }
+  console.error('[ThreeWayMerge 3] ✗ Unexpected resolution:', { winner, conflict })
+  return false
+}
+
+/**
+ * Test 4: Only one side changed - that side wins even with a lower version
+ */
+export function testSingleSideChange() {
+  console.log('[ThreeWayMerge 4] Testing single-side change...')
+
+  const base = makeNote({ content: '<p>one</p><p>two</p><p>three</p>', version: 5, updatedAt: 5000 })
+  const local = makeNote({ content: '<p>one</p><p>two</p><p>three</p>', version: 5, updatedAt: 5000 })
+  const remote = makeNote({ content: '<p>edited remotely</p>', version: 6, updatedAt: 6000 })
+
+  const { winner, conflict } = resolveNoteConflict(local, remote, base)
+
+  if (conflict.resolution === 'remote' && winner === remote) {
+    console.log('[ThreeWayMerge 4] ✓ Changed side wins')
+    return true
+  }
+  console.error('[ThreeWayMerge 4] ✗ Unexpected resolution:', conflict)
+  return false
+}
+
+/**
+ * Run all three-way merge tests
+ */
+export function runAllThreeWayMergeTests() {
+  console.log('[ThreeWayMerge Test Suite] Starting...')
+  console.log('='.repeat(70))
+
+  const results = {
+    nonOverlapping: testNonOverlappingEditsMerge(),
+    overlapping: testOverlappingEditsProduceMarkers(),
+    resolverUsesBase: testResolverUsesBase(),
+    singleSideChange: testSingleSideChange()
+  }
+
+  const allPassed = Object.values(results).every(r => r === true)
+  console.log('='.repeat(70))
+  console.log(`[ThreeWayMerge Test Suite] ${allPassed ? '✓ ALL TESTS PASSED' : '✗ SOME TESTS FAILED'}`)
+
+  return allPassed
+}
+
+// Export for console testing
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).threeWayMergeTests = {
+    testNonOverlappingEditsMerge,
+    testOverlappingEditsProduceMarkers,
+    testResolverUsesBase,
+    testSingleSideChange,
+    runAllThreeWayMergeTests
+  }
+}
@@ -2,27 +2,54 @@
  * Conflict Resolver
  * Handles version conflicts between local and remote data
  */
-import type { Note } from '@/types'
+import type { Note, Notebook, NoteTemplate, AIPromptAction } from '@/types'
 import type { ConflictInfo, ConflictResolution, TombstoneData } from './types'
+import { mergeHtml } from './threeWayMerge'
+import { extractTags } from '@/lib/tags'
+import { mergeChatThreads } from '@/lib/chatThreads'
 
 // Time threshold for considering timestamps "close" (5 seconds)
 const TIMESTAMP_THRESHOLD_MS = 5000
 
+/**
+ * Check if a note was modified after the given sync base snapshot
+ */
+function hasChangedSince(note: Note, base: Note): boolean {
+  return (note.version || 1) !== (base.version || 1) || note.updatedAt !== base.updatedAt
+}
+
 /**
  * Resolve conflict between local and remote note
+ * When the last synced copy (base) is available and both sides changed,
+ * the notes are merged three-way instead of picking a whole-note winner
  * Returns the winning note and conflict info
  */
 export function resolveNoteConflict(
   localNote: Note,
-  remoteNote: Note
+  remoteNote: Note,
+  baseNote?: Note
 ): { winner: Note; conflict: ConflictInfo } {
   const localVersion = localNote.version || 1
   const remoteVersion = remoteNote.version || 1
 
   let resolution: ConflictResolution
   let winner: Note
+  let conflictedBlocks: number | undefined
+
+  const localChanged = baseNote ? hasChangedSince(localNote, baseNote) : true
+  const remoteChanged = baseNote ? hasChangedSince(remoteNote, baseNote) : true
 
-  if (localVersion > remoteVersion) {
+  if (baseNote && localChanged && remoteChanged) {
+    // Both devices edited since last sync - merge non-overlapping changes
+    const merged = mergeNotes(baseNote, localNote, remoteNote)
+    resolution = 'merge'
+    winner = merged.note
+    conflictedBlocks = merged.conflicts
+  } else if (baseNote && (localChanged || remoteChanged)) {
+    // Only one side changed - it wins regardless of version numbers
+    resolution = localChanged ? 'local' : 'remote'
+    winner = localChanged ? localNote : remoteNote
+  } else if (localVersion > remoteVersion) {
     // Local has newer version - local wins
     resolution = 'local'
     winner = localNote
@@ -54,12 +81,168 @@ export function resolveNoteConflict(
       remoteVersion,
       localUpdatedAt: localNote.updatedAt,
       remoteUpdatedAt: remoteNote.updatedAt,
-      resolution
+      resolution,
+      conflictedBlocks
     }
   }
 }
 
+/**
+ * Check if local and remote copies genuinely diverged
+ * Identical copies, or copies where only one side changed since the base, are not conflicts
+ */
+export function hasNotesDiverged(localNote: Note, remoteNote: Note, baseNote?: Note): boolean {
+  if (localNote.title === remoteNote.title && localNote.content === remoteNote.content) return false
+  if (!baseNote) return true
+  return hasChangedSince(localNote, baseNote) && hasChangedSince(remoteNote, baseNote)
+}
+
+// Fields that are merged explicitly or must not be taken from either side as-is
+const NON_MERGEABLE_FIELDS = new Set<keyof Note>([
+  'id', 'title', 'content', 'createdAt', 'updatedAt', 'version', 'syncStatus', 'driveFileId', 'aiChatHistory', 'tags'
+])
+
+/**
+ * Pick a single field value three-way
+ * If both sides changed it differently, the more recently updated side wins
+ */
+function mergeField<T>(base: T, local: T, remote: T, localIsNewer: boolean): T {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+  if (same(local, base)) return remote
+  if (same(remote, base)) return local
+  return localIsNewer ? local : remote
+}
+
+/**
+ * Three-way merge of two diverged notes against their last synced copy
+ * Content is merged block by block, other fields are merged individually
+ */
+export function mergeNotes(
+  baseNote: Note,
+  localNote: Note,
+  remoteNote: Note
+): { note: Note; conflicts: number } {
+  const localIsNewer = localNote.updatedAt >= remoteNote.updatedAt
+  const { html, conflicts } = mergeHtml(baseNote.content, localNote.content, remoteNote.content)
+
+  const merged: Note = {
+    ...remoteNote,
+    title: mergeField(baseNote.title, localNote.title, remoteNote.title, localIsNewer),
+    content: html,
+    // Tags follow the merged content so a tag added on either device survives
+    tags: extractTags(html),
+    createdAt: Math.min(localNote.createdAt, remoteNote.createdAt),
+    updatedAt: Date.now(),
+    // Bump past both sides so the merged note is uploaded and wins on other devices
+    version: Math.max(localNote.version || 1, remoteNote.version || 1) + 1,
+    syncStatus: 'pending'
+  }
+
+  const mergedFields = merged as unknown as Record<string, unknown>
+  const fields = new Set([...Object.keys(localNote), ...Object.keys(remoteNote)]) as Set<keyof Note>
+  for (const field of fields) {
+    if (NON_MERGEABLE_FIELDS.has(field)) continue
+    mergedFields[field] = mergeField(baseNote[field], localNote[field], remoteNote[field], localIsNewer)
+  }
 
+  // Chat history is append-only - keep threads and messages from both sides
+  if (localNote.aiChatHistory || remoteNote.aiChatHistory) {
+    merged.aiChatHistory = mergeChatThreads(localNote.aiChatHistory, remoteNote.aiChatHistory)
+  }
+
+  return { note: merged, conflicts }
+}
+
+/**
+ * Merge local and remote lists of small records kept in full in an index file
+ * Each record is resolved as a whole (higher version, then newer timestamp);
+ * records deleted after their last update are dropped
+ */
+function mergeWholeRecords<T extends Notebook | NoteTemplate | AIPromptAction>(
+  localRecords: T[],
+  remoteRecords: T[],
+  tombstones: Map<string, number>
+): Map<string, T> {
+  const merged = new Map<string, T>()
+
+  for (const record of [...remoteRecords, ...localRecords]) {
+    const tombstoneTime = tombstones.get(record.id)
+    if (tombstoneTime && shouldDeleteEntity(record.updatedAt, tombstoneTime)) continue
+
+    const existing = merged.get(record.id)
+    if (
+      !existing ||
+      record.version > existing.version ||
+      (record.version === existing.version && record.updatedAt > existing.updatedAt)
+    ) {
+      merged.set(record.id, record)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Merge local and remote notebook lists
+ */
+export function mergeNotebooks(
+  localNotebooks: Notebook[],
+  remoteNotebooks: Notebook[],
+  tombstones: Map<string, number>
+): Notebook[] {
+  const merged = mergeWholeRecords(localNotebooks, remoteNotebooks, tombstones)
+
+  // Notebooks whose parent was deleted, or that ended up in a cycle after
+  // concurrent moves on two devices, are moved to the top level
+  const now = Date.now()
+  const isDetached = (notebook: Notebook): boolean => {
+    const seen = new Set<string>([notebook.id])
+    let parentId = notebook.parentId
+    while (parentId) {
+      const parent = merged.get(parentId)
+      if (!parent || seen.has(parentId)) return true
+      seen.add(parentId)
+      parentId = parent.parentId
+    }
+    return false
+  }
+
+  for (const notebook of merged.values()) {
+    if (isDetached(notebook)) {
+      merged.set(notebook.id, {
+        ...notebook,
+        parentId: null,
+        updatedAt: now,
+        version: notebook.version + 1,
+        syncStatus: 'pending'
+      })
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+/**
+ * Merge local and remote template lists
+ */
+export function mergeTemplates(
+  localTemplates: NoteTemplate[],
+  remoteTemplates: NoteTemplate[],
+  tombstones: Map<string, number>
+): NoteTemplate[] {
+  return Array.from(mergeWholeRecords(localTemplates, remoteTemplates, tombstones).values())
+}
+
+/**
+ * Merge local and remote custom AI action lists
+ */
+export function mergeAIActions(
+  localActions: AIPromptAction[],
+  remoteActions: AIPromptAction[],
+  tombstones: Map<string, number>
+): AIPromptAction[] {
+  return Array.from(mergeWholeRecords(localActions, remoteActions, tombstones).values())
+}
 
 /**
  * Check if an entity should be deleted based on tombstone
@@ -5,4 +5,5 @@
 export * from './types'
 export * from './syncQueue'
 export * from './conflictResolver'
+export * from './threeWayMerge'
 export * from './syncEngine'
@@ -14,10 +14,21 @@ import {
   getOrCreateDeletedIdsIndex,
   updateNotesIndex,
   updateDeletedIdsIndex,
+  getNotebooksIndex,
+  updateNotebooksIndex,
+  getTemplatesIndex,
+  updateTemplatesIndex,
+  getAIActionsIndex,
+  updateAIActionsIndex,
   getOrCreateFolder,
   checkHasData as driveCheckHasData,
   getRemoteTombstones as getDriveTombstones
 } from '../drive/driveIndex'
+import {
+  getChangesStartToken,
+  listChangedFiles,
+  skipOwnChanges
+} from '../drive/driveChanges'
 import {
   uploadNote,
   downloadNote,
@@ -31,10 +42,23 @@ import {
   mergeTombstones,
   filterSyncableNotes,
   isNoteEmpty,
-  shouldDeleteEntity
+  shouldDeleteEntity,
+  hasNotesDiverged,
+  mergeNotebooks,
+  mergeTemplates,
+  mergeAIActions
 } from './conflictResolver'
-import { setLastSyncTimestamp } from '../db/metadataRepository'
-import type { Note } from '@/types'
+import {
+  setLastSyncTimestamp,
+  getLastSyncTimestamp,
+  getDrivePageToken,
+  setDrivePageToken
+} from '../db/metadataRepository'
+import { getSyncBases, saveSyncBases, deleteSyncBases } from '../db/syncBaseRepository'
+import { saveConflictRecords } from '../db/conflictRepository'
+import { uploadPendingImages } from '../noteImages'
+import type { ConflictRecord } from '../db/schema'
+import type { Note, Notebook, NoteTemplate, AIPromptAction } from '@/types'
 import type { TombstoneEntry } from '../drive/types'
 import type { SyncResult, TombstoneData, ConflictInfo } from './types'
 import { STALE_DEVICE_THRESHOLD_MS } from './types'
@@ -95,6 +119,32 @@ function getStaleLocalNoteIds(
   return staleIds
 }
 
+/**
+ * Check if this device has changes Drive hasn't seen yet
+ * (unsynced notes or deletions made after the last sync)
+ */
+async function hasPendingLocalChanges(
+  localEntities: Array<Note | Notebook | NoteTemplate | AIPromptAction>,
+  localTombstones: TombstoneData[]
+): Promise<boolean> {
+  if (localEntities.some(e => e.syncStatus !== 'synced')) return true
+
+  const lastSync = await getLastSyncTimestamp()
+  return localTombstones.some(t => t.deletedAt > lastSync)
+}
+
+/**
+ * Check if merged notebooks, templates or AI actions differ from what is stored on Drive
+ */
+function haveRecordsChanged<T extends Notebook | NoteTemplate | AIPromptAction>(merged: T[], remote: T[]): boolean {
+  if (merged.length !== remote.length) return true
+  const remoteById = new Map(remote.map(record => [record.id, record]))
+  return merged.some(record => {
+    const remoteRecord = remoteById.get(record.id)
+    return !remoteRecord || remoteRecord.version !== record.version || remoteRecord.updatedAt !== record.updatedAt
+  })
+}
+
 /**
  * Check if an entry ID looks like a collection ID
  * Collection IDs typically don't follow the same pattern as note IDs
@@ -108,13 +158,15 @@ function isLikelyCollectionEntry(id: string): boolean {
 
 /**
  * Batch download notes with concurrency limit
+ * Also returns IDs of notes that failed to download
  */
 async function batchDownloadNotes(
   entries: Array<{ id: string; fileId: string; updatedAt: number }>,
   allNoteTombstones: Map<string, number>
-): Promise<{ notes: Note[]; fileIdMappings: Array<{ entityId: string; fileId: string; entityType: 'note' }> }> {
+): Promise<{ notes: Note[]; fileIdMappings: Array<{ entityId: string; fileId: string; entityType: 'note' }>; failedIds: string[] }> {
   const notes: Note[] = []
   const fileIdMappings: Array<{ entityId: string; fileId: string; entityType: 'note' }> = []
+  const failedIds: string[] = []
 
   // Filter entries that should be downloaded
   const toDownload = entries.filter(entry => {
@@ -142,6 +194,7 @@ async function batchDownloadNotes(
       }
     } catch (error) {
       console.error(`[SyncEngine] Failed to download note ${entry.id}:`, error)
+      failedIds.push(entry.id)
     }
     return null
   })
@@ -166,17 +219,19 @@ async function batchDownloadNotes(
     }
   }
 
-  return { notes, fileIdMappings }
+  return { notes, fileIdMappings, failedIds }
 }
 
 /**
  * Batch upload notes with concurrency limit
+ * Returns IDs of notes that failed to upload
  */
 async function batchUploadNotes(
   notes: Note[],
   notesIndex: { notes: Array<{ id: string; version?: number; updatedAt: number }> },
   folderId: string
-): Promise<void> {
+): Promise<Set<string>> {
+  const failedIds = new Set<string>()
   const toUpload = notes.filter(note => {
     const remoteEntry = notesIndex.notes.find(n => n.id === note.id)
     const noteVersion = note.version || 1
@@ -184,7 +239,7 @@ async function batchUploadNotes(
     return !remoteEntry || noteVersion > remoteVersion || note.updatedAt > remoteEntry.updatedAt
   })
 
-  if (toUpload.length === 0) return
+  if (toUpload.length === 0) return failedIds
 
   console.log(`[SyncEngine] Uploading ${toUpload.length} notes...`)
 
@@ -197,9 +252,12 @@ async function batchUploadNotes(
     await Promise.all(
       chunk.map(note => uploadNote(note, folderId).catch(error => {
         console.error(`[SyncEngine] Failed to upload note ${note.id}:`, error)
+        failedIds.add(note.id)
       }))
     )
   }
+
+  return failedIds
 }
 
 /**
@@ -210,7 +268,13 @@ export async function syncWithDrive(
   accessToken: string,
   localNotes: Note[],
   localDeletedNoteIds: TombstoneData[],
-  syncQueueIds?: Set<string>
+  syncQueueIds?: Set<string>,
+  localNotebooks: Notebook[] = [],
+  localDeletedNotebookIds: TombstoneData[] = [],
+  localTemplates: NoteTemplate[] = [],
+  localDeletedTemplateIds: TombstoneData[] = [],
+  localAIActions: AIPromptAction[] = [],
+  localDeletedAIActionIds: TombstoneData[] = []
 ): Promise<SyncResult> {
   // Set access token
   driveClient.setAccessToken(accessToken)
@@ -218,8 +282,12 @@ export async function syncWithDrive(
   // Initialize file ID cache from IndexedDB
   await initFileIdCache()
 
+  // Images go up before the notes that reference them
+  await uploadPendingImages()
+
   const now = Date.now()
   const conflicts: ConflictInfo[] = []
+  const conflictRecords: ConflictRecord[] = []
   const staleLocalIds: string[] = []
 
   // Check if device is stale
@@ -228,6 +296,38 @@ export async function syncWithDrive(
     console.warn('[SyncEngine] Device has been offline > 30 days. Using remote authority mode.')
   }
 
+  // ============ Detect Remote Changes ============
+  // With a stored page token only changed note files are downloaded;
+  // without one (or if it expired) every note in the index is scanned
+  let changedFileIds: Set<string> | null = null
+  let pageToken: string | null = null
+
+  const storedPageToken = await getDrivePageToken()
+  if (storedPageToken && !isStale) {
+    const changed = await listChangedFiles(storedPageToken)
+    if (changed) {
+      changedFileIds = changed.fileIds
+      pageToken = changed.newStartPageToken
+    }
+  }
+
+  // Nothing changed on either side - skip index downloads entirely
+  if (changedFileIds && pageToken && changedFileIds.size === 0 &&
+      !(await hasPendingLocalChanges(
+        [...localNotes, ...localNotebooks, ...localTemplates, ...localAIActions],
+        [...localDeletedNoteIds, ...localDeletedNotebookIds, ...localDeletedTemplateIds, ...localDeletedAIActionIds]
+      ))) {
+    await setDrivePageToken(pageToken)
+    await saveLastSyncTimestamp(now)
+    return { success: true, notesChanged: false, syncedNotes: localNotes }
+  }
+
+  // Token taken before reading so changes made during this sync are not missed
+  if (!pageToken) {
+    pageToken = await getChangesStartToken()
+  }
+  driveClient.takeWrittenFileIds()
+
   // ============ Load Remote Tombstones ============
   const remoteDeletedIndex = await getOrCreateDeletedIdsIndex()
 
@@ -252,10 +352,13 @@ export async function syncWithDrive(
     staleLocalIds.push(...staleNotes)
   }
 
-  // Download remote notes in parallel
+  // Download remote notes in parallel (only changed ones when incremental)
   const folderId = await getOrCreateFolder()
-  const { notes: remoteNotes, fileIdMappings: noteFileIdMappings } = await batchDownloadNotes(
-    notesIndex.notes,
+  const entriesToDownload = changedFileIds
+    ? notesIndex.notes.filter(entry => changedFileIds.has(entry.fileId))
+    : notesIndex.notes
+  const { notes: remoteNotes, fileIdMappings: noteFileIdMappings, failedIds: failedDownloadIds } = await batchDownloadNotes(
+    entriesToDownload,
     allNoteTombstones
   )
 
@@ -276,6 +379,11 @@ export async function syncWithDrive(
     }
   }
 
+  // Load last synced copies as common ancestors for notes present on both sides
+  const syncBases = await getSyncBases(
+    validLocalNotes.filter(n => mergedNotesMap.has(n.id)).map(n => n.id)
+  )
+
   // Merge local notes
   for (const localNote of validLocalNotes) {
     // Skip stale notes
@@ -285,17 +393,32 @@ export async function syncWithDrive(
     if (!remoteNote) {
       mergedNotesMap.set(localNote.id, localNote)
     } else {
-      // Resolve conflict
-      const { winner, conflict } = resolveNoteConflict(localNote, remoteNote)
+      // Resolve conflict (three-way when a base is known)
+      const baseNote = syncBases.get(localNote.id)
+      const { winner, conflict } = resolveNoteConflict(localNote, remoteNote, baseNote)
       mergedNotesMap.set(localNote.id, winner)
-      conflicts.push(conflict)
+
+      if (hasNotesDiverged(localNote, remoteNote, baseNote)) {
+        conflicts.push(conflict)
+        // Keep both copies for review unless the merge was clean
+        if (conflict.resolution !== 'merge' || conflict.conflictedBlocks) {
+          conflictRecords.push({
+            id: `${localNote.id}-${now}`,
+            noteId: localNote.id,
+            info: conflict,
+            localNote,
+            remoteNote,
+            createdAt: now
+          })
+        }
+      }
     }
   }
 
   const mergedNotes = Array.from(mergedNotesMap.values())
 
   // Upload changed notes in parallel
-  await batchUploadNotes(mergedNotes, notesIndex, folderId)
+  const failedUploadIds = await batchUploadNotes(mergedNotes, notesIndex, folderId)
 
   // Delete notes that should be deleted
   const notesToDelete = notesIndex.notes.filter(entry => {
@@ -306,20 +429,75 @@ export async function syncWithDrive(
   await Promise.all(notesToDelete.map(entry => deleteNoteFile(entry.id).catch(console.error)))
 
   // Update notes index
-  await updateNotesIndex(
-    mergedNotes.map(n => ({
-      id: n.id,
-      fileId: getNoteFileId(n.id) || '',
-      updatedAt: n.updatedAt,
-      version: n.version || 1
-    }))
-  )
+  // Entries that were not downloaded or merged this time (failed downloads,
+  // notes missing locally) are carried over so they are not dropped from Drive
+  const mergedEntries = mergedNotes.map(n => ({
+    id: n.id,
+    fileId: getNoteFileId(n.id) || '',
+    updatedAt: n.updatedAt,
+    version: n.version || 1
+  }))
+  const carriedEntries = notesIndex.notes
+    .filter(entry =>
+      entry.fileId &&
+      !mergedNotesMap.has(entry.id) &&
+      !allNoteTombstones.has(entry.id) &&
+      !staleIdSet.has(entry.id) &&
+      !isLikelyCollectionEntry(entry.id)
+    )
+
+  await updateNotesIndex([...mergedEntries, ...carriedEntries])
+
+  // ============ Sync Notebooks ============
+  const remoteNotebookTombstones: TombstoneData[] = (remoteDeletedIndex.notebookTombstones || [])
+    .map(t => ({ id: t.id, deletedAt: t.deletedAt }))
+  const allNotebookTombstones = mergeTombstones(localDeletedNotebookIds, remoteNotebookTombstones)
+
+  const notebooksIndex = await getNotebooksIndex()
+  const mergedNotebooks = mergeNotebooks(localNotebooks, notebooksIndex.notebooks, allNotebookTombstones)
+  const syncedNotebooks = mergedNotebooks.map(nb => ({ ...nb, syncStatus: 'synced' as const }))
+
+  if (haveRecordsChanged(mergedNotebooks, notebooksIndex.notebooks)) {
+    await updateNotebooksIndex(syncedNotebooks)
+  }
+
+  // ============ Sync Templates ============
+  const remoteTemplateTombstones: TombstoneData[] = (remoteDeletedIndex.templateTombstones || [])
+    .map(t => ({ id: t.id, deletedAt: t.deletedAt }))
+  const allTemplateTombstones = mergeTombstones(localDeletedTemplateIds, remoteTemplateTombstones)
+
+  const templatesIndex = await getTemplatesIndex()
+  const mergedTemplates = mergeTemplates(localTemplates, templatesIndex.templates, allTemplateTombstones)
+  const syncedTemplates = mergedTemplates.map(template => ({ ...template, syncStatus: 'synced' as const }))
+
+  if (haveRecordsChanged(mergedTemplates, templatesIndex.templates)) {
+    await updateTemplatesIndex(syncedTemplates)
+  }
+
+  // ============ Sync AI Actions ============
+  const remoteAIActionTombstones: TombstoneData[] = (remoteDeletedIndex.aiActionTombstones || [])
+    .map(t => ({ id: t.id, deletedAt: t.deletedAt }))
+  const allAIActionTombstones = mergeTombstones(localDeletedAIActionIds, remoteAIActionTombstones)
+
+  const aiActionsIndex = await getAIActionsIndex()
+  const mergedAIActions = mergeAIActions(localAIActions, aiActionsIndex.aiActions, allAIActionTombstones)
+  const syncedAIActions = mergedAIActions.map(action => ({ ...action, syncStatus: 'synced' as const }))
+
+  if (haveRecordsChanged(mergedAIActions, aiActionsIndex.aiActions)) {
+    await updateAIActionsIndex(syncedAIActions)
+  }
 
   // ============ Update Deleted IDs Index ============
   const finalNoteTombstones: TombstoneEntry[] = Array.from(allNoteTombstones.entries())
     .map(([id, deletedAt]) => ({ id, deletedAt }))
+  const finalNotebookTombstones: TombstoneEntry[] = Array.from(allNotebookTombstones.entries())
+    .map(([id, deletedAt]) => ({ id, deletedAt }))
+  const finalTemplateTombstones: TombstoneEntry[] = Array.from(allTemplateTombstones.entries())
+    .map(([id, deletedAt]) => ({ id, deletedAt }))
+  const finalAIActionTombstones: TombstoneEntry[] = Array.from(allAIActionTombstones.entries())
+    .map(([id, deletedAt]) => ({ id, deletedAt }))
 
-  await updateDeletedIdsIndex(finalNoteTombstones, [])
+  await updateDeletedIdsIndex(finalNoteTombstones, [], finalNotebookTombstones, finalTemplateTombstones, finalAIActionTombstones)
 
   // ============ Check for Changes ============
   const notesChanged =
@@ -333,13 +511,33 @@ export async function syncWithDrive(
     driveFileId: getNoteFileId(note.id)
   }))
 
+  // Remember what is now on Drive as the base for future merges
+  // Failed uploads keep their previous base so the next sync still sees local changes
+  await saveSyncBases(syncedNotes.filter(n => !failedUploadIds.has(n.id)))
+  await deleteSyncBases([...allNoteTombstones.keys(), ...staleLocalIds])
+
+  if (conflictRecords.length > 0) {
+    await saveConflictRecords(conflictRecords)
+  }
+
   // Save last sync timestamp
   await saveLastSyncTimestamp(now)
 
+  // Advance the change feed past our own uploads - unless a download failed, in which
+  // case the old token is kept so the next sync lists (and fetches) those notes again
+  if (failedDownloadIds.length > 0) {
+    console.warn(`[SyncEngine] ${failedDownloadIds.length} note download(s) failed, keeping the change feed position`)
+  } else {
+    await setDrivePageToken(await skipOwnChanges(pageToken, driveClient.takeWrittenFileIds()))
+  }
+
   return {
     success: true,
     notesChanged,
     syncedNotes,
+    syncedNotebooks,
+    syncedTemplates,
+    syncedAIActions,
     conflicts: conflicts.length > 0 ? conflicts : undefined,
     staleLocalIds: staleLocalIds.length > 0 ? staleLocalIds : undefined
   }
@@ -372,6 +570,7 @@ export async function deleteNoteDriveFile(noteId: string): Promise<void> {
  */
 export async function uploadSingleNote(note: Note): Promise<string> {
   const folderId = await getOrCreateFolder()
+  await uploadPendingImages()
   return uploadNote(note, folderId)
 }
 
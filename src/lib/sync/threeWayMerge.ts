@@ -0,0 +1,214 @@
+/**
+ * Three-Way Merge
+ * Block-level diff3 merge for note HTML content
+ *
+ * Content is split into top-level HTML blocks (paragraphs, headings, lists...)
+ * and both sides are diffed against the common ancestor. Non-overlapping
+ * changes are combined; overlapping changes are kept side by side between
+ * explicit conflict markers so no edit is silently dropped.
+ */
+
+// Marker paragraphs wrapped around overlapping edits
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< This device',
+  separator: '=======',
+  end: '>>>>>>> Other device'
+} as const
+
+// ============ Types ============
+
+export type MergeChunk =
+  | { type: 'ok'; blocks: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] }
+
+export interface HtmlMergeResult {
+  html: string
+  conflicts: number
+}
+
+// ============ Block Splitting ============
+
+/**
+ * Split HTML into top-level blocks
+ * Whitespace-only text between blocks is dropped, stray text is kept as its own block
+ */
+export function splitHtmlBlocks(html: string): string[] {
+  if (!html.trim()) return []
+
+  const template = document.createElement('template')
+  template.innerHTML = html
+
+  const blocks: string[] = []
+  template.content.childNodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      blocks.push((node as Element).outerHTML)
+    } else if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+      blocks.push(node.textContent)
+    }
+  })
+  return blocks
+}
+
+// ============ Diff3 ============
+
+/**
+ * Longest common subsequence between two block arrays
+ * Returns, for each index in `a`, the matching index in `b` (or -1)
+ */
+function lcsMatches(a: string[], b: string[]): Int32Array {
+  const matches = new Int32Array(a.length).fill(-1)
+
+  // Trim common prefix and suffix - most edits touch a few blocks only
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+    matches[endA] = endB
+  }
+
+  const n = endA - start
+  const m = endB - start
+  if (n === 0 || m === 0) return matches
+
+  // DP table of suffix LCS lengths for the middle section
+  const width = m + 1
+  const table = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[start + i] === b[start + j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j
+      i++
+      j++
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return matches
+}
+
+function sameBlocks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((block, i) => block === b[i])
+}
+
+/**
+ * Resolve a region where at least one side diverged from the ancestor
+ */
+function resolveChunk(base: string[], local: string[], remote: string[]): MergeChunk | null {
+  if (base.length === 0 && local.length === 0 && remote.length === 0) return null
+  if (sameBlocks(local, base)) return { type: 'ok', blocks: remote }
+  if (sameBlocks(remote, base)) return { type: 'ok', blocks: local }
+  if (sameBlocks(local, remote)) return { type: 'ok', blocks: local }
+  return { type: 'conflict', base, local, remote }
+}
+
+/**
+ * Merge two block arrays against their common ancestor
+ * Blocks kept by both sides act as anchors; regions between anchors are
+ * taken from whichever side changed them, or reported as conflicts
+ */
+export function diff3Merge(base: string[], local: string[], remote: string[]): MergeChunk[] {
+  const localMatches = lcsMatches(base, local)
+  const remoteMatches = lcsMatches(base, remote)
+  const chunks: MergeChunk[] = []
+
+  const push = (chunk: MergeChunk | null) => {
+    if (!chunk) return
+    const last = chunks[chunks.length - 1]
+    if (chunk.type === 'ok' && last?.type === 'ok') {
+      last.blocks.push(...chunk.blocks)
+    } else if (chunk.type === 'conflict' || chunk.blocks.length > 0) {
+      chunks.push(chunk)
+    }
+  }
+
+  let i = 0
+  let j = 0
+  let k = 0
+
+  while (i <= base.length) {
+    // Find next ancestor block that survives on both sides
+    let anchor = i
+    while (anchor < base.length && (localMatches[anchor] === -1 || remoteMatches[anchor] === -1)) {
+      anchor++
+    }
+
+    if (anchor === base.length) {
+      push(resolveChunk(base.slice(i), local.slice(j), remote.slice(k)))
+      break
+    }
+
+    const localAnchor = localMatches[anchor]
+    const remoteAnchor = remoteMatches[anchor]
+    push(resolveChunk(base.slice(i, anchor), local.slice(j, localAnchor), remote.slice(k, remoteAnchor)))
+    push({ type: 'ok', blocks: [base[anchor]] })
+
+    i = anchor + 1
+    j = localAnchor + 1
+    k = remoteAnchor + 1
+  }
+
+  return chunks
+}
+
+// ============ HTML Merge ============
+
+function markerParagraph(text: string): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  return `<p>${escaped}</p>`
+}
+
+/**
+ * Three-way merge of note HTML content
+ * Overlapping edits are wrapped in conflict marker paragraphs
+ */
+export function mergeHtml(base: string, local: string, remote: string): HtmlMergeResult {
+  if (local === remote) return { html: local, conflicts: 0 }
+  if (local === base) return { html: remote, conflicts: 0 }
+  if (remote === base) return { html: local, conflicts: 0 }
+
+  const chunks = diff3Merge(splitHtmlBlocks(base), splitHtmlBlocks(local), splitHtmlBlocks(remote))
+
+  let conflicts = 0
+  const blocks: string[] = []
+  for (const chunk of chunks) {
+    if (chunk.type === 'ok') {
+      blocks.push(...chunk.blocks)
+    } else {
+      conflicts++
+      blocks.push(
+        markerParagraph(CONFLICT_MARKERS.start),
+        ...chunk.local,
+        markerParagraph(CONFLICT_MARKERS.separator),
+        ...chunk.remote,
+        markerParagraph(CONFLICT_MARKERS.end)
+      )
+    }
+  }
+
+  return { html: blocks.join(''), conflicts }
+}
+
+/**
+ * Check if HTML content still contains unresolved conflict markers
+ */
+export function hasConflictMarkers(html: string): boolean {
+  return html.includes(markerParagraph(CONFLICT_MARKERS.start))
+}
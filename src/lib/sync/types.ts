@@ -2,7 +2,7 @@
  * Sync Types
  * Type definitions for sync operations
  */
-import type { Note } from '@/types'
+import type { Note, Notebook, NoteTemplate, AIPromptAction } from '@/types'
 
 // ============ Sync Status ============
 
@@ -37,6 +37,9 @@ export interface SyncResult {
   success: boolean
   notesChanged: boolean
   syncedNotes: Note[]
+  syncedNotebooks?: Notebook[]  // Unset when notebooks were not checked (nothing changed)
+  syncedTemplates?: NoteTemplate[]  // Same as syncedNotebooks
+  syncedAIActions?: AIPromptAction[]  // Same as syncedNotebooks
   errors?: SyncError[]
   staleLocalIds?: string[]
   conflicts?: ConflictInfo[]
@@ -61,6 +64,7 @@ export interface ConflictInfo {
   localUpdatedAt: number
   remoteUpdatedAt: number
   resolution: ConflictResolution
+  conflictedBlocks?: number  // Overlapping edits kept between conflict markers (merge only)
 }
 
 // ============ Sync Queue Config ============
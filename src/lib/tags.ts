@@ -0,0 +1,79 @@
+import type { Note } from '@/types'
+
+// #tag - letters (any script), digits, _ and -, with / for nested tags like #work/meetings
+// Must start after whitespace or punctuation so URLs (#anchor) and entities (&#39;) are skipped
+export const TAG_PATTERN = /(^|[\s([{,;:!?"'])#([\p{L}\p{N}_][\p{L}\p{N}_\-/]*)/gu
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+/**
+ * Normalize a tag for storage and comparison
+ */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').replace(/[/-]+$/, '').toLowerCase()
+}
+
+// Pure numbers (#1, #2026) are usually references, not tags
+function isValidTag(tag: string): boolean {
+  return tag.length > 0 && /\p{L}/u.test(tag)
+}
+
+/**
+ * Find #tags in plain text
+ */
+export function extractTagsFromText(text: string): string[] {
+  const tags = new Set<string>()
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = normalizeTag(match[2])
+    if (isValidTag(tag)) tags.add(tag)
+  }
+  return Array.from(tags)
+}
+
+/**
+ * Find #tags in note HTML
+ * Code is skipped so #include and CSS colors don't become tags
+ */
+export function extractTags(html: string): string[] {
+  const text = html
+    .replace(/<pre[\s\S]*?<\/pre>/gi, ' ')
+    .replace(/<code[\s\S]*?<\/code>/gi, ' ')
+    .replace(/<(br|\/p|\/li|\/h[1-6]|\/div|\/blockquote)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+  return extractTagsFromText(text)
+}
+
+/**
+ * Get a note's tags, deriving them from content for notes saved before tags existed
+ */
+export function getNoteTags(note: Note): string[] {
+  return note.tags ?? extractTags(note.content || '')
+}
+
+/**
+ * Check if a note has a tag (or a nested tag under it, e.g. work matches work/meetings)
+ */
+export function noteHasTag(note: Note, tag: string): boolean {
+  const wanted = normalizeTag(tag)
+  return getNoteTags(note).some(t => t === wanted || t.startsWith(`${wanted}/`))
+}
+
+/**
+ * Count tags across notes, most used first
+ */
+export function collectTags(notes: Note[]): TagCount[] {
+  const counts = new Map<string, number>()
+  for (const note of notes) {
+    if (note.isDeleted) continue
+    for (const tag of getNoteTags(note)) {
+      counts.set(tag, (counts.get(tag) || 0) + 1)
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
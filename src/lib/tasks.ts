@@ -0,0 +1,133 @@
+/**
+ * Note Tasks
+ * Reads checklist items (TipTap taskItem) out of note HTML and ticks them
+ * off in place, so the Tasks view can work across every note.
+ *
+ * TipTap stores a task as
+ *   <li data-checked="false" data-type="taskItem"><label><input type="checkbox"><span></span></label><div><p>text</p></div></li>
+ * A task can carry a due date as "@due(2025-03-01)" or "@due(2025-03-01 14:30)".
+ */
+import type { Note } from '@/types'
+import { htmlToText } from '@/lib/searchIndex'
+
+export interface NoteTask {
+  noteId: string
+  index: number              // Position among the note's task items
+  text: string               // Item text without the @due annotation
+  checked: boolean
+  due?: number               // From @due(...), local time
+  hasDueTime?: boolean       // @due included a time of day
+}
+
+export interface NoteTaskGroup {
+  note: Note
+  tasks: NoteTask[]
+}
+
+export type TaskSortMode = 'due' | 'note'
+
+const TASK_ITEM_PATTERN = /<li\b[^>]*\bdata-type="taskItem"[^>]*>/gi
+const CHECKED_ATTR_PATTERN = /\sdata-checked="[^"]*"/i
+// An item's own text ends where a nested list or the next item starts
+const ITEM_END_PATTERN = /<li\b|<\/li>|<ul\b|<ol\b/i
+const DUE_PATTERN = /@due\((\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?\)/i
+
+/**
+ * Parse an @due(...) annotation
+ */
+export function parseDueDate(text: string): { due: number; hasTime: boolean } | null {
+  const match = DUE_PATTERN.exec(text)
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes] = match
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0))
+  if (isNaN(date.getTime()) || date.getDate() !== Number(day)) return null
+  return { due: date.getTime(), hasTime: hours !== undefined }
+}
+
+/**
+ * Check if a task's due date has passed (date-only tasks are due all day)
+ */
+export function isTaskOverdue(task: NoteTask, now: number = Date.now()): boolean {
+  if (task.due === undefined || task.checked) return false
+  if (task.hasDueTime) return task.due < now
+  const today = new Date(now)
+  today.setHours(0, 0, 0, 0)
+  return task.due < today.getTime()
+}
+
+/**
+ * Find the task items in note HTML, in document order
+ */
+export function extractTasks(html: string, noteId: string): NoteTask[] {
+  const tasks: NoteTask[] = []
+  let index = 0
+
+  for (const match of html.matchAll(TASK_ITEM_PATTERN)) {
+    const start = match.index! + match[0].length
+    const rest = html.slice(start)
+    const end = rest.search(ITEM_END_PATTERN)
+    const raw = htmlToText(end === -1 ? rest : rest.slice(0, end)).replace(/\s+/g, ' ').trim()
+    const due = parseDueDate(raw)
+
+    tasks.push({
+      noteId,
+      index: index++,
+      text: raw.replace(DUE_PATTERN, '').replace(/\s+/g, ' ').trim(),
+      checked: /\bdata-checked="true"/i.test(match[0]),
+      ...(due && { due: due.due, hasDueTime: due.hasTime })
+    })
+  }
+
+  return tasks
+}
+
+/**
+ * Tick or untick the task at `index`
+ * Returns the HTML unchanged if there is no such task
+ */
+export function setTaskChecked(html: string, index: number, checked: boolean): string {
+  const match = Array.from(html.matchAll(TASK_ITEM_PATTERN))[index]
+  if (!match) return html
+
+  const tag = match[0]
+  const value = ` data-checked="${checked}"`
+  const newTag = CHECKED_ATTR_PATTERN.test(tag)
+    ? tag.replace(CHECKED_ATTR_PATTERN, value)
+    : tag.replace(/^<li\b/i, '<li' + value)
+
+  // The rendered checkbox follows the tag - keep it in step for exports
+  let rest = html.slice(match.index! + tag.length)
+  rest = rest.replace(/^(\s*<label\b[^>]*>\s*)(<input\b[^>]*>)/i, (_, label: string, input: string) => {
+    const unchecked = input.replace(/\schecked(="[^"]*")?/i, '')
+    return label + (checked ? unchecked.replace(/^<input\b/i, '<input checked="checked"') : unchecked)
+  })
+
+  return html.slice(0, match.index) + newTag + rest
+}
+
+/**
+ * Open tasks across notes, grouped by note
+ * - 'due': groups by their earliest due date, tasks by due date (undated last)
+ * - 'note': most recently edited notes first, tasks in document order
+ */
+export function getOpenTaskGroups(notes: Note[], sortMode: TaskSortMode): NoteTaskGroup[] {
+  const groups: NoteTaskGroup[] = []
+  for (const note of notes) {
+    if (note.isDeleted || !note.content?.includes('taskItem')) continue
+    const tasks = extractTasks(note.content, note.id).filter(task => !task.checked)
+    if (tasks.length > 0) groups.push({ note, tasks })
+  }
+
+  if (sortMode === 'note') {
+    return groups.sort((a, b) => b.note.updatedAt - a.note.updatedAt)
+  }
+
+  const dueOrder = (task: NoteTask) => task.due ?? Infinity
+  for (const group of groups) {
+    group.tasks.sort((a, b) => dueOrder(a) - dueOrder(b) || a.index - b.index)
+  }
+  return groups.sort((a, b) =>
+    dueOrder(a.tasks[0]) - dueOrder(b.tasks[0]) || b.note.updatedAt - a.note.updatedAt
+  )
+}
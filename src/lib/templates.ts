@@ -0,0 +1,93 @@
+/**
+ * Note Templates
+ * Templates are stored as a note title and HTML with {{placeholders}}.
+ * Built-in variables ({{date}}, {{time}}, {{weekday}}) are filled from the
+ * current time; any other placeholder is a custom field the user is asked
+ * for when creating a note. Unknown placeholders are left as they are.
+ */
+import type { NoteTemplate } from '@/types'
+import { formatDay, formatTime, formatWeekday } from '@/lib/utils'
+
+export const BUILT_IN_VARIABLES = ['date', 'time', 'weekday'] as const
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}<>]{1,60}?)\s*\}\}/g
+
+// Placeholder names in content are HTML-escaped by the editor
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function isBuiltIn(name: string): boolean {
+  return (BUILT_IN_VARIABLES as readonly string[]).includes(name.toLowerCase())
+}
+
+/**
+ * Custom fields in a template, in order of first appearance
+ */
+export function getTemplateFields(template: Pick<NoteTemplate, 'title' | 'content'>): string[] {
+  const fields: string[] = []
+  const sources = [template.title, decodeEntities(template.content)]
+  for (const source of sources) {
+    for (const match of source.matchAll(PLACEHOLDER_PATTERN)) {
+      const name = match[1]
+      if (!isBuiltIn(name) && !fields.includes(name)) fields.push(name)
+    }
+  }
+  return fields
+}
+
+/**
+ * Values for the built-in variables, in the app language
+ */
+export function getBuiltInValues(now: number = Date.now()): Record<string, string> {
+  return {
+    date: formatDay(now),
+    time: formatTime(now),
+    weekday: formatWeekday(now)
+  }
+}
+
+/**
+ * Replace placeholders with values - built-ins match case-insensitively
+ */
+export function fillPlaceholders(
+  text: string,
+  values: Record<string, string>,
+  isHtml = false
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, rawName: string) => {
+    const name = isHtml ? decodeEntities(rawName) : rawName
+    const value = isBuiltIn(name) ? values[name.toLowerCase()] : values[name]
+    if (value === undefined) return placeholder
+    return isHtml ? escapeHtml(value) : value
+  })
+}
+
+/**
+ * Title and content for a new note made from a template
+ */
+export function applyTemplate(
+  template: Pick<NoteTemplate, 'title' | 'content'>,
+  fieldValues: Record<string, string>,
+  now: number = Date.now()
+): { title: string; content: string } {
+  const values = { ...fieldValues, ...getBuiltInValues(now) }
+  return {
+    title: fillPlaceholders(template.title, values),
+    content: fillPlaceholders(template.content, values, true)
+  }
+}
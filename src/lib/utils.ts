@@ -53,6 +53,11 @@ const dateFnsLocales: Record<string, Locale> = {
   'id': id,
 }
 
+// date-fns locale for the app language
+export function getDateFnsLocale(language: string = i18n.language): Locale {
+  return dateFnsLocales[language] || enUS
+}
+
 /**
  * Format a timestamp to a human-readable relative time string
  * Uses date-fns for proper i18n support and handles all time ranges
@@ -64,7 +69,7 @@ export function formatDate(timestamp: number): string {
   const diffInDays = Math.floor((now.getTime() - date.getTime()) / 86400000)
   
   // Get the appropriate locale for date-fns
-  const locale = dateFnsLocales[i18n.language] || enUS
+  const locale = getDateFnsLocale()
   
   // For dates older than 7 days, show the actual date
   if (diffInDays >= 7) {
@@ -78,6 +83,28 @@ export function formatDate(timestamp: number): string {
   })
 }
 
+// Date and time in the app language, e.g. "Mar 5, 2026, 9:00 AM"
+export function formatDateTime(timestamp: number): string {
+  const locale = getDateFnsLocale()
+  return format(new Date(timestamp), 'PPp', { locale })
+}
+
+export function formatDay(timestamp: number): string {
+  const locale = getDateFnsLocale()
+  return format(new Date(timestamp), 'PP', { locale })
+}
+
+export function formatTime(timestamp: number): string {
+  const locale = getDateFnsLocale()
+  return format(new Date(timestamp), 'p', { locale })
+}
+
+// Day name, e.g. "Monday"
+export function formatWeekday(timestamp: number): string {
+  const locale = getDateFnsLocale()
+  return format(new Date(timestamp), 'EEEE', { locale })
+}
+
 export function getPlainText(html: string): string {
   const div = document.createElement('div')
   div.innerHTML = html
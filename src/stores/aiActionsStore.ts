@@ -0,0 +1,135 @@
+import { create } from 'zustand'
+import type { AIPromptAction } from '@/types'
+import { generateId } from '@/lib/utils'
+import { useMigrationStore } from '@/stores/migrationStore'
+import {
+  getAllAIActions,
+  saveAIAction,
+  deleteAIAction as deleteAIActionRecord,
+  replaceAllAIActions
+} from '@/lib/db/aiActionRepository'
+import { addTombstone } from '@/lib/db/tombstoneRepository'
+import { isIndexedDBAvailable } from '@/lib/db/utils'
+
+export type AIActionInput = Pick<AIPromptAction, 'name' | 'icon' | 'prompt' | 'output'>
+
+interface AIActionsState {
+  aiActions: AIPromptAction[]
+
+  loadAIActions: () => Promise<void>
+  createAIAction: (input: AIActionInput) => AIPromptAction | undefined
+  updateAIAction: (id: string, changes: AIActionInput) => void
+  deleteAIAction: (id: string) => void
+  applySyncedAIActions: (syncedActions: AIPromptAction[], sentActions: AIPromptAction[]) => Promise<void>
+  reset: () => void
+}
+
+export const useAIActionsStore = create<AIActionsState>()((set, get) => ({
+  aiActions: [],
+
+  loadAIActions: async () => {
+    if (!isIndexedDBAvailable()) return
+    try {
+      set({ aiActions: await getAllAIActions() })
+    } catch (error) {
+      console.error('[AIActionsStore] Failed to load AI actions:', error)
+    }
+  },
+
+  createAIAction: (input) => {
+    if (useMigrationStore.getState().isReadOnly()) {
+      console.warn('[AIActionsStore] Cannot create AI action during migration (read-only mode)')
+      return undefined
+    }
+
+    const now = Date.now()
+    const action: AIPromptAction = {
+      id: generateId(),
+      ...input,
+      name: input.name.trim(),
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      syncStatus: 'pending'
+    }
+
+    set((state) => ({ aiActions: [...state.aiActions, action] }))
+    saveAIAction(action).catch(console.error)
+    return action
+  },
+
+  updateAIAction: (id, changes) => {
+    if (useMigrationStore.getState().isReadOnly()) {
+      console.warn('[AIActionsStore] Cannot update AI action during migration (read-only mode)')
+      return
+    }
+
+    const current = get().aiActions.find(action => action.id === id)
+    if (!current) return
+
+    const updated: AIPromptAction = {
+      ...current,
+      ...changes,
+      name: changes.name.trim(),
+      updatedAt: Date.now(),
+      version: current.version + 1,
+      syncStatus: 'pending'
+    }
+
+    set((state) => ({ aiActions: state.aiActions.map(action => action.id === id ? updated : action) }))
+    saveAIAction(updated).catch(console.error)
+  },
+
+  deleteAIAction: (id) => {
+    if (useMigrationStore.getState().isReadOnly()) {
+      console.warn('[AIActionsStore] Cannot delete AI action during migration (read-only mode)')
+      return
+    }
+
+    set((state) => ({ aiActions: state.aiActions.filter(action => action.id !== id) }))
+
+    Promise.all([
+      deleteAIActionRecord(id),
+      addTombstone(id, 'aiAction')
+    ]).catch(console.error)
+
+    // Tombstones don't mark anything pending, so nudge the sync scheduler
+    import('./notesStore')
+      .then(({ smartSyncManager }) => smartSyncManager.recordActivity())
+      .catch(console.error)
+  },
+
+  // Merge sync results with actions edited or created while syncing
+  applySyncedAIActions: async (syncedActions, sentActions) => {
+    const syncedById = new Map(syncedActions.map(action => [action.id, action]))
+    const sentIds = new Set(sentActions.map(action => action.id))
+
+    set((state) => {
+      const currentById = new Map(state.aiActions.map(action => [action.id, action]))
+      const aiActions = syncedActions
+        // Sent but gone now - deleted during sync
+        .filter(synced => !sentIds.has(synced.id) || currentById.has(synced.id))
+        .map(synced => {
+          const current = currentById.get(synced.id)
+          return current && current.syncStatus === 'pending' && current.version > synced.version
+            ? current
+            : synced
+        })
+
+      // Created during sync - not part of this round yet
+      for (const current of state.aiActions) {
+        if (!syncedById.has(current.id) && !sentIds.has(current.id)) {
+          aiActions.push(current)
+        }
+      }
+
+      return { aiActions }
+    })
+
+    if (isIndexedDBAvailable()) {
+      await replaceAllAIActions(get().aiActions)
+    }
+  },
+
+  reset: () => set({ aiActions: [] })
+}))
@@ -0,0 +1,45 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { useNetworkStore } from '@/stores/networkStore'
+import { isLocalUrl } from '@/lib/openAICompatible'
+
+// 'gnote' is the G-Note backend, paid with AI credits
+export type AIProviderType = 'gnote' | 'openai-compatible'
+
+export interface AIProviderSettings {
+  provider: AIProviderType
+  baseUrl: string          // e.g. http://localhost:11434/v1
+  model: string
+  apiKey: string           // Kept on this device only, never synced
+  embeddingModel: string   // Empty = no matching notes by meaning
+}
+
+interface AIProviderState extends AIProviderSettings {
+  setAIProviderSettings: (settings: Partial<AIProviderSettings>) => void
+}
+
+export const useAIProviderStore = create<AIProviderState>()(
+  persist(
+    (set) => ({
+      provider: 'gnote',
+      baseUrl: '',
+      model: '',
+      apiKey: '',
+      embeddingModel: '',
+      setAIProviderSettings: (settings) => set(settings)
+    }),
+    {
+      name: 'ai-provider-storage'
+    }
+  )
+)
+
+/**
+ * Whether AI requests can go through now - a server on this device
+ * keeps working offline
+ */
+export function useAIReachable(): boolean {
+  const isOnline = useNetworkStore(state => state.isOnline)
+  const isLocal = useAIProviderStore(state => state.provider === 'openai-compatible' && isLocalUrl(state.baseUrl))
+  return isOnline || isLocal
+}
@@ -43,6 +43,12 @@ export const useAuthStore = create<AuthState>()(
         // Reset notes store state in memory
         const { useNotesStore } = await import('./notesStore')
         useNotesStore.getState().resetForNewUser()
+        const { useNotebooksStore } = await import('./notebooksStore')
+        useNotebooksStore.getState().reset()
+        const { useTemplatesStore } = await import('./templatesStore')
+        useTemplatesStore.getState().reset()
+        const { useAIActionsStore } = await import('./aiActionsStore')
+        useAIActionsStore.getState().reset()
         
         set({ user: null })
       }
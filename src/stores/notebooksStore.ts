@@ -0,0 +1,269 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { Notebook } from '@/types'
+import { generateId } from '@/lib/utils'
+import { useMigrationStore } from '@/stores/migrationStore'
+import {
+  getAllNotebooks,
+  saveNotebook,
+  deleteNotebooks,
+  replaceAllNotebooks
+} from '@/lib/db/notebookRepository'
+import { addTombstone } from '@/lib/db/tombstoneRepository'
+import { isIndexedDBAvailable } from '@/lib/db/utils'
+
+/**
+ * Get a notebook and all notebooks nested under it
+ */
+export function getNotebookSubtreeIds(notebooks: Notebook[], rootId: string): Set<string> {
+  const ids = new Set<string>([rootId])
+  let added = true
+  while (added) {
+    added = false
+    for (const notebook of notebooks) {
+      if (notebook.parentId && ids.has(notebook.parentId) && !ids.has(notebook.id)) {
+        ids.add(notebook.id)
+        added = true
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * Group notebooks by parent, sorted by name (null key = top level)
+ */
+export function getNotebookChildren(notebooks: Notebook[]): Map<string | null, Notebook[]> {
+  const children = new Map<string | null, Notebook[]>()
+  for (const notebook of notebooks) {
+    const siblings = children.get(notebook.parentId) || []
+    siblings.push(notebook)
+    children.set(notebook.parentId, siblings)
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.name.localeCompare(b.name))
+  }
+  return children
+}
+
+interface NotebooksState {
+  notebooks: Notebook[]
+  selectedNotebookId: string | null  // null = all notes
+  expandedIds: string[]
+  isSidebarOpen: boolean    // Desktop sidebar
+  isDrawerOpen: boolean     // Mobile drawer
+
+  loadNotebooks: () => Promise<void>
+  createNotebook: (name: string, parentId?: string | null) => Notebook | undefined
+  renameNotebook: (id: string, name: string) => void
+  moveNotebook: (id: string, parentId: string | null) => void
+  deleteNotebook: (id: string) => void
+  setSelectedNotebook: (id: string | null) => void
+  toggleExpanded: (id: string) => void
+  setSidebarOpen: (open: boolean) => void
+  setDrawerOpen: (open: boolean) => void
+  applySyncedNotebooks: (syncedNotebooks: Notebook[], sentNotebooks: Notebook[]) => Promise<void>
+  reset: () => void
+}
+
+export const useNotebooksStore = create<NotebooksState>()(
+  persist(
+    (set, get) => {
+      // Apply an edit to one notebook and persist it
+      const updateNotebook = (id: string, updates: Partial<Notebook>) => {
+        if (useMigrationStore.getState().isReadOnly()) {
+          console.warn('[NotebooksStore] Cannot update notebook during migration (read-only mode)')
+          return
+        }
+
+        let updated: Notebook | undefined
+        set((state) => ({
+          notebooks: state.notebooks.map(nb => {
+            if (nb.id !== id) return nb
+            updated = {
+              ...nb,
+              ...updates,
+              updatedAt: Date.now(),
+              version: nb.version + 1,
+              syncStatus: 'pending' as const
+            }
+            return updated
+          })
+        }))
+
+        if (updated) {
+          saveNotebook(updated).catch(console.error)
+        }
+      }
+
+      return {
+        notebooks: [],
+        selectedNotebookId: null,
+        expandedIds: [],
+        isSidebarOpen: true,
+        isDrawerOpen: false,
+
+        loadNotebooks: async () => {
+          if (!isIndexedDBAvailable()) return
+          try {
+            const notebooks = await getAllNotebooks()
+            const { selectedNotebookId } = get()
+            set({
+              notebooks,
+              // Selected notebook may have been deleted on another device
+              selectedNotebookId: notebooks.some(nb => nb.id === selectedNotebookId) ? selectedNotebookId : null
+            })
+          } catch (error) {
+            console.error('[NotebooksStore] Failed to load notebooks:', error)
+          }
+        },
+
+        createNotebook: (name, parentId = null) => {
+          if (useMigrationStore.getState().isReadOnly()) {
+            console.warn('[NotebooksStore] Cannot create notebook during migration (read-only mode)')
+            return undefined
+          }
+
+          const now = Date.now()
+          const notebook: Notebook = {
+            id: generateId(),
+            name: name.trim(),
+            parentId,
+            createdAt: now,
+            updatedAt: now,
+            version: 1,
+            syncStatus: 'pending'
+          }
+
+          set((state) => ({
+            notebooks: [...state.notebooks, notebook],
+            // Show the new notebook inside its parent
+            expandedIds: parentId && !state.expandedIds.includes(parentId)
+              ? [...state.expandedIds, parentId]
+              : state.expandedIds
+          }))
+
+          saveNotebook(notebook).catch(console.error)
+          return notebook
+        },
+
+        renameNotebook: (id, name) => {
+          const trimmed = name.trim()
+          if (!trimmed) return
+          updateNotebook(id, { name: trimmed })
+        },
+
+        moveNotebook: (id, parentId) => {
+          const { notebooks } = get()
+          const notebook = notebooks.find(nb => nb.id === id)
+          if (!notebook || notebook.parentId === parentId) return
+
+          // A notebook can't be moved into itself or one of its children
+          if (parentId && getNotebookSubtreeIds(notebooks, id).has(parentId)) return
+
+          updateNotebook(id, { parentId })
+        },
+
+        deleteNotebook: (id) => {
+          if (useMigrationStore.getState().isReadOnly()) {
+            console.warn('[NotebooksStore] Cannot delete notebook during migration (read-only mode)')
+            return
+          }
+
+          // Nested notebooks go with it; their notes stay and become unfiled
+          const ids = getNotebookSubtreeIds(get().notebooks, id)
+
+          set((state) => ({
+            notebooks: state.notebooks.filter(nb => !ids.has(nb.id)),
+            expandedIds: state.expandedIds.filter(expandedId => !ids.has(expandedId)),
+            selectedNotebookId: state.selectedNotebookId && ids.has(state.selectedNotebookId)
+              ? null
+              : state.selectedNotebookId
+          }))
+
+          const deletedIds = Array.from(ids)
+          Promise.all([
+            deleteNotebooks(deletedIds),
+            ...deletedIds.map(deletedId => addTombstone(deletedId, 'notebook'))
+          ]).catch(console.error)
+
+          // Unfile their notes (which syncs them out), and since tombstones don't mark
+          // anything pending, nudge the sync scheduler either way
+          import('./notesStore')
+            .then(({ useNotesStore, smartSyncManager }) => {
+              const filedIds = useNotesStore.getState().notes
+                .filter(note => note.notebookId && ids.has(note.notebookId))
+                .map(note => note.id)
+              useNotesStore.getState().moveNotesToNotebook(filedIds, null)
+              smartSyncManager.recordActivity()
+            })
+            .catch(console.error)
+        },
+
+        setSelectedNotebook: (selectedNotebookId) => set({ selectedNotebookId }),
+
+        toggleExpanded: (id) => set((state) => ({
+          expandedIds: state.expandedIds.includes(id)
+            ? state.expandedIds.filter(expandedId => expandedId !== id)
+            : [...state.expandedIds, id]
+        })),
+
+        setSidebarOpen: (isSidebarOpen) => set({ isSidebarOpen }),
+        setDrawerOpen: (isDrawerOpen) => set({ isDrawerOpen }),
+
+        // Merge sync results with notebooks edited or created while syncing
+        applySyncedNotebooks: async (syncedNotebooks, sentNotebooks) => {
+          const syncedById = new Map(syncedNotebooks.map(nb => [nb.id, nb]))
+          const sentIds = new Set(sentNotebooks.map(nb => nb.id))
+
+          set((state) => {
+            const currentById = new Map(state.notebooks.map(nb => [nb.id, nb]))
+            const notebooks = syncedNotebooks
+              // Sent but gone now - deleted during sync
+              .filter(synced => !sentIds.has(synced.id) || currentById.has(synced.id))
+              .map(synced => {
+                const current = currentById.get(synced.id)
+                return current && current.syncStatus === 'pending' && current.version > synced.version
+                  ? current
+                  : synced
+              })
+
+            // Created during sync - not part of this round yet
+            for (const current of state.notebooks) {
+              if (!syncedById.has(current.id) && !sentIds.has(current.id)) {
+                notebooks.push(current)
+              }
+            }
+
+            return {
+              notebooks,
+              selectedNotebookId: notebooks.some(nb => nb.id === state.selectedNotebookId)
+                ? state.selectedNotebookId
+                : null
+            }
+          })
+
+          if (isIndexedDBAvailable()) {
+            await replaceAllNotebooks(get().notebooks)
+          }
+        },
+
+        reset: () => set({
+          notebooks: [],
+          selectedNotebookId: null,
+          expandedIds: [],
+          isDrawerOpen: false
+        })
+      }
+    },
+    {
+      name: 'notebooks-storage',
+      partialize: (state) => ({
+        // Notebooks themselves live in IndexedDB
+        selectedNotebookId: state.selectedNotebookId,
+        expandedIds: state.expandedIds,
+        isSidebarOpen: state.isSidebarOpen
+      })
+    }
+  )
+)
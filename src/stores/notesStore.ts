@@ -2,18 +2,36 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import type { Note } from '@/types'
 import { generateId } from '@/lib/utils'
+import i18n from '@/locales'
 import { shareService, type SharedNote } from '@/lib/shareService'
-import { searchNotes, type SearchResult } from '@/lib/search'
+import { searchNotes, parseSearchQuery, type SearchResult, type TagMatcher } from '@/lib/search'
+import { extractTags, noteHasTag, normalizeTag } from '@/lib/tags'
+import { hasActiveReminder } from '@/lib/reminders'
+import {
+  getDailyNoteKey,
+  findDailyNote,
+  formatDailyNoteTitle,
+  matchesKindFilter,
+  type NoteKindFilter
+} from '@/lib/dailyNotes'
+import { searchIndex } from '@/lib/searchIndex'
+import { hasInlineImages, extractInlineImages, releaseLoadedImages } from '@/lib/noteImages'
 import { useNetworkStore } from '@/stores/networkStore'
 import { useAuthStore } from '@/stores/authStore'
 import { useMigrationStore } from '@/stores/migrationStore'
+import { useNotebooksStore } from '@/stores/notebooksStore'
+import { useTemplatesStore } from '@/stores/templatesStore'
+import { useAIActionsStore } from '@/stores/aiActionsStore'
+import { useUIStore } from '@/stores/uiStore'
 
 // Direct imports from new db layer
 import {
   saveNotes,
   getAllNotes,
+  getNoteIdsByTag,
   deleteNote as deleteNoteFromDb
 } from '@/lib/db/noteRepository'
+import { loadSearchIndex } from '@/lib/db/searchIndexRepository'
 import {
   addToSyncQueue,
   getSyncQueue,
@@ -23,6 +41,11 @@ import {
   addTombstone,
   getAllTombstones
 } from '@/lib/db/tombstoneRepository'
+import {
+  getAllConflictRecords,
+  deleteConflictRecord
+} from '@/lib/db/conflictRepository'
+import type { ConflictRecord } from '@/lib/db/schema'
 import { isIndexedDBAvailable, safeDbWrite } from '@/lib/db/utils'
 
 // Direct imports from new sync layer
@@ -236,11 +259,19 @@ class SmartSyncManager {
 // Create smart sync manager instance
 export const smartSyncManager = new SmartSyncManager()
 
+// How a reviewed sync conflict should be settled
+export type ConflictChoice = 'keep-local' | 'keep-remote' | 'copy-local' | 'copy-remote' | 'dismiss'
+
 interface NotesState {
   notes: Note[]
   sharedNotes: SharedNote[]
+  conflicts: ConflictRecord[]
   deletedNoteIds: string[]
   searchQuery: string
+  selectedTags: string[]  // Tag filter bar - notes must have all of them
+  taggedNoteIds: Map<string, Set<string>>  // Tags index lookups for the filter bar and tag: terms
+  showUpcoming: boolean   // Only notes with active reminders, soonest first
+  noteKindFilter: NoteKindFilter  // Regular notes, daily notes or both
   selectedNoteId: string | null
   isModalOpen: boolean
   isSyncing: boolean
@@ -253,12 +284,19 @@ interface NotesState {
   isOfflineReady: boolean
   
   // Note actions
-  addNote: () => Note
+  addNote: (initial?: Pick<Partial<Note>, 'title' | 'content' | 'kind' | 'journalDate'>) => Note
+  openDailyNote: (date: Date) => Note  // Open the day's note, creating it if needed
   updateNote: (id: string, updates: Partial<Note>) => void
   deleteNote: (id: string) => void
   duplicateNote: (id: string) => Note | undefined
   togglePin: (id: string) => void
+  moveNotesToNotebook: (ids: string[], notebookId: string | null) => void
   setSearchQuery: (query: string) => void
+  toggleTagFilter: (tag: string) => void
+  clearTagFilter: () => void
+  loadTaggedNoteIds: () => Promise<void>
+  setShowUpcoming: (show: boolean) => void
+  setNoteKindFilter: (filter: NoteKindFilter) => void
   setSelectedNote: (id: string | null) => void
   setModalOpen: (open: boolean) => void
   
@@ -269,8 +307,11 @@ interface NotesState {
   acceptSharedNote: (shareId: string) => Promise<void>
   declineSharedNote: (shareId: string) => Promise<void>
   markAllSynced: () => void
+  loadConflicts: () => Promise<void>
+  resolveConflict: (conflictId: string, choice: ConflictChoice) => Promise<void>
   initOfflineStorage: () => Promise<void>
   saveToOfflineStorage: () => Promise<void>
+  migrateInlineImages: () => Promise<void>
   resetForNewUser: () => void
   setIsNewUser: (isNew: boolean) => void
 
@@ -289,13 +330,46 @@ interface NotesState {
   getSelectedNote: () => Note | undefined
 }
 
+// Default list order: pinned first, then most recently edited
+function compareNotes(a: Note, b: Note): number {
+  if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1
+  return b.updatedAt - a.updatedAt
+}
+
+// Upcoming list order: soonest reminder first
+function compareReminders(a: Note, b: Note): number {
+  return (a.reminder?.at ?? 0) - (b.reminder?.at ?? 0)
+}
+
+// Tags the list is filtered by - the tag bar plus tag: terms in the search query
+function getFilterTags(selectedTags: string[], searchQuery: string): string[] {
+  const queryTags = parseSearchQuery(searchQuery)
+    .filter(term => term.type === 'tag')
+    .map(term => term.value)
+  return [...new Set([...selectedTags, ...queryTags].map(normalizeTag))]
+}
+
+// Match tags through the tags index lookups. Notes with unsynced edits may not be
+// saved to IndexedDB yet, so those (and tags not looked up yet) are checked directly
+function createTagMatcher(taggedNoteIds: Map<string, Set<string>>): TagMatcher {
+  return (note, tag) => {
+    const ids = taggedNoteIds.get(normalizeTag(tag))
+    return ids && note.syncStatus !== 'pending' ? ids.has(note.id) : noteHasTag(note, tag)
+  }
+}
+
 export const useNotesStore = create<NotesState>()(
   persist(
     (set, get) => ({
       notes: [],
       sharedNotes: [],
+      conflicts: [],
       deletedNoteIds: [],
       searchQuery: '',
+      selectedTags: [],
+      taggedNoteIds: new Map(),
+      showUpcoming: false,
+      noteKindFilter: 'all',
       selectedNoteId: null,
       isModalOpen: false,
       isSyncing: false,
@@ -318,12 +392,19 @@ export const useNotesStore = create<NotesState>()(
         } catch (e) {
           console.error('[NotesStore] Failed to clear localStorage:', e)
         }
+        searchIndex.clear()
+        releaseLoadedImages()
         
         set({
           notes: [],
           sharedNotes: [],
+          conflicts: [],
           deletedNoteIds: [],
           searchQuery: '',
+          selectedTags: [],
+          taggedNoteIds: new Map(),
+          showUpcoming: false,
+          noteKindFilter: 'all',
           selectedNoteId: null,
           isModalOpen: false,
           isSyncing: false,
@@ -347,17 +428,23 @@ export const useNotesStore = create<NotesState>()(
             return
           }
 
-          const [offlineNotes] = await Promise.all([
-            getAllNotes()
+          const [offlineNotes, conflicts] = await Promise.all([
+            getAllNotes(),
+            getAllConflictRecords()
           ])
           
           // Simply load from IndexedDB - no merge needed since logout clears everything
           set({ 
             notes: offlineNotes,
+            conflicts,
             isOfflineReady: true 
           })
           
           console.log(`[NotesStore] Loaded ${offlineNotes.length} notes from IndexedDB`)
+
+          // Search scans notes until the index has caught up
+          loadSearchIndex(offlineNotes).catch(console.error)
+          get().migrateInlineImages().catch(console.error)
         } catch (error) {
           console.error('[NotesStore] Failed to init offline storage:', error)
           set({ isOfflineReady: true })
@@ -374,22 +461,43 @@ export const useNotesStore = create<NotesState>()(
         }
       },
 
-      addNote: () => {
+      // Move base64 images (from older versions or other devices) into image blobs
+      migrateInlineImages: async () => {
+        const notes = get().notes.filter(note => hasInlineImages(note.content || ''))
+        if (notes.length === 0) return
+
+        for (const note of notes) {
+          const content = await extractInlineImages(note.content)
+          // Skip notes edited while their images were being extracted
+          const current = get().notes.find(n => n.id === note.id)
+          if (current && current.content === note.content && content !== note.content) {
+            get().updateNote(note.id, { content })
+          }
+        }
+        console.log(`[NotesStore] Moved images of ${notes.length} notes to image storage`)
+      },
+
+      addNote: (initial) => {
         // Check if migration is in progress (read-only mode)
         if (useMigrationStore.getState().isReadOnly()) {
           console.warn('[NotesStore] Cannot add note during migration (read-only mode)')
           return { id: '', title: '', content: '', createdAt: 0, updatedAt: 0, isPinned: false, syncStatus: 'pending' as const, version: 1 }
         }
         
+        // File new notes into the notebook being viewed
+        const notebookId = useNotebooksStore.getState().selectedNotebookId
         const newNote: Note = {
           id: generateId(),
-          title: '',
-          content: '',
+          title: initial?.title ?? '',
+          content: initial?.content ?? '',
           createdAt: Date.now(),
           updatedAt: Date.now(),
           isPinned: false,
           syncStatus: 'pending',
-          version: 1
+          version: 1,
+          ...(notebookId && { notebookId }),
+          ...(initial?.kind && { kind: initial.kind, journalDate: initial.journalDate }),
+          ...(initial?.content && { tags: extractTags(initial.content) })
         }
         
         set((state) => ({ 
@@ -409,6 +517,21 @@ export const useNotesStore = create<NotesState>()(
         return newNote
       },
 
+      openDailyNote: (date) => {
+        const journalDate = getDailyNoteKey(date)
+        const existing = findDailyNote(get().notes, journalDate)
+        if (existing) {
+          set({ selectedNoteId: existing.id, isModalOpen: true })
+          return existing
+        }
+
+        return get().addNote({
+          title: formatDailyNoteTitle(date, useUIStore.getState().dailyNoteFormat),
+          kind: 'daily',
+          journalDate
+        })
+      },
+
       updateNote: (id, updates) => {
         // Check if migration is in progress (read-only mode)
         if (useMigrationStore.getState().isReadOnly()) {
@@ -424,6 +547,8 @@ export const useNotesStore = create<NotesState>()(
               updatedNote = { 
                 ...note, 
                 ...updates, 
+                // Tags always follow the content
+                ...(updates.content !== undefined && { tags: extractTags(updates.content) }),
                 updatedAt: Date.now(), 
                 version: (note.version || 1) + 1,
                 syncStatus: 'pending' as const 
@@ -727,8 +852,75 @@ export const useNotesStore = create<NotesState>()(
           }).catch(console.error)
         }
       },
-      
-      setSearchQuery: (searchQuery) => set({ searchQuery }),
+
+      moveNotesToNotebook: (ids, notebookId) => {
+        // Check if migration is in progress (read-only mode)
+        if (useMigrationStore.getState().isReadOnly()) {
+          console.warn('[NotesStore] Cannot move notes during migration (read-only mode)')
+          return
+        }
+
+        const idSet = new Set(ids)
+        const movedNotes: Note[] = []
+
+        set((state) => ({
+          notes: state.notes.map((note) => {
+            if (!idSet.has(note.id) || (note.notebookId ?? null) === notebookId) return note
+            const movedNote = {
+              ...note,
+              notebookId: notebookId ?? undefined,
+              updatedAt: Date.now(),
+              version: (note.version || 1) + 1,
+              syncStatus: 'pending' as const
+            }
+            movedNotes.push(movedNote)
+            return movedNote
+          })
+        }))
+
+        for (const movedNote of movedNotes) {
+          saveNoteWithQueue(movedNote, {
+            type: 'update',
+            entityType: 'note',
+            entityId: movedNote.id,
+            data: movedNote
+          }).catch(console.error)
+        }
+        if (movedNotes.length > 0) {
+          smartSyncManager.recordActivity()
+        }
+      },
+
+      setSearchQuery: (searchQuery) => {
+        set({ searchQuery })
+        get().loadTaggedNoteIds().catch(console.error)
+      },
+
+      toggleTagFilter: (tag) => {
+        set((state) => ({
+          selectedTags: state.selectedTags.includes(tag)
+            ? state.selectedTags.filter(t => t !== tag)
+            : [...state.selectedTags, tag]
+        }))
+        get().loadTaggedNoteIds().catch(console.error)
+      },
+
+      clearTagFilter: () => {
+        set({ selectedTags: [] })
+        get().loadTaggedNoteIds().catch(console.error)
+      },
+
+      // Look up the filtered tags in the IndexedDB tags index
+      loadTaggedNoteIds: async () => {
+        if (!isIndexedDBAvailable()) return
+        const { selectedTags, searchQuery } = get()
+        const tags = getFilterTags(selectedTags, searchQuery)
+        const lookups = await Promise.all(tags.map(async tag => [tag, await getNoteIdsByTag(tag)] as const))
+        set({ taggedNoteIds: new Map(lookups) })
+      },
+
+      setShowUpcoming: (show) => set({ showUpcoming: show }),
+      setNoteKindFilter: (filter) => set({ noteKindFilter: filter }),
       setSelectedNote: (selectedNoteId) => set({ selectedNoteId }),
       setModalOpen: (isModalOpen) => set({ isModalOpen }),
 
@@ -792,6 +984,18 @@ export const useNotesStore = create<NotesState>()(
           const localDeletedNotes = tombstones
             .filter(d => d.entityType === 'note')
             .map(d => ({ id: d.id, deletedAt: d.deletedAt }))
+          const localDeletedNotebooks = tombstones
+            .filter(d => d.entityType === 'notebook')
+            .map(d => ({ id: d.id, deletedAt: d.deletedAt }))
+          const localNotebooks = useNotebooksStore.getState().notebooks
+          const localDeletedTemplates = tombstones
+            .filter(d => d.entityType === 'template')
+            .map(d => ({ id: d.id, deletedAt: d.deletedAt }))
+          const localTemplates = useTemplatesStore.getState().templates
+          const localDeletedAIActions = tombstones
+            .filter(d => d.entityType === 'aiAction')
+            .map(d => ({ id: d.id, deletedAt: d.deletedAt }))
+          const localAIActions = useAIActionsStore.getState().aiActions
           
           // Get sync queue IDs for stale device check (X.2 fix)
           const syncQueue = await getSyncQueue()
@@ -802,7 +1006,13 @@ export const useNotesStore = create<NotesState>()(
             accessToken,
             notes,
             localDeletedNotes,
-            syncQueueIds
+            syncQueueIds,
+            localNotebooks,
+            localDeletedNotebooks,
+            localTemplates,
+            localDeletedTemplates,
+            localAIActions,
+            localDeletedAIActions
           )
           
           const { syncedNotes, staleLocalIds } = result
@@ -892,6 +1102,25 @@ export const useNotesStore = create<NotesState>()(
           // Save synced data to IndexedDB
           const { notes: finalNotes } = get()
           await saveNotes(finalNotes)
+          get().loadTaggedNoteIds().catch(console.error)
+          
+          if (result.syncedNotebooks) {
+            await useNotebooksStore.getState().applySyncedNotebooks(result.syncedNotebooks, localNotebooks)
+          }
+          if (result.syncedTemplates) {
+            await useTemplatesStore.getState().applySyncedTemplates(result.syncedTemplates, localTemplates)
+          }
+          if (result.syncedAIActions) {
+            await useAIActionsStore.getState().applySyncedAIActions(result.syncedAIActions, localAIActions)
+          }
+
+          // Notes from devices running older versions may still embed images
+          get().migrateInlineImages().catch(console.error)
+
+          // Pick up conflicts recorded during this sync
+          if (result.conflicts?.length) {
+            await get().loadConflicts()
+          }
           
         } catch (error) {
           console.error('Sync failed:', error)
@@ -1075,6 +1304,59 @@ export const useNotesStore = create<NotesState>()(
         }
       },
 
+      loadConflicts: async () => {
+        try {
+          const conflicts = await getAllConflictRecords()
+          set({ conflicts })
+        } catch (error) {
+          console.error('[NotesStore] Failed to load conflicts:', error)
+        }
+      },
+
+      resolveConflict: async (conflictId, choice) => {
+        const record = get().conflicts.find(c => c.id === conflictId)
+        if (!record) return
+
+        const chosen = choice === 'keep-local' || choice === 'copy-local'
+          ? record.localNote
+          : record.remoteNote
+
+        if (choice === 'keep-local' || choice === 'keep-remote') {
+          // Overwrite the current note with the chosen copy - bumps version so it syncs out.
+          // Every field is replaced (tags, reminder, notebook...), and ones the copy lacks are cleared
+          const current = get().notes.find(n => n.id === record.noteId)
+          if (current) {
+            const cleared = Object.fromEntries(Object.keys(current).map(key => [key, undefined]))
+            get().updateNote(record.noteId, { ...cleared, ...chosen, id: current.id })
+          }
+        } else if (choice === 'copy-local' || choice === 'copy-remote') {
+          // Save the chosen copy as a separate note
+          const copy: Note = {
+            id: generateId(),
+            title: chosen.title ? i18n.t('conflicts.conflictedCopy', { title: chosen.title }) : '',
+            content: chosen.content,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            isPinned: false,
+            syncStatus: 'pending',
+            version: 1,
+            style: chosen.style
+          }
+
+          set((state) => ({ notes: [copy, ...state.notes] }))
+
+          await saveNoteWithQueue(copy, {
+            type: 'create',
+            entityType: 'note',
+            entityId: copy.id,
+            data: copy
+          }).catch(console.error)
+        }
+
+        await deleteConflictRecord(conflictId).catch(console.error)
+        set((state) => ({ conflicts: state.conflicts.filter(c => c.id !== conflictId) }))
+      },
+
       markAllSynced: () => {
         set((state) => ({
           notes: state.notes.map(note => ({ ...note, syncStatus: 'synced' as const }))
@@ -1082,34 +1364,32 @@ export const useNotesStore = create<NotesState>()(
       },
       
       getFilteredNotes: () => {
-        const { notes, searchQuery } = get()
-        const allNotes = notes.filter(n => !n.isDeleted)
+        const { notes, searchQuery, selectedTags, taggedNoteIds, showUpcoming, noteKindFilter } = get()
+        const hasTag = createTagMatcher(taggedNoteIds)
+        const allNotes = notes.filter(n => !n.isDeleted && selectedTags.every(tag => hasTag(n, tag)) &&
+          (!showUpcoming || hasActiveReminder(n)) && matchesKindFilter(n, noteKindFilter))
         
         if (!searchQuery.trim()) {
-          return allNotes.sort((a, b) => {
-            if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1
-            return b.updatedAt - a.updatedAt
-          })
+          return allNotes.sort(showUpcoming ? compareReminders : compareNotes)
         }
 
-        const results = searchNotes(allNotes, searchQuery)
+        const results = searchNotes(allNotes, searchQuery, hasTag)
         return results.map(r => r.note)
       },
 
       getSearchResults: () => {
-        const { notes, searchQuery } = get()
-        const allNotes = notes.filter(n => !n.isDeleted)
+        const { notes, searchQuery, selectedTags, taggedNoteIds, showUpcoming, noteKindFilter } = get()
+        const hasTag = createTagMatcher(taggedNoteIds)
+        const allNotes = notes.filter(n => !n.isDeleted && selectedTags.every(tag => hasTag(n, tag)) &&
+          (!showUpcoming || hasActiveReminder(n)) && matchesKindFilter(n, noteKindFilter))
         
-        const sortedNotes = allNotes.sort((a, b) => {
-          if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1
-          return b.updatedAt - a.updatedAt
-        })
+        const sortedNotes = allNotes.sort(showUpcoming ? compareReminders : compareNotes)
 
         if (!searchQuery.trim()) {
           return sortedNotes.map(note => ({ note, query: '' }))
         }
 
-        return searchNotes(sortedNotes, searchQuery)
+        return searchNotes(sortedNotes, searchQuery, hasTag)
       },
       
       getSelectedNote: () => {
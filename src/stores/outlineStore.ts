@@ -0,0 +1,31 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+interface OutlineState {
+  folded: Record<string, string[]>  // Folded heading keys per note
+  isPanelOpen: boolean
+  setFolded: (noteKey: string, keys: string[]) => void
+  setPanelOpen: (isOpen: boolean) => void
+}
+
+// Folds are per device - they're view state, not note content
+export const useOutlineStore = create<OutlineState>()(
+  persist(
+    (set, get) => ({
+      folded: {},
+      isPanelOpen: false,
+
+      setFolded: (noteKey, keys) => {
+        const folded = { ...get().folded }
+        if (keys.length > 0) folded[noteKey] = keys
+        else delete folded[noteKey]
+        set({ folded })
+      },
+
+      setPanelOpen: (isPanelOpen) => set({ isPanelOpen })
+    }),
+    {
+      name: 'outline-storage'
+    }
+  )
+)
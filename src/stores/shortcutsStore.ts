@@ -0,0 +1,62 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  findShortcutAction,
+  resolveShortcuts,
+  type ShortcutAction
+} from '@/lib/shortcuts'
+
+interface ShortcutsState {
+  overrides: Partial<Record<ShortcutAction, string | null>>  // Only bindings changed from the defaults
+  // Bind a combo (null = unbind); returns the action it was taken from, if any
+  setShortcut: (action: ShortcutAction, combo: string | null) => ShortcutAction | undefined
+  resetShortcut: (action: ShortcutAction) => void
+  resetAllShortcuts: () => void
+}
+
+export const useShortcutsStore = create<ShortcutsState>()(
+  persist(
+    (set, get) => ({
+      overrides: {},
+
+      setShortcut: (action, combo) => {
+        const overrides = { ...get().overrides }
+        const displaced = combo ? findShortcutAction(resolveShortcuts(overrides), combo) : undefined
+        if (displaced && displaced !== action) overrides[displaced] = null
+
+        if (combo === DEFAULT_SHORTCUTS[action]) delete overrides[action]
+        else overrides[action] = combo
+
+        set({ overrides })
+        return displaced !== action ? displaced : undefined
+      },
+
+      resetShortcut: (action) => {
+        const overrides = { ...get().overrides }
+        delete overrides[action]
+        // The default may be in use elsewhere now - that action loses it
+        const combo = DEFAULT_SHORTCUTS[action]
+        const bindings = resolveShortcuts(overrides)
+        for (const other of SHORTCUT_ACTIONS) {
+          if (other !== action && combo && bindings[other] === combo) overrides[other] = null
+        }
+        set({ overrides })
+      },
+
+      resetAllShortcuts: () => set({ overrides: {} })
+    }),
+    {
+      name: 'shortcuts-storage'
+    }
+  )
+)
+
+/**
+ * Effective bindings for every action
+ */
+export function useShortcutBindings(): Record<ShortcutAction, string | null> {
+  const overrides = useShortcutsStore(state => state.overrides)
+  return resolveShortcuts(overrides)
+}
@@ -0,0 +1,111 @@
+import { create } from 'zustand'
+import type { NoteTemplate } from '@/types'
+import { generateId } from '@/lib/utils'
+import { useMigrationStore } from '@/stores/migrationStore'
+import {
+  getAllTemplates,
+  saveTemplate,
+  deleteTemplate as deleteTemplateRecord,
+  replaceAllTemplates
+} from '@/lib/db/templateRepository'
+import { addTombstone } from '@/lib/db/tombstoneRepository'
+import { isIndexedDBAvailable } from '@/lib/db/utils'
+
+interface TemplatesState {
+  templates: NoteTemplate[]
+
+  loadTemplates: () => Promise<void>
+  createTemplate: (name: string, title: string, content: string) => NoteTemplate | undefined
+  deleteTemplate: (id: string) => void
+  applySyncedTemplates: (syncedTemplates: NoteTemplate[], sentTemplates: NoteTemplate[]) => Promise<void>
+  reset: () => void
+}
+
+export const useTemplatesStore = create<TemplatesState>()((set, get) => ({
+  templates: [],
+
+  loadTemplates: async () => {
+    if (!isIndexedDBAvailable()) return
+    try {
+      set({ templates: await getAllTemplates() })
+    } catch (error) {
+      console.error('[TemplatesStore] Failed to load templates:', error)
+    }
+  },
+
+  createTemplate: (name, title, content) => {
+    if (useMigrationStore.getState().isReadOnly()) {
+      console.warn('[TemplatesStore] Cannot create template during migration (read-only mode)')
+      return undefined
+    }
+
+    const now = Date.now()
+    const template: NoteTemplate = {
+      id: generateId(),
+      name: name.trim(),
+      title,
+      content,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      syncStatus: 'pending'
+    }
+
+    set((state) => ({ templates: [...state.templates, template] }))
+    saveTemplate(template).catch(console.error)
+    return template
+  },
+
+  deleteTemplate: (id) => {
+    if (useMigrationStore.getState().isReadOnly()) {
+      console.warn('[TemplatesStore] Cannot delete template during migration (read-only mode)')
+      return
+    }
+
+    set((state) => ({ templates: state.templates.filter(template => template.id !== id) }))
+
+    Promise.all([
+      deleteTemplateRecord(id),
+      addTombstone(id, 'template')
+    ]).catch(console.error)
+
+    // Tombstones don't mark anything pending, so nudge the sync scheduler
+    import('./notesStore')
+      .then(({ smartSyncManager }) => smartSyncManager.recordActivity())
+      .catch(console.error)
+  },
+
+  // Merge sync results with templates edited or created while syncing
+  applySyncedTemplates: async (syncedTemplates, sentTemplates) => {
+    const syncedById = new Map(syncedTemplates.map(template => [template.id, template]))
+    const sentIds = new Set(sentTemplates.map(template => template.id))
+
+    set((state) => {
+      const currentById = new Map(state.templates.map(template => [template.id, template]))
+      const templates = syncedTemplates
+        // Sent but gone now - deleted during sync
+        .filter(synced => !sentIds.has(synced.id) || currentById.has(synced.id))
+        .map(synced => {
+          const current = currentById.get(synced.id)
+          return current && current.syncStatus === 'pending' && current.version > synced.version
+            ? current
+            : synced
+        })
+
+      // Created during sync - not part of this round yet
+      for (const current of state.templates) {
+        if (!syncedById.has(current.id) && !sentIds.has(current.id)) {
+          templates.push(current)
+        }
+      }
+
+      return { templates }
+    })
+
+    if (isIndexedDBAvailable()) {
+      await replaceAllTemplates(get().templates)
+    }
+  },
+
+  reset: () => set({ templates: [] })
+}))
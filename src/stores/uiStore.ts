@@ -1,18 +1,27 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import type { DailyNoteFormat } from '@/lib/dailyNotes'
 
 export type ModalSize = 'default' | 'large' | 'xlarge'
 
 interface UIState {
   modalSize: ModalSize
   setModalSize: (size: ModalSize) => void
+  dailyNoteFormat: DailyNoteFormat   // Title format for new daily notes
+  setDailyNoteFormat: (format: DailyNoteFormat) => void
+  askNotesEmbeddings: boolean        // Also match notes by meaning when asking across notes
+  setAskNotesEmbeddings: (enabled: boolean) => void
 }
 
 export const useUIStore = create<UIState>()(
   persist(
     (set) => ({
       modalSize: 'default',
-      setModalSize: (modalSize) => set({ modalSize })
+      setModalSize: (modalSize) => set({ modalSize }),
+      dailyNoteFormat: 'PPPP',
+      setDailyNoteFormat: (dailyNoteFormat) => set({ dailyNoteFormat }),
+      askNotesEmbeddings: false,
+      setAskNotesEmbeddings: (askNotesEmbeddings) => set({ askNotesEmbeddings })
     }),
     {
       name: 'ui-storage'
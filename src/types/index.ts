@@ -12,6 +12,28 @@ export interface AIChatMessage {
   timestamp: number
 }
 
+// A named conversation with the AI about a note
+export interface AIChatThread {
+  id: string
+  name: string                 // Empty until the first question names it
+  messages: AIChatMessage[]
+  summary?: string             // Summary of older turns that no longer fit the context budget
+  summarizedCount?: number     // How many leading messages the summary covers
+  createdAt: number
+  updatedAt: number
+}
+
+export type ReminderRepeat = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+export interface NoteReminder {
+  at: number                 // When the reminder is due (next occurrence for recurring ones)
+  repeat: ReminderRepeat
+  notifiedAt?: number        // Last time a notification was shown - stops other devices repeating it
+}
+
+// Daily notes are journal entries, one per day
+export type NoteKind = 'note' | 'daily'
+
 export interface Note {
   id: string
   title: string
@@ -30,7 +52,50 @@ export interface Note {
   isDeleted?: boolean
   deletedAt?: number
   publicFileId?: string  // ID of the public shared file on Drive
-  aiChatHistory?: AIChatMessage[]  // AI chat history for this note
+  aiChatHistory?: AIChatThread[] | AIChatMessage[]  // AI chat threads for this note (older notes hold one plain list of messages)
+  notebookId?: string    // Notebook this note is filed in (none = unfiled)
+  tags?: string[]        // #tags found in content, normalized to lowercase
+  reminder?: NoteReminder
+  kind?: NoteKind        // Unset for regular notes
+  journalDate?: string   // Daily notes: the day they belong to, yyyy-MM-dd
+}
+
+export interface Notebook {
+  id: string
+  name: string
+  parentId: string | null      // Parent notebook (null = top level)
+  createdAt: number
+  updatedAt: number
+  version: number
+  syncStatus: 'synced' | 'pending' | 'error'
+}
+
+// Reusable note skeleton - {{placeholders}} are filled in when a note is made from it
+export interface NoteTemplate {
+  id: string
+  name: string
+  title: string
+  content: string
+  createdAt: number
+  updatedAt: number
+  version: number
+  syncStatus: 'synced' | 'pending' | 'error'
+}
+
+// Where the answer of a custom AI action goes
+export type AIPromptOutput = 'replace' | 'insert-below' | 'new-note'
+
+// User-defined AI action - its prompt has {{selection}} and {{note}} placeholders
+export interface AIPromptAction {
+  id: string
+  name: string
+  icon: string                 // Key of an icon in AI_ACTION_ICONS
+  prompt: string
+  output: AIPromptOutput
+  createdAt: number
+  updatedAt: number
+  version: number
+  syncStatus: 'synced' | 'pending' | 'error'
 }
 
 export interface User {
@@ -114,6 +114,7 @@ export default defineConfig({
                 }
             },
             workbox: {
+                importScripts: ['reminder-sw.js'], // Reminder notification clicks
                 globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2,json}'],
                 maximumFileSizeToCacheInBytes: 10 * 1024 * 1024, // 10 MB limit
                 // Cache strategies for different resources